@@ -0,0 +1,2 @@
+-- Add JSON_API to SourceType enum
+ALTER TYPE "SourceType" ADD VALUE 'JSON_API';
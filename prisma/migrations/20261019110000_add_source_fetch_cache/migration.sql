@@ -0,0 +1,4 @@
+-- Add conditional fetch cache columns to sources table
+ALTER TABLE "sources" ADD COLUMN "http_etag" VARCHAR(255);
+ALTER TABLE "sources" ADD COLUMN "http_last_modified" VARCHAR(100);
+ALTER TABLE "sources" ADD COLUMN "content_hash" VARCHAR(64);
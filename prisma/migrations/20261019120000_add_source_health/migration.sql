@@ -0,0 +1,21 @@
+-- Add circuit breaker state to sources and a status transition log
+ALTER TABLE "sources" ADD COLUMN "consecutive_failures" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "sources" ADD COLUMN "next_retry_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "source_status_changes" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "source_id" TEXT NOT NULL,
+    "from_status" "SourceStatus" NOT NULL,
+    "to_status" "SourceStatus" NOT NULL,
+    "reason" TEXT NOT NULL,
+
+    CONSTRAINT "source_status_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "source_status_changes_source_id_created_at_idx" ON "source_status_changes"("source_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "source_status_changes" ADD CONSTRAINT "source_status_changes_source_id_fkey" FOREIGN KEY ("source_id") REFERENCES "sources"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- Index odds history lookups per game and sportsbook
+CREATE INDEX "odds_snapshots_org_id_external_game_id_sportsbook_created_at_idx" ON "odds_snapshots"("org_id", "external_game_id", "sportsbook", "created_at");
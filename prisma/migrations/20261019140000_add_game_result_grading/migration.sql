@@ -0,0 +1,4 @@
+-- Grade final games against each sportsbook's closing line
+ALTER TABLE "game_results" ADD COLUMN "moneyline_winner" VARCHAR(50);
+ALTER TABLE "game_results" ADD COLUMN "grading" JSONB;
+ALTER TABLE "game_results" ADD COLUMN "graded_at" TIMESTAMP(3);
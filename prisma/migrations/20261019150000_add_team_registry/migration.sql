@@ -0,0 +1,50 @@
+-- Canonical team registry with aliases seen at ingest
+
+-- CreateTable
+CREATE TABLE "teams" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "org_id" TEXT NOT NULL,
+    "sport" "Sport" NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "city" VARCHAR(100) NOT NULL,
+    "nickname" VARCHAR(100) NOT NULL,
+    "abbreviation" VARCHAR(10) NOT NULL,
+
+    CONSTRAINT "teams_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "team_aliases" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "org_id" TEXT NOT NULL,
+    "sport" "Sport" NOT NULL,
+    "alias" VARCHAR(255) NOT NULL,
+    "raw_name" VARCHAR(255) NOT NULL,
+    "team_id" TEXT,
+    "seen_count" INTEGER NOT NULL DEFAULT 1,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "team_aliases_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "teams_org_id_sport_name_key" ON "teams"("org_id", "sport", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "team_aliases_org_id_sport_alias_key" ON "team_aliases"("org_id", "sport", "alias");
+
+-- CreateIndex
+CREATE INDEX "team_aliases_org_id_team_id_idx" ON "team_aliases"("org_id", "team_id");
+
+-- AddForeignKey
+ALTER TABLE "teams" ADD CONSTRAINT "teams_org_id_fkey" FOREIGN KEY ("org_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "team_aliases" ADD CONSTRAINT "team_aliases_org_id_fkey" FOREIGN KEY ("org_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "team_aliases" ADD CONSTRAINT "team_aliases_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
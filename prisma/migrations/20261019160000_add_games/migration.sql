@@ -0,0 +1,87 @@
+-- First-class games with per-source external IDs, linked from odds, results, news and candidates
+
+-- CreateTable
+CREATE TABLE "games" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "org_id" TEXT NOT NULL,
+    "sport" "Sport" NOT NULL,
+    "home_team" VARCHAR(255) NOT NULL,
+    "away_team" VARCHAR(255) NOT NULL,
+    "game_date" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "games_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "game_external_ids" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "org_id" TEXT NOT NULL,
+    "game_id" TEXT NOT NULL,
+    "source_id" TEXT NOT NULL,
+    "external_game_id" VARCHAR(255) NOT NULL,
+
+    CONSTRAINT "game_external_ids_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "odds_snapshots" ADD COLUMN "game_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "game_results" ADD COLUMN "game_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "news_items" ADD COLUMN "game_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "candidates" ADD COLUMN "game_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "games_org_id_sport_game_date_idx" ON "games"("org_id", "sport", "game_date");
+
+-- CreateIndex
+CREATE INDEX "games_org_id_home_team_away_team_game_date_idx" ON "games"("org_id", "home_team", "away_team", "game_date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "game_external_ids_source_id_external_game_id_key" ON "game_external_ids"("source_id", "external_game_id");
+
+-- CreateIndex
+CREATE INDEX "game_external_ids_game_id_idx" ON "game_external_ids"("game_id");
+
+-- CreateIndex
+CREATE INDEX "odds_snapshots_game_id_sportsbook_created_at_idx" ON "odds_snapshots"("game_id", "sportsbook", "created_at");
+
+-- CreateIndex
+CREATE INDEX "game_results_game_id_idx" ON "game_results"("game_id");
+
+-- CreateIndex
+CREATE INDEX "news_items_game_id_idx" ON "news_items"("game_id");
+
+-- CreateIndex
+CREATE INDEX "candidates_game_id_idx" ON "candidates"("game_id");
+
+-- AddForeignKey
+ALTER TABLE "games" ADD CONSTRAINT "games_org_id_fkey" FOREIGN KEY ("org_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "game_external_ids" ADD CONSTRAINT "game_external_ids_org_id_fkey" FOREIGN KEY ("org_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "game_external_ids" ADD CONSTRAINT "game_external_ids_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "game_external_ids" ADD CONSTRAINT "game_external_ids_source_id_fkey" FOREIGN KEY ("source_id") REFERENCES "sources"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "odds_snapshots" ADD CONSTRAINT "odds_snapshots_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "game_results" ADD CONSTRAINT "game_results_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "news_items" ADD CONSTRAINT "news_items_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "candidates" ADD CONSTRAINT "candidates_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- Last side to lead a live game, for lead-change detection across ties
+
+-- AlterTable
+ALTER TABLE "game_results" ADD COLUMN "leader" VARCHAR(10);
@@ -0,0 +1,59 @@
+-- Stories clustering news items from different sources
+
+-- CreateTable
+CREATE TABLE "stories" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "org_id" TEXT NOT NULL,
+    "sport" "Sport" NOT NULL,
+    "type" "NewsItemType" NOT NULL,
+    "headline" VARCHAR(1000) NOT NULL,
+    "lead_item_id" TEXT,
+    "first_reported_at" TIMESTAMP(3) NOT NULL,
+    "last_reported_at" TIMESTAMP(3) NOT NULL,
+    "item_count" INTEGER NOT NULL DEFAULT 1,
+    "source_count" INTEGER NOT NULL DEFAULT 1,
+    "teams" JSONB NOT NULL DEFAULT '[]',
+    "players" JSONB NOT NULL DEFAULT '[]',
+    "importance_score" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "score_breakdown" JSONB NOT NULL DEFAULT '{}',
+    "scored_at" TIMESTAMP(3),
+
+    CONSTRAINT "stories_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "news_items" ADD COLUMN "story_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "stories_org_id_sport_last_reported_at_idx" ON "stories"("org_id", "sport", "last_reported_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "stories_org_id_last_reported_at_idx" ON "stories"("org_id", "last_reported_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "stories_org_id_importance_score_idx" ON "stories"("org_id", "importance_score" DESC);
+
+-- CreateIndex
+CREATE INDEX "news_items_story_id_idx" ON "news_items"("story_id");
+
+-- AddForeignKey
+ALTER TABLE "stories" ADD CONSTRAINT "stories_org_id_fkey" FOREIGN KEY ("org_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "news_items" ADD CONSTRAINT "news_items_story_id_fkey" FOREIGN KEY ("story_id") REFERENCES "stories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: existing items become single-item stories so the feed keeps them
+INSERT INTO "stories" (
+    "id", "created_at", "updated_at", "org_id", "sport", "type", "headline", "lead_item_id",
+    "first_reported_at", "last_reported_at", "teams", "players",
+    "importance_score", "score_breakdown", "scored_at"
+)
+SELECT
+    'story_' || "id", "created_at", CURRENT_TIMESTAMP, "org_id", "sport", "type", "headline", "id",
+    "published_at", "published_at", "teams", "players",
+    "importance_score", "score_breakdown", CASE WHEN "is_processed" THEN "updated_at" END
+FROM "news_items";
+
+UPDATE "news_items" SET "story_id" = 'story_' || "id";
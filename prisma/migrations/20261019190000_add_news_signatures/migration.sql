@@ -0,0 +1,17 @@
+-- Deduplication signatures on news items. Existing items keep null
+-- signatures; duplicate checks only look back 48 hours.
+
+-- AlterTable
+ALTER TABLE "news_items" ADD COLUMN "content_hash" VARCHAR(16),
+ADD COLUMN "simhash" VARCHAR(16),
+ADD COLUMN "simhash_bands" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN "duplicate_of_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "news_items_org_id_content_hash_idx" ON "news_items"("org_id", "content_hash");
+
+-- CreateIndex
+CREATE INDEX "news_items_simhash_bands_idx" ON "news_items" USING GIN ("simhash_bands");
+
+-- CreateIndex
+CREATE INDEX "news_items_org_id_created_at_idx" ON "news_items"("org_id", "created_at");
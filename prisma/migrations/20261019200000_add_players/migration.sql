@@ -0,0 +1,33 @@
+-- Player dictionary for roster-backed entity extraction
+
+-- CreateTable
+CREATE TABLE "players" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "org_id" TEXT NOT NULL,
+    "sport" "Sport" NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "team" VARCHAR(255),
+    "position" VARCHAR(20),
+    "aliases" JSONB NOT NULL DEFAULT '[]',
+    "external_id" VARCHAR(100),
+    "origin" VARCHAR(20) NOT NULL DEFAULT 'IMPORT',
+
+    CONSTRAINT "players_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "news_items" ADD COLUMN "player_mentions" JSONB NOT NULL DEFAULT '[]';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "players_org_id_sport_external_id_key" ON "players"("org_id", "sport", "external_id");
+
+-- CreateIndex
+CREATE INDEX "players_org_id_sport_name_idx" ON "players"("org_id", "sport", "name");
+
+-- CreateIndex
+CREATE INDEX "players_org_id_sport_team_idx" ON "players"("org_id", "sport", "team");
+
+-- AddForeignKey
+ALTER TABLE "players" ADD CONSTRAINT "players_org_id_fkey" FOREIGN KEY ("org_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- Per-source authority and the weight profile behind each importance score
+
+-- AlterTable
+ALTER TABLE "sources" ADD COLUMN "authority" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "news_items" ADD COLUMN "score_profile" VARCHAR(32);
+
+-- AlterTable
+ALTER TABLE "stories" ADD COLUMN "score_profile" VARCHAR(32);
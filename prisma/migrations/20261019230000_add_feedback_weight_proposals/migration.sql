@@ -0,0 +1,57 @@
+-- Producer feedback store and learned weight proposals
+
+-- CreateEnum
+CREATE TYPE "FeedbackTarget" AS ENUM ('IMPORTANCE', 'CLIP_MATCH');
+
+-- CreateEnum
+CREATE TYPE "FeedbackKind" AS ENUM ('NEWS_DISMISSED', 'CLIP_PAIRED', 'CLIP_CONFIRMED', 'CLIP_UNPAIRED', 'CANDIDATE_SHORTLISTED', 'CANDIDATE_EXPORTED', 'CANDIDATE_DISMISSED', 'CANDIDATE_LOGGED');
+
+-- CreateEnum
+CREATE TYPE "WeightProposalStatus" AS ENUM ('PENDING', 'ACCEPTED', 'REJECTED', 'SUPERSEDED');
+
+-- CreateTable
+CREATE TABLE "feedback_events" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "org_id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "target" "FeedbackTarget" NOT NULL,
+    "kind" "FeedbackKind" NOT NULL,
+    "label" BOOLEAN NOT NULL,
+    "news_item_id" TEXT,
+    "candidate_id" TEXT,
+    "features" JSONB NOT NULL,
+    "score_profile" VARCHAR(32),
+
+    CONSTRAINT "feedback_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "weight_proposals" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "org_id" TEXT NOT NULL,
+    "target" "FeedbackTarget" NOT NULL,
+    "status" "WeightProposalStatus" NOT NULL DEFAULT 'PENDING',
+    "weights" JSONB NOT NULL,
+    "baseline_weights" JSONB NOT NULL,
+    "metrics" JSONB NOT NULL,
+    "created_by_user_id" TEXT,
+    "reviewed_by_user_id" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+
+    CONSTRAINT "weight_proposals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "feedback_events_org_id_target_created_at_idx" ON "feedback_events"("org_id", "target", "created_at");
+
+-- CreateIndex
+CREATE INDEX "weight_proposals_org_id_target_status_idx" ON "weight_proposals"("org_id", "target", "status");
+
+-- AddForeignKey
+ALTER TABLE "feedback_events" ADD CONSTRAINT "feedback_events_org_id_fkey" FOREIGN KEY ("org_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "weight_proposals" ADD CONSTRAINT "weight_proposals_org_id_fkey" FOREIGN KEY ("org_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,80 @@
+-- User watchlists and alert notifications
+
+-- CreateEnum
+CREATE TYPE "NotificationPriority" AS ENUM ('NORMAL', 'HIGH');
+
+-- CreateEnum
+CREATE TYPE "DeliveryStatus" AS ENUM ('PENDING', 'SENT', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "watchlists" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "org_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "sport" "Sport",
+    "teams" JSONB NOT NULL DEFAULT '[]',
+    "players" JSONB NOT NULL DEFAULT '[]',
+    "keywords" JSONB NOT NULL DEFAULT '[]',
+    "types" JSONB NOT NULL DEFAULT '[]',
+    "min_importance" INTEGER NOT NULL DEFAULT 50,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "notify_email" BOOLEAN NOT NULL DEFAULT false,
+    "webhook_url" VARCHAR(2000),
+    "webhook_secret" VARCHAR(64) NOT NULL,
+
+    CONSTRAINT "watchlists_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notifications" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "org_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "watchlist_id" TEXT,
+    "news_item_id" TEXT,
+    "story_id" TEXT,
+    "priority" "NotificationPriority" NOT NULL DEFAULT 'NORMAL',
+    "title" VARCHAR(1000) NOT NULL,
+    "body" TEXT,
+    "url" VARCHAR(500),
+    "read_at" TIMESTAMP(3),
+    "email_status" "DeliveryStatus",
+    "emailed_at" TIMESTAMP(3),
+    "webhook_status" "DeliveryStatus",
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "watchlists_org_id_is_active_idx" ON "watchlists"("org_id", "is_active");
+
+-- CreateIndex
+CREATE INDEX "watchlists_user_id_idx" ON "watchlists"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notifications_watchlist_id_story_id_key" ON "notifications"("watchlist_id", "story_id");
+
+-- CreateIndex
+CREATE INDEX "notifications_user_id_read_at_idx" ON "notifications"("user_id", "read_at");
+
+-- CreateIndex
+CREATE INDEX "notifications_user_id_email_status_idx" ON "notifications"("user_id", "email_status");
+
+-- AddForeignKey
+ALTER TABLE "watchlists" ADD CONSTRAINT "watchlists_org_id_fkey" FOREIGN KEY ("org_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "watchlists" ADD CONSTRAINT "watchlists_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_org_id_fkey" FOREIGN KEY ("org_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_watchlist_id_fkey" FOREIGN KEY ("watchlist_id") REFERENCES "watchlists"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- Breaking-story velocity detection
+
+-- AlterTable
+ALTER TABLE "stories" ADD COLUMN     "velocity" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "is_breaking" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "breaking_at" TIMESTAMP(3);
+
+-- DropIndex
+DROP INDEX "notifications_watchlist_id_story_id_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notifications_watchlist_id_story_id_priority_key" ON "notifications"("watchlist_id", "story_id", "priority");
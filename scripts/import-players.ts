@@ -0,0 +1,33 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Import a JSON or CSV roster file into an org's player dictionary
+ * Run with: npx tsx scripts/import-players.ts <orgId> <sport> <file>
+ */
+
+import { readFile } from "fs/promises";
+import type { Sport } from "@prisma/client";
+import { importPlayers, parsePlayerImport } from "../src/server/services/player-registry.service";
+import { prisma } from "../src/lib/prisma";
+
+async function main() {
+  const [orgId, sport, file] = process.argv.slice(2);
+
+  if (!orgId || !sport || !file) {
+    console.error("Usage: npx tsx scripts/import-players.ts <orgId> <sport> <file>");
+    process.exit(1);
+  }
+
+  const players = parsePlayerImport(await readFile(file, "utf8"));
+  console.log(`Parsed ${players.length} players from ${file}`);
+
+  const result = await importPlayers(orgId, sport.toUpperCase() as Sport, players);
+  console.log(`Created ${result.created}, updated ${result.updated}`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Import failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,51 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Train importance or clip match weights on an org's feedback and store them
+ * as a pending proposal for a manager to review
+ * Run with: npx tsx scripts/train-weights.ts <orgId> [importance|clip]
+ */
+
+import type { FeedbackTarget } from "@prisma/client";
+import type { WeightProposalMetrics } from "../src/server/services/weight-trainer.service";
+import { proposeWeights } from "../src/server/services/weight-trainer.service";
+import { prisma } from "../src/lib/prisma";
+
+const TARGETS: Record<string, FeedbackTarget> = {
+  importance: "IMPORTANCE",
+  clip: "CLIP_MATCH",
+};
+
+async function main() {
+  const [orgId, name] = process.argv.slice(2);
+  const targets = name ? [TARGETS[name]] : Object.values(TARGETS);
+
+  if (!orgId || targets.some((target) => !target)) {
+    console.error("Usage: npx tsx scripts/train-weights.ts <orgId> [importance|clip]");
+    process.exit(1);
+  }
+
+  for (const target of targets) {
+    try {
+      const proposal = await proposeWeights(orgId, target);
+      const metrics = proposal.metrics as unknown as WeightProposalMetrics;
+
+      console.log(`${target}: proposal ${proposal.id}`);
+      console.log(
+        `  precision@${metrics.k} ${metrics.precisionBefore.toFixed(2)} -> ` +
+          `${metrics.precisionAfter.toFixed(2)} (${metrics.train} train, ${metrics.test} held out)`
+      );
+      console.log(`  weights ${JSON.stringify(proposal.weights)}`);
+    } catch (error) {
+      console.error(`${target}: ${error instanceof Error ? error.message : error}`);
+      process.exitCode = 1;
+    }
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Training failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,160 @@
+export const dynamic = "force-dynamic";
+
+import { Brain, Gauge, Rss } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getTenantContext } from "@/lib/tenant-prisma";
+import {
+  getImportanceOverview,
+  getWeightLearningOverview,
+} from "@/server/actions/admin/importance";
+import {
+  DEFAULT_FACTOR_WEIGHTS,
+  DEFAULT_TOPIC_WEIGHTS,
+} from "@/server/services/importance-scorer";
+import {
+  ImportanceWeightsForm,
+  SourceAuthorityInput,
+} from "@/components/features/admin/importance-settings-form";
+import { WeightProposalControls } from "@/components/features/admin/weight-proposal-controls";
+
+export default async function AdminImportancePage() {
+  const { isManager } = await getTenantContext();
+  const [{ settings, profile, sources }, learning] = await Promise.all([
+    getImportanceOverview(),
+    getWeightLearningOverview(),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">Importance Scoring</h1>
+        <p className="text-muted-foreground">
+          How news items are weighed for the feed, alerts and clip pairing
+        </p>
+      </div>
+
+      {/* Weights */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            <CardTitle>Weights</CardTitle>
+          </div>
+          <CardDescription>
+            Factor weights set how much each signal counts toward the 0-100 score; topic weights
+            score each news type. Leave a field blank to use the default. Each score records the
+            weight profile that produced it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ImportanceWeightsForm
+            settings={settings}
+            defaults={{ weights: DEFAULT_FACTOR_WEIGHTS, topicWeights: DEFAULT_TOPIC_WEIGHTS }}
+            profileId={profile.id}
+            canEdit={isManager}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Learned weights */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Brain className="h-5 w-5" />
+            <CardTitle>Learned Weights</CardTitle>
+          </div>
+          <CardDescription>
+            Dismissed news, paired and unpaired clips, shortlisted and logged candidates are
+            recorded as feedback. Training fits weights to it on this server and checks them
+            against the newest feedback before you accept.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <h3 className="font-medium">Importance</h3>
+            <WeightProposalControls
+              target="IMPORTANCE"
+              feedback={learning.feedback.IMPORTANCE}
+              proposal={learning.proposals.IMPORTANCE}
+              canEdit={isManager}
+            />
+          </div>
+          <div className="space-y-2">
+            <h3 className="font-medium">Clip Matching</h3>
+            <WeightProposalControls
+              target="CLIP_MATCH"
+              feedback={learning.feedback.CLIP_MATCH}
+              proposal={learning.proposals.CLIP_MATCH}
+              canEdit={isManager}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Source authority */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Rss className="h-5 w-5" />
+            <CardTitle>Source Authority</CardTitle>
+          </div>
+          <CardDescription>
+            How much to trust each source, from 0 to 1. Blank sources are guessed from their name
+            (shown as the placeholder).
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sources.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No sources configured</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Sport</TableHead>
+                  <TableHead>Authority</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sources.map((source) => (
+                  <TableRow key={source.id}>
+                    <TableCell className="font-medium">{source.name}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{source.type.replace(/_/g, " ")}</Badge>
+                    </TableCell>
+                    <TableCell>{source.sport}</TableCell>
+                    <TableCell>
+                      <SourceAuthorityInput
+                        sourceId={source.id}
+                        authority={source.authority}
+                        guessed={source.guessedAuthority}
+                        canEdit={isManager}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
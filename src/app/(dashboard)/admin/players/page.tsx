@@ -0,0 +1,135 @@
+export const dynamic = "force-dynamic";
+
+import Link from "next/link";
+import { Upload, UserRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { SPORTS } from "@/lib/constants";
+import { getPlayers } from "@/server/actions/admin/players";
+import {
+  PlayerImportForm,
+  RosterRefreshButton,
+} from "@/components/features/admin/player-import-controls";
+import type { Sport } from "@prisma/client";
+
+interface AdminPlayersPageProps {
+  searchParams: Promise<{ sport?: string }>;
+}
+
+export default async function AdminPlayersPage({ searchParams }: AdminPlayersPageProps) {
+  const params = await searchParams;
+  const sport = (SPORTS.find((s) => s.value === params.sport)?.value ?? "NBA") as Sport;
+
+  const players = await getPlayers(sport);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Players</h1>
+          <p className="text-muted-foreground">
+            Player dictionary used to recognize players in news, by name, alias or last name
+          </p>
+        </div>
+        <RosterRefreshButton sport={sport} />
+      </div>
+
+      {/* Sport filter */}
+      <div className="flex flex-wrap gap-2">
+        {SPORTS.map((s) => (
+          <Link key={s.value} href={`/admin/players?sport=${s.value}`}>
+            <Button variant={s.value === sport ? "default" : "outline"} size="sm">
+              {s.value}
+            </Button>
+          </Link>
+        ))}
+      </div>
+
+      {/* Import */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            <CardTitle>Import</CardTitle>
+          </div>
+          <CardDescription>
+            A JSON array of players or a CSV with a header row. Columns: name, team, position,
+            aliases (separated by |) and id. Existing players are updated and keep their aliases.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PlayerImportForm sport={sport} />
+        </CardContent>
+      </Card>
+
+      {/* Dictionary */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <UserRound className="h-5 w-5" />
+            <CardTitle>{sport} Players</CardTitle>
+          </div>
+          <CardDescription>
+            {players.length} player{players.length !== 1 ? "s" : ""}.{" "}
+            {players.length === 0 &&
+              "Without a dictionary, players are guessed from capitalized names."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {players.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Player</TableHead>
+                  <TableHead>Team</TableHead>
+                  <TableHead>Position</TableHead>
+                  <TableHead>Aliases</TableHead>
+                  <TableHead>From</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {players.map((player) => (
+                  <TableRow key={player.id}>
+                    <TableCell className="font-medium">{player.name}</TableCell>
+                    <TableCell>{player.team ?? "-"}</TableCell>
+                    <TableCell>
+                      {player.position ? <Badge variant="outline">{player.position}</Badge> : "-"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {(player.aliases as string[]).map((alias) => (
+                          <Badge key={alias} variant="secondary">
+                            {alias}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {player.origin === "ROSTER" ? "Roster source" : "Import"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
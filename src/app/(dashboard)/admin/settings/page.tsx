@@ -1,4 +1,4 @@
-import { Shield, Key, Bell, Database, Server } from "lucide-react";
+import { Shield, Key, Bell, Database, Server, TrendingUp, Sparkles } from "lucide-react";
 import {
   Card,
   CardContent,
@@ -8,6 +8,13 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { getTenantContext } from "@/lib/tenant-prisma";
+import { SPORTS } from "@/lib/constants";
+import { getAiAnalysisOverview, getLineMoveAlertSettings } from "@/server/actions/organization";
+import { resolveLineMoveThresholds } from "@/server/services/line-move.service";
+import { LineMoveSettingsForm } from "@/components/features/admin/line-move-settings-form";
+import { AiAnalysisSettingsForm } from "@/components/features/admin/ai-analysis-settings-form";
+import type { Sport } from "@prisma/client";
 
 // In a real app, these would come from environment variables or a settings store
 const systemSettings = {
@@ -39,7 +46,14 @@ function ApiKeyStatus({ configured }: { configured: boolean }) {
   );
 }
 
-export default function AdminSettingsPage() {
+export default async function AdminSettingsPage() {
+  const { isManager } = await getTenantContext();
+  const lineMoveSettings = await getLineMoveAlertSettings();
+  const aiAnalysis = await getAiAnalysisOverview();
+  const lineMoveDefaults = Object.fromEntries(
+    SPORTS.map((s) => [s.value, resolveLineMoveThresholds({}, s.value)])
+  ) as Record<Sport, ReturnType<typeof resolveLineMoveThresholds>>;
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -233,6 +247,49 @@ export default function AdminSettingsPage() {
         </Card>
       </div>
 
+      {/* Line move alerts */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5" />
+            <CardTitle>Line Move Alerts</CardTitle>
+          </div>
+          <CardDescription>
+            Spread or total moves larger than these thresholds within the window are posted to
+            the news feed as betting line items. Leave a field blank to use the default.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <LineMoveSettingsForm
+            settings={lineMoveSettings}
+            defaults={lineMoveDefaults}
+            canEdit={isManager}
+          />
+        </CardContent>
+      </Card>
+
+      {/* AI news analysis */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5" />
+            <CardTitle>AI News Analysis</CardTitle>
+          </div>
+          <CardDescription>
+            News items scoring at least the minimum pre-score on the rules are analyzed by Claude
+            for entities, type and time sensitivity. Once the daily budget is spent, scoring falls
+            back to the rules until tomorrow.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AiAnalysisSettingsForm
+            settings={aiAnalysis.settings}
+            usage={aiAnalysis.usage}
+            canEdit={isManager}
+          />
+        </CardContent>
+      </Card>
+
       {/* Note about settings management */}
       <Card>
         <CardContent className="py-6">
@@ -1,6 +1,6 @@
 import Link from "next/link";
 import { notFound } from "next/navigation";
-import { ArrowLeft, Edit, Trash2, Clock, CheckCircle, XCircle, AlertCircle } from "lucide-react";
+import { ArrowLeft, ArrowRight, Edit, Trash2, Clock, CheckCircle, XCircle, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -21,6 +21,7 @@ import {
 import { getSource } from "@/server/actions/sources";
 import { RunSourceButton } from "@/components/features/sources/run-source-button";
 import { DeleteSourceButton } from "@/components/features/sources/delete-source-button";
+import { guessSourceAuthority } from "@/server/services/importance-scorer";
 import { formatDistanceToNow, format } from "date-fns";
 
 interface SourceDetailPageProps {
@@ -107,6 +108,28 @@ export default async function SourceDetailPage({ params }: SourceDetailPageProps
                     {formatDistanceToNow(source.lastErrorAt, { addSuffix: true })}
                   </p>
                 )}
+                {source.nextRetryAt && (
+                  <p className="text-xs text-red-500 mt-1">
+                    Next automatic retry {formatDistanceToNow(source.nextRetryAt, { addSuffix: true })}
+                  </p>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Rate Limit Banner */}
+      {source.status === "RATE_LIMITED" && source.rateLimitResetAt && (
+        <Card className="border-orange-200 bg-orange-50">
+          <CardContent className="pt-4">
+            <div className="flex items-start gap-2">
+              <Clock className="h-5 w-5 text-orange-600 mt-0.5" />
+              <div>
+                <h3 className="font-medium text-orange-900">Rate Limited</h3>
+                <p className="text-sm text-orange-700 mt-1">
+                  Fetching resumes {formatDistanceToNow(source.rateLimitResetAt, { addSuffix: true })}
+                </p>
               </div>
             </div>
           </CardContent>
@@ -182,10 +205,22 @@ export default async function SourceDetailPage({ params }: SourceDetailPageProps
               <span className="text-sm text-muted-foreground">Error Count</span>
               <span className="text-sm font-medium text-red-600">{source.errorCount}</span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Consecutive Failures</span>
+              <span className="text-sm font-medium">{source.consecutiveFailures}</span>
+            </div>
             <div className="flex justify-between">
               <span className="text-sm text-muted-foreground">News Items</span>
               <span className="text-sm font-medium">{source._count.newsItems}</span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Authority</span>
+              <Link href="/admin/importance" className="text-sm hover:underline">
+                {source.authority !== null
+                  ? source.authority
+                  : `${guessSourceAuthority(source.name)} (from name)`}
+              </Link>
+            </div>
             <div className="flex justify-between">
               <span className="text-sm text-muted-foreground">Last Success</span>
               <span className="text-sm">
@@ -227,6 +262,56 @@ export default async function SourceDetailPage({ params }: SourceDetailPageProps
         </Card>
       </div>
 
+      {/* Status History */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Status History</CardTitle>
+          <CardDescription>Automatic and manual status transitions</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {source.statusChanges.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No status changes yet.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Transition</TableHead>
+                  <TableHead>When</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {source.statusChanges.map((change) => (
+                  <TableRow key={change.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{change.fromStatus}</Badge>
+                        <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                        <Badge variant={change.toStatus === "ACTIVE" ? "default" : "destructive"}>
+                          {change.toStatus}
+                        </Badge>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm text-muted-foreground" title={format(change.createdAt, "PPp")}>
+                        {formatDistanceToNow(change.createdAt, { addSuffix: true })}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm truncate max-w-[400px] block" title={change.reason}>
+                        {change.reason}
+                      </span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Fetch History */}
       <Card>
         <CardHeader>
@@ -1,5 +1,5 @@
 import Link from "next/link";
-import { Plus, Rss, Globe, Trophy, DollarSign, AlertCircle, Clock, Pause, Play } from "lucide-react";
+import { Plus, Rss, Globe, Trophy, DollarSign, Twitter, List, Braces, AlertCircle, Clock, Pause, Play } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -26,6 +26,9 @@ const SOURCE_TYPE_ICONS: Record<string, typeof Rss> = {
   WEBSITE_SCRAPE: Globe,
   ESPN_API: Trophy,
   SPORTSGRID_API: DollarSign,
+  TWITTER_SEARCH: Twitter,
+  TWITTER_LIST: List,
+  JSON_API: Braces,
 };
 
 const STATUS_COLORS: Record<string, string> = {
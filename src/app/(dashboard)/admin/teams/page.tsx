@@ -0,0 +1,151 @@
+export const dynamic = "force-dynamic";
+
+import Link from "next/link";
+import { Shirt, HelpCircle } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { SPORTS } from "@/lib/constants";
+import { getTeams, getUnknownAliases } from "@/server/actions/admin/teams";
+import {
+  AliasMergeControl,
+  MergedAliasBadge,
+} from "@/components/features/admin/team-alias-controls";
+import type { Sport } from "@prisma/client";
+
+interface AdminTeamsPageProps {
+  searchParams: Promise<{ sport?: string }>;
+}
+
+export default async function AdminTeamsPage({ searchParams }: AdminTeamsPageProps) {
+  const params = await searchParams;
+  const sport = (SPORTS.find((s) => s.value === params.sport)?.value ?? "NBA") as Sport;
+
+  const [teams, unknownAliases] = await Promise.all([getTeams(sport), getUnknownAliases(sport)]);
+  const teamOptions = teams.map((team) => ({ id: team.id, name: team.name }));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">Teams</h1>
+        <p className="text-muted-foreground">
+          Canonical team names used to line up odds, results and news across sources
+        </p>
+      </div>
+
+      {/* Sport filter */}
+      <div className="flex flex-wrap gap-2">
+        {SPORTS.map((s) => (
+          <Link key={s.value} href={`/admin/teams?sport=${s.value}`}>
+            <Button variant={s.value === sport ? "default" : "outline"} size="sm">
+              {s.value}
+            </Button>
+          </Link>
+        ))}
+      </div>
+
+      {/* Unknown aliases */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <HelpCircle className="h-5 w-5" />
+            <CardTitle>Unknown Names</CardTitle>
+          </div>
+          <CardDescription>
+            Team names from sources that didn&apos;t match a team. Merging renames stored odds
+            and results and applies to future fetches.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {unknownAliases.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No unknown team names for {sport}.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="text-center">Seen</TableHead>
+                  <TableHead>Last Seen</TableHead>
+                  <TableHead className="text-right">Merge Into</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {unknownAliases.map((alias) => (
+                  <TableRow key={alias.id}>
+                    <TableCell className="font-medium">{alias.rawName}</TableCell>
+                    <TableCell className="text-center font-mono">{alias.seenCount}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatDistanceToNow(alias.lastSeenAt, { addSuffix: true })}
+                    </TableCell>
+                    <TableCell>
+                      <AliasMergeControl aliasId={alias.id} teams={teamOptions} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Registry */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Shirt className="h-5 w-5" />
+            <CardTitle>{sport} Teams</CardTitle>
+          </div>
+          <CardDescription>
+            {teams.length} team{teams.length !== 1 ? "s" : ""}. Full name, abbreviation and
+            city + nickname always match; merged aliases are listed per team. Removing an alias
+            only affects future ingests and doesn&apos;t restore names a merge rewrote.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Team</TableHead>
+                <TableHead>Abbreviation</TableHead>
+                <TableHead>Aliases</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {teams.map((team) => (
+                <TableRow key={team.id}>
+                  <TableCell className="font-medium">{team.name}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{team.abbreviation}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {team.aliases.map((alias) => (
+                        <MergedAliasBadge key={alias.id} aliasId={alias.id} label={alias.rawName} />
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
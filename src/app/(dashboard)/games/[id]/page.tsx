@@ -0,0 +1,302 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ArrowLeft, Clock, DollarSign, Newspaper, Video } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { formatDistanceToNow } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
+import { getGame } from "@/server/actions/games";
+import { LineMovementChart } from "@/components/features/odds/line-movement-chart";
+import { OddsComparisonTable } from "@/components/features/odds/odds-comparison-table";
+import { OddsOpportunities } from "@/components/features/odds/odds-opportunities";
+import { compareGameLines } from "@/server/services/odds-comparison.service";
+import { analyzeGameOdds } from "@/server/services/odds-math.service";
+import { summarizeLineHistory } from "@/server/services/odds-history.service";
+import type { ResultGrading } from "@/server/services/bet-grading.service";
+import { SPORTSBOOK_NAMES } from "@/lib/constants";
+import type { OddsSnapshot } from "@prisma/client";
+
+interface GameDetailPageProps {
+  params: Promise<{ id: string }>;
+}
+
+function formatSigned(value: number | null | undefined): string {
+  if (value === null || value === undefined) return "-";
+  return `${value > 0 ? "+" : ""}${value}`;
+}
+
+export default async function GameDetailPage({ params }: GameDetailPageProps) {
+  const { id } = await params;
+
+  let game;
+  try {
+    game = await getGame(id);
+  } catch {
+    notFound();
+  }
+
+  const now = new Date();
+  const result = game.results[0];
+  const grading = result?.grading as ResultGrading | null | undefined;
+
+  // Line history per sportsbook
+  const byBook = new Map<string, OddsSnapshot[]>();
+  for (const snapshot of game.oddsSnapshots) {
+    const book = snapshot.sportsbook ?? "default";
+    byBook.set(book, [...(byBook.get(book) ?? []), snapshot]);
+  }
+  const books = Array.from(byBook.entries()).map(([book, snapshots]) => ({
+    label: SPORTSBOOK_NAMES[book] || book,
+    snapshots,
+    summary: summarizeLineHistory(snapshots),
+  }));
+
+  const comparison = game.oddsSnapshots.length > 0 ? compareGameLines(game.oddsSnapshots) : null;
+  const analysis = comparison ? analyzeGameOdds(comparison) : null;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start gap-4">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/games">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Link>
+        </Button>
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline">{game.sport}</Badge>
+            {result?.status && <Badge variant="secondary">{result.status}</Badge>}
+          </div>
+          <h1 className="text-2xl font-bold">
+            {game.awayTeam} @ {game.homeTeam}
+          </h1>
+          <div className="flex items-center gap-1 text-sm text-muted-foreground">
+            <Clock className="h-3 w-3" />
+            {formatInTimeZone(game.gameDate, "America/New_York", "EEE, MMM d h:mm a zzz")}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        {/* Main Content */}
+        <div className="md:col-span-2 space-y-6">
+          {/* Lines */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <DollarSign className="h-5 w-5" />
+                Lines
+              </CardTitle>
+              <CardDescription>
+                {books.length} sportsbook{books.length !== 1 ? "s" : ""} ·{" "}
+                {game.oddsSnapshots.length} snapshot{game.oddsSnapshots.length !== 1 ? "s" : ""}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {comparison && analysis ? (
+                <>
+                  <OddsComparisonTable
+                    comparison={comparison}
+                    sportsbookNames={SPORTSBOOK_NAMES}
+                    analysis={analysis}
+                  />
+                  <OddsOpportunities
+                    analysis={analysis}
+                    homeTeam={game.homeTeam}
+                    awayTeam={game.awayTeam}
+                    sportsbookNames={SPORTSBOOK_NAMES}
+                  />
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <LineMovementChart
+                      title="Spread"
+                      until={now < game.gameDate ? now : game.gameDate}
+                      series={books.map((book) => ({
+                        label: book.label,
+                        points: book.snapshots
+                          .filter((snapshot) => snapshot.spread !== null)
+                          .map((snapshot) => ({ at: snapshot.createdAt, value: snapshot.spread! })),
+                      }))}
+                    />
+                    <LineMovementChart
+                      title="Total"
+                      until={now < game.gameDate ? now : game.gameDate}
+                      series={books.map((book) => ({
+                        label: book.label,
+                        points: book.snapshots
+                          .filter((snapshot) => snapshot.overUnder !== null)
+                          .map((snapshot) => ({ at: snapshot.createdAt, value: snapshot.overUnder! })),
+                      }))}
+                    />
+                  </div>
+                  <div className="space-y-1 text-sm">
+                    {books.map(
+                      (book) =>
+                        book.summary && (
+                          <div key={book.label} className="flex justify-between">
+                            <span className="text-muted-foreground">{book.label}</span>
+                            <span className="font-mono">
+                              open {formatSigned(book.summary.opening.spread)} / {book.summary.opening.overUnder ?? "-"}
+                              {" → "}
+                              {book.summary.closing ? "close" : "now"}{" "}
+                              {formatSigned((book.summary.closing ?? book.summary.current).spread)} /{" "}
+                              {(book.summary.closing ?? book.summary.current).overUnder ?? "-"}
+                            </span>
+                          </div>
+                        )
+                    )}
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">No odds recorded for this game</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Related News */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Newspaper className="h-5 w-5" />
+                Related News
+              </CardTitle>
+              <CardDescription>News items mentioning both teams around game time</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {game.newsItems.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No related news yet</p>
+              ) : (
+                <div className="space-y-3">
+                  {game.newsItems.map((item) => (
+                    <Link
+                      key={item.id}
+                      href={`/news/${item.id}`}
+                      className="block rounded-lg border p-3 hover:bg-muted/50"
+                    >
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <Badge variant="secondary" className="text-xs">
+                          {item.type}
+                        </Badge>
+                        <span>Score: {Math.round(item.importanceScore)}</span>
+                        <span>{item.source.name}</span>
+                        <span>{formatDistanceToNow(item.publishedAt, { addSuffix: true })}</span>
+                      </div>
+                      <p className="mt-1 font-medium">{item.headline}</p>
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Clips */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Video className="h-5 w-5" />
+                Clips
+              </CardTitle>
+              <CardDescription>Clips paired with this game&apos;s news</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {game.candidates.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No clips paired yet</p>
+              ) : (
+                <div className="space-y-4">
+                  {game.candidates.map((candidate) => (
+                    <Link
+                      key={candidate.id}
+                      href={`/candidates/${candidate.id}`}
+                      className="flex items-start gap-4 rounded-lg border p-3 hover:bg-muted/50"
+                    >
+                      <img
+                        src={candidate.video.thumbnailUrl || undefined}
+                        alt=""
+                        className="w-32 h-20 object-cover rounded"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-medium line-clamp-2">{candidate.video.title}</h4>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {candidate.video.channelTitle} · {candidate.status}
+                        </p>
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          {/* Score */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Score</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {result && result.homeScore !== null && result.awayScore !== null ? (
+                <>
+                  <div className="flex justify-between font-mono">
+                    <span>{game.awayTeam}</span>
+                    <span>{result.awayScore}</span>
+                  </div>
+                  <div className="flex justify-between font-mono">
+                    <span>{game.homeTeam}</span>
+                    <span>{result.homeScore}</span>
+                  </div>
+                  {result.gradedAt && (
+                    <div className="space-y-1 border-t pt-2">
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">
+                          ATS (close {formatSigned(grading?.consensus.spread)})
+                        </span>
+                        <span>{result.spreadWinner ?? "-"}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">
+                          Total (close {grading?.consensus.overUnder ?? "-"})
+                        </span>
+                        <span>{result.totalResult ?? "-"}</span>
+                      </div>
+                    </div>
+                  )}
+                </>
+              ) : (
+                <p className="text-muted-foreground">No score yet</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Source IDs */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Source IDs</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {game.externalIds.length === 0 ? (
+                <p className="text-muted-foreground">Matched by teams and date only</p>
+              ) : (
+                game.externalIds.map((externalId) => (
+                  <div key={externalId.id} className="flex justify-between gap-2">
+                    <span className="text-muted-foreground">{externalId.source.name}</span>
+                    <span className="font-mono truncate">{externalId.externalGameId}</span>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import Link from "next/link";
+import { CalendarDays } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatInTimeZone } from "date-fns-tz";
+import { getGames } from "@/server/actions/games";
+
+export default async function GamesPage() {
+  const games = await getGames();
+
+  // Group by sport
+  const gamesBySport = games.reduce(
+    (acc, game) => {
+      if (!acc[game.sport]) {
+        acc[game.sport] = [];
+      }
+      acc[game.sport].push(game);
+      return acc;
+    },
+    {} as Record<string, typeof games>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">Games</h1>
+        <p className="text-muted-foreground">
+          Games from the last and next three days with their lines, scores, news and clips
+        </p>
+      </div>
+
+      {Object.keys(gamesBySport).length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <CalendarDays className="mx-auto h-12 w-12 text-muted-foreground" />
+            <h3 className="mt-4 text-lg font-semibold">No games yet</h3>
+            <p className="text-muted-foreground">
+              Games appear once odds or results sources report them.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        Object.entries(gamesBySport).map(([sport, sportGames]) => (
+          <Card key={sport}>
+            <CardHeader>
+              <CardTitle>{sport}</CardTitle>
+              <CardDescription>
+                {sportGames.length} game{sportGames.length !== 1 ? "s" : ""}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Game</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-center">Score</TableHead>
+                    <TableHead className="text-center">Odds</TableHead>
+                    <TableHead className="text-center">News</TableHead>
+                    <TableHead className="text-center">Clips</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sportGames.map((game) => {
+                    const result = game.results[0];
+
+                    return (
+                      <TableRow key={game.id}>
+                        <TableCell>
+                          <Link href={`/games/${game.id}`} className="hover:underline">
+                            <div className="font-medium">{game.awayTeam}</div>
+                            <div className="text-muted-foreground">@ {game.homeTeam}</div>
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {formatInTimeZone(game.gameDate, "America/New_York", "EEE, MMM d h:mm a")}
+                        </TableCell>
+                        <TableCell className="text-center font-mono">
+                          {result && result.awayScore !== null && result.homeScore !== null ? (
+                            <div>
+                              {result.awayScore}-{result.homeScore}
+                              {result.status && (
+                                <div className="text-xs text-muted-foreground">{result.status}</div>
+                              )}
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-center">{game._count.oddsSnapshots}</TableCell>
+                        <TableCell className="text-center">
+                          {game._count.newsItems > 0 ? (
+                            <Badge variant="secondary">{game._count.newsItems}</Badge>
+                          ) : (
+                            <span className="text-muted-foreground">0</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-center">
+                          {game._count.candidates > 0 ? (
+                            <Badge variant="secondary">{game._count.candidates}</Badge>
+                          ) : (
+                            <span className="text-muted-foreground">0</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
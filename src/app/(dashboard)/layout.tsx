@@ -1,5 +1,6 @@
 import { redirect } from "next/navigation";
 import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
 import { Sidebar } from "@/components/layout/sidebar";
 import { Header } from "@/components/layout/header";
 
@@ -25,12 +26,18 @@ export default async function DashboardLayout({
     organizationRole: session.user.organizationRole,
   };
 
+  const unreadNotifications = user.organizationId
+    ? await prisma.notification.count({
+        where: { orgId: user.organizationId, userId: user.id, readAt: null },
+      })
+    : 0;
+
   return (
     <div className="min-h-screen bg-background">
       <div className="flex h-screen">
         <Sidebar />
         <div className="flex-1 flex flex-col overflow-hidden">
-          <Header user={user} />
+          <Header user={user} unreadNotifications={unreadNotifications} />
           <main className="flex-1 overflow-y-auto p-6">{children}</main>
         </div>
       </div>
@@ -8,6 +8,7 @@ import {
   Check,
   X,
   AlertCircle,
+  Zap,
 } from "lucide-react";
 import { stripHtml } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -22,6 +23,12 @@ import { Badge } from "@/components/ui/badge";
 import { getNewsItem } from "@/server/actions/news";
 import { formatDistanceToNow, format } from "date-fns";
 import { ClipMatchActions } from "@/components/features/news/clip-match-actions";
+import {
+  MIN_PLAYER_CONFIDENCE,
+  type PlayerMention,
+} from "@/server/services/player-registry.service";
+import { parseStoredAiAnalysis } from "@/server/services/news-ai.service";
+import { BREAKING_WINDOW_MINUTES } from "@/server/services/breaking.service";
 
 interface NewsDetailPageProps {
   params: Promise<{ id: string }>;
@@ -57,8 +64,10 @@ export default async function NewsDetailPage({ params }: NewsDetailPageProps) {
 
   const teams = newsItem.teams as string[];
   const players = newsItem.players as string[];
+  const playerMentions = newsItem.playerMentions as unknown as PlayerMention[];
   const topics = newsItem.topics as string[];
   const scoreBreakdown = newsItem.scoreBreakdown as Record<string, number>;
+  const aiAnalysis = parseStoredAiAnalysis(newsItem.aiAnalysis);
 
   return (
     <div className="space-y-6">
@@ -79,6 +88,12 @@ export default async function NewsDetailPage({ params }: NewsDetailPageProps) {
               >
                 {newsItem.type}
               </Badge>
+              {newsItem.story?.isBreaking && (
+                <Badge variant="destructive">
+                  <Zap className="h-3 w-3 mr-1" />
+                  Breaking
+                </Badge>
+              )}
               <Badge variant="outline">{newsItem.sport}</Badge>
               <span className="text-sm text-muted-foreground">
                 Score: {Math.round(newsItem.importanceScore)}
@@ -123,9 +138,31 @@ export default async function NewsDetailPage({ params }: NewsDetailPageProps) {
               {newsItem.aiAnalysis && (
                 <div className="mt-4 pt-4 border-t">
                   <h4 className="font-medium mb-2">AI Analysis</h4>
-                  <p className="text-sm text-muted-foreground">
-                    {newsItem.aiAnalysis}
-                  </p>
+                  {aiAnalysis ? (
+                    <div className="space-y-2 text-sm">
+                      <p className="text-muted-foreground">{aiAnalysis.summary}</p>
+                      {aiAnalysis.bettingImpact && (
+                        <p>
+                          <span className="font-medium">Betting impact:</span>{" "}
+                          <span className="text-muted-foreground">{aiAnalysis.bettingImpact}</span>
+                        </p>
+                      )}
+                      <div className="flex flex-wrap gap-2">
+                        <Badge variant="outline">
+                          {aiAnalysis.timeSensitivity} time sensitivity
+                        </Badge>
+                        <Badge variant="outline">
+                          {Math.round(aiAnalysis.confidence * 100)}% confidence
+                        </Badge>
+                        <Badge variant="outline">Pre-score {aiAnalysis.preScore}</Badge>
+                        {aiAnalysis.cached && <Badge variant="secondary">Cached</Badge>}
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      {newsItem.aiAnalysis}
+                    </p>
+                  )}
                 </div>
               )}
             </CardContent>
@@ -224,17 +261,38 @@ export default async function NewsDetailPage({ params }: NewsDetailPageProps) {
                 </div>
               )}
 
-              {players.length > 0 && (
+              {playerMentions.length > 0 ? (
                 <div>
                   <h4 className="text-sm font-medium mb-2">Players</h4>
                   <div className="flex flex-wrap gap-1">
-                    {players.map((player) => (
-                      <Badge key={player} variant="outline">
-                        {player}
+                    {playerMentions.map((mention) => (
+                      <Badge
+                        key={mention.playerId}
+                        variant="outline"
+                        className={mention.confidence < MIN_PLAYER_CONFIDENCE ? "opacity-60" : undefined}
+                        title={`"${mention.mention}"${mention.team ? ` · ${mention.team}` : ""}`}
+                      >
+                        {mention.name}
+                        <span className="ml-1 text-muted-foreground">
+                          {Math.round(mention.confidence * 100)}%
+                        </span>
                       </Badge>
                     ))}
                   </div>
                 </div>
+              ) : (
+                players.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium mb-2">Players</h4>
+                    <div className="flex flex-wrap gap-1">
+                      {players.map((player) => (
+                        <Badge key={player} variant="outline">
+                          {player}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )
               )}
 
               {topics.length > 0 && (
@@ -308,8 +366,43 @@ export default async function NewsDetailPage({ params }: NewsDetailPageProps) {
                 <span className="text-muted-foreground">Paired</span>
                 <span>{newsItem.isPaired ? "Yes" : "No"}</span>
               </div>
+              {newsItem.game && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Game</span>
+                  <Link href={`/games/${newsItem.game.id}`} className="hover:underline">
+                    {newsItem.game.awayTeam} @ {newsItem.game.homeTeam}
+                  </Link>
+                </div>
+              )}
             </CardContent>
           </Card>
+
+          {/* Other coverage of the same story */}
+          {newsItem.story && newsItem.story.newsItems.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Also Reported By</CardTitle>
+                <CardDescription>
+                  {newsItem.story.sourceCount} source{newsItem.story.sourceCount !== 1 ? "s" : ""} ·
+                  first {format(newsItem.story.firstReportedAt, "PPp")}
+                  {newsItem.story.breakingAt &&
+                    ` · breaking ${format(newsItem.story.breakingAt, "PPp")} (${newsItem.story.velocity} sources in ${BREAKING_WINDOW_MINUTES} min)`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                {newsItem.story.newsItems.map((item) => (
+                  <div key={item.id}>
+                    <div className="text-xs text-muted-foreground">
+                      {format(item.publishedAt, "MMM d, h:mm a")} · {item.source.name}
+                    </div>
+                    <Link href={`/news/${item.id}`} className="hover:underline">
+                      {item.headline}
+                    </Link>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
     </div>
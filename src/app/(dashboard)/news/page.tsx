@@ -1,5 +1,5 @@
 import Link from "next/link";
-import { Newspaper, ExternalLink, Video, Clock, CheckCircle2 } from "lucide-react";
+import { Newspaper, ExternalLink, Video, Clock, CheckCircle2, Layers, Zap } from "lucide-react";
 import { stripHtml } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -11,7 +11,7 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { getNewsFeed, getUnmatchedNewsCount, getLastFetchInfo } from "@/server/actions/news";
-import { formatDistanceToNow } from "date-fns";
+import { format, formatDistanceToNow } from "date-fns";
 import { NewsFeedFilters } from "@/components/features/news/news-feed-filters";
 import { RefreshButton } from "@/components/features/sources/refresh-button";
 
@@ -53,7 +53,7 @@ export default async function NewsPage({ searchParams }: NewsPageProps) {
         <div>
           <h1 className="text-2xl font-bold">News Feed</h1>
           <p className="text-muted-foreground">
-            {newsResult.total} news items
+            {newsResult.total} stories
             {unmatchedCount > 0 && (
               <span className="text-orange-600 ml-2">
                 ({unmatchedCount} need clip pairing)
@@ -73,7 +73,7 @@ export default async function NewsPage({ searchParams }: NewsPageProps) {
       <NewsFeedFilters />
 
       {/* News Grid */}
-      {newsResult.items.length === 0 ? (
+      {newsResult.stories.length === 0 ? (
         <Card>
           <CardContent className="text-center py-12">
             <Newspaper className="mx-auto h-12 w-12 text-muted-foreground" />
@@ -88,98 +88,138 @@ export default async function NewsPage({ searchParams }: NewsPageProps) {
         </Card>
       ) : (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {newsResult.items.map((item) => (
-            <Card key={item.id} className="flex flex-col">
-              <CardHeader className="pb-2">
-                <div className="flex items-center justify-between gap-2">
-                  <div className="flex items-center gap-2">
-                    <Badge
-                      variant="secondary"
-                      className={TYPE_COLORS[item.type] || TYPE_COLORS.ANALYSIS}
+          {newsResult.stories.map((story) => {
+            const lead = story.newsItems[0];
+            if (!lead) return null;
+
+            const clipMatches = story.newsItems.flatMap((item) => item.clipMatches);
+
+            return (
+              <Card key={story.id} className="flex flex-col">
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Badge
+                        variant="secondary"
+                        className={TYPE_COLORS[story.type] || TYPE_COLORS.ANALYSIS}
+                      >
+                        {story.type}
+                      </Badge>
+                      {story.isBreaking && (
+                        <Badge variant="destructive">
+                          <Zap className="h-3 w-3 mr-1" />
+                          Breaking
+                        </Badge>
+                      )}
+                      {clipMatches.length > 0 && (
+                        <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+                          <CheckCircle2 className="h-3 w-3 mr-1" />
+                          Clip Matched
+                        </Badge>
+                      )}
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      Score: {Math.round(story.importanceScore)}
+                    </span>
+                  </div>
+                  <CardTitle className="text-base line-clamp-2">
+                    <Link
+                      href={`/news/${lead.id}`}
+                      className="hover:underline"
                     >
-                      {item.type}
-                    </Badge>
-                    {item.clipMatches.length > 0 && (
-                      <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
-                        <CheckCircle2 className="h-3 w-3 mr-1" />
-                        Clip Matched
+                      {story.headline}
+                    </Link>
+                  </CardTitle>
+                  <CardDescription className="flex items-center gap-2">
+                    <span>First: {lead.source.name}</span>
+                    <span>·</span>
+                    <span className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      {formatDistanceToNow(story.firstReportedAt, { addSuffix: true })}
+                    </span>
+                    {story.sourceCount > 1 && (
+                      <Badge variant="outline" className="text-xs">
+                        <Layers className="h-3 w-3 mr-1" />
+                        {story.sourceCount} sources
                       </Badge>
                     )}
-                  </div>
-                  <span className="text-xs text-muted-foreground">
-                    Score: {Math.round(item.importanceScore)}
-                  </span>
-                </div>
-                <CardTitle className="text-base line-clamp-2">
-                  <Link
-                    href={`/news/${item.id}`}
-                    className="hover:underline"
-                  >
-                    {item.headline}
-                  </Link>
-                </CardTitle>
-                <CardDescription className="flex items-center gap-2">
-                  <span>{item.source.name}</span>
-                  <span>·</span>
-                  <span className="flex items-center gap-1">
-                    <Clock className="h-3 w-3" />
-                    {formatDistanceToNow(item.publishedAt, { addSuffix: true })}
-                  </span>
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="flex-1 flex flex-col">
-                {item.content && (
-                  <p className="text-sm text-muted-foreground line-clamp-3 mb-4">
-                    {stripHtml(item.content)}
-                  </p>
-                )}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="flex-1 flex flex-col">
+                  {lead.content && (
+                    <p className="text-sm text-muted-foreground line-clamp-3 mb-4">
+                      {stripHtml(lead.content)}
+                    </p>
+                  )}
 
-                {/* Teams and Players */}
-                {((item.teams as string[]).length > 0 ||
-                  (item.players as string[]).length > 0) && (
-                  <div className="flex flex-wrap gap-1 mb-4">
-                    {(item.teams as string[]).slice(0, 3).map((team) => (
-                      <Badge key={team} variant="outline" className="text-xs">
-                        {team}
-                      </Badge>
-                    ))}
-                    {(item.players as string[]).slice(0, 2).map((player) => (
-                      <Badge key={player} variant="outline" className="text-xs">
-                        {player}
-                      </Badge>
-                    ))}
-                  </div>
-                )}
+                  {/* Teams and Players */}
+                  {((story.teams as string[]).length > 0 ||
+                    (story.players as string[]).length > 0) && (
+                    <div className="flex flex-wrap gap-1 mb-4">
+                      {(story.teams as string[]).slice(0, 3).map((team) => (
+                        <Badge key={team} variant="outline" className="text-xs">
+                          {team}
+                        </Badge>
+                      ))}
+                      {(story.players as string[]).slice(0, 2).map((player) => (
+                        <Badge key={player} variant="outline" className="text-xs">
+                          {player}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Timeline of reports */}
+                  {story.newsItems.length > 1 && (
+                    <details className="mb-4 text-sm">
+                      <summary className="cursor-pointer text-muted-foreground">
+                        {story.newsItems.length} reports
+                      </summary>
+                      <ol className="mt-2 space-y-2 border-l pl-3">
+                        {story.newsItems.map((item) => (
+                          <li key={item.id}>
+                            <div className="text-xs text-muted-foreground">
+                              {format(item.publishedAt, "MMM d, h:mm a")} · {item.source.name}
+                            </div>
+                            <Link href={`/news/${item.id}`} className="line-clamp-1 hover:underline">
+                              {item.headline}
+                            </Link>
+                          </li>
+                        ))}
+                      </ol>
+                    </details>
+                  )}
 
-                {/* Clip Matches - show count if multiple */}
-                {item.clipMatches.length > 1 && (
-                  <div className="mt-auto pt-2 border-t">
-                    <div className="flex items-center gap-2 text-sm text-green-600">
-                      <Video className="h-4 w-4" />
-                      <span>{item.clipMatches.length} clips matched</span>
+                  {/* Clip Matches - show count if multiple */}
+                  {clipMatches.length > 1 && (
+                    <div className="mt-auto pt-2 border-t">
+                      <div className="flex items-center gap-2 text-sm text-green-600">
+                        <Video className="h-4 w-4" />
+                        <span>{clipMatches.length} clips matched</span>
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )}
 
-                {/* Actions */}
-                <div className="flex items-center justify-between mt-4 pt-2 border-t">
-                  <Badge variant="outline">{item.sport}</Badge>
-                  <div className="flex items-center gap-2">
-                    {item.url && (
+                  {/* Actions */}
+                  <div className="flex items-center justify-between mt-4 pt-2 border-t">
+                    <Badge variant="outline">{story.sport}</Badge>
+                    <div className="flex items-center gap-2">
+                      {lead.url && (
+                        <Button variant="ghost" size="sm" asChild>
+                          <a href={lead.url} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="h-4 w-4" />
+                          </a>
+                        </Button>
+                      )}
                       <Button variant="ghost" size="sm" asChild>
-                        <a href={item.url} target="_blank" rel="noopener noreferrer">
-                          <ExternalLink className="h-4 w-4" />
-                        </a>
+                        <Link href={`/news/${lead.id}`}>View</Link>
                       </Button>
-                    )}
-                    <Button variant="ghost" size="sm" asChild>
-                      <Link href={`/news/${item.id}`}>View</Link>
-                    </Button>
+                    </div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
       )}
     </div>
@@ -0,0 +1,40 @@
+export const dynamic = "force-dynamic";
+
+import { Bell } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getNotifications } from "@/server/actions/notifications";
+import { NotificationList } from "@/components/features/alerts/notification-list";
+
+export default async function NotificationsPage() {
+  const notifications = await getNotifications();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">Notifications</h1>
+        <p className="text-muted-foreground">Alerts from your watchlists</p>
+      </div>
+
+      {/* Notifications */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            <CardTitle>Recent Alerts</CardTitle>
+          </div>
+          <CardDescription>The latest 100 notifications</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <NotificationList notifications={notifications} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,3 +1,5 @@
+import { Fragment } from "react";
+import Link from "next/link";
 import { DollarSign, TrendingUp, TrendingDown, Minus } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -21,15 +23,16 @@ import { startOfDay, endOfDay } from "date-fns";
 import { formatInTimeZone } from "date-fns-tz";
 import { getLastFetchInfo } from "@/server/actions/news";
 import { RefreshButton } from "@/components/features/sources/refresh-button";
-
-// Sportsbook display names and logos
-const SPORTSBOOK_INFO: Record<string, { name: string; logo?: string }> = {
-  draftkings: { name: "DraftKings" },
-  fanduel: { name: "FanDuel" },
-  caesars: { name: "Caesars" },
-  betmgm: { name: "BetMGM" },
-  bet365: { name: "bet365" },
-};
+import { LineMovementChart } from "@/components/features/odds/line-movement-chart";
+import { OddsComparisonTable } from "@/components/features/odds/odds-comparison-table";
+import { OddsOpportunities } from "@/components/features/odds/odds-opportunities";
+import { OddsExportButton } from "@/components/features/odds/odds-export-button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { compareGameLines } from "@/server/services/odds-comparison.service";
+import { analyzeGameOdds } from "@/server/services/odds-math.service";
+import { gameKey, summarizeLineHistory } from "@/server/services/odds-history.service";
+import { SPORTSBOOK_NAMES } from "@/lib/constants";
+import type { OddsSnapshot } from "@prisma/client";
 
 export default async function OddsPage() {
   const { orgId } = await getTenantContext();
@@ -48,16 +51,42 @@ export default async function OddsPage() {
     orderBy: [{ gameDate: "asc" }, { createdAt: "desc" }],
   });
 
-  // Group by game (using home/away/date as key) and get latest snapshot
-  const gameMap = new Map<string, typeof oddsSnapshots[0]>();
+  // Group by game, keeping the latest snapshot and the full line history
+  const gameMap = new Map<string, { latest: OddsSnapshot; history: OddsSnapshot[] }>();
   for (const odds of oddsSnapshots) {
-    const key = `${odds.homeTeam}-${odds.awayTeam}-${odds.gameDate.toISOString().split("T")[0]}`;
-    if (!gameMap.has(key)) {
-      gameMap.set(key, odds);
+    const key = gameKey(odds);
+    const game = gameMap.get(key);
+    if (game) {
+      game.history.push(odds);
+    } else {
+      gameMap.set(key, { latest: odds, history: [odds] });
     }
   }
 
-  const games = Array.from(gameMap.values());
+  const games = Array.from(gameMap.values()).map(({ latest, history }) => {
+    // Summarize each sportsbook's line separately
+    const byBook = new Map<string, OddsSnapshot[]>();
+    for (const snapshot of history) {
+      const book = snapshot.sportsbook ?? "default";
+      byBook.set(book, [...(byBook.get(book) ?? []), snapshot]);
+    }
+
+    return {
+      ...latest,
+      history,
+      summary: summarizeLineHistory(byBook.get(latest.sportsbook ?? "default") ?? []),
+      books: Array.from(byBook.entries()).map(([book, snapshots]) => ({
+        label: SPORTSBOOK_NAMES[book] || book,
+        snapshots,
+      })),
+    };
+  });
+
+  // Line up every sportsbook's latest price per game
+  const comparisons = games.map((game) => {
+    const comparison = compareGameLines(game.history);
+    return { ...comparison, analysis: analyzeGameOdds(comparison) };
+  });
 
   // Group by sport
   const gamesBySport = games.reduce(
@@ -81,12 +110,15 @@ export default async function OddsPage() {
             Current betting lines for upcoming games
           </p>
         </div>
-        <RefreshButton
-          type="odds"
-          lastFetchAt={fetchInfo.lastFetchAt}
-          nextFetchAt={fetchInfo.nextFetchAt}
-          sourceCount={fetchInfo.sourceCount}
-        />
+        <div className="flex items-center gap-2">
+          <OddsExportButton />
+          <RefreshButton
+            type="odds"
+            lastFetchAt={fetchInfo.lastFetchAt}
+            nextFetchAt={fetchInfo.nextFetchAt}
+            sourceCount={fetchInfo.sourceCount}
+          />
+        </div>
       </div>
 
       {Object.keys(gamesBySport).length === 0 ? (
@@ -100,147 +132,267 @@ export default async function OddsPage() {
           </CardContent>
         </Card>
       ) : (
-        Object.entries(gamesBySport).map(([sport, sportGames]) => {
-          // Get unique sportsbooks for this sport
-          const sportsbooks = [...new Set(sportGames.map(g => g.sportsbook).filter(Boolean))];
-          const sportsbookDisplay = sportsbooks
-            .map(sb => SPORTSBOOK_INFO[sb!]?.name || sb)
-            .join(", ");
+        <Tabs defaultValue="lines" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="lines">Lines</TabsTrigger>
+            <TabsTrigger value="compare">Compare Books</TabsTrigger>
+          </TabsList>
 
-          return (
-          <Card key={sport}>
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <div>
-                  <CardTitle>{sport}</CardTitle>
-                  <CardDescription>
-                    {sportGames.length} game{sportGames.length !== 1 ? "s" : ""} with odds
-                  </CardDescription>
-                </div>
-                {sportsbookDisplay && (
-                  <Badge variant="secondary" className="text-xs">
-                    {sportsbookDisplay}
-                  </Badge>
-                )}
-              </div>
-            </CardHeader>
-            <CardContent>
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Game</TableHead>
-                    <TableHead>Date</TableHead>
-                    <TableHead className="text-right">Spread</TableHead>
-                    <TableHead className="text-right">O/U</TableHead>
-                    <TableHead className="text-right">Away ML</TableHead>
-                    <TableHead className="text-right">Home ML</TableHead>
-                    <TableHead className="text-center">Movement</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {sportGames.map((game) => {
-                    const spreadMoved =
-                      game.previousSpread !== null &&
-                      game.previousSpread !== undefined &&
-                      game.spread !== null &&
-                      game.spread !== game.previousSpread;
-                    const ouMoved =
-                      game.previousOverUnder !== null &&
-                      game.previousOverUnder !== undefined &&
-                      game.overUnder !== null &&
-                      game.overUnder !== game.previousOverUnder;
+          <TabsContent value="lines" className="space-y-6">
+            {Object.entries(gamesBySport).map(([sport, sportGames]) => {
+              // Get unique sportsbooks for this sport
+              const sportsbooks = [...new Set(sportGames.map(g => g.sportsbook).filter(Boolean))];
+              const sportsbookDisplay = sportsbooks
+                .map(sb => SPORTSBOOK_NAMES[sb!] || sb)
+                .join(", ");
 
-                    return (
-                      <TableRow key={game.id}>
-                        <TableCell>
-                          <div>
-                            <div className="font-medium">{game.awayTeam}</div>
-                            <div className="text-muted-foreground">@ {game.homeTeam}</div>
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <div className="text-sm">
-                            {formatInTimeZone(game.gameDate, "America/New_York", "EEE, MMM d")}
-                            <br />
-                            <span className="text-muted-foreground">
-                              {formatInTimeZone(game.gameDate, "America/New_York", "h:mm a zzz")}
-                            </span>
-                          </div>
-                        </TableCell>
-                        <TableCell className="text-right font-mono">
-                          {game.spread !== null ? (
-                            <span className={spreadMoved ? "text-yellow-600" : ""}>
-                              {game.spread > 0 ? "+" : ""}
-                              {game.spread}
-                            </span>
-                          ) : (
-                            "-"
-                          )}
-                        </TableCell>
-                        <TableCell className="text-right font-mono">
-                          {game.overUnder !== null ? (
-                            <span className={ouMoved ? "text-yellow-600" : ""}>
-                              {game.overUnder}
-                            </span>
-                          ) : (
-                            "-"
-                          )}
-                        </TableCell>
-                        <TableCell className="text-right font-mono">
-                          {game.awayMoneyline !== null ? (
-                            <span
-                              className={game.awayMoneyline > 0 ? "text-green-600" : ""}
-                            >
-                              {game.awayMoneyline > 0 ? "+" : ""}
-                              {game.awayMoneyline}
-                            </span>
-                          ) : (
-                            "-"
-                          )}
-                        </TableCell>
-                        <TableCell className="text-right font-mono">
-                          {game.homeMoneyline !== null ? (
-                            <span
-                              className={game.homeMoneyline > 0 ? "text-green-600" : ""}
-                            >
-                              {game.homeMoneyline > 0 ? "+" : ""}
-                              {game.homeMoneyline}
-                            </span>
-                          ) : (
-                            "-"
-                          )}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {spreadMoved || ouMoved ? (
-                            <div className="flex items-center justify-center gap-1">
-                              {spreadMoved && (
-                                game.spread! > game.previousSpread! ? (
-                                  <TrendingUp className="h-4 w-4 text-green-600" />
+              return (
+              <Card key={sport}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>{sport}</CardTitle>
+                      <CardDescription>
+                        {sportGames.length} game{sportGames.length !== 1 ? "s" : ""} with odds
+                      </CardDescription>
+                    </div>
+                    {sportsbookDisplay && (
+                      <Badge variant="secondary" className="text-xs">
+                        {sportsbookDisplay}
+                      </Badge>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Game</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead className="text-right">Spread</TableHead>
+                        <TableHead className="text-right">O/U</TableHead>
+                        <TableHead className="text-right">Away ML</TableHead>
+                        <TableHead className="text-right">Home ML</TableHead>
+                        <TableHead className="text-center">Movement</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sportGames.map((game) => {
+                        // Movement since the opening line
+                        const spreadChange = game.summary?.spreadChange ?? 0;
+                        const totalChange = game.summary?.totalChange ?? 0;
+                        const spreadMoved = spreadChange !== 0;
+                        const ouMoved = totalChange !== 0;
+                        const opening = game.summary?.opening;
+
+                        return (
+                          <Fragment key={game.id}>
+                            <TableRow>
+                              <TableCell>
+                                <div>
+                                  <div className="font-medium">{game.awayTeam}</div>
+                                  <div className="text-muted-foreground">@ {game.homeTeam}</div>
+                                  {game.gameId && (
+                                    <Link
+                                      href={`/games/${game.gameId}`}
+                                      className="text-xs text-muted-foreground hover:underline"
+                                    >
+                                      Game page
+                                    </Link>
+                                  )}
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                <div className="text-sm">
+                                  {formatInTimeZone(game.gameDate, "America/New_York", "EEE, MMM d")}
+                                  <br />
+                                  <span className="text-muted-foreground">
+                                    {formatInTimeZone(game.gameDate, "America/New_York", "h:mm a zzz")}
+                                  </span>
+                                </div>
+                              </TableCell>
+                              <TableCell className="text-right font-mono">
+                                {game.spread !== null ? (
+                                  <div>
+                                    <span className={spreadMoved ? "text-yellow-600" : ""}>
+                                      {game.spread > 0 ? "+" : ""}
+                                      {game.spread}
+                                    </span>
+                                    {spreadMoved && opening?.spread != null && (
+                                      <div className="text-xs text-muted-foreground">
+                                        open {opening.spread > 0 ? "+" : ""}
+                                        {opening.spread}
+                                      </div>
+                                    )}
+                                  </div>
                                 ) : (
-                                  <TrendingDown className="h-4 w-4 text-red-600" />
-                                )
-                              )}
-                              {ouMoved && (
-                                game.overUnder! > game.previousOverUnder! ? (
-                                  <TrendingUp className="h-4 w-4 text-blue-600" />
+                                  "-"
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right font-mono">
+                                {game.overUnder !== null ? (
+                                  <div>
+                                    <span className={ouMoved ? "text-yellow-600" : ""}>
+                                      {game.overUnder}
+                                    </span>
+                                    {ouMoved && opening?.overUnder != null && (
+                                      <div className="text-xs text-muted-foreground">
+                                        open {opening.overUnder}
+                                      </div>
+                                    )}
+                                  </div>
                                 ) : (
-                                  <TrendingDown className="h-4 w-4 text-orange-600" />
-                                )
-                              )}
-                            </div>
-                          ) : (
-                            <Minus className="h-4 w-4 text-muted-foreground mx-auto" />
-                          )}
-                        </TableCell>
-                      </TableRow>
-                    );
-                  })}
-                </TableBody>
-              </Table>
-            </CardContent>
-          </Card>
-        );
-        })
+                                  "-"
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right font-mono">
+                                {game.awayMoneyline !== null ? (
+                                  <span
+                                    className={game.awayMoneyline > 0 ? "text-green-600" : ""}
+                                  >
+                                    {game.awayMoneyline > 0 ? "+" : ""}
+                                    {game.awayMoneyline}
+                                  </span>
+                                ) : (
+                                  "-"
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right font-mono">
+                                {game.homeMoneyline !== null ? (
+                                  <span
+                                    className={game.homeMoneyline > 0 ? "text-green-600" : ""}
+                                  >
+                                    {game.homeMoneyline > 0 ? "+" : ""}
+                                    {game.homeMoneyline}
+                                  </span>
+                                ) : (
+                                  "-"
+                                )}
+                              </TableCell>
+                              <TableCell className="text-center">
+                                {spreadMoved || ouMoved ? (
+                                  <div className="flex items-center justify-center gap-1">
+                                    {spreadMoved && (
+                                      spreadChange > 0 ? (
+                                        <TrendingUp className="h-4 w-4 text-green-600" />
+                                      ) : (
+                                        <TrendingDown className="h-4 w-4 text-red-600" />
+                                      )
+                                    )}
+                                    {ouMoved && (
+                                      totalChange > 0 ? (
+                                        <TrendingUp className="h-4 w-4 text-blue-600" />
+                                      ) : (
+                                        <TrendingDown className="h-4 w-4 text-orange-600" />
+                                      )
+                                    )}
+                                  </div>
+                                ) : (
+                                  <Minus className="h-4 w-4 text-muted-foreground mx-auto" />
+                                )}
+                              </TableCell>
+                            </TableRow>
+                            {game.history.length > 1 && (
+                              <TableRow className="hover:bg-transparent">
+                                <TableCell colSpan={7} className="pt-0">
+                                  <details>
+                                    <summary className="cursor-pointer text-xs text-muted-foreground">
+                                      Line history ({game.history.length} snapshots
+                                      {game.summary?.closing ? ", closed" : ""})
+                                    </summary>
+                                    <div className="grid gap-4 pt-2 md:grid-cols-2">
+                                      <LineMovementChart
+                                        title="Spread"
+                                        until={today}
+                                        series={game.books.map((book) => ({
+                                          label: book.label,
+                                          points: book.snapshots
+                                            .filter((snapshot) => snapshot.spread !== null)
+                                            .map((snapshot) => ({ at: snapshot.createdAt, value: snapshot.spread! })),
+                                        }))}
+                                      />
+                                      <LineMovementChart
+                                        title="Total"
+                                        until={today}
+                                        series={game.books.map((book) => ({
+                                          label: book.label,
+                                          points: book.snapshots
+                                            .filter((snapshot) => snapshot.overUnder !== null)
+                                            .map((snapshot) => ({ at: snapshot.createdAt, value: snapshot.overUnder! })),
+                                        }))}
+                                      />
+                                    </div>
+                                  </details>
+                                </TableCell>
+                              </TableRow>
+                            )}
+                          </Fragment>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            );
+            })}
+          </TabsContent>
+
+          <TabsContent value="compare" className="space-y-6">
+            {comparisons.map((comparison) => {
+              const offMarketBooks = comparison.books.filter((book) => book.offMarket.length > 0);
+
+              return (
+                <Card key={comparison.gameKey}>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <CardTitle className="text-base">
+                          {comparison.awayTeam} @ {comparison.homeTeam}
+                        </CardTitle>
+                        <CardDescription>
+                          {comparison.sport} ·{" "}
+                          {formatInTimeZone(comparison.gameDate, "America/New_York", "EEE, MMM d h:mm a zzz")}
+                          {" · "}
+                          {comparison.books.length} book{comparison.books.length !== 1 ? "s" : ""}
+                        </CardDescription>
+                      </div>
+                      <div className="flex gap-2">
+                        {comparison.analysis.arbitrage.length > 0 && (
+                          <Badge className="bg-green-100 text-xs text-green-700 hover:bg-green-100">
+                            Arbitrage
+                          </Badge>
+                        )}
+                        {comparison.analysis.middles.length > 0 && (
+                          <Badge variant="outline" className="text-xs text-blue-600">
+                            Middle
+                          </Badge>
+                        )}
+                        {offMarketBooks.length > 0 && (
+                          <Badge variant="outline" className="text-xs text-orange-600">
+                            {offMarketBooks.length} off-market
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <OddsComparisonTable
+                      comparison={comparison}
+                      sportsbookNames={SPORTSBOOK_NAMES}
+                      analysis={comparison.analysis}
+                    />
+                    <OddsOpportunities
+                      analysis={comparison.analysis}
+                      homeTeam={comparison.homeTeam}
+                      awayTeam={comparison.awayTeam}
+                      sportsbookNames={SPORTSBOOK_NAMES}
+                    />
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </TabsContent>
+        </Tabs>
       )}
     </div>
   );
@@ -0,0 +1,129 @@
+import { ListOrdered } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getTenantContext } from "@/lib/tenant-prisma";
+import { getTeamRecords, winPercentage } from "@/server/services/bet-grading.service";
+import type { TeamRecord } from "@/server/services/bet-grading.service";
+
+function formatRecord(wins: number, losses: number, pushes: number): string {
+  return pushes > 0 ? `${wins}-${losses}-${pushes}` : `${wins}-${losses}`;
+}
+
+function formatPercent(record: { wins: number; losses: number }): string {
+  if (record.wins + record.losses === 0) return "-";
+  return `${(winPercentage(record) * 100).toFixed(1)}%`;
+}
+
+export default async function RecordsPage() {
+  const { orgId } = await getTenantContext();
+  const records = await getTeamRecords(orgId);
+
+  // Group by sport
+  const recordsBySport = records.reduce(
+    (acc, record) => {
+      if (!acc[record.sport]) {
+        acc[record.sport] = [];
+      }
+      acc[record.sport].push(record);
+      return acc;
+    },
+    {} as Record<string, TeamRecord[]>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">Betting Records</h1>
+        <p className="text-muted-foreground">
+          Against-the-spread and over/under records, graded against closing lines
+        </p>
+      </div>
+
+      {Object.keys(recordsBySport).length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <ListOrdered className="mx-auto h-12 w-12 text-muted-foreground" />
+            <h3 className="mt-4 text-lg font-semibold">No graded games yet</h3>
+            <p className="text-muted-foreground">
+              Records appear once final scores come in for games with odds history.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        Object.entries(recordsBySport).map(([sport, sportRecords]) => (
+          <Card key={sport}>
+            <CardHeader>
+              <CardTitle>{sport}</CardTitle>
+              <CardDescription>
+                {sportRecords.length} team{sportRecords.length !== 1 ? "s" : ""}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Team</TableHead>
+                    <TableHead className="text-center">GP</TableHead>
+                    <TableHead className="text-center">SU</TableHead>
+                    <TableHead className="text-center">ATS</TableHead>
+                    <TableHead className="text-center">ATS %</TableHead>
+                    <TableHead className="text-center">O/U</TableHead>
+                    <TableHead className="text-center">Over %</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sportRecords.map((record) => (
+                    <TableRow key={record.team}>
+                      <TableCell className="font-medium">{record.team}</TableCell>
+                      <TableCell className="text-center font-mono">{record.games}</TableCell>
+                      <TableCell className="text-center font-mono">
+                        {formatRecord(
+                          record.straightUp.wins,
+                          record.straightUp.losses,
+                          record.straightUp.pushes
+                        )}
+                      </TableCell>
+                      <TableCell className="text-center font-mono">
+                        {formatRecord(record.ats.wins, record.ats.losses, record.ats.pushes)}
+                      </TableCell>
+                      <TableCell className="text-center font-mono">
+                        {formatPercent(record.ats)}
+                      </TableCell>
+                      <TableCell className="text-center font-mono">
+                        {formatRecord(
+                          record.overUnder.overs,
+                          record.overUnder.unders,
+                          record.overUnder.pushes
+                        )}
+                      </TableCell>
+                      <TableCell className="text-center font-mono">
+                        {formatPercent({
+                          wins: record.overUnder.overs,
+                          losses: record.overUnder.unders,
+                        })}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import Link from "next/link";
 import { Trophy, CheckCircle, Clock, XCircle } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -20,6 +21,7 @@ import { getTenantContext } from "@/lib/tenant-prisma";
 import { format, subDays } from "date-fns";
 import { getLastFetchInfo } from "@/server/actions/news";
 import { RefreshButton } from "@/components/features/sources/refresh-button";
+import type { ResultGrading } from "@/server/services/bet-grading.service";
 
 export default async function ResultsPage() {
   const { orgId } = await getTenantContext();
@@ -132,7 +134,7 @@ export default async function ResultsPage() {
                     <TableHead>Game</TableHead>
                     <TableHead>Date</TableHead>
                     <TableHead className="text-center">Score</TableHead>
-                    <TableHead className="text-center">Spread</TableHead>
+                    <TableHead className="text-center">Spread (Home)</TableHead>
                     <TableHead className="text-center">Total</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -147,6 +149,7 @@ export default async function ResultsPage() {
                       result.homeScore !== null &&
                       result.awayScore !== null &&
                       result.awayScore > result.homeScore;
+                    const closing = (result.grading as ResultGrading | null)?.consensus;
 
                     return (
                       <TableRow key={result.id}>
@@ -168,6 +171,14 @@ export default async function ResultsPage() {
                             >
                               @ {result.homeTeam}
                             </div>
+                            {result.gameId && (
+                              <Link
+                                href={`/games/${result.gameId}`}
+                                className="text-xs text-muted-foreground hover:underline"
+                              >
+                                Game page
+                              </Link>
+                            )}
                           </div>
                         </TableCell>
                         <TableCell>
@@ -191,9 +202,19 @@ export default async function ResultsPage() {
                         </TableCell>
                         <TableCell className="text-center">
                           {getSpreadResult(result.spreadWinner)}
+                          {closing?.spread != null && (
+                            <div className="text-xs text-muted-foreground">
+                              close {closing.spread > 0 ? "+" : ""}{closing.spread}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell className="text-center">
                           {getTotalResult(result.totalResult)}
+                          {closing?.overUnder != null && (
+                            <div className="text-xs text-muted-foreground">
+                              close {closing.overUnder}
+                            </div>
+                          )}
                         </TableCell>
                       </TableRow>
                     );
@@ -0,0 +1,87 @@
+export const dynamic = "force-dynamic";
+
+import { BellRing, Eye, Plus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getMyAlertPreferences, getWatchlists } from "@/server/actions/watchlists";
+import { WatchlistForm } from "@/components/features/alerts/watchlist-form";
+import { AlertPreferencesForm } from "@/components/features/alerts/alert-preferences-form";
+
+export default async function WatchlistsPage() {
+  const [watchlists, preferences] = await Promise.all([
+    getWatchlists(),
+    getMyAlertPreferences(),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">Watchlists</h1>
+        <p className="text-muted-foreground">
+          Get alerted when scored news matches the teams, players and keywords you follow
+        </p>
+      </div>
+
+      {/* Watchlists */}
+      {watchlists.map((watchlist) => (
+        <Card key={watchlist.id}>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Eye className="h-5 w-5" />
+              <CardTitle>{watchlist.name}</CardTitle>
+              {!watchlist.isActive && <Badge variant="secondary">Paused</Badge>}
+            </div>
+            <CardDescription>
+              {watchlist._count.notifications} alert(s) so far
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <WatchlistForm watchlist={watchlist} />
+          </CardContent>
+        </Card>
+      ))}
+
+      {/* New watchlist */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Plus className="h-5 w-5" />
+            <CardTitle>New Watchlist</CardTitle>
+          </div>
+          <CardDescription>
+            Items are checked as they are scored and again when a re-score raises them. Webhook
+            requests carry an X-ClipScout-Signature header: sha256 HMAC of
+            &quot;timestamp.body&quot; using the watchlist&apos;s signing secret.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <WatchlistForm />
+        </CardContent>
+      </Card>
+
+      {/* Alert preferences */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <BellRing className="h-5 w-5" />
+            <CardTitle>Alert Preferences</CardTitle>
+          </div>
+          <CardDescription>
+            Quiet hours hold alert emails until they end; digests batch them. In-app notifications
+            and webhooks are always delivered right away.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AlertPreferencesForm preferences={preferences} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
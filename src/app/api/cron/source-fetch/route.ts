@@ -3,6 +3,7 @@ import { prisma } from "@/lib/prisma";
 import { addMinutes, addDays, addHours } from "date-fns";
 import type { ScheduleType } from "@prisma/client";
 import { fetchSourceDirect } from "@/server/services/sources/fetch-source";
+import { fetchableSourceWhere } from "@/server/services/sources/source-health";
 
 // Verify cron secret to prevent unauthorized access
 function verifyCronSecret(request: Request): boolean {
@@ -30,8 +31,9 @@ export async function GET(request: Request) {
     const dueSources = await prisma.source.findMany({
       where: {
         isScheduled: true,
-        status: "ACTIVE",
         nextFetchAt: { lte: now },
+        // Healthy sources plus ERROR/RATE_LIMITED ones due a retry
+        ...fetchableSourceWhere(now),
       },
     });
 
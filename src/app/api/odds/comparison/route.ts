@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Sport } from "@prisma/client";
+import { startOfDay, endOfDay, addDays } from "date-fns";
+import { auth } from "@/lib/auth";
+import { getOddsComparison } from "@/server/services/odds-comparison.service";
+
+const MAX_DAYS = 30;
+
+/**
+ * Cross-sportsbook line comparison for upcoming games.
+ * Query params: sport, days (default 7, max 30), game (game key).
+ */
+export async function GET(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.user?.organizationId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const sport = searchParams.get("sport");
+  const days = parseInt(searchParams.get("days") || "7", 10);
+
+  if (sport && !(sport in Sport)) {
+    return NextResponse.json({ error: `Unknown sport: ${sport}` }, { status: 400 });
+  }
+
+  if (isNaN(days) || days < 0 || days > MAX_DAYS) {
+    return NextResponse.json(
+      { error: `days must be between 0 and ${MAX_DAYS}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const now = new Date();
+    const games = await getOddsComparison(session.user.organizationId, {
+      sport: (sport as Sport) || undefined,
+      from: startOfDay(now),
+      to: endOfDay(addDays(now, days)),
+      gameKey: searchParams.get("game") || undefined,
+    });
+
+    return NextResponse.json({
+      games,
+      generatedAt: now.toISOString(),
+    });
+  } catch (error) {
+    console.error("Odds comparison error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
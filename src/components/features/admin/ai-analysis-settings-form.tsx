@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { updateAiAnalysisSettings } from "@/server/actions/organization";
+import type { AiAnalysisSettings } from "@/server/services/news-ai.service";
+
+interface AiAnalysisSettingsFormProps {
+  settings: AiAnalysisSettings;
+  usage: { requests: number; cacheHits: number; tokens: number; costUsd: number };
+  canEdit: boolean;
+}
+
+type NumberField = "minPreScore" | "dailyTokenBudget" | "dailyCostBudgetUsd";
+
+const NUMBER_FIELDS: { field: NumberField; label: string; step: string }[] = [
+  { field: "minPreScore", label: "Minimum pre-score", step: "1" },
+  { field: "dailyTokenBudget", label: "Daily token budget", step: "1000" },
+  { field: "dailyCostBudgetUsd", label: "Daily cost budget ($)", step: "0.5" },
+];
+
+/**
+ * Which news items get Claude analysis and how much an org spends on it per
+ * day. Today's usage is shown against the budget.
+ */
+export function AiAnalysisSettingsForm({ settings, usage, canEdit }: AiAnalysisSettingsFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [enabled, setEnabled] = useState(settings.enabled);
+  const [values, setValues] = useState<Record<NumberField, string>>({
+    minPreScore: settings.minPreScore.toString(),
+    dailyTokenBudget: settings.dailyTokenBudget.toString(),
+    dailyCostBudgetUsd: settings.dailyCostBudgetUsd.toString(),
+  });
+
+  const handleSave = async () => {
+    setIsLoading(true);
+    try {
+      await updateAiAnalysisSettings({
+        enabled,
+        minPreScore: Number(values.minPreScore),
+        dailyTokenBudget: Number(values.dailyTokenBudget),
+        dailyCostBudgetUsd: Number(values.dailyCostBudgetUsd),
+      });
+      toast.success("AI analysis settings updated");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update AI analysis settings");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-4 text-sm">
+        <div>
+          <p className="text-muted-foreground">Requests today</p>
+          <p className="text-lg font-semibold">{usage.requests}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Cache hits</p>
+          <p className="text-lg font-semibold">{usage.cacheHits}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Tokens</p>
+          <p className="text-lg font-semibold">
+            {usage.tokens.toLocaleString()} / {settings.dailyTokenBudget.toLocaleString()}
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Cost</p>
+          <p className="text-lg font-semibold">
+            ${usage.costUsd.toFixed(3)} / ${settings.dailyCostBudgetUsd.toFixed(2)}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="ai-enabled"
+          checked={enabled}
+          onCheckedChange={(checked) => setEnabled(checked === true)}
+          disabled={!canEdit || isLoading}
+        />
+        <Label htmlFor="ai-enabled">Analyze news with Claude</Label>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        {NUMBER_FIELDS.map(({ field, label, step }) => (
+          <div key={field} className="space-y-2">
+            <Label htmlFor={`ai-${field}`}>{label}</Label>
+            <Input
+              id={`ai-${field}`}
+              type="number"
+              min="0"
+              step={step}
+              value={values[field]}
+              onChange={(e) => setValues((current) => ({ ...current, [field]: e.target.value }))}
+              disabled={!canEdit || isLoading}
+            />
+          </div>
+        ))}
+      </div>
+
+      {canEdit && (
+        <Button onClick={handleSave} disabled={isLoading}>
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+          Save AI Settings
+        </Button>
+      )}
+    </div>
+  );
+}
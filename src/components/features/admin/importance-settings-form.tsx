@@ -0,0 +1,333 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  previewImportanceSettings,
+  updateImportanceSettings,
+  updateSourceAuthority,
+} from "@/server/actions/admin/importance";
+import type { ImportanceSettings, ScorePreviewRow } from "@/server/services/importance-profile.service";
+import type { FactorWeights } from "@/server/services/importance-scorer";
+
+interface ImportanceWeightsFormProps {
+  settings: ImportanceSettings;
+  /** Built-in weights, shown as placeholders */
+  defaults: { weights: FactorWeights; topicWeights: Record<string, number> };
+  profileId: string;
+  canEdit: boolean;
+}
+
+const FACTOR_LABELS: Record<keyof FactorWeights, string> = {
+  recency: "Recency",
+  timeSensitivity: "Time sensitivity",
+  entityRelevance: "Entity relevance",
+  topicWeight: "Topic",
+  exclusivity: "Exclusivity",
+  sourceAuthority: "Source authority",
+  gameProximity: "Game proximity",
+  bettingRelevance: "Betting relevance",
+};
+
+// Wait for typing to pause before re-scoring
+const PREVIEW_DELAY_MS = 400;
+
+function toFields(values: Partial<Record<string, number>> | undefined): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(values ?? {}).map(([key, value]) => [key, value?.toString() ?? ""])
+  );
+}
+
+function fromFields(fields: Record<string, string>): Record<string, number> | undefined {
+  const values = Object.fromEntries(
+    Object.entries(fields)
+      .filter(([, value]) => value !== "")
+      .map(([key, value]) => [key, Number(value)])
+  );
+  return Object.keys(values).length > 0 ? values : undefined;
+}
+
+/**
+ * Factor and topic weights for the org's importance scores, with a live
+ * preview of how recent items would re-rank. Blank fields use the defaults;
+ * factor weights are relative and normalized when saved.
+ */
+export function ImportanceWeightsForm({
+  settings,
+  defaults,
+  profileId,
+  canEdit,
+}: ImportanceWeightsFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [weights, setWeights] = useState(() => toFields(settings.weights));
+  const [topicWeights, setTopicWeights] = useState(() => toFields(settings.topicWeights));
+  const [preview, setPreview] = useState<{ profileId: string; rows: ScorePreviewRow[] } | null>(
+    null
+  );
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const input = (): ImportanceSettings => ({
+    weights: fromFields(weights),
+    topicWeights: fromFields(topicWeights),
+  });
+
+  const effective = Object.fromEntries(
+    Object.entries(defaults.weights).map(([key, value]) => [
+      key,
+      weights[key] !== undefined && weights[key] !== "" ? Math.max(0, Number(weights[key])) : value,
+    ])
+  );
+  const total = Object.values(effective).reduce((sum, value) => sum + value, 0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsPreviewing(true);
+      try {
+        const result = await previewImportanceSettings({
+          weights: fromFields(weights),
+          topicWeights: fromFields(topicWeights),
+        });
+        if (!cancelled) setPreview(result);
+      } catch {
+        // Out-of-range values fail validation; keep the last preview
+      } finally {
+        if (!cancelled) setIsPreviewing(false);
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [weights, topicWeights]);
+
+  const handleSave = async () => {
+    setIsLoading(true);
+    try {
+      const result = await updateImportanceSettings(input());
+      toast.success(`Importance weights saved (profile ${result.profileId})`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save importance weights");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = () => {
+    setWeights({});
+    setTopicWeights({});
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 lg:grid-cols-2">
+        <div className="space-y-3">
+          <h3 className="font-medium">Factor weights</h3>
+          {Object.entries(defaults.weights).map(([key, value]) => (
+            <div key={key} className="flex items-center gap-3">
+              <Label htmlFor={`weight-${key}`} className="w-40">
+                {FACTOR_LABELS[key as keyof FactorWeights]}
+              </Label>
+              <Input
+                id={`weight-${key}`}
+                type="number"
+                min="0"
+                max="1"
+                step="0.05"
+                className="h-8 w-24"
+                value={weights[key] ?? ""}
+                placeholder={value.toString()}
+                onChange={(e) => setWeights((current) => ({ ...current, [key]: e.target.value }))}
+                disabled={!canEdit || isLoading}
+              />
+              <span className="text-sm text-muted-foreground w-12 text-right">
+                {total > 0 ? Math.round((effective[key] / total) * 100) : 0}%
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="font-medium">Topic weights</h3>
+          {Object.entries(defaults.topicWeights).map(([type, value]) => (
+            <div key={type} className="flex items-center gap-3">
+              <Label htmlFor={`topic-${type}`} className="w-40">
+                {type.replace(/_/g, " ")}
+              </Label>
+              <Input
+                id={`topic-${type}`}
+                type="number"
+                min="0"
+                max="1"
+                step="0.05"
+                className="h-8 w-24"
+                value={topicWeights[type] ?? ""}
+                placeholder={value.toString()}
+                onChange={(e) =>
+                  setTopicWeights((current) => ({ ...current, [type]: e.target.value }))
+                }
+                disabled={!canEdit || isLoading}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        {canEdit && (
+          <>
+            <Button onClick={handleSave} disabled={isLoading}>
+              {isLoading && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Save Weights
+            </Button>
+            <Button variant="outline" onClick={handleReset} disabled={isLoading}>
+              Reset to Defaults
+            </Button>
+          </>
+        )}
+        <span className="text-sm text-muted-foreground">
+          Current profile: <span className="font-mono">{profileId}</span>
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <h3 className="font-medium">Preview</h3>
+          {preview && (
+            <Badge variant="outline" className="font-mono">
+              {preview.profileId}
+            </Badge>
+          )}
+          {isPreviewing && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Recent items re-scored with these weights, from the factors recorded when they were
+          scored.
+        </p>
+        {preview && preview.rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No items scored in the last 48 hours</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Headline</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Current</TableHead>
+                <TableHead className="text-right">Preview</TableHead>
+                <TableHead className="text-right">Rank</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview?.rows.map((row) => {
+                const delta = row.previewScore - row.currentScore;
+                const rankMove = row.currentRank - row.previewRank;
+
+                return (
+                  <TableRow key={row.id}>
+                    <TableCell className="max-w-md">
+                      <p className="truncate">{row.headline}</p>
+                      <p className="text-xs text-muted-foreground">{row.sourceName}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{row.type.replace(/_/g, " ")}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{row.currentScore}</TableCell>
+                    <TableCell className="text-right">
+                      {row.previewScore}
+                      {delta !== 0 && (
+                        <span
+                          className={`ml-1 text-xs ${delta > 0 ? "text-green-600" : "text-red-600"}`}
+                        >
+                          {delta > 0 ? "+" : ""}
+                          {delta}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <span className="inline-flex items-center gap-1">
+                        {row.previewRank}
+                        {rankMove > 0 && <ArrowUp className="h-3 w-3 text-green-600" />}
+                        {rankMove < 0 && <ArrowDown className="h-3 w-3 text-red-600" />}
+                      </span>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface SourceAuthorityInputProps {
+  sourceId: string;
+  authority: number | null;
+  /** Authority guessed from the source name, used when blank */
+  guessed: number;
+  canEdit: boolean;
+}
+
+/**
+ * A source's authority for importance scoring. Blank guesses from the name.
+ */
+export function SourceAuthorityInput({
+  sourceId,
+  authority,
+  guessed,
+  canEdit,
+}: SourceAuthorityInputProps) {
+  const [value, setValue] = useState(authority?.toString() ?? "");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const saved = authority?.toString() ?? "";
+
+  const handleSave = async () => {
+    setIsLoading(true);
+    try {
+      await updateSourceAuthority(sourceId, value === "" ? null : Number(value));
+      toast.success("Source authority updated");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update source authority");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type="number"
+        min="0"
+        max="1"
+        step="0.05"
+        className="h-8 w-24"
+        value={value}
+        placeholder={guessed.toString()}
+        onChange={(e) => setValue(e.target.value)}
+        disabled={!canEdit || isLoading}
+      />
+      {canEdit && value !== saved && (
+        <Button size="sm" variant="outline" onClick={handleSave} disabled={isLoading}>
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+          Save
+        </Button>
+      )}
+    </div>
+  );
+}
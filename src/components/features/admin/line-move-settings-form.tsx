@@ -0,0 +1,144 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { SPORTS } from "@/lib/constants";
+import { updateLineMoveAlertSettings } from "@/server/actions/organization";
+import type { Sport } from "@prisma/client";
+import type {
+  LineMoveSettings,
+  LineMoveThresholds,
+} from "@/server/services/line-move.service";
+
+interface LineMoveSettingsFormProps {
+  settings: LineMoveSettings;
+  /** Built-in thresholds per sport, shown as placeholders */
+  defaults: Record<Sport, LineMoveThresholds>;
+  canEdit: boolean;
+}
+
+type NumberField = "spread" | "total" | "windowMinutes";
+type Row = Partial<Record<NumberField, string>> & { enabled?: boolean };
+
+const NUMBER_FIELDS: { field: NumberField; label: string; step: string }[] = [
+  { field: "spread", label: "Spread (pts)", step: "0.5" },
+  { field: "total", label: "Total (pts)", step: "0.5" },
+  { field: "windowMinutes", label: "Window (min)", step: "5" },
+];
+
+function toRow(thresholds?: Partial<LineMoveThresholds>): Row {
+  return {
+    spread: thresholds?.spread?.toString(),
+    total: thresholds?.total?.toString(),
+    windowMinutes: thresholds?.windowMinutes?.toString(),
+    enabled: thresholds?.enabled,
+  };
+}
+
+function fromRow(row: Row): Partial<LineMoveThresholds> | undefined {
+  const thresholds: Partial<LineMoveThresholds> = {};
+  for (const { field } of NUMBER_FIELDS) {
+    const value = row[field];
+    if (value !== undefined && value !== "") thresholds[field] = Number(value);
+  }
+  if (row.enabled !== undefined) thresholds.enabled = row.enabled;
+  return Object.keys(thresholds).length > 0 ? thresholds : undefined;
+}
+
+/**
+ * Per-sport thresholds for line move ("steam") alerts. Blank fields fall back
+ * to the built-in defaults.
+ */
+export function LineMoveSettingsForm({ settings, defaults, canEdit }: LineMoveSettingsFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [rows, setRows] = useState<Record<string, Row>>(() => ({
+    default: toRow(settings.default),
+    ...Object.fromEntries(SPORTS.map((s) => [s.value, toRow(settings.sports?.[s.value])])),
+  }));
+
+  const updateRow = (key: string, patch: Row) =>
+    setRows((current) => ({ ...current, [key]: { ...current[key], ...patch } }));
+
+  const handleSave = async () => {
+    setIsLoading(true);
+    try {
+      const sports: LineMoveSettings["sports"] = {};
+      for (const { value } of SPORTS) {
+        const thresholds = fromRow(rows[value]);
+        if (thresholds) sports[value] = thresholds;
+      }
+
+      await updateLineMoveAlertSettings({ default: fromRow(rows.default), sports });
+      toast.success("Line move alerts updated");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update line move alerts");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderRow = (key: string, label: string, placeholder: LineMoveThresholds) => (
+    <TableRow key={key}>
+      <TableCell className="font-medium">{label}</TableCell>
+      {NUMBER_FIELDS.map(({ field, step }) => (
+        <TableCell key={field}>
+          <Input
+            type="number"
+            min="0"
+            step={step}
+            className="h-8 w-24"
+            value={rows[key][field] ?? ""}
+            placeholder={placeholder[field].toString()}
+            onChange={(e) => updateRow(key, { [field]: e.target.value })}
+            disabled={!canEdit || isLoading}
+          />
+        </TableCell>
+      ))}
+      <TableCell>
+        <Checkbox
+          checked={rows[key].enabled ?? placeholder.enabled}
+          onCheckedChange={(checked) => updateRow(key, { enabled: checked === true })}
+          disabled={!canEdit || isLoading}
+        />
+      </TableCell>
+    </TableRow>
+  );
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Sport</TableHead>
+            {NUMBER_FIELDS.map(({ field, label }) => (
+              <TableHead key={field}>{label}</TableHead>
+            ))}
+            <TableHead>Enabled</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {renderRow("default", "All sports", defaults.SPORTS_BETTING)}
+          {SPORTS.map((sport) => renderRow(sport.value, sport.label, defaults[sport.value]))}
+        </TableBody>
+      </Table>
+      {canEdit && (
+        <Button onClick={handleSave} disabled={isLoading}>
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+          Save Thresholds
+        </Button>
+      )}
+    </div>
+  );
+}
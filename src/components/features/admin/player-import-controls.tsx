@@ -0,0 +1,102 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Loader2, RefreshCw, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { importPlayerFile, refreshPlayerRosters } from "@/server/actions/admin/players";
+import type { Sport } from "@prisma/client";
+
+/**
+ * Import a JSON or CSV roster file, pasted or picked from disk.
+ */
+export function PlayerImportForm({ sport }: { sport: Sport }) {
+  const [text, setText] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+  };
+
+  const handleImport = async () => {
+    setIsLoading(true);
+    try {
+      const result = await importPlayerFile(sport, text);
+      toast.success(`Imported players (${result.created} new, ${result.updated} updated)`);
+      setText("");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to import players");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={'name,team,position,aliases\nLeBron James,Los Angeles Lakers,F,King James|LeBron'}
+        rows={6}
+        className="font-mono text-sm"
+        disabled={isLoading}
+      />
+      <div className="flex items-center gap-2">
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => fileInput.current?.click()}
+          disabled={isLoading}
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          Choose File
+        </Button>
+        <Button size="sm" onClick={handleImport} disabled={!text.trim() || isLoading}>
+          {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Import
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Refresh the sport's players from its roster sources.
+ */
+export function RosterRefreshButton({ sport }: { sport: Sport }) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleRefresh = async () => {
+    setIsLoading(true);
+    try {
+      const result = await refreshPlayerRosters(sport);
+      toast.success(`Rosters refreshed (${result.created} new, ${result.updated} updated)`);
+      for (const error of result.errors) toast.error(error);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to refresh rosters");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Button size="sm" variant="outline" onClick={handleRefresh} disabled={isLoading}>
+      {isLoading ? (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      ) : (
+        <RefreshCw className="mr-2 h-4 w-4" />
+      )}
+      Refresh from Rosters
+    </Button>
+  );
+}
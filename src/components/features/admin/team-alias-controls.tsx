@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Merge, Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  mergeTeamAlias,
+  createTeamFromUnknownAlias,
+  unmergeTeamAlias,
+} from "@/server/actions/admin/teams";
+
+interface AliasMergeControlProps {
+  aliasId: string;
+  teams: { id: string; name: string }[];
+}
+
+/**
+ * Merge an unknown alias into an existing team, or add it as a new team.
+ */
+export function AliasMergeControl({ aliasId, teams }: AliasMergeControlProps) {
+  const [teamId, setTeamId] = useState<string>("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleMerge = async () => {
+    if (!teamId) return;
+    setIsLoading(true);
+    try {
+      const result = await mergeTeamAlias(aliasId, teamId);
+      toast.success(`Alias merged (${result.odds} odds, ${result.results} results renamed)`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to merge alias");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsLoading(true);
+    try {
+      await createTeamFromUnknownAlias(aliasId);
+      toast.success("Team created");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create team");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-end gap-2">
+      <Select value={teamId} onValueChange={setTeamId} disabled={isLoading}>
+        <SelectTrigger className="h-8 w-56">
+          <SelectValue placeholder="Select team" />
+        </SelectTrigger>
+        <SelectContent>
+          {teams.map((team) => (
+            <SelectItem key={team.id} value={team.id}>
+              {team.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button size="sm" onClick={handleMerge} disabled={!teamId || isLoading}>
+        {isLoading ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <Merge className="mr-2 h-4 w-4" />
+        )}
+        Merge
+      </Button>
+      <Button size="sm" variant="outline" onClick={handleCreate} disabled={isLoading}>
+        <Plus className="mr-2 h-4 w-4" />
+        New Team
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * A merged alias, removable from its team.
+ */
+export function MergedAliasBadge({ aliasId, label }: { aliasId: string; label: string }) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleRemove = async () => {
+    if (
+      !confirm(
+        `Remove alias "${label}"? Only future ingests are affected; games, odds and results already renamed keep the team's name.`
+      )
+    ) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await unmergeTeamAlias(aliasId);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove alias");
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Badge variant="secondary" className="gap-1">
+      {label}
+      <button
+        type="button"
+        onClick={handleRemove}
+        disabled={isLoading}
+        className="rounded-full hover:text-destructive"
+        aria-label={`Remove alias ${label}`}
+        title="Remove alias (affects future ingests only)"
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </Badge>
+  );
+}
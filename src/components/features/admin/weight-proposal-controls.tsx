@@ -0,0 +1,168 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Loader2, Play, X } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  acceptWeightProposal,
+  rejectWeightProposal,
+  trainWeightProposal,
+} from "@/server/actions/admin/importance";
+import type { WeightProposalMetrics } from "@/server/services/weight-trainer.service";
+import type { FeedbackTarget, WeightProposalStatus } from "@prisma/client";
+
+interface WeightProposalView {
+  id: string;
+  status: WeightProposalStatus;
+  createdAt: Date;
+  reviewedAt: Date | null;
+  weights: Record<string, number>;
+  baselineWeights: Record<string, number>;
+  metrics: WeightProposalMetrics;
+}
+
+function formatPercent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Feedback counts, training and review of learned weights for one target.
+ */
+export function WeightProposalControls({
+  target,
+  feedback,
+  proposal,
+  canEdit,
+}: {
+  target: FeedbackTarget;
+  feedback: { positive: number; negative: number };
+  proposal: WeightProposalView | null;
+  canEdit: boolean;
+}) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const run = async (action: () => Promise<unknown>, success: string, failure: string) => {
+    setIsLoading(true);
+    try {
+      await action();
+      toast.success(success);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : failure);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const isPending = proposal?.status === "PENDING";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {feedback.positive} positive, {feedback.negative} negative feedback events
+        </p>
+        {canEdit && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              run(() => trainWeightProposal(target), "Trained new weights", "Failed to train weights")
+            }
+            disabled={isLoading}
+          >
+            {isLoading ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Play className="mr-2 h-4 w-4" />
+            )}
+            Train
+          </Button>
+        )}
+      </div>
+
+      {proposal && (
+        <>
+          <div className="flex items-center gap-2 text-sm">
+            <Badge variant={isPending ? "secondary" : "outline"}>{proposal.status}</Badge>
+            <span>
+              Precision@{proposal.metrics.k}: {formatPercent(proposal.metrics.precisionBefore)}
+              {" → "}
+              <span className="font-medium">{formatPercent(proposal.metrics.precisionAfter)}</span>
+            </span>
+            <span className="text-muted-foreground">
+              ({proposal.metrics.train} train, {proposal.metrics.test} held out,{" "}
+              {new Date(proposal.reviewedAt ?? proposal.createdAt).toLocaleDateString()})
+            </span>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Factor</TableHead>
+                <TableHead className="text-right">{isPending ? "Current" : "Before"}</TableHead>
+                <TableHead className="text-right">{isPending ? "Proposed" : "Accepted"}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {Object.keys(proposal.weights).map((key) => (
+                <TableRow key={key}>
+                  <TableCell className="font-mono text-sm">{key}</TableCell>
+                  <TableCell className="text-right">
+                    {(proposal.baselineWeights[key] ?? 0).toFixed(3)}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {proposal.weights[key].toFixed(3)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {canEdit && isPending && (
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                onClick={() =>
+                  run(
+                    () => acceptWeightProposal(proposal.id),
+                    "Learned weights applied",
+                    "Failed to accept weights"
+                  )
+                }
+                disabled={isLoading}
+              >
+                <Check className="mr-2 h-4 w-4" />
+                Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() =>
+                  run(
+                    () => rejectWeightProposal(proposal.id),
+                    "Proposal rejected",
+                    "Failed to reject weights"
+                  )
+                }
+                disabled={isLoading}
+              >
+                <X className="mr-2 h-4 w-4" />
+                Reject
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
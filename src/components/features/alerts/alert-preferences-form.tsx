@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { updateAlertPreferences } from "@/server/actions/watchlists";
+import type { AlertPreferences, DigestFrequency } from "@/server/services/alert.service";
+
+const DIGEST_OPTIONS: { value: DigestFrequency; label: string }[] = [
+  { value: "OFF", label: "Send each alert right away" },
+  { value: "HOURLY", label: "Hourly digest" },
+  { value: "DAILY", label: "Daily digest" },
+];
+
+/**
+ * Quiet hours and digest batching for alert emails.
+ */
+export function AlertPreferencesForm({ preferences }: { preferences: AlertPreferences }) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [timezone, setTimezone] = useState(preferences.timezone);
+  const [quiet, setQuiet] = useState(!!preferences.quietHours);
+  const [start, setStart] = useState(preferences.quietHours?.start ?? "22:00");
+  const [end, setEnd] = useState(preferences.quietHours?.end ?? "07:00");
+  const [digest, setDigest] = useState<DigestFrequency>(preferences.digest);
+
+  const handleSave = async () => {
+    setIsLoading(true);
+    try {
+      await updateAlertPreferences({
+        timezone: timezone.trim(),
+        quietHours: quiet ? { start, end } : null,
+        digest,
+      });
+      toast.success("Alert preferences updated");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update alert preferences");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Email delivery</Label>
+          <Select
+            value={digest}
+            onValueChange={(value) => setDigest(value as DigestFrequency)}
+            disabled={isLoading}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DIGEST_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="alert-timezone">Time zone</Label>
+          <Input
+            id="alert-timezone"
+            value={timezone}
+            onChange={(e) => setTimezone(e.target.value)}
+            placeholder="America/New_York"
+            disabled={isLoading}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={quiet}
+            onCheckedChange={(checked) => setQuiet(checked === true)}
+            disabled={isLoading}
+          />
+          Quiet hours
+        </label>
+        <Input
+          type="time"
+          className="w-32"
+          value={start}
+          onChange={(e) => setStart(e.target.value)}
+          disabled={!quiet || isLoading}
+        />
+        <span className="text-sm text-muted-foreground">to</span>
+        <Input
+          type="time"
+          className="w-32"
+          value={end}
+          onChange={(e) => setEnd(e.target.value)}
+          disabled={!quiet || isLoading}
+        />
+      </div>
+
+      <Button onClick={handleSave} disabled={isLoading}>
+        {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Save Preferences
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { CheckCheck, Loader2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { markAllNotificationsRead, markNotificationRead } from "@/server/actions/notifications";
+import type { DeliveryStatus, NotificationPriority } from "@prisma/client";
+
+interface NotificationView {
+  id: string;
+  createdAt: Date;
+  title: string;
+  body: string | null;
+  url: string | null;
+  priority: NotificationPriority;
+  readAt: Date | null;
+  emailStatus: DeliveryStatus | null;
+  webhookStatus: DeliveryStatus | null;
+  watchlist: { id: string; name: string } | null;
+}
+
+/**
+ * The user's notifications; opening one marks it read.
+ */
+export function NotificationList({ notifications }: { notifications: NotificationView[] }) {
+  const [isLoading, setIsLoading] = useState(false);
+  const unread = notifications.filter((notification) => !notification.readAt).length;
+
+  const handleMarkAll = async () => {
+    setIsLoading(true);
+    try {
+      const result = await markAllNotificationsRead();
+      toast.success(`Marked ${result.count} notification(s) read`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to mark notifications read");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (notifications.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No notifications yet. Add a watchlist to get alerted about news you care about.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">{unread} unread</p>
+        <Button size="sm" variant="outline" onClick={handleMarkAll} disabled={!unread || isLoading}>
+          {isLoading ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <CheckCheck className="mr-2 h-4 w-4" />
+          )}
+          Mark all read
+        </Button>
+      </div>
+
+      <div className="divide-y rounded-lg border">
+        {notifications.map((notification) => (
+          <Link
+            key={notification.id}
+            href={notification.url ?? "#"}
+            onClick={() => !notification.readAt && markNotificationRead(notification.id)}
+            className={cn(
+              "block p-4 transition-colors hover:bg-muted",
+              !notification.readAt && "bg-muted/50"
+            )}
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <p className={cn("text-sm", !notification.readAt && "font-semibold")}>
+                  {notification.title}
+                </p>
+                {notification.body && (
+                  <p className="text-sm text-muted-foreground">{notification.body}</p>
+                )}
+              </div>
+              <div className="flex shrink-0 items-center gap-2">
+                {notification.priority === "HIGH" && <Badge variant="destructive">High</Badge>}
+                {notification.emailStatus && (
+                  <Badge variant="outline">Email {notification.emailStatus.toLowerCase()}</Badge>
+                )}
+                {notification.webhookStatus && (
+                  <Badge variant="outline">Webhook {notification.webhookStatus.toLowerCase()}</Badge>
+                )}
+                <span className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                </span>
+              </div>
+            </div>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
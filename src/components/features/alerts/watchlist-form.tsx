@@ -0,0 +1,279 @@
+"use client";
+
+import { useState } from "react";
+import { KeyRound, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { NEWS_TYPES, SPORTS } from "@/lib/constants";
+import {
+  createWatchlist,
+  deleteWatchlist,
+  rotateWebhookSecret,
+  updateWatchlist,
+  type WatchlistInput,
+} from "@/server/actions/watchlists";
+import type { NewsItemType, Sport, Watchlist } from "@prisma/client";
+
+function splitTerms(value: string): string[] {
+  return value
+    .split(",")
+    .map((term) => term.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Create a watchlist, or edit and delete an existing one.
+ */
+export function WatchlistForm({ watchlist }: { watchlist?: Watchlist }) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [name, setName] = useState(watchlist?.name ?? "");
+  const [sport, setSport] = useState<string>(watchlist?.sport ?? "any");
+  const [teams, setTeams] = useState(((watchlist?.teams ?? []) as string[]).join(", "));
+  const [players, setPlayers] = useState(((watchlist?.players ?? []) as string[]).join(", "));
+  const [keywords, setKeywords] = useState(((watchlist?.keywords ?? []) as string[]).join(", "));
+  const [types, setTypes] = useState<NewsItemType[]>((watchlist?.types ?? []) as NewsItemType[]);
+  const [minImportance, setMinImportance] = useState(String(watchlist?.minImportance ?? 50));
+  const [isActive, setIsActive] = useState(watchlist?.isActive ?? true);
+  const [notifyEmail, setNotifyEmail] = useState(watchlist?.notifyEmail ?? false);
+  const [webhookUrl, setWebhookUrl] = useState(watchlist?.webhookUrl ?? "");
+  const [webhookSecret, setWebhookSecret] = useState(watchlist?.webhookSecret ?? "");
+
+  const toggleType = (type: NewsItemType, checked: boolean) =>
+    setTypes((current) =>
+      checked ? [...current, type] : current.filter((value) => value !== type)
+    );
+
+  const handleSave = async () => {
+    const input: WatchlistInput = {
+      name,
+      sport: sport === "any" ? null : (sport as Sport),
+      teams: splitTerms(teams),
+      players: splitTerms(players),
+      keywords: splitTerms(keywords),
+      types,
+      minImportance: Number(minImportance) || 0,
+      isActive,
+      notifyEmail,
+      webhookUrl: webhookUrl.trim() || null,
+    };
+
+    setIsLoading(true);
+    try {
+      if (watchlist) {
+        await updateWatchlist(watchlist.id, input);
+        toast.success("Watchlist updated");
+      } else {
+        await createWatchlist(input);
+        toast.success("Watchlist created");
+        setName("");
+        setTeams("");
+        setPlayers("");
+        setKeywords("");
+        setTypes([]);
+        setWebhookUrl("");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save watchlist");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!watchlist || !confirm(`Delete watchlist "${watchlist.name}"?`)) return;
+    setIsLoading(true);
+    try {
+      await deleteWatchlist(watchlist.id);
+      toast.success("Watchlist deleted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete watchlist");
+      setIsLoading(false);
+    }
+  };
+
+  const handleRotate = async () => {
+    if (!watchlist) return;
+    setIsLoading(true);
+    try {
+      const result = await rotateWebhookSecret(watchlist.id);
+      setWebhookSecret(result.webhookSecret);
+      toast.success("Webhook secret replaced");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to replace secret");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const id = watchlist?.id ?? "new";
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-name`}>Name</Label>
+          <Input
+            id={`${id}-name`}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Celtics desk"
+            disabled={isLoading}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Sport</Label>
+          <Select value={sport} onValueChange={setSport} disabled={isLoading}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any sport</SelectItem>
+              {SPORTS.map((s) => (
+                <SelectItem key={s.value} value={s.value}>
+                  {s.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-min`}>Minimum importance</Label>
+          <Input
+            id={`${id}-min`}
+            type="number"
+            min="0"
+            max="100"
+            value={minImportance}
+            onChange={(e) => setMinImportance(e.target.value)}
+            disabled={isLoading}
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-teams`}>Teams</Label>
+          <Input
+            id={`${id}-teams`}
+            value={teams}
+            onChange={(e) => setTeams(e.target.value)}
+            placeholder="Boston Celtics, Knicks"
+            disabled={isLoading}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-players`}>Players</Label>
+          <Input
+            id={`${id}-players`}
+            value={players}
+            onChange={(e) => setPlayers(e.target.value)}
+            placeholder="Jayson Tatum"
+            disabled={isLoading}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-keywords`}>Keywords</Label>
+          <Input
+            id={`${id}-keywords`}
+            value={keywords}
+            onChange={(e) => setKeywords(e.target.value)}
+            placeholder="trade deadline, buyout"
+            disabled={isLoading}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Comma-separated. News matching any team, player or keyword alerts; leave all three blank
+        to alert on everything of the chosen types.
+      </p>
+
+      <div className="space-y-2">
+        <Label>News types (none means all)</Label>
+        <div className="flex flex-wrap gap-4">
+          {NEWS_TYPES.map((type) => (
+            <label key={type.value} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={types.includes(type.value)}
+                onCheckedChange={(checked) => toggleType(type.value, checked === true)}
+                disabled={isLoading}
+              />
+              {type.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-webhook`}>Webhook URL</Label>
+          <Input
+            id={`${id}-webhook`}
+            value={webhookUrl}
+            onChange={(e) => setWebhookUrl(e.target.value)}
+            placeholder="https://hooks.example.com/clip-scout"
+            disabled={isLoading}
+          />
+        </div>
+        {watchlist && (
+          <div className="space-y-2">
+            <Label htmlFor={`${id}-secret`}>Webhook signing secret</Label>
+            <div className="flex gap-2">
+              <Input id={`${id}-secret`} value={webhookSecret} readOnly className="font-mono text-xs" />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={handleRotate}
+                disabled={isLoading}
+                title="Replace secret"
+              >
+                <KeyRound className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-6">
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={notifyEmail}
+            onCheckedChange={(checked) => setNotifyEmail(checked === true)}
+            disabled={isLoading}
+          />
+          Email me
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={isActive}
+            onCheckedChange={(checked) => setIsActive(checked === true)}
+            disabled={isLoading}
+          />
+          Active
+        </label>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button onClick={handleSave} disabled={!name.trim() || isLoading}>
+          {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {watchlist ? "Save Watchlist" : "Create Watchlist"}
+        </Button>
+        {watchlist && (
+          <Button variant="outline" onClick={handleDelete} disabled={isLoading}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
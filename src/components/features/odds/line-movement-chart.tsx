@@ -0,0 +1,116 @@
+import { format } from "date-fns";
+
+export interface LineSeries {
+  label: string;
+  points: { at: Date; value: number }[];
+}
+
+interface LineMovementChartProps {
+  title: string;
+  series: LineSeries[];
+  /** Extend each line to this time so the current price is visible */
+  until?: Date;
+  height?: number;
+}
+
+const WIDTH = 320;
+const PADDING = { top: 8, right: 8, bottom: 18, left: 36 };
+
+// Matches the Tailwind palette used for the odds page badges
+const SERIES_COLORS = ["#2563eb", "#16a34a", "#ea580c", "#9333ea", "#dc2626", "#0891b2"];
+
+/**
+ * Step chart of a line (spread or total) over time, one series per sportsbook.
+ */
+export function LineMovementChart({ title, series, until, height = 120 }: LineMovementChartProps) {
+  const populated = series.filter((s) => s.points.length > 0);
+
+  if (populated.length === 0) {
+    return (
+      <div className="text-xs text-muted-foreground">
+        {title}: no history
+      </div>
+    );
+  }
+
+  const allPoints = populated.flatMap((s) => s.points);
+  const times = allPoints.map((p) => p.at.getTime());
+  const values = allPoints.map((p) => p.value);
+
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(until?.getTime() ?? 0, ...times);
+  // Pad flat lines so they sit mid-chart instead of on an edge
+  const minValue = Math.min(...values) - 0.5;
+  const maxValue = Math.max(...values) + 0.5;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const x = (time: number) =>
+    PADDING.left + (maxTime === minTime ? plotWidth : ((time - minTime) / (maxTime - minTime)) * plotWidth);
+  const y = (value: number) =>
+    PADDING.top + (1 - (value - minValue) / (maxValue - minValue)) * plotHeight;
+
+  const stepPath = (points: LineSeries["points"]) => {
+    const sorted = [...points].sort((a, b) => a.at.getTime() - b.at.getTime());
+    let path = `M ${x(sorted[0].at.getTime())} ${y(sorted[0].value)}`;
+    for (let i = 1; i < sorted.length; i++) {
+      path += ` H ${x(sorted[i].at.getTime())} V ${y(sorted[i].value)}`;
+    }
+    return `${path} H ${x(maxTime)}`;
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium">{title}</span>
+        <div className="flex flex-wrap gap-2">
+          {populated.map((s, index) => (
+            <span key={s.label} className="flex items-center gap-1 text-xs text-muted-foreground">
+              <span
+                className="inline-block h-2 w-2 rounded-full"
+                style={{ backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length] }}
+              />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full max-w-md"
+        role="img"
+        aria-label={`${title} movement`}
+      >
+        <line
+          x1={PADDING.left}
+          x2={WIDTH - PADDING.right}
+          y1={height - PADDING.bottom}
+          y2={height - PADDING.bottom}
+          className="stroke-muted"
+        />
+        <text x={PADDING.left - 4} y={y(maxValue - 0.5) + 3} textAnchor="end" className="fill-muted-foreground text-[9px]">
+          {maxValue - 0.5}
+        </text>
+        <text x={PADDING.left - 4} y={y(minValue + 0.5) + 3} textAnchor="end" className="fill-muted-foreground text-[9px]">
+          {minValue + 0.5}
+        </text>
+        <text x={PADDING.left} y={height - 4} className="fill-muted-foreground text-[9px]">
+          {format(minTime, "MMM d h:mma")}
+        </text>
+        <text x={WIDTH - PADDING.right} y={height - 4} textAnchor="end" className="fill-muted-foreground text-[9px]">
+          {format(maxTime, "MMM d h:mma")}
+        </text>
+        {populated.map((s, index) => (
+          <path
+            key={s.label}
+            d={stepPath(s.points)}
+            fill="none"
+            stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+            strokeWidth={1.5}
+          />
+        ))}
+      </svg>
+    </div>
+  );
+}
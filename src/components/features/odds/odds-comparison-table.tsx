@@ -0,0 +1,185 @@
+import { AlertTriangle } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import type {
+  BestPrice,
+  BookLine,
+  GameComparison,
+  OffMarketField,
+} from "@/server/services/odds-comparison.service";
+import type { GameOddsAnalysis } from "@/server/services/odds-math.service";
+
+interface OddsComparisonTableProps {
+  comparison: GameComparison;
+  /** Display names keyed by sportsbook slug */
+  sportsbookNames?: Record<string, string>;
+  /** Adds hold per book and a no-vig fair row */
+  analysis?: GameOddsAnalysis;
+}
+
+function formatSigned(value: number | null): string {
+  if (value === null) return "-";
+  return `${value > 0 ? "+" : ""}${value}`;
+}
+
+function formatPercent(value: number | null | undefined): string {
+  if (value === null || value === undefined) return "-";
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function isBest(best: BestPrice | null, book: BookLine, value: number | null): boolean {
+  return !!best && value !== null && best.sportsbooks.includes(book.sportsbook);
+}
+
+function PriceCell({
+  children,
+  best,
+  offMarket,
+}: {
+  children: React.ReactNode;
+  best?: boolean;
+  offMarket?: boolean;
+}) {
+  return (
+    <TableCell
+      className={cn(
+        "text-right font-mono",
+        best && "bg-green-50 font-semibold text-green-700",
+        offMarket && "text-orange-600"
+      )}
+    >
+      <span className="inline-flex items-center gap-1">
+        {offMarket && <AlertTriangle className="h-3 w-3" />}
+        {children}
+      </span>
+    </TableCell>
+  );
+}
+
+/**
+ * Every sportsbook's latest line for one game, with the best price per side
+ * highlighted and off-market books flagged.
+ */
+export function OddsComparisonTable({
+  comparison,
+  sportsbookNames = {},
+  analysis,
+}: OddsComparisonTableProps) {
+  const { best, consensus } = comparison;
+  const flagged = (book: BookLine, field: OffMarketField) => book.offMarket.includes(field);
+  const holdFor = (book: BookLine) =>
+    analysis?.books.find((b) => b.sportsbook === book.sportsbook)?.moneyline?.hold;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Sportsbook</TableHead>
+          <TableHead className="text-right">{comparison.awayTeam} ML</TableHead>
+          <TableHead className="text-right">{comparison.homeTeam} ML</TableHead>
+          <TableHead className="text-right">Away Spread</TableHead>
+          <TableHead className="text-right">Home Spread</TableHead>
+          <TableHead className="text-right">Over</TableHead>
+          <TableHead className="text-right">Under</TableHead>
+          {analysis && <TableHead className="text-right">ML Hold</TableHead>}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {comparison.books.map((book) => (
+          <TableRow key={book.sportsbook}>
+            <TableCell className="font-medium">
+              {sportsbookNames[book.sportsbook] || book.sportsbook}
+            </TableCell>
+            <PriceCell
+              best={isBest(best.awayMoneyline, book, book.awayMoneyline)}
+              offMarket={flagged(book, "awayMoneyline")}
+            >
+              {formatSigned(book.awayMoneyline)}
+            </PriceCell>
+            <PriceCell
+              best={isBest(best.homeMoneyline, book, book.homeMoneyline)}
+              offMarket={flagged(book, "homeMoneyline")}
+            >
+              {formatSigned(book.homeMoneyline)}
+            </PriceCell>
+            <PriceCell
+              best={isBest(best.awaySpread, book, book.spread)}
+              offMarket={flagged(book, "spread")}
+            >
+              {book.spread !== null ? formatSigned(-book.spread) : "-"}
+            </PriceCell>
+            <PriceCell
+              best={isBest(best.homeSpread, book, book.spread)}
+              offMarket={flagged(book, "spread")}
+            >
+              {formatSigned(book.spread)}
+              {book.spreadJuice !== null && (
+                <span className="text-xs text-muted-foreground">({formatSigned(book.spreadJuice)})</span>
+              )}
+            </PriceCell>
+            <PriceCell
+              best={isBest(best.over, book, book.overUnder)}
+              offMarket={flagged(book, "total")}
+            >
+              {book.overUnder ?? "-"}
+              {book.overJuice !== null && (
+                <span className="text-xs text-muted-foreground">({formatSigned(book.overJuice)})</span>
+              )}
+            </PriceCell>
+            <PriceCell
+              best={isBest(best.under, book, book.overUnder)}
+              offMarket={flagged(book, "total")}
+            >
+              {book.overUnder ?? "-"}
+              {book.underJuice !== null && (
+                <span className="text-xs text-muted-foreground">({formatSigned(book.underJuice)})</span>
+              )}
+            </PriceCell>
+            {analysis && (
+              <TableCell className="text-right font-mono text-muted-foreground">
+                {formatPercent(holdFor(book))}
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+        <TableRow className="bg-muted/50 hover:bg-muted/50">
+          <TableCell className="font-medium">Consensus</TableCell>
+          <TableCell className="text-right font-mono">{formatSigned(consensus.awayMoneyline)}</TableCell>
+          <TableCell className="text-right font-mono">{formatSigned(consensus.homeMoneyline)}</TableCell>
+          <TableCell className="text-right font-mono">
+            {consensus.spread !== null ? formatSigned(-consensus.spread) : "-"}
+          </TableCell>
+          <TableCell className="text-right font-mono">{formatSigned(consensus.spread)}</TableCell>
+          <TableCell className="text-right font-mono">{consensus.overUnder ?? "-"}</TableCell>
+          <TableCell className="text-right font-mono">{consensus.overUnder ?? "-"}</TableCell>
+          {analysis && <TableCell />}
+        </TableRow>
+        {analysis?.fair && (
+          <TableRow className="bg-muted/50 hover:bg-muted/50">
+            <TableCell className="font-medium">Fair (no-vig)</TableCell>
+            <TableCell className="text-right font-mono">
+              {formatSigned(analysis.fair.awayMoneyline)}
+              <span className="ml-1 text-xs text-muted-foreground">
+                {formatPercent(analysis.fair.awayProbability)}
+              </span>
+            </TableCell>
+            <TableCell className="text-right font-mono">
+              {formatSigned(analysis.fair.homeMoneyline)}
+              <span className="ml-1 text-xs text-muted-foreground">
+                {formatPercent(analysis.fair.homeProbability)}
+              </span>
+            </TableCell>
+            <TableCell colSpan={5} />
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Download, FileJson, FileSpreadsheet } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { requestOddsExport } from "@/server/actions/exports";
+import { ExportFormat } from "@prisma/client";
+
+/**
+ * Download the odds analysis (implied/fair prices, hold, arbitrage) as CSV or JSON.
+ */
+export function OddsExportButton() {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsLoading(true);
+    try {
+      const result = await requestOddsExport({ format });
+      toast.success("Export ready!");
+      window.location.href = `/api/export/${result.exportId}/download`;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to export");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={isLoading}>
+          {isLoading ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport("CSV")}>
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("JSON")}>
+          <FileJson className="mr-2 h-4 w-4" />
+          JSON
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
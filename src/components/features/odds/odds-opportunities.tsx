@@ -0,0 +1,73 @@
+import { Badge } from "@/components/ui/badge";
+import type {
+  GameOddsAnalysis,
+  OpportunityLeg,
+} from "@/server/services/odds-math.service";
+
+interface OddsOpportunitiesProps {
+  analysis: GameOddsAnalysis;
+  homeTeam: string;
+  awayTeam: string;
+  /** Display names keyed by sportsbook slug */
+  sportsbookNames?: Record<string, string>;
+}
+
+function formatSigned(value: number): string {
+  return `${value > 0 ? "+" : ""}${value}`;
+}
+
+/**
+ * Arbitrage and middle opportunities across books for one game.
+ */
+export function OddsOpportunities({
+  analysis,
+  homeTeam,
+  awayTeam,
+  sportsbookNames = {},
+}: OddsOpportunitiesProps) {
+  if (analysis.arbitrage.length === 0 && analysis.middles.length === 0) {
+    return null;
+  }
+
+  const describeLeg = (leg: OpportunityLeg) => {
+    const side =
+      leg.side === "home" ? homeTeam : leg.side === "away" ? awayTeam : leg.side === "over" ? "Over" : "Under";
+    const line =
+      leg.line === null ? "" : leg.side === "over" || leg.side === "under" ? ` ${leg.line}` : ` ${formatSigned(leg.line)}`;
+    const book = sportsbookNames[leg.sportsbook] || leg.sportsbook;
+    return `${side}${line} (${formatSigned(leg.price)}) @ ${book}`;
+  };
+
+  return (
+    <div className="mt-4 space-y-2 text-sm">
+      {analysis.arbitrage.map((arb, index) => (
+        <div key={`arb-${index}`} className="flex flex-wrap items-center gap-2">
+          <Badge className="bg-green-100 text-green-700 hover:bg-green-100">
+            Arb +{(arb.profit * 100).toFixed(2)}%
+          </Badge>
+          <span className="text-muted-foreground capitalize">{arb.market}</span>
+          {arb.legs.map((leg, legIndex) => (
+            <span key={legIndex}>
+              {describeLeg(leg)}{" "}
+              <span className="text-xs text-muted-foreground">
+                stake {(arb.stakes[legIndex] * 100).toFixed(1)}%
+              </span>
+            </span>
+          ))}
+        </div>
+      ))}
+      {analysis.middles.map((middle, index) => (
+        <div key={`middle-${index}`} className="flex flex-wrap items-center gap-2">
+          <Badge variant="outline" className="text-blue-600">
+            Middle {middle.width} pt{middle.width !== 1 ? "s" : ""}
+          </Badge>
+          <span className="text-muted-foreground capitalize">{middle.market}</span>
+          <span>{middle.legs.map(describeLeg).join(" + ")}</span>
+          <span className="text-xs text-muted-foreground">
+            breaks even at {(middle.breakEven * 100).toFixed(1)}% hits
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
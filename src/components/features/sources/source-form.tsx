@@ -22,8 +22,9 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { toast } from "sonner";
-import { Calendar, Clock, Rss, Globe, Trophy, DollarSign } from "lucide-react";
+import { Calendar, Clock, Rss, Globe, Trophy, DollarSign, Twitter, List, Braces } from "lucide-react";
 import { createSource, updateSource } from "@/server/actions/sources";
+import { SourcePreview } from "./source-preview";
 import { SPORTS } from "@/lib/constants";
 
 interface SourceFormProps {
@@ -47,6 +48,20 @@ const SOURCE_TYPES = [
   { value: "WEBSITE_SCRAPE", label: "Website Scraper", icon: Globe },
   { value: "ESPN_API", label: "ESPN", icon: Trophy },
   { value: "SPORTSGRID_API", label: "SportsGrid", icon: DollarSign },
+  { value: "TWITTER_SEARCH", label: "X/Twitter Search", icon: Twitter },
+  { value: "TWITTER_LIST", label: "X/Twitter List", icon: List },
+  { value: "JSON_API", label: "JSON API", icon: Braces },
+];
+
+const JSON_FIELD_MAPPINGS = [
+  { key: "headline", label: "Headline", placeholder: "$.title", required: true },
+  { key: "externalId", label: "External ID", placeholder: "$.id" },
+  { key: "publishedAt", label: "Published At", placeholder: "$.published_at" },
+  { key: "url", label: "URL", placeholder: "$.links.web" },
+  { key: "content", label: "Content", placeholder: "$.summary" },
+  { key: "imageUrl", label: "Image URL", placeholder: "$.images[0].url" },
+  { key: "author", label: "Author", placeholder: "$.byline" },
+  { key: "type", label: "Type", placeholder: "$.category" },
 ];
 
 const SCHEDULE_TYPES = [
@@ -82,6 +97,7 @@ export function SourceForm({ mode, initialData }: SourceFormProps) {
   const [sourceType, setSourceType] = useState(initialData?.type || "RSS_FEED");
   const [isScheduled, setIsScheduled] = useState(initialData?.isScheduled ?? true);
   const [scheduleType, setScheduleType] = useState(initialData?.scheduleType || "HOURLY");
+  const [sport, setSport] = useState(initialData?.sport || "NFL");
 
   // Config state for different source types
   const [config, setConfig] = useState<Record<string, unknown>>(
@@ -92,6 +108,35 @@ export function SourceForm({ mode, initialData }: SourceFormProps) {
     setConfig((prev) => ({ ...prev, [key]: value }));
   };
 
+  // Update a key inside a nested config object, dropping empty values
+  const handleNestedConfigChange = (group: string, key: string, value: string | number | undefined) => {
+    setConfig((prev) => {
+      const next = { ...((prev[group] as Record<string, unknown>) || {}) };
+      if (value === "" || value === undefined) {
+        delete next[key];
+      } else {
+        next[key] = value;
+      }
+      return { ...prev, [group]: next };
+    });
+  };
+
+  const [headersText, setHeadersText] = useState(
+    initialData?.config?.headers ? JSON.stringify(initialData.config.headers, null, 2) : ""
+  );
+
+  const handleHeadersBlur = () => {
+    if (!headersText.trim()) {
+      setConfig((prev) => ({ ...prev, headers: undefined }));
+      return;
+    }
+    try {
+      setConfig((prev) => ({ ...prev, headers: JSON.parse(headersText) }));
+    } catch {
+      toast.error("Headers must be valid JSON");
+    }
+  };
+
   const handleSubmit = async (formData: FormData) => {
     setIsLoading(true);
 
@@ -209,6 +254,86 @@ export function SourceForm({ mode, initialData }: SourceFormProps) {
                 }
               />
             </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="nextSelector">Next Page Selector (optional)</Label>
+                <Input
+                  id="nextSelector"
+                  placeholder="a.next, .pagination a[rel=next]"
+                  value={((config.pagination as Record<string, string>)?.nextSelector as string) || ""}
+                  onChange={(e) => handleNestedConfigChange("pagination", "nextSelector", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="scrapeMaxPages">Max Pages</Label>
+                <Input
+                  id="scrapeMaxPages"
+                  type="number"
+                  min={1}
+                  max={20}
+                  placeholder="3"
+                  value={
+                    (config.pagination as Record<string, number>)?.maxPages !== undefined
+                      ? String((config.pagination as Record<string, number>).maxPages)
+                      : ""
+                  }
+                  onChange={(e) =>
+                    handleNestedConfigChange(
+                      "pagination",
+                      "maxPages",
+                      e.target.value ? Number(e.target.value) : undefined
+                    )
+                  }
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Next-page links are followed 5 seconds apart until items are older than the last fetch
+            </p>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="render"
+                checked={config.render === true}
+                onCheckedChange={(checked) =>
+                  setConfig((prev) => ({ ...prev, render: checked === true || undefined }))
+                }
+              />
+              <Label htmlFor="render" className="cursor-pointer">
+                Render with headless browser
+              </Label>
+            </div>
+            {config.render === true && (
+              <div className="grid grid-cols-2 gap-4 pl-6 border-l-2 border-muted">
+                <div className="space-y-2">
+                  <Label htmlFor="waitForSelector">Wait For Selector</Label>
+                  <Input
+                    id="waitForSelector"
+                    placeholder=".article-list"
+                    value={(config.waitForSelector as string) || ""}
+                    onChange={(e) => handleConfigChange("waitForSelector", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="renderTimeoutMs">Page Timeout (ms)</Label>
+                  <Input
+                    id="renderTimeoutMs"
+                    type="number"
+                    min={1000}
+                    placeholder="30000"
+                    value={config.renderTimeoutMs !== undefined ? String(config.renderTimeoutMs) : ""}
+                    onChange={(e) =>
+                      setConfig((prev) => ({
+                        ...prev,
+                        renderTimeoutMs: e.target.value ? Number(e.target.value) : undefined,
+                      }))
+                    }
+                  />
+                </div>
+                <p className="col-span-2 text-xs text-muted-foreground">
+                  For JavaScript-rendered sites. Only runs in the background worker.
+                </p>
+              </div>
+            )}
           </div>
         );
 
@@ -310,6 +435,331 @@ export function SourceForm({ mode, initialData }: SourceFormProps) {
           </div>
         );
 
+      case "TWITTER_SEARCH":
+        return (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="searchQuery">Search Query</Label>
+              <Input
+                id="searchQuery"
+                placeholder="NFL trade OR NFL injury"
+                value={(config.searchQuery as string) || ""}
+                onChange={(e) => handleConfigChange("searchQuery", e.target.value)}
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                Supports X search operators (from:, OR, -is:reply)
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="maxResults">Max Results per Request</Label>
+                <Input
+                  id="maxResults"
+                  type="number"
+                  min={10}
+                  max={100}
+                  placeholder="100"
+                  value={config.maxResults !== undefined ? String(config.maxResults) : ""}
+                  onChange={(e) =>
+                    setConfig((prev) => ({
+                      ...prev,
+                      maxResults: e.target.value ? Number(e.target.value) : undefined,
+                    }))
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="includeRetweets">Include Retweets</Label>
+                <Select
+                  value={config.includeRetweets ? "true" : "false"}
+                  onValueChange={(value) =>
+                    setConfig((prev) => ({ ...prev, includeRetweets: value === "true" }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="false">No</SelectItem>
+                    <SelectItem value="true">Yes</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="twBearerToken">Bearer Token</Label>
+              <Input
+                id="twBearerToken"
+                type="password"
+                placeholder="Bearer token (or use TWITTER_BEARER_TOKEN env var)"
+                value={(config.bearerToken as string) || ""}
+                onChange={(e) => handleConfigChange("bearerToken", e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave empty to use TWITTER_BEARER_TOKEN environment variable
+              </p>
+            </div>
+          </div>
+        );
+
+      case "TWITTER_LIST":
+        return (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="listId">List ID</Label>
+              <Input
+                id="listId"
+                placeholder="1234567890"
+                value={(config.listId as string) || ""}
+                onChange={(e) => handleConfigChange("listId", e.target.value)}
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                The numeric ID from the list URL (x.com/i/lists/&lt;id&gt;)
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="listMaxResults">Max Results per Request</Label>
+              <Input
+                id="listMaxResults"
+                type="number"
+                min={1}
+                max={100}
+                placeholder="100"
+                value={config.maxResults !== undefined ? String(config.maxResults) : ""}
+                onChange={(e) =>
+                  setConfig((prev) => ({
+                    ...prev,
+                    maxResults: e.target.value ? Number(e.target.value) : undefined,
+                  }))
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="listBearerToken">Bearer Token</Label>
+              <Input
+                id="listBearerToken"
+                type="password"
+                placeholder="Bearer token (or use TWITTER_BEARER_TOKEN env var)"
+                value={(config.bearerToken as string) || ""}
+                onChange={(e) => handleConfigChange("bearerToken", e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave empty to use TWITTER_BEARER_TOKEN environment variable
+              </p>
+            </div>
+          </div>
+        );
+
+      case "JSON_API": {
+        const fieldMap = (config.fieldMap as Record<string, string>) || {};
+        const auth = (config.auth as Record<string, string>) || {};
+        const pagination = (config.pagination as Record<string, string | number>) || {};
+
+        return (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="jsonUrl">Endpoint URL</Label>
+              <Input
+                id="jsonUrl"
+                placeholder="https://api.example.com/news"
+                value={(config.url as string) || ""}
+                onChange={(e) => handleConfigChange("url", e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="itemsPath">Items Path</Label>
+              <Input
+                id="itemsPath"
+                placeholder="$.data.articles"
+                value={(config.itemsPath as string) || ""}
+                onChange={(e) => handleConfigChange("itemsPath", e.target.value)}
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                JSONPath-style path to the array of items in the response
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Field Mappings</Label>
+              <p className="text-xs text-muted-foreground">
+                Paths are relative to each item, e.g. $.title or author.name
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                {JSON_FIELD_MAPPINGS.map((field) => (
+                  <div key={field.key} className="space-y-1">
+                    <Label htmlFor={`fieldMap-${field.key}`} className="text-xs">
+                      {field.label}
+                      {field.required && " *"}
+                    </Label>
+                    <Input
+                      id={`fieldMap-${field.key}`}
+                      placeholder={field.placeholder}
+                      value={fieldMap[field.key] || ""}
+                      onChange={(e) => handleNestedConfigChange("fieldMap", field.key, e.target.value)}
+                      required={field.required}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="jsonHeaders">Headers (optional)</Label>
+              <Textarea
+                id="jsonHeaders"
+                placeholder='{"X-Client": "clipscout"}'
+                value={headersText}
+                onChange={(e) => setHeadersText(e.target.value)}
+                onBlur={handleHeadersBlur}
+                rows={3}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Authentication</Label>
+                <Select
+                  value={auth.type || "none"}
+                  onValueChange={(value) =>
+                    setConfig((prev) => ({
+                      ...prev,
+                      auth: value === "none" ? undefined : { type: value },
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    <SelectItem value="bearer">Bearer token</SelectItem>
+                    <SelectItem value="basic">Basic auth</SelectItem>
+                    <SelectItem value="header">API key header</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {auth.type === "header" && (
+                <div className="space-y-2">
+                  <Label htmlFor="authHeaderName">Header Name</Label>
+                  <Input
+                    id="authHeaderName"
+                    placeholder="X-API-Key"
+                    value={auth.headerName || ""}
+                    onChange={(e) => handleNestedConfigChange("auth", "headerName", e.target.value)}
+                  />
+                </div>
+              )}
+              {auth.type === "basic" && (
+                <div className="space-y-2">
+                  <Label htmlFor="authUsername">Username</Label>
+                  <Input
+                    id="authUsername"
+                    value={auth.username || ""}
+                    onChange={(e) => handleNestedConfigChange("auth", "username", e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+            {(auth.type === "bearer" || auth.type === "header") && (
+              <div className="space-y-2">
+                <Label htmlFor="authToken">Token</Label>
+                <Input
+                  id="authToken"
+                  type="password"
+                  value={auth.token || ""}
+                  onChange={(e) => handleNestedConfigChange("auth", "token", e.target.value)}
+                />
+              </div>
+            )}
+            {auth.type === "basic" && (
+              <div className="space-y-2">
+                <Label htmlFor="authPassword">Password</Label>
+                <Input
+                  id="authPassword"
+                  type="password"
+                  value={auth.password || ""}
+                  onChange={(e) => handleNestedConfigChange("auth", "password", e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Pagination</Label>
+                <Select
+                  value={(pagination.type as string) || "none"}
+                  onValueChange={(value) =>
+                    setConfig((prev) => ({
+                      ...prev,
+                      pagination: value === "none" ? undefined : { type: value, param: value === "page" ? "page" : "cursor" },
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    <SelectItem value="cursor">Cursor</SelectItem>
+                    <SelectItem value="page">Page number</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {pagination.type && (
+                <div className="space-y-2">
+                  <Label htmlFor="paginationParam">Query Parameter</Label>
+                  <Input
+                    id="paginationParam"
+                    placeholder={pagination.type === "page" ? "page" : "cursor"}
+                    value={(pagination.param as string) || ""}
+                    onChange={(e) => handleNestedConfigChange("pagination", "param", e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+            {pagination.type && (
+              <div className="grid grid-cols-2 gap-4">
+                {pagination.type === "cursor" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="cursorPath">Next Cursor Path</Label>
+                    <Input
+                      id="cursorPath"
+                      placeholder="$.meta.next_cursor"
+                      value={(pagination.cursorPath as string) || ""}
+                      onChange={(e) => handleNestedConfigChange("pagination", "cursorPath", e.target.value)}
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="maxPages">Max Pages</Label>
+                  <Input
+                    id="maxPages"
+                    type="number"
+                    min={1}
+                    max={20}
+                    placeholder="5"
+                    value={pagination.maxPages !== undefined ? String(pagination.maxPages) : ""}
+                    onChange={(e) =>
+                      handleNestedConfigChange(
+                        "pagination",
+                        "maxPages",
+                        e.target.value ? Number(e.target.value) : undefined
+                      )
+                    }
+                  />
+                </div>
+              </div>
+            )}
+
+            <SourcePreview type={sourceType} sport={sport} config={config} />
+          </div>
+        );
+      }
+
       default:
         return null;
     }
@@ -365,7 +815,7 @@ export function SourceForm({ mode, initialData }: SourceFormProps) {
 
             <div className="space-y-2">
               <Label htmlFor="sport">Sport</Label>
-              <Select name="sport" defaultValue={initialData?.sport || "NFL"}>
+              <Select name="sport" value={sport} onValueChange={setSport}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+import { FlaskConical, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { previewSourceConfig } from "@/server/actions/sources";
+import type { SourceType, Sport } from "@prisma/client";
+
+interface SourcePreviewProps {
+  type: string;
+  sport: string;
+  config: Record<string, unknown>;
+}
+
+type PreviewResult = Awaited<ReturnType<typeof previewSourceConfig>>;
+
+export function SourcePreview({ type, sport, config }: SourcePreviewProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [result, setResult] = useState<PreviewResult | null>(null);
+
+  const handlePreview = async () => {
+    setIsLoading(true);
+    try {
+      const preview = await previewSourceConfig({
+        type: type as SourceType,
+        sport: sport as Sport,
+        config,
+      });
+      setResult(preview);
+      if (preview.success && preview.items.length === 0) {
+        toast.info("Request succeeded but no items were mapped");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to preview source");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Button type="button" variant="outline" size="sm" onClick={handlePreview} disabled={isLoading}>
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin mr-1" />
+        ) : (
+          <FlaskConical className="h-4 w-4 mr-1" />
+        )}
+        Test mapping
+      </Button>
+
+      {result && (
+        <div className="space-y-2 rounded-md border p-3">
+          {result.errors.map((error) => (
+            <p key={error} className="text-sm text-red-600">
+              {error}
+            </p>
+          ))}
+          {result.warnings.map((warning) => (
+            <p key={warning} className="text-xs text-yellow-600">
+              {warning}
+            </p>
+          ))}
+
+          {result.success && (
+            <p className="text-xs text-muted-foreground">
+              {result.items.length} item{result.items.length === 1 ? "" : "s"} mapped from the first page
+            </p>
+          )}
+
+          {result.items.map((item) => (
+            <div key={item.externalId} className="border-t pt-2 first:border-t-0 first:pt-0">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className="text-xs">
+                  {item.type}
+                </Badge>
+                <span className="text-sm font-medium line-clamp-1">{item.headline}</span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {new Date(item.publishedAt).toLocaleString()}
+                {item.author && ` · ${item.author}`}
+                {` · ${item.externalId}`}
+              </p>
+              {item.content && (
+                <p className="text-xs text-muted-foreground line-clamp-2">{item.content}</p>
+              )}
+            </div>
+          ))}
+
+          {result.success && result.sample !== undefined && (
+            <details open={result.items.length === 0}>
+              <summary className="cursor-pointer text-xs text-muted-foreground">First raw item</summary>
+              <pre className="mt-1 max-h-48 overflow-auto rounded bg-muted p-2 text-xs">
+                {JSON.stringify(result.sample, null, 2)}
+              </pre>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
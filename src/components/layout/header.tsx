@@ -1,5 +1,6 @@
 "use client";
 
+import Link from "next/link";
 import { signOut } from "next-auth/react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
@@ -12,7 +13,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
-import { LogOut, User, Building2 } from "lucide-react";
+import { LogOut, User, Building2, Bell } from "lucide-react";
 import { LoggerButton } from "@/components/features/logger/logger-button";
 
 interface HeaderProps {
@@ -25,9 +26,10 @@ interface HeaderProps {
     organizationName: string | null;
     organizationRole: "MANAGER" | "MEMBER" | null;
   };
+  unreadNotifications?: number;
 }
 
-export function Header({ user }: HeaderProps) {
+export function Header({ user, unreadNotifications = 0 }: HeaderProps) {
   const initials = user.name
     ?.split(" ")
     .map((n) => n[0])
@@ -52,6 +54,18 @@ export function Header({ user }: HeaderProps) {
         {/* Logger Button */}
         <LoggerButton />
 
+        {/* Notifications */}
+        <Button variant="ghost" size="icon" className="relative" asChild>
+          <Link href="/notifications" title="Notifications">
+            <Bell className="h-4 w-4" />
+            {unreadNotifications > 0 && (
+              <span className="absolute -right-1 -top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground">
+                {unreadNotifications > 99 ? "99+" : unreadNotifications}
+              </span>
+            )}
+          </Link>
+        </Button>
+
         {/* User Menu */}
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
@@ -12,11 +12,17 @@ import {
   Settings,
   Plus,
   Newspaper,
+  CalendarDays,
   DollarSign,
   Trophy,
+  ListOrdered,
   Rss,
   Users,
+  Shirt,
+  UserRound,
+  Gauge,
   Shield,
+  Eye,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
@@ -31,13 +37,19 @@ const navigation = [
 
 const newsNavigation = [
   { name: "News Feed", href: "/news", icon: Newspaper },
+  { name: "Games", href: "/games", icon: CalendarDays },
   { name: "Odds", href: "/odds", icon: DollarSign },
   { name: "Results", href: "/results", icon: Trophy },
+  { name: "Records", href: "/records", icon: ListOrdered },
+  { name: "Watchlists", href: "/watchlists", icon: Eye },
 ];
 
 const adminNavigation = [
   { name: "Sources", href: "/admin/sources", icon: Rss },
   { name: "Users", href: "/admin/users", icon: Users },
+  { name: "Teams", href: "/admin/teams", icon: Shirt },
+  { name: "Players", href: "/admin/players", icon: UserRound },
+  { name: "Scoring", href: "/admin/importance", icon: Gauge },
   { name: "Settings", href: "/admin/settings", icon: Shield },
 ];
 
@@ -11,6 +11,18 @@ export const SPORTS = [
   { value: "SPORTS_BETTING", label: "Sports Betting" },
 ] as const;
 
+// News item type options
+export const NEWS_TYPES = [
+  { value: "BREAKING", label: "Breaking" },
+  { value: "TRADE", label: "Trade" },
+  { value: "INJURY", label: "Injury" },
+  { value: "GAME_RESULT", label: "Game Result" },
+  { value: "BETTING_LINE", label: "Betting Line" },
+  { value: "RUMOR", label: "Rumor" },
+  { value: "ANALYSIS", label: "Analysis" },
+  { value: "SCHEDULE", label: "Schedule" },
+] as const;
+
 // Schedule type options
 export const SCHEDULE_TYPES = [
   { value: "MANUAL", label: "Manual only" },
@@ -25,3 +37,12 @@ export type SportValue = (typeof SPORTS)[number]["value"];
 
 // Schedule type value
 export type ScheduleTypeValue = (typeof SCHEDULE_TYPES)[number]["value"];
+
+// Sportsbook display names keyed by the slug adapters report
+export const SPORTSBOOK_NAMES: Record<string, string> = {
+  draftkings: "DraftKings",
+  fanduel: "FanDuel",
+  caesars: "Caesars",
+  betmgm: "BetMGM",
+  bet365: "bet365",
+};
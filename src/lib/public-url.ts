@@ -0,0 +1,85 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+
+/**
+ * Checks for user-supplied outbound URLs, like alert webhooks. Any org member
+ * can enter one and the worker POSTs to it, so it must use https and its host
+ * must resolve only to public addresses: never loopback, private networks,
+ * link-local (cloud metadata lives at 169.254.169.254) or other reserved
+ * ranges.
+ */
+
+const NON_PUBLIC = new BlockList();
+
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local
+  ["172.16.0.0", 12], // Private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.168.0.0", 16], // Private
+  ["198.18.0.0", 15], // Benchmarking
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved and broadcast
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv4");
+}
+
+for (const [network, prefix] of [
+  ["::", 128], // Unspecified
+  ["::1", 128], // Loopback
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is publicly routable. IPv4-mapped IPv6 addresses are
+ * checked as IPv4.
+ */
+export function isPublicAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPublicAddress(mapped[1]);
+
+  const family = isIP(address);
+  if (family === 0) return false;
+
+  return !NON_PUBLIC.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Validate an https URL whose host resolves only to public addresses.
+ * @throws If the URL is malformed, isn't https or reaches a non-public address
+ */
+export async function assertPublicHttpsUrl(value: string): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error("Invalid URL");
+  }
+
+  if (url.protocol !== "https:") {
+    throw new Error("URL must use https://");
+  }
+
+  // URL keeps IPv6 literals in brackets
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  const addresses = isIP(host)
+    ? [host]
+    : await lookup(host, { all: true, verbatim: true })
+        .then((results) => results.map((result) => result.address))
+        .catch(() => {
+          throw new Error(`Could not resolve ${host}`);
+        });
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new Error(`${host} is not a public address`);
+  }
+
+  return url;
+}
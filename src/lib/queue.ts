@@ -13,6 +13,10 @@ export const QUEUE_NAMES = {
   SOURCE_FETCH: "clipscout-source-fetch",
   IMPORTANCE_SCORE: "clipscout-importance-score",
   CLIP_PAIR: "clipscout-clip-pair",
+  BET_GRADE: "clipscout-bet-grade",
+  LIVE_SCORE: "clipscout-live-score",
+  IMPORTANCE_RESCORE: "clipscout-importance-rescore",
+  ALERT: "clipscout-alert",
 } as const;
 
 // Cache for queue instances
@@ -99,6 +103,26 @@ export const clipPairQueue = {
   add: (...args: Parameters<Queue['add']>) => getQueue(QUEUE_NAMES.CLIP_PAIR).add(...args),
 };
 
+export const betGradeQueue = {
+  get instance() { return getQueue(QUEUE_NAMES.BET_GRADE); },
+  add: (...args: Parameters<Queue['add']>) => getQueue(QUEUE_NAMES.BET_GRADE).add(...args),
+};
+
+export const liveScoreQueue = {
+  get instance() { return getQueue(QUEUE_NAMES.LIVE_SCORE); },
+  add: (...args: Parameters<Queue['add']>) => getQueue(QUEUE_NAMES.LIVE_SCORE).add(...args),
+};
+
+export const importanceRescoreQueue = {
+  get instance() { return getQueue(QUEUE_NAMES.IMPORTANCE_RESCORE); },
+  add: (...args: Parameters<Queue['add']>) => getQueue(QUEUE_NAMES.IMPORTANCE_RESCORE).add(...args),
+};
+
+export const alertQueue = {
+  get instance() { return getQueue(QUEUE_NAMES.ALERT); },
+  add: (...args: Parameters<Queue['add']>) => getQueue(QUEUE_NAMES.ALERT).add(...args),
+};
+
 // Job data types
 export interface QueryRunJobData {
   queryRunId: string;
@@ -158,6 +182,24 @@ export interface ClipPairJobData {
   orgId: string;
 }
 
+export interface BetGradeJobData {
+  gameResultId: string;
+  orgId: string;
+}
+
+export interface LiveScoreJobData {
+  type: "check-live-games";
+}
+
+export interface ImportanceRescoreJobData {
+  type: "rescore-recent";
+}
+
+export type AlertJobData =
+  | { type: "email"; userId: string }
+  | { type: "webhook"; notificationId: string }
+  | { type: "flush-digests" };
+
 // Helper to create a worker with default settings
 export function createWorker<T>(
   queueName: string,
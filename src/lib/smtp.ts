@@ -0,0 +1,66 @@
+import nodemailer, { type Transporter } from "nodemailer";
+
+/**
+ * SMTP delivery for alert emails, through nodemailer.
+ * Works with a relay or a local catcher like Mailpit. Credentials are only
+ * ever sent encrypted: with SMTP_USER set, a plain connection must upgrade
+ * with STARTTLS before AUTH or the send fails.
+ */
+
+export interface SmtpMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+const SMTP_TIMEOUT_MS = 30_000;
+
+let transporter: Transporter | null = null;
+
+/**
+ * Check if SMTP is configured.
+ */
+export function isSmtpConfigured(): boolean {
+  return !!process.env.SMTP_HOST && !!process.env.SMTP_FROM;
+}
+
+function getTransporter(): Transporter {
+  if (!isSmtpConfigured()) {
+    throw new Error("SMTP is not configured. Set SMTP_HOST and SMTP_FROM environment variables.");
+  }
+
+  if (!transporter) {
+    // Implicit TLS (usually port 465)
+    const secure = process.env.SMTP_SECURE === "true";
+    const user = process.env.SMTP_USER || undefined;
+
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+      secure,
+      requireTLS: !secure && !!user,
+      auth: user ? { user, pass: process.env.SMTP_PASSWORD ?? "" } : undefined,
+      connectionTimeout: SMTP_TIMEOUT_MS,
+      greetingTimeout: SMTP_TIMEOUT_MS,
+      socketTimeout: SMTP_TIMEOUT_MS,
+    });
+  }
+
+  return transporter;
+}
+
+/**
+ * Send a message through the configured SMTP server.
+ * @throws If the server rejects the message, the connection fails, or
+ * credentials are set and the server doesn't offer STARTTLS
+ */
+export async function sendMail(message: SmtpMessage): Promise<void> {
+  await getTransporter().sendMail({
+    from: process.env.SMTP_FROM,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+  });
+}
@@ -34,6 +34,20 @@ export async function getTenantContext() {
   };
 }
 
+/**
+ * Get tenant context for a manager-only action.
+ * @param action - What only managers can do, for the error message
+ */
+export async function requireManager(action: string) {
+  const context = await getTenantContext();
+
+  if (!context.isManager) {
+    throw new Error(`Only managers can ${action}`);
+  }
+
+  return context;
+}
+
 /**
  * Get tenant context or null if not authenticated/no org
  */
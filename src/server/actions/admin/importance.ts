@@ -0,0 +1,287 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { getTenantContext, requireManager } from "@/lib/tenant-prisma";
+import { NewsItemType } from "@prisma/client";
+import type { FeedbackTarget, Prisma } from "@prisma/client";
+import {
+  DEFAULT_FACTOR_WEIGHTS,
+  guessSourceAuthority,
+  type ImportanceFactors,
+} from "@/server/services/importance-scorer";
+import {
+  getImportanceSettings,
+  previewScoringProfile,
+  resolveScoringProfile,
+  type ImportanceSettings,
+} from "@/server/services/importance-profile.service";
+import { getFeedbackSummary } from "@/server/services/feedback.service";
+import { proposeWeights, type WeightProposalMetrics } from "@/server/services/weight-trainer.service";
+
+const weight = z.number().min(0).max(1);
+
+// Schema for importance weight overrides
+const importanceSettingsSchema = z.object({
+  weights: z
+    .object(
+      Object.fromEntries(
+        Object.keys(DEFAULT_FACTOR_WEIGHTS).map((key) => [key, weight.optional()])
+      ) as Record<keyof ImportanceFactors, z.ZodOptional<typeof weight>>
+    )
+    .optional(),
+  topicWeights: z.record(z.nativeEnum(NewsItemType), weight).optional(),
+});
+
+/**
+ * Get the org's importance settings, the profile they resolve to, and source
+ * authorities.
+ */
+export async function getImportanceOverview() {
+  const { orgId } = await getTenantContext();
+
+  const [org, sources] = await Promise.all([
+    prisma.organization.findUnique({
+      where: { id: orgId },
+      select: { settings: true },
+    }),
+    prisma.source.findMany({
+      where: { orgId },
+      select: { id: true, name: true, type: true, sport: true, authority: true },
+      orderBy: [{ sport: "asc" }, { name: "asc" }],
+    }),
+  ]);
+
+  const settings = getImportanceSettings(org?.settings ?? {});
+
+  return {
+    settings,
+    profile: resolveScoringProfile(settings),
+    sources: sources.map((source) => ({
+      ...source,
+      guessedAuthority: guessSourceAuthority(source.name),
+    })),
+  };
+}
+
+/**
+ * Re-score recent items with unsaved settings, for the live preview.
+ */
+export async function previewImportanceSettings(input: ImportanceSettings) {
+  const { orgId } = await getTenantContext();
+
+  const settings = importanceSettingsSchema.parse(input);
+  const profile = resolveScoringProfile(settings);
+
+  return { profileId: profile.id, rows: await previewScoringProfile(orgId, profile) };
+}
+
+/**
+ * Save the org's factor and topic weights. New scores record the profile.
+ */
+export async function updateImportanceSettings(input: ImportanceSettings) {
+  const { userId, orgId } = await requireManager("change importance scoring");
+
+  const importance = importanceSettingsSchema.parse(input);
+  const profile = resolveScoringProfile(importance);
+
+  await prisma.$transaction(async (tx) => {
+    const org = await tx.organization.findUnique({
+      where: { id: orgId },
+      select: { settings: true },
+    });
+    const settings = (org?.settings ?? {}) as Prisma.JsonObject;
+
+    await tx.organization.update({
+      where: { id: orgId },
+      data: {
+        settings: { ...settings, importance } as Prisma.InputJsonValue,
+      },
+    });
+
+    await tx.auditEvent.create({
+      data: {
+        orgId,
+        actorUserId: userId,
+        eventType: "ORG_UPDATED",
+        entityType: "Organization",
+        entityId: orgId,
+        action: `Updated importance weights (profile ${profile.id})`,
+        meta: {
+          profileId: profile.id,
+          changes: {
+            importance: { from: settings.importance ?? null, to: importance },
+          },
+        } as Prisma.InputJsonValue,
+      },
+    });
+  });
+
+  revalidatePath("/admin/importance");
+  return { success: true, profileId: profile.id };
+}
+
+/**
+ * Set a source's authority (0-1), or clear it to guess from the name.
+ */
+export async function updateSourceAuthority(sourceId: string, authority: number | null) {
+  const { userId, orgId } = await requireManager("change importance scoring");
+
+  const value = weight.nullable().parse(authority);
+
+  const existing = await prisma.source.findFirst({
+    where: { id: sourceId, orgId },
+  });
+
+  if (!existing) {
+    throw new Error("Source not found");
+  }
+
+  await prisma.source.update({
+    where: { id: sourceId },
+    data: { authority: value },
+  });
+
+  await prisma.auditEvent.create({
+    data: {
+      orgId,
+      actorUserId: userId,
+      eventType: "QUERY_UPDATED",
+      entityType: "Source",
+      entityId: sourceId,
+      action: `Set authority of "${existing.name}" to ${value ?? "automatic"}`,
+      meta: { changes: { authority: { from: existing.authority, to: value } } },
+    },
+  });
+
+  revalidatePath("/admin/importance");
+  revalidatePath(`/admin/sources/${sourceId}`);
+  return { success: true };
+}
+
+/**
+ * Feedback collected so far and the latest proposal for each target.
+ */
+export async function getWeightLearningOverview() {
+  const { orgId } = await getTenantContext();
+
+  const [feedback, proposals] = await Promise.all([
+    getFeedbackSummary(orgId),
+    prisma.weightProposal.findMany({
+      where: { orgId, status: { in: ["PENDING", "ACCEPTED"] } },
+      orderBy: { createdAt: "desc" },
+    }),
+  ]);
+
+  const latest = (target: FeedbackTarget) => {
+    const proposal = proposals.find((entry) => entry.target === target);
+    return proposal
+      ? {
+          id: proposal.id,
+          status: proposal.status,
+          createdAt: proposal.createdAt,
+          reviewedAt: proposal.reviewedAt,
+          weights: proposal.weights as Record<string, number>,
+          baselineWeights: proposal.baselineWeights as Record<string, number>,
+          metrics: proposal.metrics as unknown as WeightProposalMetrics,
+        }
+      : null;
+  };
+
+  return {
+    feedback,
+    proposals: { IMPORTANCE: latest("IMPORTANCE"), CLIP_MATCH: latest("CLIP_MATCH") },
+  };
+}
+
+/**
+ * Train weights on the org's feedback and store them as a pending proposal.
+ */
+export async function trainWeightProposal(target: FeedbackTarget) {
+  const { userId, orgId } = await requireManager("change importance scoring");
+
+  const proposal = await proposeWeights(orgId, target, userId);
+
+  revalidatePath("/admin/importance");
+  return { success: true, proposalId: proposal.id };
+}
+
+/**
+ * Apply a pending proposal: importance weights go into the org's scoring
+ * profile (topic weights unchanged), clip match weights into clip pairing.
+ */
+export async function acceptWeightProposal(proposalId: string) {
+  const { userId, orgId } = await requireManager("change importance scoring");
+
+  await prisma.$transaction(async (tx) => {
+    const proposal = await tx.weightProposal.findFirst({
+      where: { id: proposalId, orgId, status: "PENDING" },
+    });
+
+    if (!proposal) {
+      throw new Error("Proposal not found or already reviewed");
+    }
+
+    const org = await tx.organization.findUnique({
+      where: { id: orgId },
+      select: { settings: true },
+    });
+    const settings = (org?.settings ?? {}) as Prisma.JsonObject;
+    const weights = proposal.weights as Prisma.JsonObject;
+
+    const key = proposal.target === "IMPORTANCE" ? "importance" : "clipMatch";
+    const current = (settings[key] ?? {}) as Prisma.JsonObject;
+    const updated = { ...current, weights };
+
+    await tx.organization.update({
+      where: { id: orgId },
+      data: {
+        settings: { ...settings, [key]: updated } as Prisma.InputJsonValue,
+      },
+    });
+
+    await tx.weightProposal.update({
+      where: { id: proposalId },
+      data: { status: "ACCEPTED", reviewedByUserId: userId, reviewedAt: new Date() },
+    });
+
+    await tx.auditEvent.create({
+      data: {
+        orgId,
+        actorUserId: userId,
+        eventType: "ORG_UPDATED",
+        entityType: "Organization",
+        entityId: orgId,
+        action: `Accepted learned ${proposal.target === "IMPORTANCE" ? "importance" : "clip match"} weights`,
+        meta: {
+          proposalId,
+          metrics: proposal.metrics,
+          changes: { [key]: { from: settings[key] ?? null, to: updated } },
+        } as Prisma.InputJsonValue,
+      },
+    });
+  });
+
+  revalidatePath("/admin/importance");
+  return { success: true };
+}
+
+/**
+ * Reject a pending proposal, keeping the current weights.
+ */
+export async function rejectWeightProposal(proposalId: string) {
+  const { userId, orgId } = await requireManager("change importance scoring");
+
+  const result = await prisma.weightProposal.updateMany({
+    where: { id: proposalId, orgId, status: "PENDING" },
+    data: { status: "REJECTED", reviewedByUserId: userId, reviewedAt: new Date() },
+  });
+
+  if (result.count === 0) {
+    throw new Error("Proposal not found or already reviewed");
+  }
+
+  revalidatePath("/admin/importance");
+  return { success: true };
+}
@@ -0,0 +1,88 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { getTenantContext, requireManager } from "@/lib/tenant-prisma";
+import type { Sport } from "@prisma/client";
+import {
+  importPlayers,
+  parsePlayerImport,
+  refreshRosters,
+} from "@/server/services/player-registry.service";
+
+/**
+ * Get the org's player dictionary for a sport.
+ */
+export async function getPlayers(sport: Sport) {
+  const { orgId } = await getTenantContext();
+
+  return prisma.player.findMany({
+    where: { orgId, sport },
+    orderBy: [{ team: "asc" }, { name: "asc" }],
+  });
+}
+
+/**
+ * Import players from the contents of a JSON or CSV roster file.
+ */
+export async function importPlayerFile(sport: Sport, text: string) {
+  const { userId, orgId } = await requireManager("manage players");
+
+  let players;
+  try {
+    players = parsePlayerImport(text);
+  } catch (error) {
+    throw new Error(
+      `Could not parse roster file: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+
+  if (players.length === 0) {
+    throw new Error("No players found in file");
+  }
+
+  const result = await importPlayers(orgId, sport, players);
+
+  await prisma.auditEvent.create({
+    data: {
+      orgId,
+      actorUserId: userId,
+      eventType: "ORG_UPDATED",
+      entityType: "Player",
+      entityId: sport,
+      action: `Imported ${players.length} ${sport} players`,
+      meta: result,
+    },
+  });
+
+  revalidatePath("/admin/players");
+  return { success: true, ...result };
+}
+
+/**
+ * Refresh a sport's players from its roster sources.
+ */
+export async function refreshPlayerRosters(sport: Sport) {
+  const { userId, orgId } = await requireManager("manage players");
+
+  const result = await refreshRosters(orgId, sport);
+
+  if (result.sources === 0 && result.errors.length === 0) {
+    throw new Error(`No active roster sources for ${sport}`);
+  }
+
+  await prisma.auditEvent.create({
+    data: {
+      orgId,
+      actorUserId: userId,
+      eventType: "ORG_UPDATED",
+      entityType: "Player",
+      entityId: sport,
+      action: `Refreshed ${sport} rosters from ${result.sources} sources`,
+      meta: result,
+    },
+  });
+
+  revalidatePath("/admin/players");
+  return { success: true, ...result };
+}
@@ -0,0 +1,125 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { getTenantContext, requireManager } from "@/lib/tenant-prisma";
+import type { Sport } from "@prisma/client";
+import {
+  ensureTeamsSeeded,
+  mergeAliasIntoTeam,
+  createTeamFromAlias,
+} from "@/server/services/team-registry.service";
+
+/**
+ * Get the org's teams (with merged aliases) for a sport.
+ */
+export async function getTeams(sport: Sport) {
+  const { orgId } = await getTenantContext();
+
+  await ensureTeamsSeeded(orgId, sport);
+
+  return prisma.team.findMany({
+    where: { orgId, sport },
+    orderBy: { name: "asc" },
+    include: {
+      aliases: { orderBy: { rawName: "asc" } },
+    },
+  });
+}
+
+/**
+ * Get team names seen at ingest that didn't match any team.
+ */
+export async function getUnknownAliases(sport?: Sport) {
+  const { orgId } = await getTenantContext();
+
+  return prisma.teamAlias.findMany({
+    where: {
+      orgId,
+      teamId: null,
+      ...(sport && { sport }),
+    },
+    orderBy: [{ seenCount: "desc" }, { lastSeenAt: "desc" }],
+  });
+}
+
+/**
+ * Merge an unknown alias into a team.
+ */
+export async function mergeTeamAlias(aliasId: string, teamId: string) {
+  const { userId, orgId } = await requireManager("manage teams");
+
+  const renamed = await mergeAliasIntoTeam(orgId, aliasId, teamId);
+
+  await prisma.auditEvent.create({
+    data: {
+      orgId,
+      actorUserId: userId,
+      eventType: "ORG_UPDATED",
+      entityType: "TeamAlias",
+      entityId: aliasId,
+      action: "Merged team alias",
+      meta: { teamId, ...renamed },
+    },
+  });
+
+  revalidatePath("/admin/teams");
+  return { success: true, ...renamed };
+}
+
+/**
+ * Add an unknown alias as a new team.
+ */
+export async function createTeamFromUnknownAlias(aliasId: string) {
+  const { userId, orgId } = await requireManager("manage teams");
+
+  const team = await createTeamFromAlias(orgId, aliasId);
+
+  await prisma.auditEvent.create({
+    data: {
+      orgId,
+      actorUserId: userId,
+      eventType: "ORG_UPDATED",
+      entityType: "Team",
+      entityId: team.id,
+      action: `Created team "${team.name}"`,
+    },
+  });
+
+  revalidatePath("/admin/teams");
+  return { success: true, teamId: team.id };
+}
+
+/**
+ * Detach an alias from its team so it shows as unknown again. Only future
+ * ingests see the change: games, odds and results renamed by the merge keep
+ * the team's name.
+ */
+export async function unmergeTeamAlias(aliasId: string) {
+  const { userId, orgId } = await requireManager("manage teams");
+
+  const alias = await prisma.teamAlias.findFirst({ where: { id: aliasId, orgId } });
+  if (!alias) {
+    throw new Error("Alias not found");
+  }
+
+  await prisma.teamAlias.update({
+    where: { id: alias.id },
+    data: { teamId: null },
+  });
+
+  await prisma.auditEvent.create({
+    data: {
+      orgId,
+      actorUserId: userId,
+      eventType: "ORG_UPDATED",
+      entityType: "TeamAlias",
+      entityId: aliasId,
+      action: "Unmerged team alias",
+      meta: { teamId: alias.teamId, rawName: alias.rawName },
+    },
+  });
+
+  revalidatePath("/admin/teams");
+  return { success: true };
+}
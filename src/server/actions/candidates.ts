@@ -3,6 +3,15 @@
 import { revalidatePath } from "next/cache";
 import { prisma } from "@/lib/prisma";
 import { getTenantContext } from "@/lib/tenant-prisma";
+import { recordCandidateFeedback } from "@/server/services/feedback.service";
+import type { FeedbackKind } from "@prisma/client";
+
+// Candidate statuses that tell the weight trainer something
+const STATUS_FEEDBACK: Record<"SHORTLISTED" | "DISMISSED" | "EXPORTED", FeedbackKind> = {
+  SHORTLISTED: "CANDIDATE_SHORTLISTED",
+  EXPORTED: "CANDIDATE_EXPORTED",
+  DISMISSED: "CANDIDATE_DISMISSED",
+};
 
 /**
  * Update candidate status (shortlist/dismiss)
@@ -46,6 +55,10 @@ export async function updateCandidateStatus(
     });
   });
 
+  if (status !== "NEW") {
+    await recordCandidateFeedback(orgId, userId, [candidateId], STATUS_FEEDBACK[status]);
+  }
+
   revalidatePath("/candidates");
   revalidatePath(`/candidates/${candidateId}`);
 
@@ -99,6 +112,8 @@ export async function bulkUpdateCandidateStatus(
     });
   });
 
+  await recordCandidateFeedback(orgId, userId, candidateIds, STATUS_FEEDBACK[status]);
+
   revalidatePath("/candidates");
 
   return { success: true, count: candidateIds.length };
@@ -4,6 +4,10 @@ import { revalidatePath } from "next/cache";
 import { prisma } from "@/lib/prisma";
 import { getTenantContext } from "@/lib/tenant-prisma";
 import { ExportFormat } from "@prisma/client";
+import { startOfDay, endOfDay, addDays } from "date-fns";
+import { getOddsComparison } from "@/server/services/odds-comparison.service";
+import type { GameComparison } from "@/server/services/odds-comparison.service";
+import { analyzeGameOdds } from "@/server/services/odds-math.service";
 
 /**
  * Request an export of shortlisted candidates
@@ -63,6 +67,206 @@ export async function requestExport(data: {
   return { success: true, exportId: exportJob.id };
 }
 
+/**
+ * Export every book's line for upcoming games with implied probabilities,
+ * fair prices, hold and arbitrage/middle flags
+ */
+export async function requestOddsExport(data: {
+  format: ExportFormat;
+  days?: number;
+}) {
+  const { orgId, userId } = await getTenantContext();
+  const now = new Date();
+
+  const exportJob = await prisma.exportJob.create({
+    data: {
+      orgId,
+      requestedByUserId: userId,
+      format: data.format,
+      exportType: "ODDS_ANALYSIS",
+      candidateIds: [],
+      status: "PROCESSING",
+    },
+  });
+
+  await prisma.auditEvent.create({
+    data: {
+      orgId,
+      actorUserId: userId,
+      eventType: "EXPORT_STARTED",
+      entityType: "ExportJob",
+      entityId: exportJob.id,
+      action: "Started odds analysis export",
+    },
+  });
+
+  try {
+    const games = await getOddsComparison(orgId, {
+      from: startOfDay(now),
+      to: endOfDay(addDays(now, data.days ?? 7)),
+    });
+    const rows = games.flatMap(buildOddsExportRows);
+
+    let fileContent: string;
+    let fileName: string;
+
+    if (data.format === "JSON") {
+      fileContent = JSON.stringify(
+        { exportedAt: now.toISOString(), gameCount: games.length, lines: rows },
+        null,
+        2
+      );
+      fileName = "clip-scout-odds-" + Date.now() + ".json";
+    } else {
+      fileContent = generateOddsCsvExport(rows);
+      fileName = "clip-scout-odds-" + Date.now() + ".csv";
+    }
+
+    await prisma.exportJob.update({
+      where: { id: exportJob.id },
+      data: {
+        status: "COMPLETED",
+        completedAt: new Date(),
+        fileName,
+        fileData: Buffer.from(fileContent).toString("base64"),
+        recordCount: rows.length,
+      },
+    });
+
+    await prisma.auditEvent.create({
+      data: {
+        orgId,
+        actorUserId: userId,
+        eventType: "EXPORT_COMPLETED",
+        entityType: "ExportJob",
+        entityId: exportJob.id,
+        action: "Export completed: " + rows.length + " odds lines",
+      },
+    });
+  } catch (error) {
+    await prisma.exportJob.update({
+      where: { id: exportJob.id },
+      data: {
+        status: "FAILED",
+        errorMessage: error instanceof Error ? error.message : "Unknown error",
+      },
+    });
+    throw error;
+  }
+
+  revalidatePath("/exports");
+
+  return { success: true, exportId: exportJob.id };
+}
+
+interface OddsExportRow {
+  game: string;
+  sport: string;
+  gameDate: string;
+  sportsbook: string;
+  awayMoneyline: number | null;
+  homeMoneyline: number | null;
+  awayImplied: number | null;
+  homeImplied: number | null;
+  awayFair: number | null;
+  homeFair: number | null;
+  moneylineHold: number | null;
+  spread: number | null;
+  spreadJuice: number | null;
+  overUnder: number | null;
+  overJuice: number | null;
+  underJuice: number | null;
+  totalHold: number | null;
+  arbitrage: boolean;
+  middle: boolean;
+}
+
+function buildOddsExportRows(game: GameComparison): OddsExportRow[] {
+  const analysis = analyzeGameOdds(game);
+  const round = (value: number | undefined) =>
+    value === undefined ? null : Math.round(value * 10000) / 10000;
+
+  return game.books.map((book) => {
+    const bookAnalysis = analysis.books.find((b) => b.sportsbook === book.sportsbook);
+    const inPlay = (legs: { sportsbook: string }[]) =>
+      legs.some((leg) => leg.sportsbook === book.sportsbook);
+
+    return {
+      game: game.awayTeam + " @ " + game.homeTeam,
+      sport: game.sport,
+      gameDate: game.gameDate.toISOString(),
+      sportsbook: book.sportsbook,
+      awayMoneyline: book.awayMoneyline,
+      homeMoneyline: book.homeMoneyline,
+      awayImplied: round(bookAnalysis?.moneyline?.impliedB),
+      homeImplied: round(bookAnalysis?.moneyline?.impliedA),
+      awayFair: bookAnalysis?.moneyline?.fairOddsB ?? null,
+      homeFair: bookAnalysis?.moneyline?.fairOddsA ?? null,
+      moneylineHold: round(bookAnalysis?.moneyline?.hold),
+      spread: book.spread,
+      spreadJuice: book.spreadJuice,
+      overUnder: book.overUnder,
+      overJuice: book.overJuice,
+      underJuice: book.underJuice,
+      totalHold: round(bookAnalysis?.total?.hold),
+      arbitrage: analysis.arbitrage.some((arb) => inPlay(arb.legs)),
+      middle: analysis.middles.some((middle) => inPlay(middle.legs)),
+    };
+  });
+}
+
+function generateOddsCsvExport(rows: OddsExportRow[]): string {
+  const headers = [
+    "Game",
+    "Sport",
+    "Game Date",
+    "Sportsbook",
+    "Away ML",
+    "Home ML",
+    "Away Implied",
+    "Home Implied",
+    "Away Fair",
+    "Home Fair",
+    "ML Hold",
+    "Home Spread",
+    "Spread Juice",
+    "Total",
+    "Over Juice",
+    "Under Juice",
+    "Total Hold",
+    "Arbitrage",
+    "Middle",
+  ];
+
+  const csvRows = rows.map((row) =>
+    [
+      escapeCsvValue(row.game),
+      row.sport,
+      row.gameDate,
+      escapeCsvValue(row.sportsbook),
+      row.awayMoneyline,
+      row.homeMoneyline,
+      row.awayImplied,
+      row.homeImplied,
+      row.awayFair,
+      row.homeFair,
+      row.moneylineHold,
+      row.spread,
+      row.spreadJuice,
+      row.overUnder,
+      row.overJuice,
+      row.underJuice,
+      row.totalHold,
+      row.arbitrage ? "yes" : "",
+      row.middle ? "yes" : "",
+    ]
+      .map((value) => (value === null ? "" : String(value)))
+      .join(",")
+  );
+
+  return [headers.join(","), ...csvRows].join("\n");
+}
+
 /**
  * Process an export job - generates the file
  */
@@ -0,0 +1,59 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { getTenantContext } from "@/lib/tenant-prisma";
+import type { Sport } from "@prisma/client";
+import { addDays, subDays } from "date-fns";
+
+/**
+ * Get games around today, with their latest result.
+ */
+export async function getGames(options: { sport?: Sport; days?: number } = {}) {
+  const { orgId } = await getTenantContext();
+  const days = options.days ?? 3;
+  const now = new Date();
+
+  return prisma.game.findMany({
+    where: {
+      orgId,
+      ...(options.sport && { sport: options.sport }),
+      gameDate: { gte: subDays(now, days), lte: addDays(now, days) },
+    },
+    orderBy: { gameDate: "asc" },
+    include: {
+      results: { orderBy: { updatedAt: "desc" }, take: 1 },
+      _count: { select: { oddsSnapshots: true, newsItems: true, candidates: true } },
+    },
+  });
+}
+
+/**
+ * Get everything about a game for show prep: lines, score, news and clips.
+ */
+export async function getGame(gameId: string) {
+  const { orgId } = await getTenantContext();
+
+  const game = await prisma.game.findFirst({
+    where: { id: gameId, orgId },
+    include: {
+      externalIds: { include: { source: { select: { name: true } } } },
+      results: { orderBy: { updatedAt: "desc" } },
+      oddsSnapshots: { orderBy: { createdAt: "asc" } },
+      newsItems: {
+        orderBy: [{ importanceScore: "desc" }, { publishedAt: "desc" }],
+        include: { source: { select: { name: true } } },
+      },
+      candidates: {
+        where: { deletedAt: null },
+        orderBy: { relevanceScore: "desc" },
+        include: { video: true },
+      },
+    },
+  });
+
+  if (!game) {
+    throw new Error("Game not found");
+  }
+
+  return game;
+}
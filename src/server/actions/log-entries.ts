@@ -3,6 +3,7 @@
 import { revalidatePath } from "next/cache";
 import { prisma } from "@/lib/prisma";
 import { getTenantContext } from "@/lib/tenant-prisma";
+import { recordCandidateFeedback } from "@/server/services/feedback.service";
 import { Sport } from "@prisma/client";
 
 /**
@@ -58,6 +59,7 @@ export async function createLogEntry(data: {
   });
 
   if (data.candidateId) {
+    await recordCandidateFeedback(orgId, userId, [data.candidateId], "CANDIDATE_LOGGED");
     revalidatePath(`/candidates/${data.candidateId}`);
   }
   revalidatePath("/logs");
@@ -4,6 +4,11 @@ import { revalidatePath } from "next/cache";
 import { prisma } from "@/lib/prisma";
 import { getTenantContext } from "@/lib/tenant-prisma";
 import { fetchSourceDirect } from "@/server/services/sources/fetch-source";
+import { linkCandidatesToGame } from "@/server/services/game.service";
+import {
+  recordClipMatchFeedback,
+  recordNewsFeedback,
+} from "@/server/services/feedback.service";
 import type { ClipMatchStatus, Sport, SourceType } from "@prisma/client";
 import { subMinutes } from "date-fns";
 
@@ -27,6 +32,8 @@ export async function dismissNewsItem(newsItemId: string) {
     data: { status: "DISMISSED" as ClipMatchStatus },
   });
 
+  await recordNewsFeedback(orgId, userId, newsItemId, "NEWS_DISMISSED", false);
+
   // Create audit event
   await prisma.auditEvent.create({
     data: {
@@ -93,6 +100,13 @@ export async function pairClipToNews(newsItemId: string, candidateId: string) {
     data: { isPaired: true },
   });
 
+  if (newsItem.gameId) {
+    await linkCandidatesToGame(newsItem.gameId, [candidateId]);
+  }
+
+  await recordClipMatchFeedback(orgId, userId, newsItemId, candidateId, "CLIP_PAIRED", true);
+  await recordNewsFeedback(orgId, userId, newsItemId, "CLIP_PAIRED", true);
+
   // Create audit event
   await prisma.auditEvent.create({
     data: {
@@ -128,6 +142,18 @@ export async function unpairClip(clipMatchId: string) {
     throw new Error("Clip match not found");
   }
 
+  // Features are recorded before the match is gone
+  if (clipMatch.candidateId) {
+    await recordClipMatchFeedback(
+      orgId,
+      userId,
+      clipMatch.newsItemId,
+      clipMatch.candidateId,
+      "CLIP_UNPAIRED",
+      false
+    );
+  }
+
   // Delete the clip match
   await prisma.clipMatch.delete({
     where: { id: clipMatchId },
@@ -182,6 +208,18 @@ export async function confirmClipMatch(clipMatchId: string) {
     data: { status: "MATCHED" },
   });
 
+  if (clipMatch.candidateId) {
+    await recordClipMatchFeedback(
+      orgId,
+      userId,
+      clipMatch.newsItemId,
+      clipMatch.candidateId,
+      "CLIP_CONFIRMED",
+      true
+    );
+  }
+  await recordNewsFeedback(orgId, userId, clipMatch.newsItemId, "CLIP_CONFIRMED", true);
+
   // Create audit event
   await prisma.auditEvent.create({
     data: {
@@ -264,7 +302,8 @@ export async function refreshAllSources(sport?: Sport) {
 }
 
 /**
- * Get news feed with filters.
+ * Get news feed with filters, one entry per story. Each story carries its
+ * reports oldest first, so the first is the original reporter.
  */
 export async function getNewsFeed(options: {
   sport?: Sport;
@@ -284,28 +323,33 @@ export async function getNewsFeed(options: {
     importanceScore: { gte: minScore },
   };
 
-  const [items, total] = await Promise.all([
-    prisma.newsItem.findMany({
+  const [stories, total] = await Promise.all([
+    prisma.story.findMany({
       where,
       include: {
-        source: { select: { name: true, type: true } },
-        clipMatches: {
-          where: { status: { in: ["MATCHED", "PENDING"] } },
-          take: 3,
-          orderBy: { matchScore: "desc" },
+        newsItems: {
+          include: {
+            source: { select: { name: true, type: true } },
+            clipMatches: {
+              where: { status: { in: ["MATCHED", "PENDING"] } },
+              take: 3,
+              orderBy: { matchScore: "desc" },
+            },
+          },
+          orderBy: { publishedAt: "asc" },
         },
       },
-      orderBy: [{ publishedAt: "desc" }],
+      orderBy: [{ lastReportedAt: "desc" }],
       take: limit,
       skip: offset,
     }),
-    prisma.newsItem.count({ where }),
+    prisma.story.count({ where }),
   ]);
 
   return {
-    items,
+    stories,
     total,
-    hasMore: offset + items.length < total,
+    hasMore: offset + stories.length < total,
   };
 }
 
@@ -319,6 +363,16 @@ export async function getNewsItem(newsItemId: string) {
     where: { id: newsItemId, orgId },
     include: {
       source: true,
+      game: true,
+      story: {
+        include: {
+          newsItems: {
+            where: { id: { not: newsItemId } },
+            include: { source: { select: { name: true } } },
+            orderBy: { publishedAt: "asc" },
+          },
+        },
+      },
       clipMatches: {
         include: {
           candidate: {
@@ -341,21 +395,36 @@ export async function getNewsItem(newsItemId: string) {
 }
 
 /**
- * Get top news items for dashboard.
+ * Get top news items for dashboard: the lead report of each top story, with
+ * the story's score.
  */
 export async function getTopNews(limit: number = 10) {
   const { orgId } = await getTenantContext();
 
-  return prisma.newsItem.findMany({
+  const stories = await prisma.story.findMany({
     where: {
       orgId,
       importanceScore: { gte: 50 },
     },
+    select: { leadItemId: true, importanceScore: true },
+    orderBy: [{ importanceScore: "desc" }, { lastReportedAt: "desc" }],
+    take: limit,
+  });
+
+  const leadItems = await prisma.newsItem.findMany({
+    where: {
+      orgId,
+      id: { in: stories.flatMap((story) => (story.leadItemId ? [story.leadItemId] : [])) },
+    },
     include: {
       source: { select: { name: true } },
     },
-    orderBy: [{ importanceScore: "desc" }, { publishedAt: "desc" }],
-    take: limit,
+  });
+  const leadById = new Map(leadItems.map((item) => [item.id, item]));
+
+  return stories.flatMap((story) => {
+    const lead = story.leadItemId ? leadById.get(story.leadItemId) : undefined;
+    return lead ? [{ ...lead, importanceScore: story.importanceScore }] : [];
   });
 }
 
@@ -365,12 +434,13 @@ export async function getTopNews(limit: number = 10) {
 export async function getUnmatchedNewsCount() {
   const { orgId } = await getTenantContext();
 
-  return prisma.newsItem.count({
+  // Stories, so one unpaired trade doesn't count once per source
+  return prisma.story.count({
     where: {
       orgId,
-      isProcessed: true,
-      isPaired: false,
+      scoredAt: { not: null },
       importanceScore: { gte: 40 },
+      newsItems: { none: { isPaired: true } },
     },
   });
 }
@@ -381,6 +451,7 @@ const NEWS_SOURCE_TYPES: SourceType[] = [
   "TWITTER_LIST",
   "RSS_FEED",
   "WEBSITE_SCRAPE",
+  "JSON_API",
 ];
 const ODDS_SOURCE_TYPES: SourceType[] = ["SPORTSGRID_API"];
 const RESULTS_SOURCE_TYPES: SourceType[] = ["ESPN_API"];
@@ -0,0 +1,64 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { getTenantContext } from "@/lib/tenant-prisma";
+
+/**
+ * Get the current user's notifications, newest first.
+ */
+export async function getNotifications(options: { unreadOnly?: boolean; limit?: number } = {}) {
+  const { userId, orgId } = await getTenantContext();
+
+  return prisma.notification.findMany({
+    where: {
+      orgId,
+      userId,
+      ...(options.unreadOnly ? { readAt: null } : {}),
+    },
+    include: { watchlist: { select: { id: true, name: true } } },
+    orderBy: { createdAt: "desc" },
+    take: options.limit ?? 100,
+  });
+}
+
+/**
+ * Count the current user's unread notifications.
+ */
+export async function getUnreadNotificationCount() {
+  const { userId, orgId } = await getTenantContext();
+
+  return prisma.notification.count({
+    where: { orgId, userId, readAt: null },
+  });
+}
+
+/**
+ * Mark one of the current user's notifications read.
+ */
+export async function markNotificationRead(notificationId: string) {
+  const { userId, orgId } = await getTenantContext();
+
+  await prisma.notification.updateMany({
+    where: { id: notificationId, orgId, userId, readAt: null },
+    data: { readAt: new Date() },
+  });
+
+  revalidatePath("/notifications");
+  return { success: true };
+}
+
+/**
+ * Mark all of the current user's notifications read.
+ */
+export async function markAllNotificationsRead() {
+  const { userId, orgId } = await getTenantContext();
+
+  const result = await prisma.notification.updateMany({
+    where: { orgId, userId, readAt: null },
+    data: { readAt: new Date() },
+  });
+
+  revalidatePath("/notifications");
+  return { success: true, count: result.count };
+}
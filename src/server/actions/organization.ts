@@ -6,6 +6,17 @@ import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { getTenantContext } from "@/lib/tenant-prisma";
+import { Sport } from "@prisma/client";
+import type { Prisma } from "@prisma/client";
+import {
+  getLineMoveSettings,
+  type LineMoveSettings,
+} from "@/server/services/line-move.service";
+import {
+  getAiAnalysisSettings,
+  getAiUsageToday,
+  type AiAnalysisSettings,
+} from "@/server/services/news-ai.service";
 
 // Schema for creating an organization
 const createOrgSchema = z.object({
@@ -20,6 +31,27 @@ const inviteMemberSchema = z.object({
   message: z.string().max(500).optional(),
 });
 
+// Schema for line move alert thresholds
+const lineMoveThresholdsSchema = z.object({
+  enabled: z.boolean().optional(),
+  spread: z.number().min(0.5).max(20).optional(),
+  total: z.number().min(0.5).max(30).optional(),
+  windowMinutes: z.number().int().min(5).max(1440).optional(),
+});
+
+const lineMoveSettingsSchema = z.object({
+  default: lineMoveThresholdsSchema.optional(),
+  sports: z.record(z.nativeEnum(Sport), lineMoveThresholdsSchema).optional(),
+});
+
+// Schema for AI news analysis settings
+const aiAnalysisSettingsSchema = z.object({
+  enabled: z.boolean(),
+  minPreScore: z.number().int().min(0).max(100),
+  dailyTokenBudget: z.number().int().min(0).max(100_000_000),
+  dailyCostBudgetUsd: z.number().min(0).max(10_000),
+});
+
 /**
  * Create a new organization and make the current user a manager
  */
@@ -136,6 +168,139 @@ export async function updateOrganization(formData: FormData) {
   return { success: true };
 }
 
+/**
+ * Get line move alert thresholds for the organization
+ */
+export async function getLineMoveAlertSettings(): Promise<LineMoveSettings> {
+  const { orgId } = await getTenantContext();
+
+  const org = await prisma.organization.findUnique({
+    where: { id: orgId },
+    select: { settings: true },
+  });
+
+  return getLineMoveSettings(org?.settings ?? {});
+}
+
+/**
+ * Update line move alert thresholds (default and per sport)
+ */
+export async function updateLineMoveAlertSettings(input: LineMoveSettings) {
+  const { orgId, userId, isManager } = await getTenantContext();
+
+  if (!isManager) {
+    throw new Error("Only managers can update line move alerts");
+  }
+
+  const lineMoveAlerts = lineMoveSettingsSchema.parse(input);
+
+  await prisma.$transaction(async (tx) => {
+    const org = await tx.organization.findUnique({
+      where: { id: orgId },
+      select: { settings: true },
+    });
+    const settings = (org?.settings ?? {}) as Prisma.JsonObject;
+
+    await tx.organization.update({
+      where: { id: orgId },
+      data: {
+        settings: { ...settings, lineMoveAlerts } as Prisma.InputJsonValue,
+      },
+    });
+
+    await tx.auditEvent.create({
+      data: {
+        orgId,
+        actorUserId: userId,
+        eventType: "ORG_UPDATED",
+        entityType: "Organization",
+        entityId: orgId,
+        action: "Updated line move alert thresholds",
+        meta: {
+          changes: {
+            lineMoveAlerts: { from: settings.lineMoveAlerts ?? null, to: lineMoveAlerts },
+          },
+        } as Prisma.InputJsonValue,
+      },
+    });
+  });
+
+  revalidatePath("/admin/settings");
+  return { success: true };
+}
+
+/**
+ * Get AI news analysis settings and today's usage for the organization
+ */
+export async function getAiAnalysisOverview() {
+  const { orgId } = await getTenantContext();
+
+  const [org, usage] = await Promise.all([
+    prisma.organization.findUnique({
+      where: { id: orgId },
+      select: { settings: true },
+    }),
+    getAiUsageToday(orgId),
+  ]);
+
+  return {
+    settings: getAiAnalysisSettings(org?.settings ?? {}),
+    usage: {
+      requests: usage?.requests ?? 0,
+      cacheHits: usage?.cacheHits ?? 0,
+      tokens: (usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0),
+      costUsd: usage?.costUsd ?? 0,
+    },
+  };
+}
+
+/**
+ * Update AI news analysis settings (threshold and daily budget)
+ */
+export async function updateAiAnalysisSettings(input: AiAnalysisSettings) {
+  const { orgId, userId, isManager } = await getTenantContext();
+
+  if (!isManager) {
+    throw new Error("Only managers can update AI analysis settings");
+  }
+
+  const aiAnalysis = aiAnalysisSettingsSchema.parse(input);
+
+  await prisma.$transaction(async (tx) => {
+    const org = await tx.organization.findUnique({
+      where: { id: orgId },
+      select: { settings: true },
+    });
+    const settings = (org?.settings ?? {}) as Prisma.JsonObject;
+
+    await tx.organization.update({
+      where: { id: orgId },
+      data: {
+        settings: { ...settings, aiAnalysis } as Prisma.InputJsonValue,
+      },
+    });
+
+    await tx.auditEvent.create({
+      data: {
+        orgId,
+        actorUserId: userId,
+        eventType: "ORG_UPDATED",
+        entityType: "Organization",
+        entityId: orgId,
+        action: "Updated AI analysis settings",
+        meta: {
+          changes: {
+            aiAnalysis: { from: settings.aiAnalysis ?? null, to: aiAnalysis },
+          },
+        } as Prisma.InputJsonValue,
+      },
+    });
+  });
+
+  revalidatePath("/admin/settings");
+  return { success: true };
+}
+
 /**
  * Set YouTube API key for the organization
  */
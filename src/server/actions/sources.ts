@@ -5,9 +5,10 @@ import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { getTenantContext } from "@/lib/tenant-prisma";
 import { fetchSourceDirect } from "@/server/services/sources/fetch-source";
+import { logStatusChange } from "@/server/services/sources/source-health";
 import { getAdapterOrThrow } from "@/server/services/sources";
 import { addMinutes, addDays, addHours, subMinutes } from "date-fns";
-import type { SourceType, SourceStatus, ScheduleType, Sport } from "@prisma/client";
+import type { Source, SourceType, SourceStatus, ScheduleType, Sport } from "@prisma/client";
 
 // Validation schemas
 const sourceConfigSchema = z.record(z.string(), z.unknown());
@@ -21,6 +22,7 @@ const createSourceSchema = z.object({
     "WEBSITE_SCRAPE",
     "SPORTSGRID_API",
     "ESPN_API",
+    "JSON_API",
   ]),
   sport: z.enum(["NFL", "NBA", "MLB", "NHL", "SOCCER", "BOXING", "SPORTS_BETTING", "CBB", "CFB"]),
   config: sourceConfigSchema,
@@ -249,9 +251,17 @@ export async function toggleSourceStatus(sourceId: string, status: SourceStatus)
 
   await prisma.source.update({
     where: { id: sourceId },
-    data: { status },
+    data: {
+      status,
+      // A manual reset closes the circuit
+      ...(status === "ACTIVE" ? { consecutiveFailures: 0, nextRetryAt: null } : {}),
+    },
   });
 
+  if (source.status !== status) {
+    await logStatusChange(sourceId, source.status, status, "Changed manually");
+  }
+
   // Create audit event
   await prisma.auditEvent.create({
     data: {
@@ -330,6 +340,71 @@ export async function runSourceNow(sourceId: string) {
   return { success: true, fetchRunId: fetchRun.id };
 }
 
+/**
+ * Preview what a source configuration would fetch, without saving anything.
+ * Uses a dry run so the adapter only fetches enough to show the mapping.
+ */
+export async function previewSourceConfig(input: {
+  type: SourceType;
+  sport: Sport;
+  config: Record<string, unknown>;
+}) {
+  const { orgId } = await getTenantContext();
+
+  const data = createSourceSchema.pick({ type: true, sport: true, config: true }).parse(input);
+  const adapter = await getAdapterOrThrow(data.type as SourceType);
+
+  const validationResult = adapter.validateConfig(data.config);
+  if (!validationResult.valid) {
+    return {
+      success: false,
+      errors: validationResult.errors,
+      warnings: validationResult.warnings ?? [],
+      items: [],
+      sample: undefined,
+    };
+  }
+
+  // Transient source that is never persisted
+  const source = {
+    id: "preview",
+    orgId,
+    name: "Preview",
+    type: data.type,
+    sport: data.sport,
+    config: data.config,
+  } as unknown as Source;
+
+  try {
+    const result = await adapter.fetch(source, { dryRun: true, limit: 10 });
+
+    return {
+      success: true,
+      errors: [],
+      warnings: validationResult.warnings ?? [],
+      items: result.items.map((item) => ({
+        externalId: item.externalId,
+        type: item.type,
+        headline: item.headline,
+        content: item.content?.slice(0, 280),
+        url: item.url,
+        imageUrl: item.imageUrl,
+        author: item.author,
+        publishedAt: item.publishedAt.toISOString(),
+      })),
+      sample: result.metadata?.sample,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      errors: [error instanceof Error ? error.message : "Preview failed"],
+      warnings: validationResult.warnings ?? [],
+      items: [],
+      sample: undefined,
+    };
+  }
+}
+
 /**
  * Update source schedule settings.
  */
@@ -420,6 +495,10 @@ export async function getSource(sourceId: string) {
         orderBy: { createdAt: "desc" },
         take: 20,
       },
+      statusChanges: {
+        orderBy: { createdAt: "desc" },
+        take: 20,
+      },
       _count: {
         select: {
           newsItems: true,
@@ -0,0 +1,213 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { getTenantContext } from "@/lib/tenant-prisma";
+import { assertPublicHttpsUrl } from "@/lib/public-url";
+import { NewsItemType, Sport } from "@prisma/client";
+import type { Prisma } from "@prisma/client";
+import { getTeamResolver } from "@/server/services/team-registry.service";
+import {
+  generateWebhookSecret,
+  getAlertPreferences,
+  type AlertPreferences,
+} from "@/server/services/alert.service";
+
+const terms = z.array(z.string().trim().min(1).max(255)).max(50);
+
+// Schema for creating/updating a watchlist
+const watchlistSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  sport: z.nativeEnum(Sport).nullable(),
+  teams: terms,
+  players: terms,
+  keywords: terms,
+  types: z.array(z.nativeEnum(NewsItemType)),
+  minImportance: z.number().int().min(0).max(100),
+  isActive: z.boolean(),
+  notifyEmail: z.boolean(),
+  webhookUrl: z
+    .string()
+    .trim()
+    .max(2000)
+    .regex(/^https:\/\//, "Webhook URL must start with https://")
+    .nullable(),
+});
+
+export type WatchlistInput = z.infer<typeof watchlistSchema>;
+
+const time = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM");
+
+// Schema for alert preferences
+const alertPreferencesSchema = z.object({
+  timezone: z.string().refine(isTimeZone, "Unknown time zone"),
+  quietHours: z.object({ start: time, end: time }).nullable(),
+  digest: z.enum(["OFF", "HOURLY", "DAILY"]),
+});
+
+/**
+ * Get the current user's watchlists.
+ */
+export async function getWatchlists() {
+  const { userId, orgId } = await getTenantContext();
+
+  return prisma.watchlist.findMany({
+    where: { orgId, userId },
+    include: { _count: { select: { notifications: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Create a watchlist for the current user.
+ */
+export async function createWatchlist(input: WatchlistInput) {
+  const { userId, orgId } = await getTenantContext();
+
+  const data = await normalizeWatchlist(orgId, watchlistSchema.parse(input));
+
+  const watchlist = await prisma.watchlist.create({
+    data: { ...data, orgId, userId, webhookSecret: generateWebhookSecret() },
+  });
+
+  revalidatePath("/watchlists");
+  return { success: true, watchlist };
+}
+
+/**
+ * Update one of the current user's watchlists.
+ */
+export async function updateWatchlist(watchlistId: string, input: WatchlistInput) {
+  const { userId, orgId } = await getTenantContext();
+
+  await findOwnWatchlist(watchlistId, orgId, userId);
+  const data = await normalizeWatchlist(orgId, watchlistSchema.parse(input));
+
+  await prisma.watchlist.update({
+    where: { id: watchlistId },
+    data,
+  });
+
+  revalidatePath("/watchlists");
+  return { success: true };
+}
+
+/**
+ * Delete one of the current user's watchlists. Its notifications are kept.
+ */
+export async function deleteWatchlist(watchlistId: string) {
+  const { userId, orgId } = await getTenantContext();
+
+  await findOwnWatchlist(watchlistId, orgId, userId);
+  await prisma.watchlist.delete({ where: { id: watchlistId } });
+
+  revalidatePath("/watchlists");
+  return { success: true };
+}
+
+/**
+ * Replace a watchlist's webhook signing secret.
+ */
+export async function rotateWebhookSecret(watchlistId: string) {
+  const { userId, orgId } = await getTenantContext();
+
+  await findOwnWatchlist(watchlistId, orgId, userId);
+  const webhookSecret = generateWebhookSecret();
+
+  await prisma.watchlist.update({
+    where: { id: watchlistId },
+    data: { webhookSecret },
+  });
+
+  revalidatePath("/watchlists");
+  return { success: true, webhookSecret };
+}
+
+/**
+ * Get the current user's quiet hours and digest settings.
+ */
+export async function getMyAlertPreferences(): Promise<AlertPreferences> {
+  const { userId } = await getTenantContext();
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { preferences: true },
+  });
+
+  return getAlertPreferences(user?.preferences ?? {});
+}
+
+/**
+ * Save the current user's quiet hours and digest settings.
+ */
+export async function updateAlertPreferences(input: AlertPreferences) {
+  const { userId } = await getTenantContext();
+
+  const alerts = alertPreferencesSchema.parse(input);
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { preferences: true },
+  });
+  const preferences = (user?.preferences ?? {}) as Prisma.JsonObject;
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { preferences: { ...preferences, alerts } as Prisma.InputJsonValue },
+  });
+
+  revalidatePath("/watchlists");
+  return { success: true };
+}
+
+async function findOwnWatchlist(watchlistId: string, orgId: string, userId: string) {
+  const watchlist = await prisma.watchlist.findFirst({
+    where: { id: watchlistId, orgId, userId },
+  });
+
+  if (!watchlist) {
+    throw new Error("Watchlist not found");
+  }
+
+  return watchlist;
+}
+
+/**
+ * Dedupe terms and, for a single-sport watchlist, store teams under their
+ * canonical names so they match scored news. Webhooks must reach a public
+ * host.
+ */
+async function normalizeWatchlist(orgId: string, data: WatchlistInput) {
+  if (data.webhookUrl) {
+    await assertPublicHttpsUrl(data.webhookUrl).catch((error: Error) => {
+      throw new Error(`Webhook URL rejected: ${error.message}`);
+    });
+  }
+
+  const dedupe = (values: string[]) =>
+    Array.from(new Map(values.map((value) => [value.toLowerCase(), value])).values());
+
+  let teams = dedupe(data.teams);
+  if (data.sport && teams.length > 0) {
+    const resolver = await getTeamResolver(orgId, data.sport);
+    teams = dedupe(teams.map((team) => resolver.find(team) ?? team));
+  }
+
+  return {
+    ...data,
+    teams,
+    players: dedupe(data.players),
+    keywords: dedupe(data.keywords),
+    webhookUrl: data.webhookUrl || null,
+  };
+}
+
+function isTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -11,6 +11,16 @@ const anthropic = process.env.ANTHROPIC_API_KEY
   ? new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
   : null;
 
+// Model used for news analysis and its price per million tokens (USD)
+export const NEWS_ANALYSIS_MODEL = "claude-3-haiku-20240307";
+const INPUT_COST_PER_MTOK = 0.25;
+const OUTPUT_COST_PER_MTOK = 1.25;
+
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
 export interface AIAnalysisResult {
   teams: string[];
   players: string[];
@@ -29,12 +39,32 @@ export function isAIConfigured(): boolean {
   return anthropic !== null;
 }
 
+/**
+ * Estimated cost of a request in USD.
+ */
+export function estimateCostUsd(usage: AIUsage): number {
+  return (
+    (usage.inputTokens * INPUT_COST_PER_MTOK + usage.outputTokens * OUTPUT_COST_PER_MTOK) /
+    1_000_000
+  );
+}
+
 /**
  * Analyze a news item using Claude.
  */
 export async function analyzeNewsItem(
   newsItem: NewsItem
 ): Promise<AIAnalysisResult | null> {
+  return (await analyzeNewsItemWithUsage(newsItem))?.analysis ?? null;
+}
+
+/**
+ * Analyze a news item using Claude, reporting the tokens used.
+ * Usage is returned even when the response can't be parsed, since it was billed.
+ */
+export async function analyzeNewsItemWithUsage(
+  newsItem: Pick<NewsItem, "headline" | "content" | "sport">
+): Promise<{ analysis: AIAnalysisResult | null; usage: AIUsage } | null> {
   if (!anthropic) {
     console.log("[AIAnalyzer] Anthropic API not configured, skipping AI analysis");
     return null;
@@ -44,7 +74,7 @@ export async function analyzeNewsItem(
     const prompt = buildAnalysisPrompt(newsItem.headline, newsItem.content, newsItem.sport);
 
     const response = await anthropic.messages.create({
-      model: "claude-3-haiku-20240307",
+      model: NEWS_ANALYSIS_MODEL,
       max_tokens: 1024,
       messages: [
         {
@@ -54,14 +84,19 @@ export async function analyzeNewsItem(
       ],
     });
 
+    const usage = {
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+    };
+
     // Extract text content
     const textContent = response.content.find((c) => c.type === "text");
     if (!textContent || textContent.type !== "text") {
-      return null;
+      return { analysis: null, usage };
     }
 
     // Parse the JSON response
-    return parseAnalysisResponse(textContent.text);
+    return { analysis: parseAnalysisResponse(textContent.text), usage };
   } catch (error) {
     console.error("[AIAnalyzer] Error analyzing news item:", error);
     return null;
@@ -0,0 +1,240 @@
+import { createHmac } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { alertQueue } from "@/lib/queue";
+import { isSmtpConfigured, sendMail } from "@/lib/smtp";
+import { assertPublicHttpsUrl } from "@/lib/public-url";
+import type { Notification } from "@prisma/client";
+import {
+  DIGEST_INTERVAL_MS,
+  getAlertPreferences,
+  isQuietHours,
+  type EvaluateAlertsResult,
+} from "@/server/services/alert.service";
+
+/**
+ * Alert delivery.
+ * Emails go out as soon as they're due: immediately by default, held through
+ * the user's quiet hours, or batched into an hourly or daily digest. High
+ * priority alerts skip the digest wait. Webhooks are posted right away, signed
+ * with the watchlist's secret so receivers can verify them:
+ *
+ *   X-ClipScout-Signature: sha256=HMAC_SHA256(secret, `${timestamp}.${body}`)
+ */
+
+// How often held emails are checked
+export const DIGEST_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Queue delivery of new alerts.
+ */
+export async function queueAlertDeliveries(result: EvaluateAlertsResult): Promise<void> {
+  for (const userId of result.emailUserIds) {
+    await alertQueue.add("email", { type: "email", userId });
+  }
+  for (const notificationId of result.webhookNotificationIds) {
+    await alertQueue.add("webhook", { type: "webhook", notificationId });
+  }
+}
+
+/**
+ * Users with emails waiting to go out.
+ */
+export async function getUsersWithPendingEmails(): Promise<string[]> {
+  const pending = await prisma.notification.findMany({
+    where: { emailStatus: "PENDING" },
+    select: { userId: true },
+    distinct: ["userId"],
+  });
+
+  return pending.map((notification) => notification.userId);
+}
+
+/**
+ * Email a user's pending notifications if they're due, as one message.
+ * @returns How many notifications were sent
+ */
+export async function sendDueEmails(userId: string, now: Date = new Date()): Promise<number> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, preferences: true },
+  });
+  const pending = await prisma.notification.findMany({
+    where: { userId, emailStatus: "PENDING" },
+    orderBy: { createdAt: "asc" },
+  });
+  if (!user || pending.length === 0) return 0;
+
+  const preferences = getAlertPreferences(user.preferences);
+  if (isQuietHours(preferences, now)) return 0;
+
+  const due =
+    preferences.digest === "OFF" ||
+    pending.some((notification) => notification.priority === "HIGH") ||
+    now.getTime() - pending[0].createdAt.getTime() >= DIGEST_INTERVAL_MS[preferences.digest];
+  if (!due) return 0;
+
+  const ids = pending.map((notification) => notification.id);
+
+  if (!isSmtpConfigured()) {
+    console.warn(`[Alerts] SMTP not configured, dropping ${ids.length} email(s) for ${userId}`);
+    await prisma.notification.updateMany({
+      where: { id: { in: ids } },
+      data: { emailStatus: "FAILED" },
+    });
+    return 0;
+  }
+
+  await sendMail({ to: [user.email], ...renderAlertEmail(pending) });
+
+  await prisma.notification.updateMany({
+    where: { id: { in: ids } },
+    data: { emailStatus: "SENT", emailedAt: now },
+  });
+
+  return ids.length;
+}
+
+/**
+ * Post a notification to its watchlist's webhook, as a "news.alert" event or
+ * "news.breaking" for high priority. Only public https endpoints are posted
+ * to, and redirects are not followed.
+ * @throws If the endpoint isn't public or doesn't accept it, so the job retries
+ */
+export async function deliverWebhook(notificationId: string): Promise<void> {
+  const notification = await prisma.notification.findUnique({
+    where: { id: notificationId },
+    include: { watchlist: true },
+  });
+  if (!notification || notification.webhookStatus !== "PENDING") return;
+
+  const watchlist = notification.watchlist;
+  if (!watchlist?.webhookUrl) {
+    await markWebhook(notificationId, "FAILED");
+    return;
+  }
+
+  const newsItem = notification.newsItemId
+    ? await prisma.newsItem.findUnique({
+        where: { id: notification.newsItemId },
+        select: {
+          id: true,
+          headline: true,
+          url: true,
+          sport: true,
+          type: true,
+          importanceScore: true,
+          teams: true,
+          players: true,
+          publishedAt: true,
+        },
+      })
+    : null;
+
+  const event = notification.priority === "HIGH" ? "news.breaking" : "news.alert";
+  const body = JSON.stringify({
+    id: notification.id,
+    event,
+    priority: notification.priority,
+    createdAt: notification.createdAt.toISOString(),
+    watchlist: { id: watchlist.id, name: watchlist.name },
+    title: notification.title,
+    body: notification.body,
+    link: notification.url ? appUrl(notification.url) : null,
+    newsItem,
+  });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  // Checked again at send time: the host may have been re-pointed since it was saved
+  const url = await assertPublicHttpsUrl(watchlist.webhookUrl);
+
+  const response = await fetch(url, {
+    method: "POST",
+    // A redirect could point the signed payload at an internal address
+    redirect: "manual",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "ClipScout-Alerts/1.0",
+      "X-ClipScout-Event": event,
+      "X-ClipScout-Timestamp": timestamp,
+      "X-ClipScout-Signature": signWebhookPayload(watchlist.webhookSecret, timestamp, body),
+    },
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook returned ${response.status} ${response.statusText}`);
+  }
+
+  await markWebhook(notificationId, "SENT");
+}
+
+/**
+ * Mark a webhook delivery that has run out of retries.
+ */
+export async function markWebhookFailed(notificationId: string): Promise<void> {
+  await markWebhook(notificationId, "FAILED");
+}
+
+/**
+ * Signature header value for a webhook body.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * Subject and body for one alert, or a digest of several.
+ */
+export function renderAlertEmail(notifications: Notification[]): {
+  subject: string;
+  text: string;
+  html: string;
+} {
+  const subject =
+    notifications.length === 1
+      ? `[Clip Scout] ${notifications[0].title}`
+      : `[Clip Scout] ${notifications.length} news alerts`;
+
+  const text = notifications
+    .map((notification) =>
+      [notification.title, notification.body, notification.url && appUrl(notification.url)]
+        .filter(Boolean)
+        .join("\n")
+    )
+    .join("\n\n");
+
+  const html = notifications
+    .map(
+      (notification) =>
+        `<p><strong>${
+          notification.url
+            ? `<a href="${escapeHtml(appUrl(notification.url))}">${escapeHtml(notification.title)}</a>`
+            : escapeHtml(notification.title)
+        }</strong>${notification.body ? `<br>${escapeHtml(notification.body)}` : ""}</p>`
+    )
+    .join("\n");
+
+  return { subject: subject.slice(0, 200), text, html };
+}
+
+async function markWebhook(notificationId: string, status: "SENT" | "FAILED") {
+  await prisma.notification.update({
+    where: { id: notificationId },
+    data: { webhookStatus: status },
+  });
+}
+
+function appUrl(path: string): string {
+  return `${(process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000").replace(/\/$/, "")}${path}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
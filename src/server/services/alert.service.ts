@@ -0,0 +1,230 @@
+import { randomBytes } from "crypto";
+import { prisma } from "@/lib/prisma";
+import type { NewsItem, NotificationPriority, Prisma, Watchlist } from "@prisma/client";
+import { formatInTimeZone } from "date-fns-tz";
+import { normalizeTeamKey } from "@/server/services/team-data";
+
+/**
+ * Alert engine.
+ * Producers keep watchlists of the teams, players, keywords and news types
+ * they own. As stories are scored, each active watchlist in the org is
+ * checked; a match becomes one in-app notification per story, emailed (now,
+ * after quiet hours, or in the user's digest) and posted to the watchlist's
+ * webhook when it has those turned on. A story that turns breaking alerts
+ * its watchlists once more, at high priority.
+ */
+
+export type DigestFrequency = "OFF" | "HOURLY" | "DAILY";
+
+/**
+ * Stored on User.preferences.alerts.
+ */
+export interface AlertPreferences {
+  timezone: string; // IANA zone quiet hours are in
+  quietHours: { start: string; end: string } | null; // HH:MM, may span midnight
+  digest: DigestFrequency;
+}
+
+export const DEFAULT_ALERT_PREFERENCES: AlertPreferences = {
+  timezone: "America/New_York",
+  quietHours: null,
+  digest: "OFF",
+};
+
+// How long pending emails wait before a digest goes out
+export const DIGEST_INTERVAL_MS: Record<Exclude<DigestFrequency, "OFF">, number> = {
+  HOURLY: 60 * 60 * 1000,
+  DAILY: 24 * 60 * 60 * 1000,
+};
+
+export interface EvaluateAlertsResult {
+  notifications: number;
+  // Deliveries to queue
+  emailUserIds: string[];
+  webhookNotificationIds: string[];
+}
+
+type AlertNewsItem = Pick<
+  NewsItem,
+  "sport" | "type" | "headline" | "content" | "teams" | "players" | "importanceScore"
+>;
+
+/**
+ * Read a user's alert preferences from User.preferences.
+ */
+export function getAlertPreferences(preferences: Prisma.JsonValue): AlertPreferences {
+  if (!preferences || typeof preferences !== "object" || Array.isArray(preferences)) {
+    return DEFAULT_ALERT_PREFERENCES;
+  }
+  const value = (preferences as Prisma.JsonObject).alerts;
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return DEFAULT_ALERT_PREFERENCES;
+  }
+  return { ...DEFAULT_ALERT_PREFERENCES, ...(value as unknown as Partial<AlertPreferences>) };
+}
+
+/**
+ * Whether it's within the user's quiet hours.
+ */
+export function isQuietHours(preferences: AlertPreferences, now: Date = new Date()): boolean {
+  const { quietHours, timezone } = preferences;
+  if (!quietHours || quietHours.start === quietHours.end) return false;
+
+  const time = formatInTimeZone(now, timezone, "HH:mm");
+  return quietHours.start < quietHours.end
+    ? time >= quietHours.start && time < quietHours.end
+    : time >= quietHours.start || time < quietHours.end;
+}
+
+/**
+ * Whether a news item matches a watchlist, and why. Empty lists match
+ * anything; otherwise any one team, player or keyword is enough.
+ */
+export function matchWatchlist(watchlist: Watchlist, item: AlertNewsItem): string[] | null {
+  if (!watchlist.isActive) return null;
+  if (watchlist.sport && watchlist.sport !== item.sport) return null;
+  if (item.importanceScore < watchlist.minImportance) return null;
+
+  const types = watchlist.types as string[];
+  if (types.length > 0 && !types.includes(item.type)) return null;
+
+  const teams = watchlist.teams as string[];
+  const players = watchlist.players as string[];
+  const keywords = watchlist.keywords as string[];
+  if (teams.length === 0 && players.length === 0 && keywords.length === 0) {
+    return [`${item.type.toLowerCase().replace(/_/g, " ")} news`];
+  }
+
+  const itemTeams = new Set((item.teams as string[]).map(normalizeTeamKey));
+  const itemPlayers = new Set((item.players as string[]).map((player) => player.toLowerCase()));
+  const text = `${item.headline} ${item.content ?? ""}`;
+
+  const reasons = [
+    ...teams.filter((team) => itemTeams.has(normalizeTeamKey(team))),
+    ...players.filter((player) => itemPlayers.has(player.toLowerCase())),
+    ...keywords
+      .filter((keyword) => keywordPattern(keyword).test(text))
+      .map((keyword) => `"${keyword}"`),
+  ];
+
+  return reasons.length > 0 ? reasons : null;
+}
+
+/**
+ * Check a freshly scored news item against the org's watchlists and create a
+ * notification for each match not already alerted for the story.
+ * @param priority - HIGH for a story that just turned breaking
+ * @returns What to deliver; the caller queues it
+ */
+export async function evaluateAlerts(
+  orgId: string,
+  newsItemId: string,
+  priority: NotificationPriority = "NORMAL"
+): Promise<EvaluateAlertsResult> {
+  const result: EvaluateAlertsResult = {
+    notifications: 0,
+    emailUserIds: [],
+    webhookNotificationIds: [],
+  };
+
+  const item = await prisma.newsItem.findFirst({
+    where: { id: newsItemId, orgId },
+  });
+  if (!item) return result;
+
+  const watchlists = await prisma.watchlist.findMany({
+    where: {
+      orgId,
+      isActive: true,
+      user: { status: "ACTIVE", deletedAt: null },
+    },
+  });
+
+  // A story that already broke doesn't alert again as it rises
+  const alerted =
+    priority === "NORMAL" && item.storyId
+      ? await prisma.notification.findMany({
+          where: { storyId: item.storyId, watchlistId: { in: watchlists.map((w) => w.id) } },
+          select: { watchlistId: true },
+        })
+      : [];
+  const alertedIds = new Set(alerted.map((notification) => notification.watchlistId));
+
+  const matches = watchlists.flatMap((watchlist) => {
+    if (alertedIds.has(watchlist.id)) return [];
+    const reasons = matchWatchlist(watchlist, item);
+    return reasons ? [{ watchlist, reasons }] : [];
+  });
+
+  for (const { watchlist, reasons } of matches) {
+    const notification = await createNotification({
+      orgId,
+      userId: watchlist.userId,
+      watchlistId: watchlist.id,
+      newsItemId: item.id,
+      storyId: item.storyId,
+      priority,
+      title: priority === "HIGH" ? `Breaking: ${item.headline}` : item.headline,
+      body: `${watchlist.name}: ${reasons.join(", ")} (importance ${Math.round(item.importanceScore)})`,
+      url: `/news/${item.id}`,
+      email: watchlist.notifyEmail,
+      webhook: !!watchlist.webhookUrl,
+    });
+    if (!notification) continue;
+
+    result.notifications++;
+    if (watchlist.notifyEmail && !result.emailUserIds.includes(watchlist.userId)) {
+      result.emailUserIds.push(watchlist.userId);
+    }
+    if (watchlist.webhookUrl) result.webhookNotificationIds.push(notification.id);
+  }
+
+  return result;
+}
+
+/**
+ * Create a notification, unless the watchlist already has one for the story
+ * at that priority.
+ */
+export async function createNotification(data: {
+  orgId: string;
+  userId: string;
+  watchlistId?: string | null;
+  newsItemId?: string | null;
+  storyId?: string | null;
+  priority?: NotificationPriority;
+  title: string;
+  body?: string;
+  url?: string;
+  email: boolean;
+  webhook: boolean;
+}) {
+  const { email, webhook, ...notification } = data;
+
+  try {
+    return await prisma.notification.create({
+      data: {
+        ...notification,
+        title: notification.title.slice(0, 1000),
+        emailStatus: email ? "PENDING" : null,
+        webhookStatus: webhook ? "PENDING" : null,
+      },
+    });
+  } catch (error) {
+    // Unique per watchlist, story and priority: already alerted
+    if ((error as { code?: string }).code === "P2002") return null;
+    throw error;
+  }
+}
+
+/**
+ * New webhook signing secret for a watchlist.
+ */
+export function generateWebhookSecret(): string {
+  return randomBytes(24).toString("hex");
+}
+
+function keywordPattern(keyword: string): RegExp {
+  const escaped = keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`\\b${escaped}\\b`, "i");
+}
@@ -0,0 +1,267 @@
+import { prisma } from "@/lib/prisma";
+import type { GameResult, OddsSnapshot, Prisma, Sport } from "@prisma/client";
+import { summarizeLineHistory } from "@/server/services/odds-history.service";
+import { GAME_MATCH_WINDOW_MS } from "@/server/services/game.service";
+
+/**
+ * Bet grading service.
+ * Grades final games ATS, over/under and moneyline against the closing line
+ * at each sportsbook, and rolls graded games up into team records.
+ */
+
+export type SideResult = "HOME" | "AWAY" | "PUSH";
+export type TotalResult = "OVER" | "UNDER" | "PUSH";
+
+export interface BookGrade {
+  sportsbook: string;
+  /** When the closing line was captured */
+  closedAt: string;
+  spread: number | null;
+  overUnder: number | null;
+  homeMoneyline: number | null;
+  awayMoneyline: number | null;
+  spreadWinner: SideResult | null;
+  totalResult: TotalResult | null;
+  moneylineWinner: SideResult | null;
+}
+
+export interface ResultGrading {
+  books: BookGrade[];
+  /** Graded against the median closing spread and total */
+  consensus: {
+    spread: number | null;
+    overUnder: number | null;
+    spreadWinner: SideResult | null;
+    totalResult: TotalResult | null;
+  };
+}
+
+export interface TeamRecord {
+  team: string;
+  sport: Sport;
+  games: number;
+  straightUp: { wins: number; losses: number; pushes: number };
+  ats: { wins: number; losses: number; pushes: number };
+  overUnder: { overs: number; unders: number; pushes: number };
+}
+
+/**
+ * Whether a result status means the game is over (FINAL, STATUS_FINAL, ...).
+ */
+export function isFinalStatus(status: string | null | undefined): boolean {
+  return status?.toUpperCase().replace(/^STATUS_/, "") === "FINAL";
+}
+
+/**
+ * Whether an upserted result should be (re)graded: it's final and either
+ * hasn't been graded yet or the score was corrected since.
+ */
+export function needsGrading(
+  previous: Pick<GameResult, "homeScore" | "awayScore" | "gradedAt"> | null,
+  current: Pick<GameResult, "status" | "homeScore" | "awayScore">
+): boolean {
+  if (!isFinalStatus(current.status)) return false;
+  return (
+    !previous?.gradedAt ||
+    previous.homeScore !== current.homeScore ||
+    previous.awayScore !== current.awayScore
+  );
+}
+
+/**
+ * Home spread result: home covers if its score plus the spread beats the away score.
+ */
+export function gradeSpread(homeScore: number, awayScore: number, spread: number): SideResult {
+  const margin = homeScore + spread - awayScore;
+  return margin > 0 ? "HOME" : margin < 0 ? "AWAY" : "PUSH";
+}
+
+export function gradeTotal(homeScore: number, awayScore: number, total: number): TotalResult {
+  const points = homeScore + awayScore;
+  return points > total ? "OVER" : points < total ? "UNDER" : "PUSH";
+}
+
+export function gradeMoneyline(homeScore: number, awayScore: number): SideResult {
+  return homeScore > awayScore ? "HOME" : homeScore < awayScore ? "AWAY" : "PUSH";
+}
+
+/**
+ * Grade a final game against every sportsbook's closing line and store it.
+ * @returns The grading, or null if the game isn't final or has no odds
+ */
+export async function gradeGameResult(gameResultId: string): Promise<ResultGrading | null> {
+  const result = await prisma.gameResult.findUnique({ where: { id: gameResultId } });
+
+  if (!result || !isFinalStatus(result.status)) return null;
+  if (result.homeScore === null || result.awayScore === null) return null;
+
+  const snapshots = await findGameSnapshots(result);
+  const grading = buildGrading(result.homeScore, result.awayScore, snapshots);
+
+  await prisma.gameResult.update({
+    where: { id: result.id },
+    data: {
+      // Closing consensus beats whatever line the results feed used
+      spreadWinner: grading.consensus.spreadWinner ?? result.spreadWinner,
+      totalResult: grading.consensus.totalResult ?? result.totalResult,
+      moneylineWinner: gradeMoneyline(result.homeScore, result.awayScore),
+      grading: grading as unknown as Prisma.InputJsonValue,
+      gradedAt: new Date(),
+    },
+  });
+
+  return grading;
+}
+
+/**
+ * Grade a game from its odds history.
+ * @param snapshots - All snapshots for the game, any sportsbook and order
+ */
+export function buildGrading(
+  homeScore: number,
+  awayScore: number,
+  snapshots: OddsSnapshot[]
+): ResultGrading {
+  const byBook = new Map<string, OddsSnapshot[]>();
+  for (const snapshot of snapshots) {
+    const book = snapshot.sportsbook ?? "default";
+    byBook.set(book, [...(byBook.get(book) ?? []), snapshot]);
+  }
+
+  const books: BookGrade[] = [];
+  for (const [sportsbook, history] of Array.from(byBook.entries())) {
+    // Closing is the last line before kickoff, even if the book kept posting live lines
+    const closing = summarizeLineHistory(history)?.closing;
+    if (!closing) continue;
+
+    books.push({
+      sportsbook,
+      closedAt: closing.at.toISOString(),
+      spread: closing.spread,
+      overUnder: closing.overUnder,
+      homeMoneyline: closing.homeMoneyline,
+      awayMoneyline: closing.awayMoneyline,
+      spreadWinner: closing.spread !== null ? gradeSpread(homeScore, awayScore, closing.spread) : null,
+      totalResult:
+        closing.overUnder !== null ? gradeTotal(homeScore, awayScore, closing.overUnder) : null,
+      moneylineWinner:
+        closing.homeMoneyline !== null || closing.awayMoneyline !== null
+          ? gradeMoneyline(homeScore, awayScore)
+          : null,
+    });
+  }
+
+  const spread = median(books.map((b) => b.spread));
+  const overUnder = median(books.map((b) => b.overUnder));
+
+  return {
+    books,
+    consensus: {
+      spread,
+      overUnder,
+      spreadWinner: spread !== null ? gradeSpread(homeScore, awayScore, spread) : null,
+      totalResult: overUnder !== null ? gradeTotal(homeScore, awayScore, overUnder) : null,
+    },
+  };
+}
+
+/**
+ * Straight-up, ATS and over/under records per team from graded games.
+ */
+export async function getTeamRecords(
+  orgId: string,
+  filters: { sport?: Sport; since?: Date } = {}
+): Promise<TeamRecord[]> {
+  const results = await prisma.gameResult.findMany({
+    where: {
+      orgId,
+      gradedAt: { not: null },
+      ...(filters.sport && { sport: filters.sport }),
+      ...(filters.since && { gameDate: { gte: filters.since } }),
+    },
+  });
+
+  const records = new Map<string, TeamRecord>();
+  const recordFor = (team: string, sport: Sport) => {
+    const key = `${sport}:${team}`;
+    let record = records.get(key);
+    if (!record) {
+      record = {
+        team,
+        sport,
+        games: 0,
+        straightUp: { wins: 0, losses: 0, pushes: 0 },
+        ats: { wins: 0, losses: 0, pushes: 0 },
+        overUnder: { overs: 0, unders: 0, pushes: 0 },
+      };
+      records.set(key, record);
+    }
+    return record;
+  };
+
+  for (const result of results) {
+    for (const side of ["HOME", "AWAY"] as const) {
+      const record = recordFor(side === "HOME" ? result.homeTeam : result.awayTeam, result.sport);
+      record.games++;
+      tally(record.straightUp, result.moneylineWinner, side);
+      tally(record.ats, result.spreadWinner, side);
+
+      if (result.totalResult === "OVER") record.overUnder.overs++;
+      else if (result.totalResult === "UNDER") record.overUnder.unders++;
+      else if (result.totalResult === "PUSH") record.overUnder.pushes++;
+    }
+  }
+
+  return Array.from(records.values()).sort(
+    (a, b) => winPercentage(b.ats) - winPercentage(a.ats) || a.team.localeCompare(b.team)
+  );
+}
+
+/**
+ * Share of decided (non-push) games won.
+ */
+export function winPercentage(record: { wins: number; losses: number }): number {
+  const decided = record.wins + record.losses;
+  return decided === 0 ? 0 : record.wins / decided;
+}
+
+async function findGameSnapshots(result: GameResult): Promise<OddsSnapshot[]> {
+  const byTeams: Prisma.OddsSnapshotWhereInput = {
+    homeTeam: result.homeTeam,
+    awayTeam: result.awayTeam,
+    gameDate: {
+      gte: new Date(result.gameDate.getTime() - GAME_MATCH_WINDOW_MS),
+      lte: new Date(result.gameDate.getTime() + GAME_MATCH_WINDOW_MS),
+    },
+  };
+
+  return prisma.oddsSnapshot.findMany({
+    where: {
+      orgId: result.orgId,
+      sport: result.sport,
+      OR: [
+        byTeams,
+        ...(result.gameId ? [{ gameId: result.gameId }] : []),
+        ...(result.externalGameId ? [{ externalGameId: result.externalGameId }] : []),
+      ],
+    },
+  });
+}
+
+function tally(
+  record: { wins: number; losses: number; pushes: number },
+  winner: string | null,
+  side: "HOME" | "AWAY"
+) {
+  if (!winner) return;
+  if (winner === "PUSH") record.pushes++;
+  else if (winner === side) record.wins++;
+  else record.losses++;
+}
+
+function median(values: (number | null)[]): number | null {
+  const sorted = values.filter((v): v is number => v !== null).sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
@@ -0,0 +1,136 @@
+import { prisma } from "@/lib/prisma";
+import { differenceInMinutes } from "date-fns";
+import { weightedScore } from "@/server/services/importance-scorer";
+import {
+  getScoringProfile,
+  parseImportanceFactors,
+} from "@/server/services/importance-profile.service";
+
+/**
+ * Breaking-story detection.
+ * A story that five sources publish within ten minutes is breaking whatever
+ * its headline says, and the scorer's time sensitivity only looks at the
+ * headline. Stories already cluster related reports (shared teams and
+ * players, similar headlines), so velocity is the most distinct sources
+ * reporting a story inside a sliding window. Crossing the threshold flags the
+ * story breaking and boosts its score and every report's; the caller alerts
+ * watchlists at high priority.
+ */
+
+// Sliding window reports are counted in
+export const BREAKING_WINDOW_MINUTES = 10;
+
+// Distinct sources inside the window that make a story breaking
+export const BREAKING_SOURCE_THRESHOLD = 5;
+
+// Points added to a breaking story's weighted score
+const BREAKING_BOOST = 15;
+
+interface Report {
+  sourceId: string;
+  publishedAt: Date;
+}
+
+export interface BreakingResult {
+  leadItemId: string | null;
+  velocity: number;
+  previousScore: number;
+  score: number;
+  // Any report already has clips paired
+  isPaired: boolean;
+}
+
+/**
+ * Most distinct sources whose reports fall within any window of the given
+ * length. Each source counts once however often it reports.
+ */
+export function measureVelocity(
+  reports: Report[],
+  windowMinutes: number = BREAKING_WINDOW_MINUTES
+): number {
+  const sorted = [...reports].sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime());
+  const inWindow = new Map<string, number>();
+  let start = 0;
+  let velocity = 0;
+
+  for (const report of sorted) {
+    inWindow.set(report.sourceId, (inWindow.get(report.sourceId) ?? 0) + 1);
+
+    while (differenceInMinutes(report.publishedAt, sorted[start].publishedAt) >= windowMinutes) {
+      const sourceId = sorted[start].sourceId;
+      const count = (inWindow.get(sourceId) ?? 1) - 1;
+      if (count === 0) inWindow.delete(sourceId);
+      else inWindow.set(sourceId, count);
+      start++;
+    }
+
+    velocity = Math.max(velocity, inWindow.size);
+  }
+
+  return velocity;
+}
+
+/**
+ * A weighted score with the breaking boost added.
+ */
+export function applyBreakingBoost(score: number): number {
+  return Math.min(100, score + BREAKING_BOOST);
+}
+
+/**
+ * Measure a scored story's velocity and, the first time it crosses the
+ * threshold, flag it breaking and boost its score and its reports' scores.
+ * Time sensitivity goes to its maximum, so re-scores keep it.
+ * @returns The boost when the story just became breaking, otherwise null
+ */
+export async function detectBreakingStory(storyId: string): Promise<BreakingResult | null> {
+  const story = await prisma.story.findUnique({
+    where: { id: storyId },
+    include: { newsItems: { select: { sourceId: true, publishedAt: true, isPaired: true } } },
+  });
+  if (!story?.scoredAt || story.isBreaking) return null;
+
+  const velocity = measureVelocity(story.newsItems);
+  if (velocity < BREAKING_SOURCE_THRESHOLD) {
+    if (velocity > story.velocity) {
+      await prisma.story.update({ where: { id: storyId }, data: { velocity } });
+    }
+    return null;
+  }
+
+  const factors = parseImportanceFactors(story.scoreBreakdown);
+  const profile = await getScoringProfile(story.orgId);
+  const breakdown = factors ? { ...factors, timeSensitivity: 1 } : null;
+  const score = applyBreakingBoost(
+    breakdown ? weightedScore(breakdown, profile.weights) : story.importanceScore
+  );
+
+  // Claim the flag so concurrent reports don't alert twice
+  const claimed = await prisma.story.updateMany({
+    where: { id: storyId, isBreaking: false },
+    data: {
+      velocity,
+      isBreaking: true,
+      breakingAt: new Date(),
+      importanceScore: score,
+      ...(breakdown && { scoreBreakdown: breakdown as object, scoreProfile: profile.id }),
+    },
+  });
+  if (claimed.count === 0) return null;
+
+  await prisma.newsItem.updateMany({
+    where: { storyId, isProcessed: true },
+    data: {
+      importanceScore: score,
+      ...(breakdown && { scoreBreakdown: breakdown as object, scoreProfile: profile.id }),
+    },
+  });
+
+  return {
+    leadItemId: story.leadItemId,
+    velocity,
+    previousScore: story.importanceScore,
+    score,
+    isPaired: story.newsItems.some((item) => item.isPaired),
+  };
+}
@@ -1,5 +1,5 @@
 import { prisma } from "@/lib/prisma";
-import type { NewsItem, Candidate, ClipMatchStatus } from "@prisma/client";
+import type { NewsItem, Candidate, ClipMatchStatus, Prisma } from "@prisma/client";
 import { subDays } from "date-fns";
 
 /**
@@ -13,13 +13,45 @@ export interface ClipMatchResult {
   reason: string;
 }
 
+/**
+ * How a candidate relates to a news item, each 0-1. The match score is their
+ * weighted sum.
+ */
+export interface ClipMatchFeatures {
+  teams: number; // Shared teams, 2 or more is full
+  players: number; // Shared players, 3 or more is full
+  topics: number; // Shared topics, 2 or more is full
+  text: number; // Headline vs video text overlap, when above 0.3
+  proximity: number; // Same day, within 3 days, within a week
+}
+
+export type ClipMatchWeights = Record<keyof ClipMatchFeatures, number>;
+
+/**
+ * Stored on Organization.settings.clipMatch.
+ */
+export interface ClipMatchSettings {
+  weights?: Partial<ClipMatchWeights>;
+}
+
+export const DEFAULT_CLIP_MATCH_WEIGHTS: ClipMatchWeights = {
+  teams: 0.5,
+  players: 0.6,
+  topics: 0.3,
+  text: 0.25,
+  proximity: 0.15,
+};
+
+type ClipCandidate = Candidate & { video: { title: string; description: string | null } };
+
 /**
  * Find matching clips for a news item.
  */
 export async function findClipsForNews(
   newsItem: NewsItem
 ): Promise<ClipMatchResult[]> {
-  const { orgId, teams, players, topics, publishedAt, sport } = newsItem;
+  const { orgId, publishedAt, sport } = newsItem;
+  const weights = await getClipMatchWeights(orgId);
 
   // Get candidates from the last 7 days that might be relevant
   const candidates = await prisma.candidate.findMany({
@@ -54,7 +86,7 @@ export async function findClipsForNews(
   const scoredMatches: ClipMatchResult[] = [];
 
   for (const candidate of candidates) {
-    const matchResult = scoreClipMatch(newsItem, candidate);
+    const matchResult = scoreClipMatch(newsItem, candidate, weights);
     if (matchResult.score > 0.3) {
       // Minimum threshold
       scoredMatches.push({
@@ -71,83 +103,140 @@ export async function findClipsForNews(
     .slice(0, 5); // Return top 5 matches
 }
 
+/**
+ * Read the org's clip match settings from Organization.settings.
+ */
+export function getClipMatchSettings(settings: Prisma.JsonValue): ClipMatchSettings {
+  if (!settings || typeof settings !== "object" || Array.isArray(settings)) return {};
+  const value = (settings as Prisma.JsonObject).clipMatch;
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return value as unknown as ClipMatchSettings;
+}
+
+/**
+ * Load the org's clip match weights: defaults with the org's overrides.
+ */
+export async function getClipMatchWeights(orgId: string): Promise<ClipMatchWeights> {
+  const org = await prisma.organization.findUnique({
+    where: { id: orgId },
+    select: { settings: true },
+  });
+
+  return { ...DEFAULT_CLIP_MATCH_WEIGHTS, ...getClipMatchSettings(org?.settings ?? {}).weights };
+}
+
+/**
+ * Features of a candidate as a match for a news item.
+ */
+export function computeClipMatchFeatures(
+  newsItem: Pick<NewsItem, "teams" | "players" | "topics" | "headline" | "publishedAt">,
+  candidate: ClipCandidate
+): ClipMatchFeatures {
+  return toFeatures(measureClipMatch(newsItem, candidate));
+}
+
+/**
+ * Weighted sum of match features, capped at 1. High-quality candidates get a
+ * 10% boost.
+ */
+export function weightedClipMatchScore(
+  features: ClipMatchFeatures,
+  weights: ClipMatchWeights,
+  candidateRelevance: number
+): number {
+  let score = 0;
+  for (const [key, weight] of Object.entries(weights)) {
+    score += features[key as keyof ClipMatchFeatures] * weight;
+  }
+
+  // Candidate quality boost
+  if (candidateRelevance > 0.7) {
+    score *= 1.1; // 10% boost for high-quality candidates
+  }
+
+  return Math.min(score, 1.0); // Cap at 1.0
+}
+
 /**
  * Score how well a candidate matches a news item.
  */
 function scoreClipMatch(
   newsItem: NewsItem,
-  candidate: Candidate & { video: { title: string; description: string | null } }
+  candidate: ClipCandidate,
+  weights: ClipMatchWeights
 ): { score: number; reason: string } {
-  let score = 0;
+  const measures = measureClipMatch(newsItem, candidate);
   const reasons: string[] = [];
 
-  const newsTeams = newsItem.teams as string[];
-  const newsPlayers = newsItem.players as string[];
-  const newsTopics = newsItem.topics as string[];
+  if (measures.teamMatches > 0) {
+    reasons.push(`${measures.teamMatches} team match(es)`);
+  }
+  if (measures.playerMatches > 0) {
+    reasons.push(`${measures.playerMatches} player match(es)`);
+  }
+  if (measures.topicMatches > 0) {
+    reasons.push(`${measures.topicMatches} topic match(es)`);
+  }
+  if (measures.textScore > 0.3) {
+    reasons.push(`Text similarity: ${Math.round(measures.textScore * 100)}%`);
+  }
+  if (measures.daysDiff < 1) {
+    reasons.push("Published same day");
+  } else if (measures.daysDiff < 3) {
+    reasons.push("Published within 3 days");
+  } else if (measures.daysDiff < 7) {
+    reasons.push("Published within a week");
+  }
 
+  return {
+    score: weightedClipMatchScore(toFeatures(measures), weights, candidate.relevanceScore),
+    reason: reasons.join("; ") || "Low relevance",
+  };
+}
+
+/**
+ * Raw overlap between a news item and a candidate.
+ */
+function measureClipMatch(
+  newsItem: Pick<NewsItem, "teams" | "players" | "topics" | "headline" | "publishedAt">,
+  candidate: ClipCandidate
+) {
   const candidateEntities = candidate.entitiesJson as {
     people?: string[];
     teams?: string[];
     topics?: string[];
   };
 
-  // Entity matching (60% of score)
-  // Team matches
-  const teamMatches = countMatches(newsTeams, candidateEntities.teams || []);
-  if (teamMatches > 0) {
-    score += 0.25 * Math.min(teamMatches, 2);
-    reasons.push(`${teamMatches} team match(es)`);
-  }
-
-  // Player matches
-  const playerMatches = countMatches(newsPlayers, candidateEntities.people || []);
-  if (playerMatches > 0) {
-    score += 0.2 * Math.min(playerMatches, 3);
-    reasons.push(`${playerMatches} player match(es)`);
-  }
-
-  // Topic matches
-  const topicMatches = countMatches(newsTopics, candidateEntities.topics || []);
-  if (topicMatches > 0) {
-    score += 0.15 * Math.min(topicMatches, 2);
-    reasons.push(`${topicMatches} topic match(es)`);
-  }
-
-  // Text similarity (25% of score)
-  const textScore = calculateTextSimilarity(
-    newsItem.headline,
-    `${candidate.video.title} ${candidate.video.description || ""}`
-  );
-  if (textScore > 0.3) {
-    score += textScore * 0.25;
-    reasons.push(`Text similarity: ${Math.round(textScore * 100)}%`);
-  }
-
-  // Temporal proximity (15% of score)
   const timeDiff = Math.abs(
     new Date(newsItem.publishedAt).getTime() -
       new Date(candidate.createdAt).getTime()
   );
-  const daysDiff = timeDiff / (1000 * 60 * 60 * 24);
-  if (daysDiff < 1) {
-    score += 0.15;
-    reasons.push("Published same day");
-  } else if (daysDiff < 3) {
-    score += 0.1;
-    reasons.push("Published within 3 days");
-  } else if (daysDiff < 7) {
-    score += 0.05;
-    reasons.push("Published within a week");
-  }
 
-  // Candidate quality boost
-  if (candidate.relevanceScore > 0.7) {
-    score *= 1.1; // 10% boost for high-quality candidates
-  }
+  return {
+    teamMatches: countMatches(newsItem.teams as string[], candidateEntities.teams || []),
+    playerMatches: countMatches(newsItem.players as string[], candidateEntities.people || []),
+    topicMatches: countMatches(newsItem.topics as string[], candidateEntities.topics || []),
+    textScore: calculateTextSimilarity(
+      newsItem.headline,
+      `${candidate.video.title} ${candidate.video.description || ""}`
+    ),
+    daysDiff: timeDiff / (1000 * 60 * 60 * 24),
+  };
+}
+
+/**
+ * Normalize raw overlap to 0-1 features. Entity counts saturate at the
+ * number that earned full credit before weights were configurable.
+ */
+function toFeatures(measures: ReturnType<typeof measureClipMatch>): ClipMatchFeatures {
+  const { daysDiff } = measures;
 
   return {
-    score: Math.min(score, 1.0), // Cap at 1.0
-    reason: reasons.join("; ") || "Low relevance",
+    teams: Math.min(measures.teamMatches, 2) / 2,
+    players: Math.min(measures.playerMatches, 3) / 3,
+    topics: Math.min(measures.topicMatches, 2) / 2,
+    text: measures.textScore > 0.3 ? measures.textScore : 0,
+    proximity: daysDiff < 1 ? 1 : daysDiff < 3 ? 2 / 3 : daysDiff < 7 ? 1 / 3 : 0,
   };
 }
 
@@ -4,8 +4,34 @@ import type { NewsItem } from "@prisma/client";
 /**
  * Deduplication service for news items.
  * Prevents duplicate news from being stored and identifies similar content.
+ * Each item stores an exact content hash and a SimHash of its headline split
+ * into LSH bands, so near-duplicates are found with an index lookup instead of
+ * comparing against every recent item.
  */
 
+// 64-bit SimHash split into 8 bands of 8 bits. Two signatures within 7 bits
+// of each other always share a band, so band lookup finds every match up to
+// that distance.
+const SIMHASH_BANDS = 8;
+const SIMHASH_BAND_BITS = 8;
+const MAX_INDEXED_DISTANCE = SIMHASH_BANDS - 1;
+
+export interface DuplicateThresholds {
+  maxDistance: number; // Max differing SimHash bits, up to 7
+  minSimilarity: number; // Min headline word overlap (Jaccard) to confirm
+}
+
+export const DEFAULT_DUPLICATE_THRESHOLDS: DuplicateThresholds = {
+  maxDistance: 7,
+  minSimilarity: 0.5,
+};
+
+export interface NewsSignatures {
+  contentHash: string;
+  simhash: string;
+  simhashBands: number[];
+}
+
 /**
  * Check if a news item already exists in the database.
  * Uses exact match on externalId within the same source.
@@ -26,40 +52,45 @@ export async function checkExactDuplicate(
   });
 }
 
+/**
+ * Signatures to store on a news item at ingest.
+ */
+export function computeSignatures(
+  headline: string,
+  content: string | null | undefined
+): NewsSignatures {
+  const simhash = computeSimhash(headline);
+
+  return {
+    contentHash: generateContentHash(headline, content),
+    simhash,
+    simhashBands: simhashBands(simhash),
+  };
+}
+
 /**
  * Find potentially duplicate news items based on headline similarity.
- * Uses fuzzy matching to detect similar headlines across sources.
+ * Candidates come from the SimHash band index and are confirmed by distance
+ * and word overlap.
  */
 export async function findSimilarHeadlines(
   orgId: string,
   headline: string,
-  publishedWithin: number = 24 // hours
+  publishedWithin: number = 24, // hours
+  thresholds: DuplicateThresholds = DEFAULT_DUPLICATE_THRESHOLDS
 ): Promise<NewsItem[]> {
   const since = new Date(Date.now() - publishedWithin * 60 * 60 * 1000);
+  const simhash = computeSimhash(headline);
 
-  // Get recent news items
-  const recentItems = await prisma.newsItem.findMany({
+  const candidates = await prisma.newsItem.findMany({
     where: {
       orgId,
       publishedAt: { gte: since },
+      simhashBands: { hasSome: simhashBands(simhash) },
     },
-    orderBy: { publishedAt: "desc" },
-    take: 500, // Limit for performance
   });
 
-  // Calculate similarity scores
-  const similar: Array<{ item: NewsItem; score: number }> = [];
-
-  for (const item of recentItems) {
-    const score = calculateHeadlineSimilarity(headline, item.headline);
-    if (score >= 0.7) {
-      // 70% similarity threshold
-      similar.push({ item, score });
-    }
-  }
-
-  // Sort by similarity and return items
-  return similar.sort((a, b) => b.score - a.score).map((s) => s.item);
+  return rankNearDuplicates(headline, simhash, candidates, thresholds).map((match) => match.item);
 }
 
 /**
@@ -72,30 +103,58 @@ export async function checkContentDuplicate(
   content: string | null | undefined,
   publishedWithin: number = 48 // hours
 ): Promise<NewsItem | null> {
-  const contentHash = generateContentHash(headline, content);
   const since = new Date(Date.now() - publishedWithin * 60 * 60 * 1000);
 
-  // Get recent items and check hash
-  const recentItems = await prisma.newsItem.findMany({
+  return prisma.newsItem.findFirst({
     where: {
       orgId,
+      contentHash: generateContentHash(headline, content),
       publishedAt: { gte: since },
     },
-    select: {
-      id: true,
-      headline: true,
-      content: true,
-    },
+    orderBy: { publishedAt: "asc" },
+  });
+}
+
+/**
+ * Earliest earlier item an ingested item duplicates, by exact content or
+ * near-identical headline.
+ */
+export async function findNearDuplicate(
+  item: Pick<
+    NewsItem,
+    "id" | "orgId" | "headline" | "publishedAt" | "createdAt" | "contentHash" | "simhash"
+  >,
+  publishedWithin: number = 48, // hours
+  thresholds: DuplicateThresholds = DEFAULT_DUPLICATE_THRESHOLDS
+): Promise<NewsItem | null> {
+  if (!item.contentHash || !item.simhash) return null;
+
+  const since = new Date(item.publishedAt.getTime() - publishedWithin * 60 * 60 * 1000);
+  const where = {
+    orgId: item.orgId,
+    id: { not: item.id },
+    publishedAt: { gte: since },
+    createdAt: { lte: item.createdAt },
+  };
+
+  const exact = await prisma.newsItem.findFirst({
+    where: { ...where, contentHash: item.contentHash },
+    orderBy: { publishedAt: "asc" },
   });
+  if (exact) return exact;
 
-  for (const item of recentItems) {
-    const itemHash = generateContentHash(item.headline, item.content);
-    if (itemHash === contentHash) {
-      return prisma.newsItem.findUnique({ where: { id: item.id } });
-    }
-  }
+  const candidates = await prisma.newsItem.findMany({
+    where: { ...where, simhashBands: { hasSome: simhashBands(item.simhash) } },
+  });
 
-  return null;
+  const matches = rankNearDuplicates(item.headline, item.simhash, candidates, thresholds);
+  if (matches.length === 0) return null;
+
+  return matches
+    .map((match) => match.item)
+    .reduce((earliest, candidate) =>
+      candidate.publishedAt < earliest.publishedAt ? candidate : earliest
+    );
 }
 
 /**
@@ -111,26 +170,18 @@ export async function getDeduplicationStats(
 }> {
   const since = new Date(Date.now() - hours * 60 * 60 * 1000);
 
-  const [totalItems, uniqueSources] = await Promise.all([
-    prisma.newsItem.count({
-      where: {
-        orgId,
-        createdAt: { gte: since },
-      },
-    }),
+  const where = { orgId, createdAt: { gte: since } };
+
+  // Indexed counts; duplicates were flagged when they were ingested
+  const [totalItems, duplicatesBlocked, uniqueSources] = await Promise.all([
+    prisma.newsItem.count({ where }),
+    prisma.newsItem.count({ where: { ...where, duplicateOfId: { not: null } } }),
     prisma.newsItem.groupBy({
       by: ["sourceId"],
-      where: {
-        orgId,
-        createdAt: { gte: since },
-      },
+      where,
     }),
   ]);
 
-  // Estimate duplicates blocked (items that would have been duplicates)
-  // This is tracked separately in production, here we estimate
-  const duplicatesBlocked = Math.floor(totalItems * 0.1); // Rough estimate
-
   return {
     totalItems,
     duplicatesBlocked,
@@ -141,7 +192,7 @@ export async function getDeduplicationStats(
 /**
  * Calculate similarity between two headlines using Jaccard similarity.
  */
-function calculateHeadlineSimilarity(a: string, b: string): number {
+export function calculateHeadlineSimilarity(a: string, b: string): number {
   const tokensA = tokenize(a);
   const tokensB = tokenize(b);
 
@@ -215,19 +266,100 @@ function tokenize(text: string): Set<string> {
 }
 
 /**
- * Generate a simple hash from headline and content.
+ * Candidates within the distance and overlap thresholds, closest first.
  */
-function generateContentHash(headline: string, content: string | null | undefined): string {
-  const text = `${headline.toLowerCase().trim()}|${(content || "").toLowerCase().trim().slice(0, 500)}`;
+function rankNearDuplicates(
+  headline: string,
+  simhash: string,
+  candidates: NewsItem[],
+  thresholds: DuplicateThresholds
+): Array<{ item: NewsItem; distance: number; similarity: number }> {
+  const maxDistance = Math.min(thresholds.maxDistance, MAX_INDEXED_DISTANCE);
+  const matches: Array<{ item: NewsItem; distance: number; similarity: number }> = [];
+
+  for (const item of candidates) {
+    if (!item.simhash) continue;
+
+    const distance = hammingDistance(simhash, item.simhash);
+    if (distance > maxDistance) continue;
+
+    const similarity = calculateHeadlineSimilarity(headline, item.headline);
+    if (similarity < thresholds.minSimilarity) continue;
+
+    matches.push({ item, distance, similarity });
+  }
+
+  return matches.sort((a, b) => a.distance - b.distance || b.similarity - a.similarity);
+}
+
+/**
+ * 64-bit SimHash of a headline's words and word pairs, as 16 hex digits.
+ */
+function computeSimhash(headline: string): string {
+  const words = Array.from(tokenize(headline));
+  const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+  const weights = new Array<number>(64).fill(0);
+  for (const feature of features) {
+    const halves = [fnv1a(feature, 2166136261), fnv1a(feature, 3735928559)];
+    for (let bit = 0; bit < 64; bit++) {
+      const set = (halves[bit >> 5] >>> (bit & 31)) & 1;
+      weights[bit] += set ? 1 : -1;
+    }
+  }
+
+  const halves = [0, 0];
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) halves[bit >> 5] |= 1 << (bit & 31);
+  }
+
+  return halves.map((half) => (half >>> 0).toString(16).padStart(8, "0")).join("");
+}
+
+/**
+ * LSH band keys for a SimHash: band index and band value packed into one int,
+ * so items sharing any band can be found with one array-overlap query.
+ */
+function simhashBands(simhash: string): number[] {
+  const bands: number[] = [];
+  const hexPerBand = SIMHASH_BAND_BITS / 4;
+
+  for (let band = 0; band < SIMHASH_BANDS; band++) {
+    const value = parseInt(simhash.slice(band * hexPerBand, (band + 1) * hexPerBand), 16);
+    bands.push(band * (1 << SIMHASH_BAND_BITS) + value);
+  }
+
+  return bands;
+}
 
-  // Simple hash function (FNV-1a)
-  let hash = 2166136261;
+function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    let diff = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0;
+    while (diff) {
+      diff &= diff - 1;
+      distance++;
+    }
+  }
+  return distance;
+}
+
+function fnv1a(text: string, offset: number): number {
+  let hash = offset;
   for (let i = 0; i < text.length; i++) {
     hash ^= text.charCodeAt(i);
     hash = Math.imul(hash, 16777619);
   }
+  return hash >>> 0;
+}
 
-  return (hash >>> 0).toString(36);
+/**
+ * Generate a simple hash from headline and content.
+ */
+function generateContentHash(headline: string, content: string | null | undefined): string {
+  const text = `${headline.toLowerCase().trim()}|${(content || "").toLowerCase().trim().slice(0, 500)}`;
+
+  return fnv1a(text, 2166136261).toString(36);
 }
 
 /**
@@ -243,30 +375,27 @@ export async function mergeDuplicates(
 }> {
   const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000); // Last 7 days
 
-  // Get all recent items
-  const items = await prisma.newsItem.findMany({
+  // Content hashes shared by more than one recent item
+  const hashes = await prisma.newsItem.groupBy({
+    by: ["contentHash"],
     where: {
       orgId,
       createdAt: { gte: since },
+      contentHash: { not: null },
     },
-    orderBy: { createdAt: "asc" },
+    having: { contentHash: { _count: { gt: 1 } } },
   });
 
-  // Group by content hash
-  const groups = new Map<string, NewsItem[]>();
-
-  for (const item of items) {
-    const hash = generateContentHash(item.headline, item.content);
-    const existing = groups.get(hash) || [];
-    existing.push(item);
-    groups.set(hash, existing);
-  }
-
   // Find groups with duplicates
   let duplicateGroups = 0;
   let itemsMerged = 0;
 
-  for (const [, group] of groups) {
+  for (const { contentHash } of hashes) {
+    const group = await prisma.newsItem.findMany({
+      where: { orgId, contentHash, createdAt: { gte: since } },
+      orderBy: { createdAt: "asc" },
+    });
+
     if (group.length > 1) {
       duplicateGroups++;
 
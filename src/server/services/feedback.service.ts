@@ -0,0 +1,155 @@
+import { prisma } from "@/lib/prisma";
+import type { FeedbackKind, FeedbackTarget, Prisma } from "@prisma/client";
+import { parseImportanceFactors } from "@/server/services/importance-profile.service";
+import { computeClipMatchFeatures } from "@/server/services/clip-pairer";
+
+/**
+ * Feedback store.
+ * What producers do with news and clips (dismissing items, pairing and
+ * unpairing clips, shortlisting and logging candidates) is recorded as
+ * labeled examples for the weight trainer. Features are snapshotted when the
+ * feedback is given, since scores are recomputed and clip matches deleted
+ * later. Recording never fails the action it's attached to.
+ */
+
+// Candidate actions and whether they mean the clip was right
+const CANDIDATE_LABELS: Partial<Record<FeedbackKind, boolean>> = {
+  CANDIDATE_SHORTLISTED: true,
+  CANDIDATE_EXPORTED: true,
+  CANDIDATE_LOGGED: true,
+  CANDIDATE_DISMISSED: false,
+};
+
+/**
+ * Record whether a news item was worth attention, with the factors it was
+ * scored on. Unscored items are skipped.
+ */
+export async function recordNewsFeedback(
+  orgId: string,
+  userId: string | null,
+  newsItemId: string,
+  kind: FeedbackKind,
+  label: boolean
+): Promise<void> {
+  await safely(async () => {
+    const newsItem = await prisma.newsItem.findFirst({
+      where: { id: newsItemId, orgId },
+      select: { scoreBreakdown: true, scoreProfile: true },
+    });
+    if (!newsItem || !parseImportanceFactors(newsItem.scoreBreakdown)) return;
+
+    await createFeedback(orgId, userId, "IMPORTANCE", kind, label, {
+      newsItemId,
+      features: newsItem.scoreBreakdown as Prisma.InputJsonValue,
+      scoreProfile: newsItem.scoreProfile,
+    });
+  });
+}
+
+/**
+ * Record whether a clip was right for a news item, with the match features.
+ */
+export async function recordClipMatchFeedback(
+  orgId: string,
+  userId: string | null,
+  newsItemId: string,
+  candidateId: string,
+  kind: FeedbackKind,
+  label: boolean
+): Promise<void> {
+  await safely(async () => {
+    const [newsItem, candidate] = await Promise.all([
+      prisma.newsItem.findFirst({ where: { id: newsItemId, orgId } }),
+      prisma.candidate.findFirst({
+        where: { id: candidateId, orgId },
+        include: { video: { select: { title: true, description: true } } },
+      }),
+    ]);
+    if (!newsItem || !candidate) return;
+
+    await createFeedback(orgId, userId, "CLIP_MATCH", kind, label, {
+      newsItemId,
+      candidateId,
+      features: computeClipMatchFeatures(newsItem, candidate) as unknown as Prisma.InputJsonValue,
+    });
+  });
+}
+
+/**
+ * Record a candidate action as feedback on each news item it's matched to:
+ * the clip was right (or wrong) for the item, and a kept clip means the item
+ * mattered.
+ */
+export async function recordCandidateFeedback(
+  orgId: string,
+  userId: string | null,
+  candidateIds: string[],
+  kind: FeedbackKind
+): Promise<void> {
+  const label = CANDIDATE_LABELS[kind];
+  if (label === undefined) return;
+
+  let matches: Array<{ newsItemId: string; candidateId: string | null }> = [];
+  await safely(async () => {
+    matches = await prisma.clipMatch.findMany({
+      where: { orgId, candidateId: { in: candidateIds } },
+      select: { newsItemId: true, candidateId: true },
+    });
+  });
+
+  for (const match of matches) {
+    if (!match.candidateId) continue;
+
+    await recordClipMatchFeedback(orgId, userId, match.newsItemId, match.candidateId, kind, label);
+    if (label) {
+      await recordNewsFeedback(orgId, userId, match.newsItemId, kind, true);
+    }
+  }
+}
+
+/**
+ * Feedback counts by target and label.
+ */
+export async function getFeedbackSummary(orgId: string) {
+  const groups = await prisma.feedbackEvent.groupBy({
+    by: ["target", "label"],
+    where: { orgId },
+    _count: { _all: true },
+  });
+
+  const summary: Record<FeedbackTarget, { positive: number; negative: number }> = {
+    IMPORTANCE: { positive: 0, negative: 0 },
+    CLIP_MATCH: { positive: 0, negative: 0 },
+  };
+  for (const group of groups) {
+    summary[group.target][group.label ? "positive" : "negative"] = group._count._all;
+  }
+
+  return summary;
+}
+
+async function createFeedback(
+  orgId: string,
+  userId: string | null,
+  target: FeedbackTarget,
+  kind: FeedbackKind,
+  label: boolean,
+  data: {
+    newsItemId: string;
+    candidateId?: string;
+    features: Prisma.InputJsonValue;
+    scoreProfile?: string | null;
+  }
+): Promise<void> {
+  await prisma.feedbackEvent.create({
+    data: { orgId, userId, target, kind, label, ...data },
+  });
+}
+
+async function safely(record: () => Promise<void>): Promise<void> {
+  try {
+    await record();
+  } catch (error) {
+    console.error("[Feedback] Error recording feedback:", error);
+  }
+}
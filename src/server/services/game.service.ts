@@ -0,0 +1,223 @@
+import { prisma } from "@/lib/prisma";
+import type { GameResult, Prisma, Sport } from "@prisma/client";
+import { addDays, subDays } from "date-fns";
+import type { RawGameResult } from "@/server/services/sources/types";
+
+/**
+ * Game service.
+ * Gives each game one identity across sources. Odds and results are linked as
+ * they're ingested, via the source's own game ID when it has one and by
+ * canonical teams and kickoff time otherwise. News and clips are linked once
+ * their teams are known.
+ */
+
+// Results feeds report the same game at slightly different kickoff times
+export const GAME_MATCH_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+// News about a game: previews up to 3 days before, recaps up to a day after
+const NEWS_PREVIEW_DAYS = 3;
+const NEWS_RECAP_DAYS = 1;
+
+// Upcoming games considered for game proximity
+const UPCOMING_GAME_DAYS = 3;
+
+export interface GameIdentity {
+  homeTeam: string;
+  awayTeam: string;
+  gameDate: Date;
+  externalGameId?: string | null;
+}
+
+/**
+ * Find or create the game a source is reporting on, and remember the source's
+ * ID for it.
+ * @param game - Odds or result with canonical team names
+ * @returns The game's ID
+ */
+export async function resolveGameId(
+  orgId: string,
+  sourceId: string,
+  sport: Sport,
+  game: GameIdentity
+): Promise<string> {
+  if (game.externalGameId) {
+    const mapping = await prisma.gameExternalId.findUnique({
+      where: { sourceId_externalGameId: { sourceId, externalGameId: game.externalGameId } },
+    });
+    if (mapping) return mapping.gameId;
+  }
+
+  const candidates = await prisma.game.findMany({
+    where: {
+      orgId,
+      sport,
+      homeTeam: game.homeTeam,
+      awayTeam: game.awayTeam,
+      gameDate: {
+        gte: new Date(game.gameDate.getTime() - GAME_MATCH_WINDOW_MS),
+        lte: new Date(game.gameDate.getTime() + GAME_MATCH_WINDOW_MS),
+      },
+    },
+  });
+
+  const existing = closestTo(candidates, game.gameDate);
+  const gameId =
+    existing?.id ??
+    (
+      await prisma.game.create({
+        data: {
+          orgId,
+          sport,
+          homeTeam: game.homeTeam,
+          awayTeam: game.awayTeam,
+          gameDate: game.gameDate,
+        },
+      })
+    ).id;
+
+  if (game.externalGameId) {
+    await prisma.gameExternalId.upsert({
+      where: { sourceId_externalGameId: { sourceId, externalGameId: game.externalGameId } },
+      create: { orgId, gameId, sourceId, externalGameId: game.externalGameId },
+      update: {},
+    });
+  }
+
+  return gameId;
+}
+
+/**
+ * Link a result to its game and upsert it.
+ * @param result - Result with canonical team names
+ * @returns The stored result and what it looked like before, if it existed
+ */
+export async function saveGameResult(
+  orgId: string,
+  sourceId: string,
+  sport: Sport,
+  result: RawGameResult
+): Promise<{ previous: GameResult | null; saved: GameResult }> {
+  const resultKey = {
+    orgId,
+    homeTeam: result.homeTeam,
+    awayTeam: result.awayTeam,
+    gameDate: result.gameDate,
+  };
+  const gameId = await resolveGameId(orgId, sourceId, sport, result);
+  const previous = await prisma.gameResult.findUnique({
+    where: { orgId_homeTeam_awayTeam_gameDate: resultKey },
+  });
+
+  const saved = await prisma.gameResult.upsert({
+    where: { orgId_homeTeam_awayTeam_gameDate: resultKey },
+    update: {
+      homeScore: result.homeScore,
+      awayScore: result.awayScore,
+      status: result.status,
+      statsJson: (result.statsJson ?? undefined) as Prisma.InputJsonValue | undefined,
+      externalGameId: result.externalGameId,
+      gameId,
+      // Closing-line grades replace the feed's own once graded
+      ...(!previous?.gradedAt && {
+        spreadWinner: result.spreadWinner,
+        totalResult: result.totalResult,
+      }),
+    },
+    create: {
+      ...resultKey,
+      sourceId,
+      sport,
+      homeScore: result.homeScore,
+      awayScore: result.awayScore,
+      status: result.status,
+      statsJson: (result.statsJson ?? undefined) as Prisma.InputJsonValue | undefined,
+      externalGameId: result.externalGameId,
+      gameId,
+      spreadWinner: result.spreadWinner,
+      totalResult: result.totalResult,
+    },
+  });
+
+  return { previous, saved };
+}
+
+/**
+ * Find the game a news item is about: the nearest game between two of its
+ * teams around the time it was published.
+ * @param teams - Canonical team names mentioned in the item
+ * @returns The game's ID, or null if it doesn't mention a matchup
+ */
+export async function findGameForNews(
+  orgId: string,
+  sport: Sport,
+  teams: string[],
+  publishedAt: Date
+): Promise<string | null> {
+  if (teams.length < 2) return null;
+
+  const games = await prisma.game.findMany({
+    where: {
+      orgId,
+      sport,
+      homeTeam: { in: teams },
+      awayTeam: { in: teams },
+      gameDate: {
+        gte: subDays(publishedAt, NEWS_RECAP_DAYS),
+        lte: addDays(publishedAt, NEWS_PREVIEW_DAYS),
+      },
+    },
+  });
+
+  return closestTo(games, publishedAt)?.id ?? null;
+}
+
+/**
+ * Games in the sport starting within the next few days, for game proximity
+ * in importance scoring.
+ */
+export async function getUpcomingGames(
+  orgId: string,
+  sport: Sport,
+  now: Date = new Date()
+): Promise<Array<{ teams: string[]; gameDate: Date }>> {
+  const games = await prisma.game.findMany({
+    where: {
+      orgId,
+      sport,
+      gameDate: { gte: now, lte: addDays(now, UPCOMING_GAME_DAYS) },
+    },
+    select: { homeTeam: true, awayTeam: true, gameDate: true },
+  });
+
+  return games.map((game) => ({
+    teams: [game.homeTeam, game.awayTeam],
+    gameDate: game.gameDate,
+  }));
+}
+
+/**
+ * Link clips paired with a game's news to the game, leaving clips already
+ * linked to another game alone.
+ */
+export async function linkCandidatesToGame(gameId: string, candidateIds: string[]): Promise<void> {
+  if (candidateIds.length === 0) return;
+
+  await prisma.candidate.updateMany({
+    where: { id: { in: candidateIds }, gameId: null },
+    data: { gameId },
+  });
+}
+
+function closestTo<T extends { gameDate: Date }>(games: T[], date: Date): T | null {
+  let closest: T | null = null;
+  for (const game of games) {
+    if (
+      !closest ||
+      Math.abs(game.gameDate.getTime() - date.getTime()) <
+        Math.abs(closest.gameDate.getTime() - date.getTime())
+    ) {
+      closest = game;
+    }
+  }
+  return closest;
+}
@@ -0,0 +1,194 @@
+import { createHash } from "crypto";
+import { prisma } from "@/lib/prisma";
+import type { NewsItemType, Prisma } from "@prisma/client";
+import { subHours } from "date-fns";
+import {
+  calculateTopicWeight,
+  DEFAULT_FACTOR_WEIGHTS,
+  DEFAULT_SCORING_PROFILE,
+  DEFAULT_TOPIC_WEIGHTS,
+  getSourceAuthority,
+  weightedScore,
+  type FactorWeights,
+  type ImportanceFactors,
+  type ScoringProfile,
+} from "@/server/services/importance-scorer";
+
+/**
+ * Importance weight profiles.
+ * Orgs weigh the importance factors and news types differently: a betting desk
+ * cares about line-moving injury news, a highlights desk about results. Each
+ * org's overrides live in Organization.settings.importance and resolve to a
+ * scoring profile whose ID is recorded with every score it produces.
+ */
+
+/**
+ * Stored on Organization.settings.importance. Factor weights are relative and
+ * normalized to sum to 1.
+ */
+export interface ImportanceSettings {
+  weights?: Partial<FactorWeights>;
+  topicWeights?: Partial<Record<NewsItemType, number>>;
+}
+
+export interface ScorePreviewRow {
+  id: string;
+  headline: string;
+  type: NewsItemType;
+  sourceName: string;
+  scoreProfile: string | null;
+  currentScore: number;
+  previewScore: number;
+  currentRank: number;
+  previewRank: number;
+}
+
+// Recent scored items re-scored by the preview
+const PREVIEW_WINDOW_HOURS = 48;
+const PREVIEW_LIMIT = 50;
+
+const FACTOR_KEYS = Object.keys(DEFAULT_FACTOR_WEIGHTS) as Array<keyof ImportanceFactors>;
+
+/**
+ * Read the org's importance settings from Organization.settings.
+ */
+export function getImportanceSettings(settings: Prisma.JsonValue): ImportanceSettings {
+  if (!settings || typeof settings !== "object" || Array.isArray(settings)) return {};
+  const value = (settings as Prisma.JsonObject).importance;
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return value as unknown as ImportanceSettings;
+}
+
+/**
+ * Scoring profile for the settings: defaults with the org's overrides, factor
+ * weights normalized. Settings that change nothing resolve to the default
+ * profile; anything else gets an ID derived from its weights.
+ */
+export function resolveScoringProfile(settings: ImportanceSettings): ScoringProfile {
+  const merged = { ...DEFAULT_FACTOR_WEIGHTS, ...settings.weights };
+  const total = FACTOR_KEYS.reduce((sum, key) => sum + Math.max(0, merged[key] ?? 0), 0);
+
+  const weights =
+    total > 0
+      ? (Object.fromEntries(
+          FACTOR_KEYS.map((key) => [key, round(Math.max(0, merged[key] ?? 0) / total)])
+        ) as FactorWeights)
+      : DEFAULT_FACTOR_WEIGHTS;
+  const topicWeights = { ...DEFAULT_TOPIC_WEIGHTS, ...settings.topicWeights } as Record<
+    string,
+    number
+  >;
+
+  const signature = JSON.stringify([
+    FACTOR_KEYS.map((key) => weights[key]),
+    Object.keys(topicWeights)
+      .sort()
+      .map((type) => [type, round(topicWeights[type])]),
+  ]);
+  const defaultSignature = JSON.stringify([
+    FACTOR_KEYS.map((key) => DEFAULT_FACTOR_WEIGHTS[key]),
+    Object.keys(DEFAULT_TOPIC_WEIGHTS)
+      .sort()
+      .map((type) => [type, DEFAULT_TOPIC_WEIGHTS[type]]),
+  ]);
+
+  if (signature === defaultSignature) return DEFAULT_SCORING_PROFILE;
+
+  return {
+    id: `custom-${createHash("sha256").update(signature).digest("hex").slice(0, 10)}`,
+    weights,
+    topicWeights,
+  };
+}
+
+/**
+ * Load the org's scoring profile.
+ */
+export async function getScoringProfile(orgId: string): Promise<ScoringProfile> {
+  const org = await prisma.organization.findUnique({
+    where: { id: orgId },
+    select: { settings: true },
+  });
+
+  return resolveScoringProfile(getImportanceSettings(org?.settings ?? {}));
+}
+
+/**
+ * Re-score the org's recent items under a profile, from the factors stored
+ * when they were scored. Topic weight and source authority are recomputed, so
+ * profile and authority changes show up; time-based factors are as they were
+ * at scoring time.
+ * @returns Items by current score, with their rank under each
+ */
+export async function previewScoringProfile(
+  orgId: string,
+  profile: ScoringProfile
+): Promise<ScorePreviewRow[]> {
+  const items = await prisma.newsItem.findMany({
+    where: {
+      orgId,
+      isProcessed: true,
+      publishedAt: { gte: subHours(new Date(), PREVIEW_WINDOW_HOURS) },
+    },
+    select: {
+      id: true,
+      headline: true,
+      type: true,
+      importanceScore: true,
+      scoreBreakdown: true,
+      scoreProfile: true,
+      source: { select: { name: true, authority: true } },
+    },
+    orderBy: { importanceScore: "desc" },
+    take: PREVIEW_LIMIT,
+  });
+
+  const rows = items.flatMap((item) => {
+    const factors = parseImportanceFactors(item.scoreBreakdown);
+    if (!factors) return [];
+
+    return [
+      {
+        id: item.id,
+        headline: item.headline,
+        type: item.type,
+        sourceName: item.source.name,
+        scoreProfile: item.scoreProfile,
+        currentScore: Math.round(item.importanceScore),
+        previewScore: weightedScore(
+          {
+            ...factors,
+            topicWeight: calculateTopicWeight(item.type, profile.topicWeights),
+            sourceAuthority: getSourceAuthority(item.source),
+          },
+          profile.weights
+        ),
+        currentRank: 0,
+        previewRank: 0,
+      },
+    ];
+  });
+
+  rows.forEach((row, index) => (row.currentRank = index + 1));
+  [...rows]
+    .sort((a, b) => b.previewScore - a.previewScore)
+    .forEach((row, index) => (row.previewRank = index + 1));
+
+  return rows;
+}
+
+/**
+ * Importance factors from a stored score breakdown, if it has all of them.
+ */
+export function parseImportanceFactors(breakdown: Prisma.JsonValue): ImportanceFactors | null {
+  if (!breakdown || typeof breakdown !== "object" || Array.isArray(breakdown)) return null;
+
+  const value = breakdown as Prisma.JsonObject;
+  if (!FACTOR_KEYS.every((key) => typeof value[key] === "number")) return null;
+
+  return value as unknown as ImportanceFactors;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,157 @@
+import { prisma } from "@/lib/prisma";
+import type { Sport } from "@prisma/client";
+import { subHours } from "date-fns";
+import {
+  calculateTopicWeight,
+  refreshTimeFactors,
+  weightedScore,
+} from "@/server/services/importance-scorer";
+import {
+  getScoringProfile,
+  parseImportanceFactors,
+} from "@/server/services/importance-profile.service";
+import { getUpcomingGames } from "@/server/services/game.service";
+import { applyBreakingBoost } from "@/server/services/breaking.service";
+
+/**
+ * Importance re-scoring.
+ * Scores are computed once, when a story's first report is processed, but
+ * recency and game proximity change with the clock: without a refresh a
+ * three-day-old trade keeps outranking fresh injury news. Recent stories are
+ * periodically re-scored from their stored breakdown with those factors
+ * recomputed, under the org's current profile, and the new score is copied to
+ * every report of the story. Breaking stories keep their boost.
+ */
+
+// How often the re-score runs
+export const RESCORE_INTERVAL_MS = 15 * 60 * 1000;
+
+// Recency bottoms out at 72 hours; the extra day settles stories at the floor
+const RESCORE_WINDOW_HOURS = 96;
+
+// Stories loaded and updated per batch
+const RESCORE_BATCH_SIZE = 100;
+
+// Stories at or above this score get clip pairing
+export const CLIP_PAIR_THRESHOLD = 40;
+
+export interface RescoreResult {
+  scanned: number;
+  updated: number;
+  // Lead items of unpaired stories that rose to the pairing threshold
+  toPair: string[];
+  // Lead items of stories whose score rose, to check against watchlists
+  risen: string[];
+}
+
+/**
+ * Orgs with stories scored inside the re-score window.
+ */
+export async function getRescoreOrgIds(now: Date = new Date()): Promise<string[]> {
+  const stories = await prisma.story.findMany({
+    where: {
+      scoredAt: { not: null },
+      firstReportedAt: { gte: subHours(now, RESCORE_WINDOW_HOURS) },
+    },
+    select: { orgId: true },
+    distinct: ["orgId"],
+  });
+
+  return stories.map((story) => story.orgId);
+}
+
+/**
+ * Re-score an org's recent stories, in batches. Stories whose score and
+ * profile are unchanged are left alone.
+ */
+export async function rescoreRecentStories(
+  orgId: string,
+  now: Date = new Date()
+): Promise<RescoreResult> {
+  const profile = await getScoringProfile(orgId);
+  const gamesBySport = new Map<Sport, Awaited<ReturnType<typeof getUpcomingGames>>>();
+  const result: RescoreResult = { scanned: 0, updated: 0, toPair: [], risen: [] };
+
+  let cursor: string | undefined;
+
+  for (;;) {
+    const stories = await prisma.story.findMany({
+      where: {
+        orgId,
+        scoredAt: { not: null },
+        firstReportedAt: { gte: subHours(now, RESCORE_WINDOW_HOURS) },
+      },
+      select: {
+        id: true,
+        sport: true,
+        type: true,
+        teams: true,
+        leadItemId: true,
+        firstReportedAt: true,
+        importanceScore: true,
+        isBreaking: true,
+        scoreBreakdown: true,
+        scoreProfile: true,
+        newsItems: { where: { isPaired: true }, select: { id: true }, take: 1 },
+      },
+      orderBy: { id: "asc" },
+      take: RESCORE_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    if (stories.length === 0) break;
+    cursor = stories[stories.length - 1].id;
+    result.scanned += stories.length;
+
+    for (const story of stories) {
+      const factors = parseImportanceFactors(story.scoreBreakdown);
+      if (!factors) continue;
+
+      let upcomingGames = gamesBySport.get(story.sport);
+      if (!upcomingGames) {
+        upcomingGames = await getUpcomingGames(orgId, story.sport, now);
+        gamesBySport.set(story.sport, upcomingGames);
+      }
+
+      const breakdown = refreshTimeFactors(
+        { ...factors, topicWeight: calculateTopicWeight(story.type, profile.topicWeights) },
+        story.firstReportedAt,
+        story.teams as string[],
+        upcomingGames
+      );
+      const weighted = weightedScore(breakdown, profile.weights);
+      const score = story.isBreaking ? applyBreakingBoost(weighted) : weighted;
+
+      if (score === story.importanceScore && profile.id === story.scoreProfile) continue;
+
+      await prisma.$transaction([
+        prisma.story.update({
+          where: { id: story.id },
+          data: { importanceScore: score, scoreBreakdown: breakdown as object, scoreProfile: profile.id },
+        }),
+        prisma.newsItem.updateMany({
+          where: { storyId: story.id, isProcessed: true },
+          data: { importanceScore: score, scoreBreakdown: breakdown as object, scoreProfile: profile.id },
+        }),
+      ]);
+      result.updated++;
+
+      if (story.leadItemId && score > story.importanceScore) {
+        result.risen.push(story.leadItemId);
+      }
+
+      if (
+        story.leadItemId &&
+        story.newsItems.length === 0 &&
+        story.importanceScore < CLIP_PAIR_THRESHOLD &&
+        score >= CLIP_PAIR_THRESHOLD
+      ) {
+        result.toPair.push(story.leadItemId);
+      }
+    }
+
+    if (stories.length < RESCORE_BATCH_SIZE) break;
+  }
+
+  return result;
+}
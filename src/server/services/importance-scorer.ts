@@ -1,5 +1,6 @@
 import type { NewsItem, Sport } from "@prisma/client";
 import { differenceInHours, differenceInMinutes } from "date-fns";
+import { normalizeTeamKey } from "@/server/services/team-data";
 
 /**
  * Importance scoring service for news items.
@@ -24,14 +25,65 @@ export interface ImportanceFactors {
   bettingRelevance: number; // 0-1, affects betting lines
 }
 
+/**
+ * Odds market state for an upcoming game, used for betting relevance.
+ */
+export interface BettingMarketSignal {
+  teams: string[];
+  /** Largest spread move since open across books, in points */
+  spreadMove: number;
+  /** Largest total move since open across books, in points */
+  totalMove: number;
+  /** Arbitrage or a middle is currently available across books */
+  hasOpportunity: boolean;
+}
+
+/**
+ * AI analysis of the item, blended into time sensitivity by its confidence.
+ */
+export interface AIScoringSignal {
+  timeSensitivity: "high" | "medium" | "low";
+  confidence: number; // 0-1
+}
+
+export type FactorWeights = Record<keyof ImportanceFactors, number>;
+
+/**
+ * Factor and topic weights a score is computed with. Orgs can tune their own
+ * (see importance-profile.service); the ID is recorded with each score.
+ */
+export interface ScoringProfile {
+  id: string;
+  weights: FactorWeights; // Sum to 1
+  topicWeights: Record<string, number>; // 0-1 by news type
+}
+
+/**
+ * Source being scored; an explicit authority overrides the name-based guess.
+ */
+export interface ScoringSource {
+  name: string;
+  authority?: number | null;
+}
+
+/**
+ * Optional inputs to a score beyond the item, its source and upcoming games.
+ */
+export interface ScoringOptions {
+  bettingMarkets?: BettingMarketSignal[];
+  aiSignal?: AIScoringSignal;
+  profile?: ScoringProfile; // Defaults to DEFAULT_SCORING_PROFILE
+}
+
 export interface ScoreResult {
   totalScore: number; // 0-100
   breakdown: ImportanceFactors;
   reasoning: string;
+  profileId: string;
 }
 
-// Weights for each factor
-const WEIGHTS: Record<keyof ImportanceFactors, number> = {
+// Default weights for each factor
+export const DEFAULT_FACTOR_WEIGHTS: FactorWeights = {
   recency: 0.15,
   timeSensitivity: 0.15,
   entityRelevance: 0.15,
@@ -42,8 +94,8 @@ const WEIGHTS: Record<keyof ImportanceFactors, number> = {
   bettingRelevance: 0.05,
 };
 
-// Topic weights (higher = more important)
-const TOPIC_WEIGHTS: Record<string, number> = {
+// Default topic weights (higher = more important)
+export const DEFAULT_TOPIC_WEIGHTS: Record<string, number> = {
   TRADE: 0.95,
   BREAKING: 0.9,
   INJURY: 0.85,
@@ -54,6 +106,15 @@ const TOPIC_WEIGHTS: Record<string, number> = {
   ANALYSIS: 0.3,
 };
 
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  id: "default",
+  weights: DEFAULT_FACTOR_WEIGHTS,
+  topicWeights: DEFAULT_TOPIC_WEIGHTS,
+};
+
+// Topic weight for types without one
+const FALLBACK_TOPIC_WEIGHT = 0.3;
+
 // Source authority scores (based on source name patterns)
 const SOURCE_AUTHORITY_PATTERNS: Array<{ pattern: RegExp; score: number }> = [
   { pattern: /espn/i, score: 0.95 },
@@ -69,25 +130,39 @@ const SOURCE_AUTHORITY_PATTERNS: Array<{ pattern: RegExp; score: number }> = [
   { pattern: /reddit/i, score: 0.5 },
 ];
 
+// Time sensitivity for each AI rating
+const AI_TIME_SENSITIVITY: Record<AIScoringSignal["timeSensitivity"], number> = {
+  high: 1,
+  medium: 0.6,
+  low: 0.2,
+};
+
 /**
  * Calculate importance score for a news item.
  */
 export function calculateImportanceScore(
   newsItem: NewsItem,
-  sourceName?: string,
-  upcomingGames?: Array<{ teams: string[]; gameDate: Date }>
+  source?: ScoringSource,
+  upcomingGames?: Array<{ teams: string[]; gameDate: Date }>,
+  options: ScoringOptions = {}
 ): ScoreResult {
+  const { bettingMarkets, aiSignal, profile = DEFAULT_SCORING_PROFILE } = options;
+  const ruleTimeSensitivity = calculateTimeSensitivity(newsItem.type, newsItem.headline);
+
   const factors: ImportanceFactors = {
     recency: calculateRecency(newsItem.publishedAt),
-    timeSensitivity: calculateTimeSensitivity(newsItem.type, newsItem.headline),
+    timeSensitivity: aiSignal
+      ? ruleTimeSensitivity * (1 - aiSignal.confidence) +
+        AI_TIME_SENSITIVITY[aiSignal.timeSensitivity] * aiSignal.confidence
+      : ruleTimeSensitivity,
     entityRelevance: calculateEntityRelevance(
       newsItem.teams as string[],
       newsItem.players as string[],
       newsItem.sport
     ),
-    topicWeight: calculateTopicWeight(newsItem.type),
+    topicWeight: calculateTopicWeight(newsItem.type, profile.topicWeights),
     exclusivity: calculateExclusivity(newsItem.headline, newsItem.content),
-    sourceAuthority: calculateSourceAuthority(sourceName || ""),
+    sourceAuthority: getSourceAuthority(source),
     gameProximity: calculateGameProximity(
       newsItem.teams as string[],
       upcomingGames || []
@@ -95,18 +170,13 @@ export function calculateImportanceScore(
     bettingRelevance: calculateBettingRelevance(
       newsItem.type,
       newsItem.headline,
-      newsItem.content
+      newsItem.content,
+      newsItem.teams as string[],
+      bettingMarkets || []
     ),
   };
 
-  // Calculate weighted sum
-  let totalScore = 0;
-  for (const [key, weight] of Object.entries(WEIGHTS)) {
-    totalScore += factors[key as keyof ImportanceFactors] * weight;
-  }
-
-  // Scale to 0-100
-  totalScore = Math.round(totalScore * 100);
+  const totalScore = weightedScore(factors, profile.weights);
 
   // Generate reasoning
   const reasoning = generateReasoning(factors, newsItem.type);
@@ -115,9 +185,56 @@ export function calculateImportanceScore(
     totalScore,
     breakdown: factors,
     reasoning,
+    profileId: profile.id,
   };
 }
 
+/**
+ * Weighted sum of factors, scaled to 0-100.
+ */
+export function weightedScore(factors: ImportanceFactors, weights: FactorWeights): number {
+  let totalScore = 0;
+  for (const [key, weight] of Object.entries(weights)) {
+    totalScore += (factors[key as keyof ImportanceFactors] ?? 0) * weight;
+  }
+
+  return Math.round(totalScore * 100);
+}
+
+/**
+ * A stored breakdown with its time-dependent factors recomputed as of now.
+ * Recency decays and games draw closer after an item is first scored.
+ */
+export function refreshTimeFactors(
+  factors: ImportanceFactors,
+  publishedAt: Date,
+  teams: string[],
+  upcomingGames: Array<{ teams: string[]; gameDate: Date }>
+): ImportanceFactors {
+  return {
+    ...factors,
+    recency: calculateRecency(publishedAt),
+    gameProximity: calculateGameProximity(teams, upcomingGames),
+  };
+}
+
+/**
+ * Topic weight for a news type under a profile.
+ */
+export function calculateTopicWeight(
+  type: string,
+  topicWeights: Record<string, number> = DEFAULT_TOPIC_WEIGHTS
+): number {
+  return topicWeights[type] ?? FALLBACK_TOPIC_WEIGHT;
+}
+
+/**
+ * A source's authority: its explicit value, else a guess from its name.
+ */
+export function getSourceAuthority(source?: ScoringSource): number {
+  return source?.authority ?? guessSourceAuthority(source?.name ?? "");
+}
+
 /**
  * Calculate recency score with exponential decay.
  * Full score at 0 hours, 0.5 at 12 hours, ~0.1 at 48 hours.
@@ -192,13 +309,6 @@ function calculateEntityRelevance(
   return Math.min(score, 1.0);
 }
 
-/**
- * Calculate topic weight based on news type.
- */
-function calculateTopicWeight(type: string): number {
-  return TOPIC_WEIGHTS[type] || 0.3;
-}
-
 /**
  * Estimate exclusivity based on content analysis.
  * Breaking news with unique details scores higher.
@@ -232,9 +342,9 @@ function calculateExclusivity(headline: string, content: string | null): number
 }
 
 /**
- * Calculate source authority score.
+ * Guess source authority from well-known names.
  */
-function calculateSourceAuthority(sourceName: string): number {
+export function guessSourceAuthority(sourceName: string): number {
   if (!sourceName) return 0.5;
 
   for (const { pattern, score } of SOURCE_AUTHORITY_PATTERNS) {
@@ -264,11 +374,7 @@ function calculateGameProximity(
   for (const game of upcomingGames) {
     // Check if any team in the news is playing
     const hasMatchingTeam = teams.some((team) =>
-      game.teams.some(
-        (gameTeam) =>
-          gameTeam.toLowerCase().includes(team.toLowerCase()) ||
-          team.toLowerCase().includes(gameTeam.toLowerCase())
-      )
+      game.teams.some((gameTeam) => sameTeam(team, gameTeam))
     );
 
     if (hasMatchingTeam) {
@@ -293,14 +399,63 @@ function calculateGameProximity(
 
 /**
  * Calculate betting relevance score.
+ * News about a team whose line is moving, or whose market is mispriced
+ * across books, is more relevant than the text alone suggests.
  */
 function calculateBettingRelevance(
   type: string,
   headline: string,
-  content: string | null
+  content: string | null,
+  teams: string[],
+  bettingMarkets: BettingMarketSignal[]
 ): number {
   if (type === "BETTING_LINE") return 1.0;
 
+  const textRelevance = calculateTextBettingRelevance(type, headline, content);
+  return Math.max(textRelevance, calculateMarketRelevance(teams, bettingMarkets));
+}
+
+/**
+ * Team names are canonical after ingest, so compare normalized keys rather
+ * than substrings ("Jets" would otherwise match "Winnipeg Jets").
+ */
+function sameTeam(a: string, b: string): boolean {
+  return normalizeTeamKey(a) === normalizeTeamKey(b);
+}
+
+/**
+ * Market-based betting relevance for the teams mentioned.
+ */
+function calculateMarketRelevance(teams: string[], bettingMarkets: BettingMarketSignal[]): number {
+  let relevance = 0;
+
+  for (const market of bettingMarkets) {
+    const hasMatchingTeam = teams.some((team) =>
+      market.teams.some((gameTeam) => sameTeam(team, gameTeam))
+    );
+    if (!hasMatchingTeam) continue;
+
+    if (Math.abs(market.spreadMove) >= 1.5 || Math.abs(market.totalMove) >= 2) {
+      relevance = Math.max(relevance, 0.9);
+    } else if (market.hasOpportunity) {
+      relevance = Math.max(relevance, 0.8);
+    } else {
+      // Team has a priced game coming up
+      relevance = Math.max(relevance, 0.5);
+    }
+  }
+
+  return relevance;
+}
+
+/**
+ * Text-based betting relevance from type and keywords.
+ */
+function calculateTextBettingRelevance(
+  type: string,
+  headline: string,
+  content: string | null
+): number {
   const text = `${headline} ${content || ""}`.toLowerCase();
 
   // High betting relevance indicators
@@ -385,12 +540,16 @@ function generateReasoning(factors: ImportanceFactors, type: string): string {
  */
 export function batchCalculateImportance(
   items: NewsItem[],
-  sourceName?: string
+  source?: ScoringSource,
+  profile?: ScoringProfile
 ): Map<string, ScoreResult> {
   const results = new Map<string, ScoreResult>();
 
   for (const item of items) {
-    results.set(item.id, calculateImportanceScore(item, sourceName));
+    results.set(
+      item.id,
+      calculateImportanceScore(item, source, undefined, { profile })
+    );
   }
 
   return results;
@@ -0,0 +1,231 @@
+import { prisma } from "@/lib/prisma";
+import { SPORTSBOOK_NAMES } from "@/lib/constants";
+import type { NewsItem, OddsSnapshot, Prisma, Sport } from "@prisma/client";
+import { gameKey, gameLineWhere } from "@/server/services/odds-history.service";
+import { assignStory } from "@/server/services/story.service";
+
+/**
+ * Line move detector.
+ * Runs after each new odds snapshot and turns sharp spread or total moves
+ * ("steam") into BETTING_LINE news items for the feed.
+ */
+
+export interface LineMoveThresholds {
+  enabled: boolean;
+  /** Points of spread movement that trigger an alert */
+  spread: number;
+  /** Points of total movement that trigger an alert */
+  total: number;
+  /** How far back to look for the starting line */
+  windowMinutes: number;
+}
+
+/**
+ * Stored on Organization.settings.lineMoveAlerts.
+ */
+export interface LineMoveSettings {
+  default?: Partial<LineMoveThresholds>;
+  sports?: Partial<Record<Sport, Partial<LineMoveThresholds>>>;
+}
+
+type LineMarket = "spread" | "total";
+
+export const DEFAULT_LINE_MOVE_THRESHOLDS: LineMoveThresholds = {
+  enabled: true,
+  spread: 1.5,
+  total: 2,
+  windowMinutes: 60,
+};
+
+// Scoring scale differs by sport, so a 1.5 point move means different things
+export const SPORT_LINE_MOVE_DEFAULTS: Partial<Record<Sport, Partial<LineMoveThresholds>>> = {
+  NBA: { spread: 2, total: 3 },
+  CBB: { spread: 2, total: 3 },
+  NFL: { spread: 1.5, total: 2 },
+  CFB: { spread: 2, total: 3 },
+  MLB: { spread: 1, total: 1 },
+  NHL: { spread: 1, total: 1 },
+  SOCCER: { spread: 0.5, total: 0.5 },
+};
+
+/**
+ * Read the org's line move settings from Organization.settings.
+ */
+export function getLineMoveSettings(settings: Prisma.JsonValue): LineMoveSettings {
+  if (!settings || typeof settings !== "object" || Array.isArray(settings)) return {};
+  const value = (settings as Prisma.JsonObject).lineMoveAlerts;
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return value as unknown as LineMoveSettings;
+}
+
+/**
+ * Thresholds for one sport: built-in defaults, then sport defaults, then the
+ * org's default override, then the org's sport override.
+ */
+export function resolveLineMoveThresholds(
+  settings: LineMoveSettings,
+  sport: Sport
+): LineMoveThresholds {
+  return {
+    ...DEFAULT_LINE_MOVE_THRESHOLDS,
+    ...SPORT_LINE_MOVE_DEFAULTS[sport],
+    ...settings.default,
+    ...settings.sports?.[sport],
+  };
+}
+
+/**
+ * Load the org's thresholds for a sport.
+ */
+export async function getLineMoveThresholds(
+  orgId: string,
+  sport: Sport
+): Promise<LineMoveThresholds> {
+  const org = await prisma.organization.findUnique({
+    where: { id: orgId },
+    select: { settings: true },
+  });
+
+  return resolveLineMoveThresholds(getLineMoveSettings(org?.settings ?? {}), sport);
+}
+
+/**
+ * Compare a new snapshot with the recent history for its game and sportsbook,
+ * creating a news item, in its own story, for each market that moved past its
+ * threshold.
+ * @returns The created news items (not yet scored)
+ */
+export async function detectLineMoves(
+  snapshot: OddsSnapshot,
+  thresholds: LineMoveThresholds
+): Promise<NewsItem[]> {
+  if (!thresholds.enabled) return [];
+
+  const windowStart = new Date(snapshot.createdAt.getTime() - thresholds.windowMinutes * 60 * 1000);
+  const recent = await prisma.oddsSnapshot.findMany({
+    where: {
+      ...gameLineWhere(snapshot.orgId, snapshot),
+      createdAt: { gte: windowStart, lt: snapshot.createdAt },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (recent.length === 0) return [];
+
+  const created: NewsItem[] = [];
+
+  const markets: { market: LineMarket; field: "spread" | "overUnder"; threshold: number }[] = [
+    { market: "spread", field: "spread", threshold: thresholds.spread },
+    { market: "total", field: "overUnder", threshold: thresholds.total },
+  ];
+
+  for (const { market, field, threshold } of markets) {
+    const current = snapshot[field];
+    if (current === null) continue;
+
+    // Earliest line in the window furthest from the current one
+    let start: OddsSnapshot | null = null;
+    for (const previous of recent) {
+      const value = previous[field];
+      if (value === null) continue;
+      if (!start || Math.abs(current - value) > Math.abs(current - start[field]!)) {
+        start = previous;
+      }
+    }
+
+    if (!start || Math.abs(current - start[field]!) < threshold) continue;
+
+    // One alert per game, book and market per window
+    const prefix = `line-move:${gameKey(snapshot)}:${snapshot.sportsbook ?? "default"}:${market}:`;
+    const existing = await prisma.newsItem.findFirst({
+      where: {
+        orgId: snapshot.orgId,
+        externalId: { startsWith: prefix },
+        publishedAt: { gte: windowStart },
+      },
+    });
+    if (existing) continue;
+
+    const minutes = Math.max(
+      1,
+      Math.round((snapshot.createdAt.getTime() - start.createdAt.getTime()) / 60000)
+    );
+
+    const item = await prisma.newsItem.create({
+      data: {
+        orgId: snapshot.orgId,
+        sourceId: snapshot.sourceId,
+        gameId: snapshot.gameId,
+        externalId: prefix + snapshot.id,
+        type: "BETTING_LINE",
+        sport: snapshot.sport,
+        headline: buildLineMoveHeadline(snapshot, market, start[field]!, current, minutes),
+        content: buildLineMoveContent(snapshot, market, start, minutes),
+        publishedAt: snapshot.createdAt,
+        author: sportsbookName(snapshot.sportsbook),
+        teams: [snapshot.homeTeam, snapshot.awayTeam],
+        topics: ["line_move"],
+      },
+    });
+
+    // Give it a story now, so it's in the feed even if scoring never runs
+    const story = await assignStory(item, {
+      teams: [snapshot.homeTeam, snapshot.awayTeam],
+      players: [],
+    });
+    created.push({ ...item, storyId: story.id });
+  }
+
+  return created;
+}
+
+/**
+ * e.g. "Lakers -3.5 → -5.5 at DraftKings in 40 min".
+ * Spreads are shown from the favorite's side.
+ */
+export function buildLineMoveHeadline(
+  game: Pick<OddsSnapshot, "homeTeam" | "awayTeam" | "sportsbook">,
+  market: LineMarket,
+  from: number,
+  to: number,
+  minutes: number
+): string {
+  const where = `at ${sportsbookName(game.sportsbook)} in ${minutes} min`;
+
+  if (market === "total") {
+    return `${game.awayTeam} @ ${game.homeTeam} total ${from} → ${to} ${where}`;
+  }
+
+  // Home spread is stored; flip to the away side when the away team is favored
+  const homeFavored = to <= 0;
+  const team = homeFavored ? game.homeTeam : game.awayTeam;
+  const sign = homeFavored ? 1 : -1;
+  return `${team} ${formatSpread(sign * from)} → ${formatSpread(sign * to)} ${where}`;
+}
+
+function buildLineMoveContent(
+  snapshot: OddsSnapshot,
+  market: LineMarket,
+  start: OddsSnapshot,
+  minutes: number
+): string {
+  const field = market === "spread" ? "spread" : "overUnder";
+  const label = market === "spread" ? `${snapshot.homeTeam} spread` : "Total";
+  const kickoff = snapshot.gameDate.toISOString();
+
+  return (
+    `${label} moved from ${start[field]} to ${snapshot[field]} at ` +
+    `${sportsbookName(snapshot.sportsbook)} over ${minutes} minutes ` +
+    `(${snapshot.awayTeam} @ ${snapshot.homeTeam}, ${kickoff}).`
+  );
+}
+
+function formatSpread(value: number): string {
+  if (value === 0) return "PK";
+  return `${value > 0 ? "+" : ""}${value}`;
+}
+
+function sportsbookName(sportsbook: string | null): string {
+  if (!sportsbook) return "the book";
+  return SPORTSBOOK_NAMES[sportsbook] || sportsbook;
+}
@@ -0,0 +1,243 @@
+import { prisma } from "@/lib/prisma";
+import type { GameResult, NewsItem, Sport } from "@prisma/client";
+import { subHours } from "date-fns";
+import { getAdapter } from "@/server/services/sources";
+import { isResultsAdapter } from "@/server/services/sources/base-adapter";
+import { fetchableSourceWhere } from "@/server/services/sources/source-health";
+import { getTeamResolver } from "@/server/services/team-registry.service";
+import { saveGameResult } from "@/server/services/game.service";
+import { isFinalStatus, needsGrading } from "@/server/services/bet-grading.service";
+import { assignStory } from "@/server/services/story.service";
+
+/**
+ * Live score service.
+ * While a sport has games in progress, results sources for it are polled on a
+ * short interval instead of their normal schedule. Lead changes and finals
+ * seen between polls become GAME_RESULT news items.
+ */
+
+// How often the live score worker checks for and polls live games
+export const LIVE_POLL_INTERVAL_MS = 30 * 1000;
+
+// A game still "live" this long after kickoff is a feed that never sent FINAL
+const LIVE_GAME_MAX_HOURS = 6;
+
+// Games past kickoff count as live until a feed says otherwise, so polling
+// starts at tip-off even if the daily results fetch hasn't flipped the status
+const KICKOFF_GRACE_HOURS = 4;
+
+const LIVE_STATUSES = ["IN_PROGRESS", "HALFTIME", "END_PERIOD"];
+
+export type ScoreChangeKind = "LEAD_CHANGE" | "FINAL";
+
+export interface ScoreChange {
+  kind: ScoreChangeKind;
+  leader: "HOME" | "AWAY" | null;
+  homeScore: number;
+  awayScore: number;
+}
+
+export interface LiveSport {
+  orgId: string;
+  sport: Sport;
+  games: number;
+}
+
+/**
+ * Whether a result status means the game is being played (IN_PROGRESS,
+ * STATUS_HALFTIME, ...).
+ */
+export function isLiveStatus(status: string | null | undefined): boolean {
+  const normalized = status?.toUpperCase().replace(/^STATUS_/, "");
+  return !!normalized && LIVE_STATUSES.includes(normalized);
+}
+
+/**
+ * Orgs and sports with at least one game in progress.
+ */
+export async function getLiveSports(now: Date = new Date()): Promise<LiveSport[]> {
+  const results = await prisma.gameResult.findMany({
+    where: {
+      gameDate: { gte: subHours(now, LIVE_GAME_MAX_HOURS), lte: now },
+    },
+    select: { orgId: true, sport: true, status: true, gameDate: true },
+  });
+
+  const live = new Map<string, LiveSport>();
+  for (const result of results) {
+    if (isFinalStatus(result.status)) continue;
+
+    const pastKickoff = result.gameDate >= subHours(now, KICKOFF_GRACE_HOURS);
+    if (!isLiveStatus(result.status) && !pastKickoff) continue;
+
+    const key = `${result.orgId}:${result.sport}`;
+    const entry = live.get(key) ?? { orgId: result.orgId, sport: result.sport, games: 0 };
+    entry.games++;
+    live.set(key, entry);
+  }
+
+  return Array.from(live.values());
+}
+
+/**
+ * Score changes between two polls of the same game.
+ * @param current - Result after this poll; its stored leader is the last side
+ * to lead before it, so a lead change spanning a tie is still caught
+ */
+export function detectScoreChanges(
+  previous: Pick<GameResult, "status"> | null,
+  current: Pick<GameResult, "status" | "homeScore" | "awayScore" | "leader">
+): ScoreChange[] {
+  if (!previous || current.homeScore === null || current.awayScore === null) return [];
+
+  const changes: ScoreChange[] = [];
+  const leader = leaderOf(current.homeScore, current.awayScore);
+  const score = { homeScore: current.homeScore, awayScore: current.awayScore };
+
+  if (isLiveStatus(current.status) && leader && current.leader && leader !== current.leader) {
+    changes.push({ kind: "LEAD_CHANGE", leader, ...score });
+  }
+
+  // Only games we watched live, so the daily backfill doesn't announce old finals
+  if (isLiveStatus(previous.status) && isFinalStatus(current.status)) {
+    changes.push({ kind: "FINAL", leader, ...score });
+  }
+
+  return changes;
+}
+
+/**
+ * Track who leads and store score changes as GAME_RESULT news items, once
+ * per change, each in its own story.
+ * @returns The news items created
+ */
+export async function recordScoreChanges(
+  previous: GameResult | null,
+  current: GameResult
+): Promise<NewsItem[]> {
+  const changes = detectScoreChanges(previous, current);
+
+  const leader =
+    current.homeScore !== null && current.awayScore !== null
+      ? leaderOf(current.homeScore, current.awayScore)
+      : null;
+  if (leader && leader !== current.leader) {
+    await prisma.gameResult.update({ where: { id: current.id }, data: { leader } });
+  }
+
+  if (changes.length === 0 || !current.sourceId) return [];
+
+  const created: NewsItem[] = [];
+
+  for (const change of changes) {
+    const externalId =
+      change.kind === "FINAL"
+        ? `score:${current.id}:final`
+        : `score:${current.id}:lead:${change.homeScore}-${change.awayScore}`;
+
+    const existing = await prisma.newsItem.findUnique({
+      where: {
+        orgId_sourceId_externalId: {
+          orgId: current.orgId,
+          sourceId: current.sourceId,
+          externalId,
+        },
+      },
+    });
+    if (existing) continue;
+
+    const item = await prisma.newsItem.create({
+      data: {
+        orgId: current.orgId,
+        sourceId: current.sourceId,
+        gameId: current.gameId,
+        externalId,
+        type: "GAME_RESULT",
+        sport: current.sport,
+        headline: buildScoreChangeHeadline(current, change),
+        publishedAt: new Date(),
+        teams: [current.homeTeam, current.awayTeam],
+        topics: ["score_change", change.kind === "FINAL" ? "final" : "lead_change"],
+      },
+    });
+
+    // Standalone story, so the feed shows it without waiting on the scorer
+    const story = await assignStory(item, {
+      teams: [current.homeTeam, current.awayTeam],
+      players: [],
+    });
+    created.push({ ...item, storyId: story.id });
+  }
+
+  return created;
+}
+
+/**
+ * e.g. "Celtics take 54-52 lead over Lakers" or "Final: Celtics 112, Lakers 108".
+ */
+export function buildScoreChangeHeadline(
+  game: Pick<GameResult, "homeTeam" | "awayTeam">,
+  change: ScoreChange
+): string {
+  const { homeScore, awayScore } = change;
+
+  if (change.kind === "FINAL") {
+    return homeScore >= awayScore
+      ? `Final: ${game.homeTeam} ${homeScore}, ${game.awayTeam} ${awayScore}`
+      : `Final: ${game.awayTeam} ${awayScore}, ${game.homeTeam} ${homeScore}`;
+  }
+
+  return change.leader === "HOME"
+    ? `${game.homeTeam} take ${homeScore}-${awayScore} lead over ${game.awayTeam}`
+    : `${game.awayTeam} take ${awayScore}-${homeScore} lead over ${game.homeTeam}`;
+}
+
+/**
+ * Refresh results for one org and sport from every results-capable source.
+ * Leaves the sources' own schedule and health untouched.
+ * @returns Results saved, score-change news items created and IDs of results
+ * that went final and need grading
+ */
+export async function pollLiveScores(
+  orgId: string,
+  sport: Sport
+): Promise<{ results: number; changes: NewsItem[]; toGrade: string[] }> {
+  const sources = await prisma.source.findMany({
+    where: { orgId, sport, ...fetchableSourceWhere() },
+  });
+
+  const teams = await getTeamResolver(orgId, sport);
+  const changes: NewsItem[] = [];
+  const toGrade: string[] = [];
+  let results = 0;
+
+  for (const source of sources) {
+    const adapter = await getAdapter(source.type);
+    if (!adapter || !isResultsAdapter(adapter)) continue;
+
+    try {
+      const gameResults = await adapter.fetchResults(source, {
+        since: subHours(new Date(), LIVE_GAME_MAX_HOURS),
+        limit: 100,
+        live: true,
+      });
+
+      for (const result of gameResults.map((raw) => teams.resolveGame(raw))) {
+        const { previous, saved } = await saveGameResult(orgId, source.id, sport, result);
+        results++;
+        changes.push(...(await recordScoreChanges(previous, saved)));
+        if (needsGrading(previous, saved)) toGrade.push(saved.id);
+      }
+    } catch (error) {
+      console.error(`[LiveScore] Error polling source ${source.id}:`, error);
+    }
+  }
+
+  await teams.flush();
+
+  return { results, changes, toGrade };
+}
+
+function leaderOf(homeScore: number, awayScore: number): "HOME" | "AWAY" | null {
+  return homeScore > awayScore ? "HOME" : homeScore < awayScore ? "AWAY" : null;
+}
@@ -0,0 +1,246 @@
+import { createHash } from "crypto";
+import { prisma } from "@/lib/prisma";
+import type { NewsItem, NewsItemType, Prisma } from "@prisma/client";
+import { startOfDay } from "date-fns";
+import {
+  analyzeNewsItemWithUsage,
+  estimateCostUsd,
+  isAIConfigured,
+  NEWS_ANALYSIS_MODEL,
+  type AIAnalysisResult,
+} from "@/server/services/ai-analyzer";
+import type { AIScoringSignal } from "@/server/services/importance-scorer";
+import type { TeamResolver } from "@/server/services/team-registry.service";
+import {
+  MIN_PLAYER_CONFIDENCE,
+  normalizePlayerKey,
+  type PlayerResolver,
+} from "@/server/services/player-registry.service";
+
+/**
+ * AI news analysis for importance scoring.
+ * Items whose rule-based pre-score clears the org's threshold are analyzed by
+ * Claude, within a daily token and cost budget per org. Analyses are cached by
+ * content, so reposts and re-scores don't pay twice. When AI is unavailable
+ * or the budget is spent, scoring stays rule-based.
+ */
+
+export interface AiAnalysisSettings {
+  enabled: boolean;
+  /** Rule-based score an item needs before it's sent for analysis */
+  minPreScore: number;
+  /** Input plus output tokens per day */
+  dailyTokenBudget: number;
+  /** Estimated spend per day, in USD */
+  dailyCostBudgetUsd: number;
+}
+
+export const DEFAULT_AI_ANALYSIS_SETTINGS: AiAnalysisSettings = {
+  enabled: true,
+  minPreScore: 50,
+  dailyTokenBudget: 200_000,
+  dailyCostBudgetUsd: 1,
+};
+
+// AI type and time sensitivity only override the rules when this confident
+const MIN_TYPE_CONFIDENCE = 0.7;
+
+// Types set by the pipelines that create the item, never reclassified
+const FIXED_TYPES: NewsItemType[] = ["BETTING_LINE", "GAME_RESULT"];
+
+export type AiSkipReason = "NOT_CONFIGURED" | "DISABLED" | "BELOW_PRESCORE" | "OVER_BUDGET" | "FAILED";
+
+export interface AiAnalysisOutcome {
+  analysis: AIAnalysisResult | null;
+  cached: boolean;
+  skipped?: AiSkipReason;
+}
+
+/**
+ * Stored in NewsItem.aiAnalysis (as JSON text).
+ */
+export interface StoredAiAnalysis extends AIAnalysisResult {
+  model: string;
+  preScore: number;
+  cached: boolean;
+  analyzedAt: string;
+}
+
+export interface MergedEntities {
+  type: NewsItemType;
+  teams: string[];
+  players: string[];
+  topics: string[];
+}
+
+/**
+ * Read the org's AI analysis settings from Organization.settings.aiAnalysis.
+ */
+export function getAiAnalysisSettings(settings: Prisma.JsonValue): AiAnalysisSettings {
+  if (!settings || typeof settings !== "object" || Array.isArray(settings)) {
+    return DEFAULT_AI_ANALYSIS_SETTINGS;
+  }
+  const value = (settings as Prisma.JsonObject).aiAnalysis;
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return DEFAULT_AI_ANALYSIS_SETTINGS;
+  }
+  return { ...DEFAULT_AI_ANALYSIS_SETTINGS, ...(value as Partial<AiAnalysisSettings>) };
+}
+
+/**
+ * The org's AI usage so far today.
+ */
+export async function getAiUsageToday(orgId: string) {
+  return prisma.aiUsage.findUnique({
+    where: { orgId_date: { orgId, date: startOfDay(new Date()) } },
+  });
+}
+
+/**
+ * Analyze an item if it qualifies and the org has budget left, using the
+ * cache when the same content was analyzed before.
+ * @param preScore - Rule-based importance score
+ */
+export async function analyzeForImportance(
+  orgId: string,
+  newsItem: Pick<NewsItem, "headline" | "content" | "sport">,
+  preScore: number
+): Promise<AiAnalysisOutcome> {
+  if (!isAIConfigured()) return { analysis: null, cached: false, skipped: "NOT_CONFIGURED" };
+
+  const org = await prisma.organization.findUnique({
+    where: { id: orgId },
+    select: { settings: true },
+  });
+  const settings = getAiAnalysisSettings(org?.settings ?? {});
+
+  if (!settings.enabled) return { analysis: null, cached: false, skipped: "DISABLED" };
+  if (preScore < settings.minPreScore) {
+    return { analysis: null, cached: false, skipped: "BELOW_PRESCORE" };
+  }
+
+  const contentHash = hashContent(newsItem);
+  const cached = await prisma.aiAnalysisCache.findUnique({ where: { contentHash } });
+  if (cached) {
+    await recordUsage(orgId, { cacheHits: 1 });
+    return { analysis: cached.result as unknown as AIAnalysisResult, cached: true };
+  }
+
+  const usage = await getAiUsageToday(orgId);
+  const tokensUsed = (usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0);
+  if (tokensUsed >= settings.dailyTokenBudget || (usage?.costUsd ?? 0) >= settings.dailyCostBudgetUsd) {
+    return { analysis: null, cached: false, skipped: "OVER_BUDGET" };
+  }
+
+  const response = await analyzeNewsItemWithUsage(newsItem);
+  if (!response) return { analysis: null, cached: false, skipped: "FAILED" };
+
+  await recordUsage(orgId, {
+    requests: 1,
+    inputTokens: response.usage.inputTokens,
+    outputTokens: response.usage.outputTokens,
+    costUsd: estimateCostUsd(response.usage),
+  });
+
+  if (!response.analysis) return { analysis: null, cached: false, skipped: "FAILED" };
+
+  await prisma.aiAnalysisCache.upsert({
+    where: { contentHash },
+    create: {
+      contentHash,
+      model: NEWS_ANALYSIS_MODEL,
+      result: response.analysis as unknown as Prisma.InputJsonValue,
+      inputTokens: response.usage.inputTokens,
+      outputTokens: response.usage.outputTokens,
+    },
+    update: {},
+  });
+
+  return { analysis: response.analysis, cached: false };
+}
+
+/**
+ * Combine rule-based entities with the AI's. AI teams and players count only
+ * when they resolve to the org's teams and player dictionary (or, for sports
+ * without a dictionary, as given). A confident AI type replaces the rule-based
+ * one unless the item's pipeline set it.
+ */
+export function mergeAiEntities(
+  rules: MergedEntities,
+  analysis: AIAnalysisResult,
+  teamResolver: TeamResolver,
+  playerResolver: PlayerResolver
+): MergedEntities {
+  const aiTeams = analysis.teams
+    .map((team) => teamResolver.find(team))
+    .filter((team): team is string => team !== null);
+  const teams = Array.from(new Set([...rules.teams, ...aiTeams]));
+
+  const aiPlayers = playerResolver.isEmpty
+    ? analysis.players
+    : playerResolver
+        .extract(analysis.players.join(", "), teams)
+        .filter((mention) => mention.confidence >= MIN_PLAYER_CONFIDENCE)
+        .map((mention) => mention.name);
+  const playerKeys = new Set(rules.players.map(normalizePlayerKey));
+  const players = [
+    ...rules.players,
+    ...aiPlayers.filter((player) => !playerKeys.has(normalizePlayerKey(player))),
+  ];
+
+  const topics = Array.from(
+    new Set([...rules.topics, ...analysis.topics.map((topic) => topic.toLowerCase())])
+  );
+
+  const type =
+    !FIXED_TYPES.includes(rules.type) && analysis.confidence >= MIN_TYPE_CONFIDENCE
+      ? analysis.newsType
+      : rules.type;
+
+  return { type, teams, players, topics };
+}
+
+/**
+ * AI time sensitivity as a scoring signal, when the analysis is confident
+ * enough to use.
+ */
+export function aiScoringSignal(analysis: AIAnalysisResult): AIScoringSignal | undefined {
+  if (analysis.confidence < MIN_TYPE_CONFIDENCE) return undefined;
+  return { timeSensitivity: analysis.timeSensitivity, confidence: analysis.confidence };
+}
+
+/**
+ * Read NewsItem.aiAnalysis. Older items may hold plain text.
+ */
+export function parseStoredAiAnalysis(value: string | null): StoredAiAnalysis | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === "object" && "summary" in parsed
+      ? (parsed as StoredAiAnalysis)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function hashContent(newsItem: Pick<NewsItem, "headline" | "content" | "sport">): string {
+  return createHash("sha256")
+    .update(`${newsItem.sport}\n${newsItem.headline.trim()}\n${(newsItem.content ?? "").trim()}`)
+    .digest("hex");
+}
+
+async function recordUsage(
+  orgId: string,
+  usage: Partial<Record<"requests" | "cacheHits" | "inputTokens" | "outputTokens" | "costUsd", number>>
+): Promise<void> {
+  const date = startOfDay(new Date());
+
+  await prisma.aiUsage.upsert({
+    where: { orgId_date: { orgId, date } },
+    create: { orgId, date, ...usage },
+    update: Object.fromEntries(
+      Object.entries(usage).map(([field, value]) => [field, { increment: value }])
+    ),
+  });
+}
@@ -0,0 +1,315 @@
+import { prisma } from "@/lib/prisma";
+import type { OddsSnapshot, Sport } from "@prisma/client";
+import { gameKey, summarizeLineHistory } from "@/server/services/odds-history.service";
+import {
+  impliedProbability,
+  toAmericanOdds,
+  findArbitrage,
+  findMiddles,
+} from "@/server/services/odds-math.service";
+import type { BettingMarketSignal } from "@/server/services/importance-scorer";
+
+/**
+ * Cross-sportsbook comparison.
+ * Lines up each book's latest price for a game, picks the best price per
+ * side, computes a consensus line and flags books that stray from it.
+ */
+
+// How far a book can sit from consensus before it's flagged off-market
+export const OFF_MARKET_THRESHOLDS = {
+  /** Points of spread */
+  spread: 1,
+  /** Points of total */
+  total: 1,
+  /** Implied win probability (0-1) */
+  moneyline: 0.03,
+};
+
+export type OffMarketField = "spread" | "total" | "homeMoneyline" | "awayMoneyline";
+
+export interface BookLine {
+  sportsbook: string;
+  updatedAt: Date;
+  homeMoneyline: number | null;
+  awayMoneyline: number | null;
+  /** Home team's spread; the away spread is its negation */
+  spread: number | null;
+  spreadJuice: number | null;
+  overUnder: number | null;
+  overJuice: number | null;
+  underJuice: number | null;
+  offMarket: OffMarketField[];
+}
+
+export interface BestPrice {
+  /** Line (spread/total points) or moneyline price */
+  value: number;
+  /** Juice for spread and total sides */
+  price: number | null;
+  sportsbooks: string[];
+}
+
+export interface GameComparison {
+  gameKey: string;
+  sport: Sport;
+  homeTeam: string;
+  awayTeam: string;
+  gameDate: Date;
+  externalGameId: string | null;
+  books: BookLine[];
+  best: {
+    homeMoneyline: BestPrice | null;
+    awayMoneyline: BestPrice | null;
+    homeSpread: BestPrice | null;
+    awaySpread: BestPrice | null;
+    over: BestPrice | null;
+    under: BestPrice | null;
+  };
+  consensus: {
+    spread: number | null;
+    overUnder: number | null;
+    homeMoneyline: number | null;
+    awayMoneyline: number | null;
+  };
+}
+
+export interface OddsComparisonFilters {
+  sport?: Sport;
+  from: Date;
+  to: Date;
+  /** Limit to one game (see gameKey) */
+  gameKey?: string;
+}
+
+/**
+ * Build comparisons for every game with odds in the date range.
+ */
+export async function getOddsComparison(
+  orgId: string,
+  filters: OddsComparisonFilters
+): Promise<GameComparison[]> {
+  const snapshots = await prisma.oddsSnapshot.findMany({
+    where: {
+      orgId,
+      ...(filters.sport && { sport: filters.sport }),
+      gameDate: { gte: filters.from, lte: filters.to },
+    },
+    orderBy: [{ gameDate: "asc" }, { createdAt: "desc" }],
+  });
+
+  const byGame = new Map<string, OddsSnapshot[]>();
+  for (const snapshot of snapshots) {
+    const key = gameKey(snapshot);
+    if (filters.gameKey && key !== filters.gameKey) continue;
+    byGame.set(key, [...(byGame.get(key) ?? []), snapshot]);
+  }
+
+  return Array.from(byGame.values()).map(compareGameLines);
+}
+
+/**
+ * Market signals for upcoming games, used by the importance scorer.
+ */
+export async function getBettingMarketSignals(
+  orgId: string,
+  sport: Sport,
+  withinDays: number = 3
+): Promise<BettingMarketSignal[]> {
+  const now = new Date();
+  const snapshots = await prisma.oddsSnapshot.findMany({
+    where: {
+      orgId,
+      sport,
+      gameDate: { gte: now, lte: new Date(now.getTime() + withinDays * 24 * 60 * 60 * 1000) },
+    },
+  });
+
+  const byGame = new Map<string, OddsSnapshot[]>();
+  for (const snapshot of snapshots) {
+    const key = gameKey(snapshot);
+    byGame.set(key, [...(byGame.get(key) ?? []), snapshot]);
+  }
+
+  return Array.from(byGame.values()).map((history) => {
+    const comparison = compareGameLines(history);
+
+    // Largest move since open at any single book
+    let spreadMove = 0;
+    let totalMove = 0;
+    for (const book of comparison.books) {
+      const summary = summarizeLineHistory(
+        history.filter((s) => (s.sportsbook ?? "default") === book.sportsbook)
+      );
+      if (Math.abs(summary?.spreadChange ?? 0) > Math.abs(spreadMove)) {
+        spreadMove = summary!.spreadChange!;
+      }
+      if (Math.abs(summary?.totalChange ?? 0) > Math.abs(totalMove)) {
+        totalMove = summary!.totalChange!;
+      }
+    }
+
+    return {
+      teams: [comparison.homeTeam, comparison.awayTeam],
+      spreadMove,
+      totalMove,
+      hasOpportunity:
+        findArbitrage(comparison.books).length > 0 || findMiddles(comparison.books).length > 0,
+    };
+  });
+}
+
+/**
+ * Compare the latest line from each sportsbook for one game.
+ * @param snapshots - Snapshots for a single game, any order
+ */
+export function compareGameLines(snapshots: OddsSnapshot[]): GameComparison {
+  // Keep only each book's latest snapshot
+  const latestByBook = new Map<string, OddsSnapshot>();
+  for (const snapshot of snapshots) {
+    const book = snapshot.sportsbook ?? "default";
+    const current = latestByBook.get(book);
+    if (!current || snapshot.createdAt > current.createdAt) {
+      latestByBook.set(book, snapshot);
+    }
+  }
+
+  const latest = Array.from(latestByBook.values());
+  const first = latest[0];
+
+  const consensus = {
+    spread: median(latest.map((s) => s.spread)),
+    overUnder: median(latest.map((s) => s.overUnder)),
+    homeMoneyline: consensusMoneyline(latest.map((s) => s.homeMoneyline)),
+    awayMoneyline: consensusMoneyline(latest.map((s) => s.awayMoneyline)),
+  };
+
+  const books: BookLine[] = latest.map((snapshot) => ({
+    sportsbook: snapshot.sportsbook ?? "default",
+    updatedAt: snapshot.createdAt,
+    homeMoneyline: snapshot.homeMoneyline,
+    awayMoneyline: snapshot.awayMoneyline,
+    spread: snapshot.spread,
+    spreadJuice: snapshot.spreadJuice,
+    overUnder: snapshot.overUnder,
+    overJuice: snapshot.overJuice,
+    underJuice: snapshot.underJuice,
+    offMarket: findOffMarket(snapshot, consensus),
+  }));
+
+  return {
+    gameKey: gameKey(first),
+    sport: first.sport,
+    homeTeam: first.homeTeam,
+    awayTeam: first.awayTeam,
+    gameDate: first.gameDate,
+    externalGameId: first.externalGameId,
+    books,
+    best: {
+      // Bettors want the highest American price on moneylines
+      homeMoneyline: pickBest(books, (b) => b.homeMoneyline, null, "max"),
+      awayMoneyline: pickBest(books, (b) => b.awayMoneyline, null, "max"),
+      // More points is better: home wants the highest spread, away the lowest
+      homeSpread: pickBest(books, (b) => b.spread, (b) => b.spreadJuice, "max"),
+      // Snapshots only carry the home side's spread juice
+      awaySpread: negate(pickBest(books, (b) => b.spread, null, "min")),
+      over: pickBest(books, (b) => b.overUnder, (b) => b.overJuice, "min"),
+      under: pickBest(books, (b) => b.overUnder, (b) => b.underJuice, "max"),
+    },
+    consensus,
+  };
+}
+
+/**
+ * Median moneyline, taken in probability space so -105/+105 doesn't average to 0.
+ */
+function consensusMoneyline(values: (number | null)[]): number | null {
+  const probability = median(values.map((v) => (v === null ? null : impliedProbability(v))));
+  return probability === null ? null : toAmericanOdds(probability);
+}
+
+function findOffMarket(
+  snapshot: OddsSnapshot,
+  consensus: GameComparison["consensus"]
+): OffMarketField[] {
+  const flags: OffMarketField[] = [];
+
+  if (
+    snapshot.spread !== null &&
+    consensus.spread !== null &&
+    Math.abs(snapshot.spread - consensus.spread) >= OFF_MARKET_THRESHOLDS.spread
+  ) {
+    flags.push("spread");
+  }
+
+  if (
+    snapshot.overUnder !== null &&
+    consensus.overUnder !== null &&
+    Math.abs(snapshot.overUnder - consensus.overUnder) >= OFF_MARKET_THRESHOLDS.total
+  ) {
+    flags.push("total");
+  }
+
+  for (const field of ["homeMoneyline", "awayMoneyline"] as const) {
+    const line = snapshot[field];
+    const market = consensus[field];
+    if (
+      line !== null &&
+      market !== null &&
+      Math.abs(impliedProbability(line) - impliedProbability(market)) >= OFF_MARKET_THRESHOLDS.moneyline
+    ) {
+      flags.push(field);
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * Pick the best line across books, breaking ties on the better juice.
+ */
+function pickBest(
+  books: BookLine[],
+  getValue: (book: BookLine) => number | null,
+  getPrice: ((book: BookLine) => number | null) | null,
+  direction: "max" | "min"
+): BestPrice | null {
+  let best: BestPrice | null = null;
+
+  for (const book of books) {
+    const value = getValue(book);
+    if (value === null) continue;
+    const price = getPrice ? getPrice(book) : null;
+
+    if (!best) {
+      best = { value, price, sportsbooks: [book.sportsbook] };
+      continue;
+    }
+
+    const better = direction === "max" ? value > best.value : value < best.value;
+    if (better) {
+      best = { value, price, sportsbooks: [book.sportsbook] };
+    } else if (value === best.value) {
+      // Higher American price is always better for the bettor
+      const bestPrice = best.price ?? -Infinity;
+      const thisPrice = price ?? -Infinity;
+      if (thisPrice > bestPrice) {
+        best = { value, price, sportsbooks: [book.sportsbook] };
+      } else if (thisPrice === bestPrice) {
+        best.sportsbooks.push(book.sportsbook);
+      }
+    }
+  }
+
+  return best;
+}
+
+function negate(best: BestPrice | null): BestPrice | null {
+  return best ? { ...best, value: -best.value } : null;
+}
+
+function median(values: (number | null)[]): number | null {
+  const sorted = values.filter((v): v is number => v !== null).sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
@@ -0,0 +1,214 @@
+import { prisma } from "@/lib/prisma";
+import type { OddsSnapshot, Prisma, Sport } from "@prisma/client";
+import type { RawOddsData } from "@/server/services/sources/types";
+
+/**
+ * Odds history service.
+ * Snapshots are append-only per game and sportsbook: a new row is written
+ * only when a price changes, so the table doubles as the line history.
+ */
+
+// Price fields compared when deduping consecutive snapshots
+const PRICE_FIELDS = [
+  "homeMoneyline",
+  "awayMoneyline",
+  "spread",
+  "spreadJuice",
+  "overUnder",
+  "overJuice",
+  "underJuice",
+] as const;
+
+type PriceField = (typeof PRICE_FIELDS)[number];
+type Prices = Pick<OddsSnapshot, PriceField>;
+
+export interface LinePoint extends Prices {
+  at: Date;
+}
+
+/**
+ * Movement since the opening line, stored on each snapshot.
+ */
+export interface LineMovement {
+  opening: {
+    at: string;
+    spread: number | null;
+    overUnder: number | null;
+    homeMoneyline: number | null;
+    awayMoneyline: number | null;
+  };
+  spreadChange: number | null;
+  totalChange: number | null;
+  homeMoneylineChange: number | null;
+  awayMoneylineChange: number | null;
+  updates: number;
+}
+
+export interface LineSummary {
+  opening: LinePoint;
+  current: LinePoint;
+  /** Last line before kickoff, once the game has started */
+  closing: LinePoint | null;
+  spreadChange: number | null;
+  totalChange: number | null;
+  updates: number;
+}
+
+/**
+ * Build the where clause that identifies one game at one sportsbook.
+ * Falls back to teams and date when the source has no game ID.
+ */
+export function gameLineWhere(
+  orgId: string,
+  odds: Pick<RawOddsData, "homeTeam" | "awayTeam" | "gameDate"> & {
+    externalGameId?: string | null;
+    sportsbook?: string | null;
+  }
+): Prisma.OddsSnapshotWhereInput {
+  const game: Prisma.OddsSnapshotWhereInput = odds.externalGameId
+    ? { externalGameId: odds.externalGameId }
+    : { homeTeam: odds.homeTeam, awayTeam: odds.awayTeam, gameDate: odds.gameDate };
+
+  return { orgId, ...game, sportsbook: odds.sportsbook ?? null };
+}
+
+/**
+ * Key that groups snapshots of the same game across sportsbooks.
+ */
+export function gameKey(
+  odds: Pick<OddsSnapshot, "externalGameId" | "homeTeam" | "awayTeam" | "gameDate">
+): string {
+  return (
+    odds.externalGameId ??
+    `${odds.homeTeam}-${odds.awayTeam}-${odds.gameDate.toISOString().split("T")[0]}`
+  );
+}
+
+/**
+ * Append a snapshot unless the prices match the latest one for this game
+ * and sportsbook.
+ * @returns The new snapshot, or null if it was a duplicate
+ */
+export async function recordOddsSnapshot(
+  orgId: string,
+  sourceId: string,
+  sport: Sport,
+  odds: RawOddsData,
+  gameId?: string | null
+): Promise<OddsSnapshot | null> {
+  const where = gameLineWhere(orgId, odds);
+
+  const [latest, opening, updates] = await Promise.all([
+    prisma.oddsSnapshot.findFirst({ where, orderBy: { createdAt: "desc" } }),
+    prisma.oddsSnapshot.findFirst({ where, orderBy: { createdAt: "asc" } }),
+    prisma.oddsSnapshot.count({ where }),
+  ]);
+
+  const prices = toPrices(odds);
+
+  if (latest && samePrices(latest, prices)) {
+    return null;
+  }
+
+  return prisma.oddsSnapshot.create({
+    data: {
+      orgId,
+      sourceId,
+      gameId,
+      sport,
+      homeTeam: odds.homeTeam,
+      awayTeam: odds.awayTeam,
+      gameDate: odds.gameDate,
+      externalGameId: odds.externalGameId,
+      sportsbook: odds.sportsbook,
+      ...prices,
+      previousSpread: latest?.spread ?? null,
+      previousOverUnder: latest?.overUnder ?? null,
+      lineMovement: opening
+        ? (buildLineMovement(opening, prices, updates) as unknown as Prisma.InputJsonValue)
+        : undefined,
+    },
+  });
+}
+
+/**
+ * Summarize a game's history at one sportsbook.
+ * @param history - Snapshots for one game and sportsbook, any order
+ */
+export function summarizeLineHistory(
+  history: OddsSnapshot[],
+  now: Date = new Date()
+): LineSummary | null {
+  if (history.length === 0) return null;
+
+  const points = [...history]
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .map(toLinePoint);
+
+  const opening = points[0];
+  const current = points[points.length - 1];
+  const gameDate = history[0].gameDate;
+
+  let closing: LinePoint | null = null;
+  if (gameDate <= now) {
+    const preGame = points.filter((point) => point.at <= gameDate);
+    closing = preGame[preGame.length - 1] ?? null;
+  }
+
+  const final = closing ?? current;
+
+  return {
+    opening,
+    current,
+    closing,
+    spreadChange: difference(final.spread, opening.spread),
+    totalChange: difference(final.overUnder, opening.overUnder),
+    updates: points.length - 1,
+  };
+}
+
+function buildLineMovement(opening: OddsSnapshot, prices: Prices, updates: number): LineMovement {
+  return {
+    opening: {
+      at: opening.createdAt.toISOString(),
+      spread: opening.spread,
+      overUnder: opening.overUnder,
+      homeMoneyline: opening.homeMoneyline,
+      awayMoneyline: opening.awayMoneyline,
+    },
+    spreadChange: difference(prices.spread, opening.spread),
+    totalChange: difference(prices.overUnder, opening.overUnder),
+    homeMoneylineChange: difference(prices.homeMoneyline, opening.homeMoneyline),
+    awayMoneylineChange: difference(prices.awayMoneyline, opening.awayMoneyline),
+    updates,
+  };
+}
+
+function toPrices(odds: RawOddsData): Prices {
+  return {
+    homeMoneyline: odds.homeMoneyline ?? null,
+    awayMoneyline: odds.awayMoneyline ?? null,
+    spread: odds.spread ?? null,
+    spreadJuice: odds.spreadJuice ?? null,
+    overUnder: odds.overUnder ?? null,
+    overJuice: odds.overJuice ?? null,
+    underJuice: odds.underJuice ?? null,
+  };
+}
+
+function toLinePoint(snapshot: OddsSnapshot): LinePoint {
+  const point = { at: snapshot.createdAt } as LinePoint;
+  for (const field of PRICE_FIELDS) {
+    point[field] = snapshot[field];
+  }
+  return point;
+}
+
+function samePrices(a: Prices, b: Prices): boolean {
+  return PRICE_FIELDS.every((field) => a[field] === b[field]);
+}
+
+function difference(current: number | null, opening: number | null): number | null {
+  if (current === null || opening === null) return null;
+  return Math.round((current - opening) * 100) / 100;
+}
@@ -0,0 +1,313 @@
+import type { BookLine, GameComparison } from "@/server/services/odds-comparison.service";
+
+/**
+ * Odds math service.
+ * Converts American prices to implied probability, strips the vig to get
+ * fair prices, measures each book's hold and finds arbitrage and middles
+ * across books.
+ */
+
+export interface TwoWayMarket {
+  /** Implied probabilities including the vig */
+  impliedA: number;
+  impliedB: number;
+  /** Vig-free probabilities (sum to 1) */
+  fairA: number;
+  fairB: number;
+  /** Fair American prices */
+  fairOddsA: number;
+  fairOddsB: number;
+  /** Bookmaker margin, e.g. 0.045 for 4.5% */
+  hold: number;
+}
+
+export interface BookAnalysis {
+  sportsbook: string;
+  moneyline: TwoWayMarket | null;
+  spread: TwoWayMarket | null;
+  total: TwoWayMarket | null;
+}
+
+export type OpportunityMarket = "moneyline" | "spread" | "total";
+
+export interface OpportunityLeg {
+  side: "home" | "away" | "over" | "under";
+  sportsbook: string;
+  /** Spread (from the side's perspective) or total; null for moneyline */
+  line: number | null;
+  price: number;
+}
+
+export interface ArbitrageOpportunity {
+  market: OpportunityMarket;
+  legs: [OpportunityLeg, OpportunityLeg];
+  /** Guaranteed return on total stake, e.g. 0.012 for 1.2% */
+  profit: number;
+  /** Share of the total stake to place on each leg */
+  stakes: [number, number];
+}
+
+export interface MiddleOpportunity {
+  market: "spread" | "total";
+  legs: [OpportunityLeg, OpportunityLeg];
+  /** Points between the two lines */
+  width: number;
+  /** Whole-number results strictly inside the lines, where both bets win */
+  outcomes: number;
+  /**
+   * Share of games that must land in the middle to break even, betting one
+   * unit on each leg; the rest win one leg and lose the other
+   */
+  breakEven: number;
+}
+
+export interface GameOddsAnalysis {
+  books: BookAnalysis[];
+  /** Average no-vig moneyline across books */
+  fair: {
+    homeProbability: number;
+    awayProbability: number;
+    homeMoneyline: number;
+    awayMoneyline: number;
+  } | null;
+  arbitrage: ArbitrageOpportunity[];
+  middles: MiddleOpportunity[];
+}
+
+// Spread feeds carry one juice value, assumed to apply to both sides
+const DEFAULT_JUICE = -110;
+
+// Middles needing the result in the window more often than this are dropped
+const MAX_MIDDLE_BREAK_EVEN = 0.1;
+
+/**
+ * Implied win probability of an American price.
+ */
+export function impliedProbability(americanOdds: number): number {
+  return americanOdds < 0
+    ? -americanOdds / (-americanOdds + 100)
+    : 100 / (americanOdds + 100);
+}
+
+/**
+ * American price for a win probability.
+ */
+export function toAmericanOdds(probability: number): number {
+  return probability >= 0.5
+    ? -Math.round((100 * probability) / (1 - probability))
+    : Math.round((100 * (1 - probability)) / probability);
+}
+
+/**
+ * Decimal price (total return per unit staked) for an American price.
+ */
+export function toDecimalOdds(americanOdds: number): number {
+  return americanOdds < 0 ? 1 + 100 / -americanOdds : 1 + americanOdds / 100;
+}
+
+/**
+ * Remove the vig from a two-way market by normalizing implied probabilities.
+ */
+export function removeVig(priceA: number, priceB: number): TwoWayMarket {
+  const impliedA = impliedProbability(priceA);
+  const impliedB = impliedProbability(priceB);
+  const total = impliedA + impliedB;
+  const fairA = impliedA / total;
+  const fairB = impliedB / total;
+
+  return {
+    impliedA,
+    impliedB,
+    fairA,
+    fairB,
+    fairOddsA: toAmericanOdds(fairA),
+    fairOddsB: toAmericanOdds(fairB),
+    hold: 1 - 1 / total,
+  };
+}
+
+/**
+ * Per-market fair prices and hold for one book.
+ */
+export function analyzeBook(book: BookLine): BookAnalysis {
+  return {
+    sportsbook: book.sportsbook,
+    moneyline:
+      book.homeMoneyline !== null && book.awayMoneyline !== null
+        ? removeVig(book.homeMoneyline, book.awayMoneyline)
+        : null,
+    spread:
+      book.spread !== null
+        ? removeVig(book.spreadJuice ?? DEFAULT_JUICE, book.spreadJuice ?? DEFAULT_JUICE)
+        : null,
+    total:
+      book.overUnder !== null && book.overJuice !== null && book.underJuice !== null
+        ? removeVig(book.overJuice, book.underJuice)
+        : null,
+  };
+}
+
+/**
+ * Fair prices, holds, arbitrage and middles for one game.
+ */
+export function analyzeGameOdds(comparison: GameComparison): GameOddsAnalysis {
+  const books = comparison.books.map(analyzeBook);
+
+  const moneylines = books.map((b) => b.moneyline).filter((m): m is TwoWayMarket => m !== null);
+  let fair: GameOddsAnalysis["fair"] = null;
+  if (moneylines.length > 0) {
+    const homeProbability = moneylines.reduce((sum, m) => sum + m.fairA, 0) / moneylines.length;
+    fair = {
+      homeProbability,
+      awayProbability: 1 - homeProbability,
+      homeMoneyline: toAmericanOdds(homeProbability),
+      awayMoneyline: toAmericanOdds(1 - homeProbability),
+    };
+  }
+
+  return {
+    books,
+    fair,
+    arbitrage: findArbitrage(comparison.books),
+    middles: findMiddles(comparison.books),
+  };
+}
+
+/**
+ * Find pairs of books whose opposite sides cost less than 100% combined.
+ */
+export function findArbitrage(books: BookLine[]): ArbitrageOpportunity[] {
+  const opportunities: ArbitrageOpportunity[] = [];
+
+  for (const a of books) {
+    for (const b of books) {
+      // Moneyline: home at one book, away at another (or the same)
+      if (a.homeMoneyline !== null && b.awayMoneyline !== null) {
+        const arb = buildArbitrage(
+          "moneyline",
+          { side: "home", sportsbook: a.sportsbook, line: null, price: a.homeMoneyline },
+          { side: "away", sportsbook: b.sportsbook, line: null, price: b.awayMoneyline }
+        );
+        if (arb) opportunities.push(arb);
+      }
+
+      if (a === b) continue;
+
+      // Spread at the same number on both sides
+      if (a.spread !== null && b.spread !== null && a.spread === b.spread) {
+        const arb = buildArbitrage(
+          "spread",
+          { side: "home", sportsbook: a.sportsbook, line: a.spread, price: a.spreadJuice ?? DEFAULT_JUICE },
+          { side: "away", sportsbook: b.sportsbook, line: -b.spread, price: b.spreadJuice ?? DEFAULT_JUICE }
+        );
+        if (arb) opportunities.push(arb);
+      }
+
+      // Total at the same number on both sides
+      if (
+        a.overUnder !== null &&
+        a.overUnder === b.overUnder &&
+        a.overJuice !== null &&
+        b.underJuice !== null
+      ) {
+        const arb = buildArbitrage(
+          "total",
+          { side: "over", sportsbook: a.sportsbook, line: a.overUnder, price: a.overJuice },
+          { side: "under", sportsbook: b.sportsbook, line: b.overUnder, price: b.underJuice }
+        );
+        if (arb) opportunities.push(arb);
+      }
+    }
+  }
+
+  return opportunities.sort((x, y) => y.profit - x.profit);
+}
+
+/**
+ * Find spreads and totals where different numbers leave a window in which
+ * both sides win. Windows without a whole-number result inside (home -3
+ * against away +3.5) can at best win one leg and push the other, and prices
+ * too steep for the window are dropped. Cheapest to play first.
+ */
+export function findMiddles(books: BookLine[]): MiddleOpportunity[] {
+  const middles: MiddleOpportunity[] = [];
+
+  for (const a of books) {
+    for (const b of books) {
+      if (a === b) continue;
+
+      // Home -3 at one book and away +4.5 at another: margins of 4 win both
+      if (a.spread !== null && b.spread !== null && a.spread > b.spread) {
+        const middle = buildMiddle(
+          "spread",
+          { side: "home", sportsbook: a.sportsbook, line: a.spread, price: a.spreadJuice ?? DEFAULT_JUICE },
+          { side: "away", sportsbook: b.sportsbook, line: -b.spread, price: b.spreadJuice ?? DEFAULT_JUICE },
+          -a.spread,
+          -b.spread
+        );
+        if (middle) middles.push(middle);
+      }
+
+      // Over a low total and under a higher one
+      if (a.overUnder !== null && b.overUnder !== null && a.overUnder < b.overUnder) {
+        const middle = buildMiddle(
+          "total",
+          { side: "over", sportsbook: a.sportsbook, line: a.overUnder, price: a.overJuice ?? DEFAULT_JUICE },
+          { side: "under", sportsbook: b.sportsbook, line: b.overUnder, price: b.underJuice ?? DEFAULT_JUICE },
+          a.overUnder,
+          b.overUnder
+        );
+        if (middle) middles.push(middle);
+      }
+    }
+  }
+
+  return middles.sort((x, y) => x.breakEven - y.breakEven || y.width - x.width);
+}
+
+/**
+ * A middle between two lines, or null if no whole-number result wins both
+ * legs or the prices make it too costly.
+ * @param low - Result the first leg must beat
+ * @param high - Result the second leg must stay under
+ */
+function buildMiddle(
+  market: MiddleOpportunity["market"],
+  legA: OpportunityLeg,
+  legB: OpportunityLeg,
+  low: number,
+  high: number
+): MiddleOpportunity | null {
+  const outcomes = Math.ceil(high) - Math.floor(low) - 1;
+  if (outcomes < 1) return null;
+
+  const decimalA = toDecimalOdds(legA.price);
+  const decimalB = toDecimalOdds(legB.price);
+
+  // Both legs win in the middle; outside it one wins and the other loses
+  const payout = decimalA - 1 + (decimalB - 1);
+  const loss = Math.max(0, 2 - decimalA, 2 - decimalB);
+  const breakEven = loss / (loss + payout);
+  if (breakEven > MAX_MIDDLE_BREAK_EVEN) return null;
+
+  return { market, legs: [legA, legB], width: high - low, outcomes, breakEven };
+}
+
+function buildArbitrage(
+  market: OpportunityMarket,
+  legA: OpportunityLeg,
+  legB: OpportunityLeg
+): ArbitrageOpportunity | null {
+  const inverseA = 1 / toDecimalOdds(legA.price);
+  const inverseB = 1 / toDecimalOdds(legB.price);
+  const total = inverseA + inverseB;
+
+  if (total >= 1) return null;
+
+  return {
+    market,
+    legs: [legA, legB],
+    profit: 1 / total - 1,
+    stakes: [inverseA / total, inverseB / total],
+  };
+}
@@ -0,0 +1,401 @@
+import { prisma } from "@/lib/prisma";
+import type { Player, Sport } from "@prisma/client";
+import { getAdapter } from "@/server/services/sources";
+import { isRosterAdapter } from "@/server/services/sources/base-adapter";
+import { fetchableSourceWhere } from "@/server/services/sources/source-health";
+import type { RawRosterPlayer } from "@/server/services/sources/types";
+import { getTeamResolver } from "@/server/services/team-registry.service";
+
+/**
+ * Player registry.
+ * A per-sport dictionary of players with their current team, position and
+ * aliases, imported from JSON/CSV roster files and refreshed from roster
+ * sources. News mentions are resolved against it to canonical players, using
+ * the teams an item mentions to tell players with the same name apart.
+ */
+
+// Confidence by how the player was named
+const FULL_NAME_CONFIDENCE = 0.95;
+const ALIAS_CONFIDENCE = 0.85;
+const LAST_NAME_CONFIDENCE = 0.5;
+
+// Added when the item also mentions the player's team
+const TEAM_CONTEXT_BONUS = 0.2;
+
+// Taken off when the team was needed to pick between players with the name
+const AMBIGUOUS_PENALTY = 0.1;
+
+// Mentions below this aren't listed as the item's players
+export const MIN_PLAYER_CONFIDENCE = 0.6;
+
+// Longest name or alias matched, in words
+const MAX_NAME_WORDS = 4;
+
+// Name suffixes feeds include inconsistently
+const NAME_SUFFIXES = new Set(["jr", "sr", "ii", "iii", "iv"]);
+
+export interface PlayerMention {
+  playerId: string;
+  name: string;
+  team: string | null;
+  confidence: number;
+  mention: string; // Text as it appeared
+}
+
+type MatchKind = "name" | "alias" | "last";
+
+type DictionaryPlayer = Pick<Player, "id" | "name" | "team" | "aliases">;
+
+/**
+ * Normalize a player name or mention for lookup: no accents, punctuation or
+ * name suffixes.
+ */
+export function normalizePlayerKey(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]+/g, " ")
+    .split(/\s+/)
+    .filter((word) => word && !NAME_SUFFIXES.has(word))
+    .join(" ");
+}
+
+/**
+ * Resolves player mentions in text for one org and sport. Load once per
+ * ingest run with getPlayerResolver.
+ */
+export class PlayerResolver {
+  private lookup = new Map<string, Array<{ player: DictionaryPlayer; kind: MatchKind }>>();
+
+  constructor(
+    readonly orgId: string,
+    readonly sport: Sport,
+    players: DictionaryPlayer[]
+  ) {
+    for (const player of players) {
+      const aliases = Array.isArray(player.aliases) ? (player.aliases as string[]) : [];
+      const nameKey = normalizePlayerKey(player.name);
+      const words = nameKey.split(" ");
+
+      this.add(nameKey, player, "name");
+      for (const alias of aliases) this.add(normalizePlayerKey(alias), player, "alias");
+      if (words.length > 1 && words[words.length - 1].length > 2) {
+        this.add(words[words.length - 1], player, "last");
+      }
+    }
+  }
+
+  /**
+   * Whether the sport has a dictionary to resolve against.
+   */
+  get isEmpty(): boolean {
+    return this.lookup.size === 0;
+  }
+
+  /**
+   * Players mentioned in text, most confident first.
+   * @param teams - Canonical teams the text mentions, for disambiguation
+   */
+  extract(text: string, teams: string[]): PlayerMention[] {
+    const teamContext = new Set(teams);
+    const words = Array.from(text.matchAll(/[\p{L}][\p{L}'.-]*/gu)).map((match) => match[0]);
+    const mentions = new Map<string, PlayerMention>();
+
+    for (let i = 0; i < words.length; ) {
+      let matched = 0;
+
+      for (let length = Math.min(MAX_NAME_WORDS, words.length - i); length > 0; length--) {
+        const phrase = words.slice(i, i + length);
+
+        // Single words only count when capitalized, so "green light" isn't Draymond Green
+        if (length === 1 && !/^\p{Lu}/u.test(phrase[0])) continue;
+
+        const entries = this.lookup.get(normalizePlayerKey(phrase.join(" ")));
+        if (!entries) continue;
+
+        const mention = this.pick(entries, teamContext, phrase.join(" "));
+        if (!mention) continue;
+
+        const existing = mentions.get(mention.playerId);
+        if (!existing || mention.confidence > existing.confidence) {
+          mentions.set(mention.playerId, mention);
+        }
+        matched = length;
+        break;
+      }
+
+      i += matched || 1;
+    }
+
+    return Array.from(mentions.values()).sort((a, b) => b.confidence - a.confidence);
+  }
+
+  private add(key: string, player: DictionaryPlayer, kind: MatchKind) {
+    if (!key) return;
+
+    const entries = this.lookup.get(key) ?? [];
+    if (entries.some((entry) => entry.player.id === player.id)) return;
+    entries.push({ player, kind });
+    this.lookup.set(key, entries);
+  }
+
+  /**
+   * Choose among the players a phrase could name. Exact names beat aliases
+   * beat last names; among equals, the team mentioned decides.
+   */
+  private pick(
+    entries: Array<{ player: DictionaryPlayer; kind: MatchKind }>,
+    teamContext: Set<string>,
+    mention: string
+  ): PlayerMention | null {
+    const strongest = (["name", "alias", "last"] as const).find((kind) =>
+      entries.some((entry) => entry.kind === kind)
+    );
+    const candidates = entries.filter((entry) => entry.kind === strongest);
+
+    let choice = candidates[0];
+    let ambiguous = false;
+
+    if (candidates.length > 1) {
+      const inContext = candidates.filter(
+        (entry) => entry.player.team && teamContext.has(entry.player.team)
+      );
+      if (inContext.length !== 1) return null;
+      choice = inContext[0];
+      ambiguous = true;
+    }
+
+    const base =
+      choice.kind === "name"
+        ? FULL_NAME_CONFIDENCE
+        : choice.kind === "alias"
+          ? ALIAS_CONFIDENCE
+          : LAST_NAME_CONFIDENCE;
+    const inTeamContext = !!choice.player.team && teamContext.has(choice.player.team);
+    const confidence =
+      base + (inTeamContext ? TEAM_CONTEXT_BONUS : 0) - (ambiguous ? AMBIGUOUS_PENALTY : 0);
+
+    return {
+      playerId: choice.player.id,
+      name: choice.player.name,
+      team: choice.player.team,
+      confidence: Math.round(Math.min(1, confidence) * 100) / 100,
+      mention,
+    };
+  }
+}
+
+/**
+ * Build a resolver from the org's player dictionary for a sport.
+ */
+export async function getPlayerResolver(orgId: string, sport: Sport): Promise<PlayerResolver> {
+  const players = await prisma.player.findMany({
+    where: { orgId, sport },
+    select: { id: true, name: true, team: true, aliases: true },
+  });
+
+  return new PlayerResolver(orgId, sport, players);
+}
+
+/**
+ * Parse a roster file. JSON is an array of players; CSV needs a header row
+ * with a name column and optionally team, position, aliases (separated by
+ * "|" or ";") and id.
+ */
+export function parsePlayerImport(text: string): RawRosterPlayer[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  if (trimmed.startsWith("[")) {
+    const rows = JSON.parse(trimmed) as Array<Record<string, unknown>>;
+    if (!Array.isArray(rows)) {
+      throw new Error("JSON import must be an array of players");
+    }
+
+    return rows.flatMap((row) => {
+      const name = typeof row.name === "string" ? row.name.trim() : "";
+      if (!name) return [];
+
+      return [
+        {
+          name,
+          team: typeof row.team === "string" ? row.team : undefined,
+          position: typeof row.position === "string" ? row.position : undefined,
+          aliases: Array.isArray(row.aliases)
+            ? row.aliases.filter((alias): alias is string => typeof alias === "string")
+            : typeof row.aliases === "string"
+              ? splitAliases(row.aliases)
+              : [],
+          externalId:
+            row.externalId !== undefined || row.id !== undefined
+              ? String(row.externalId ?? row.id)
+              : undefined,
+        },
+      ];
+    });
+  }
+
+  const [header, ...lines] = trimmed.split(/\r?\n/).map(parseCsvLine);
+  const columns = header.map((column) => column.trim().toLowerCase());
+  const column = (row: string[], name: string) => {
+    const index = columns.indexOf(name);
+    return index >= 0 ? row[index]?.trim() || undefined : undefined;
+  };
+
+  if (!columns.includes("name")) {
+    throw new Error("CSV import needs a header row with a name column");
+  }
+
+  return lines.flatMap((row) => {
+    const name = column(row, "name");
+    if (!name) return [];
+
+    return [
+      {
+        name,
+        team: column(row, "team"),
+        position: column(row, "position"),
+        aliases: splitAliases(column(row, "aliases") ?? ""),
+        externalId: column(row, "externalid") ?? column(row, "id"),
+      },
+    ];
+  });
+}
+
+/**
+ * Add or update players in the dictionary. Team names are resolved to
+ * canonical teams. Players are matched by roster ID, then by name, using the
+ * team to choose between players who share a name.
+ * @returns Number of players created and updated
+ */
+export async function importPlayers(
+  orgId: string,
+  sport: Sport,
+  players: RawRosterPlayer[],
+  origin: "IMPORT" | "ROSTER" = "IMPORT"
+): Promise<{ created: number; updated: number }> {
+  const teams = await getTeamResolver(orgId, sport);
+  let created = 0;
+  let updated = 0;
+
+  for (const raw of players) {
+    const team = raw.team ? teams.resolve(raw.team) : null;
+    const externalId = raw.externalId ?? null;
+
+    const byId = externalId
+      ? await prisma.player.findUnique({
+          where: { orgId_sport_externalId: { orgId, sport, externalId } },
+        })
+      : null;
+    const byName = byId
+      ? []
+      : await prisma.player.findMany({ where: { orgId, sport, name: raw.name } });
+    const existing =
+      byId ??
+      (byName.length === 1 ? byName[0] : byName.find((player) => player.team === team)) ??
+      null;
+
+    const aliases = Array.from(
+      new Set([
+        ...(existing && Array.isArray(existing.aliases) ? (existing.aliases as string[]) : []),
+        ...(raw.aliases ?? []),
+      ])
+    );
+
+    if (existing) {
+      await prisma.player.update({
+        where: { id: existing.id },
+        data: {
+          name: raw.name,
+          team: team ?? existing.team,
+          position: raw.position ?? existing.position,
+          aliases,
+          externalId: externalId ?? existing.externalId,
+          origin,
+        },
+      });
+      updated++;
+    } else {
+      await prisma.player.create({
+        data: { orgId, sport, name: raw.name, team, position: raw.position, aliases, externalId, origin },
+      });
+      created++;
+    }
+  }
+
+  await teams.flush();
+
+  return { created, updated };
+}
+
+/**
+ * Refresh the dictionary from every roster-capable source for the sport.
+ * @returns Players created and updated, and sources that failed
+ */
+export async function refreshRosters(
+  orgId: string,
+  sport: Sport
+): Promise<{ created: number; updated: number; sources: number; errors: string[] }> {
+  const sources = await prisma.source.findMany({
+    where: { orgId, sport, ...fetchableSourceWhere() },
+  });
+
+  const totals = { created: 0, updated: 0, sources: 0, errors: [] as string[] };
+
+  for (const source of sources) {
+    const adapter = await getAdapter(source.type);
+    if (!adapter || !isRosterAdapter(adapter)) continue;
+
+    try {
+      const roster = await adapter.fetchRoster(source);
+      const result = await importPlayers(orgId, sport, roster, "ROSTER");
+      totals.created += result.created;
+      totals.updated += result.updated;
+      totals.sources++;
+    } catch (error) {
+      console.error(`[PlayerRegistry] Error refreshing roster from source ${source.id}:`, error);
+      totals.errors.push(`${source.name}: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  return totals;
+}
+
+function splitAliases(value: string): string[] {
+  return value
+    .split(/[|;]/)
+    .map((alias) => alias.trim())
+    .filter(Boolean);
+}
+
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+}
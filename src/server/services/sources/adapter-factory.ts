@@ -20,17 +20,40 @@ async function initializeAdapters(): Promise<void> {
 
   try {
     // Dynamic imports to avoid bundling issues in RSC
-    const [rssModule, scraperModule, espnModule, sportsGridModule] = await Promise.all([
+    const [
+      rssModule,
+      scraperModule,
+      espnModule,
+      sportsGridModule,
+      twitterSearchModule,
+      twitterListModule,
+      jsonApiModule,
+    ] = await Promise.all([
       import("./rss-adapter"),
       import("./scraper-adapter"),
       import("./espn-adapter"),
       import("./sportsgrid-adapter"),
+      import("./twitter-search-adapter"),
+      import("./twitter-list-adapter"),
+      import("./json-api-adapter"),
     ]);
 
-    adapterRegistry.set("RSS_FEED", rssModule.rssAdapter);
-    adapterRegistry.set("WEBSITE_SCRAPE", scraperModule.scraperAdapter);
-    adapterRegistry.set("ESPN_API", espnModule.espnAdapter);
-    adapterRegistry.set("SPORTSGRID_API", sportsGridModule.sportsGridAdapter);
+    const defaults: [SourceType, SourceAdapter][] = [
+      ["RSS_FEED", rssModule.rssAdapter],
+      ["WEBSITE_SCRAPE", scraperModule.scraperAdapter],
+      ["ESPN_API", espnModule.espnAdapter],
+      ["SPORTSGRID_API", sportsGridModule.sportsGridAdapter],
+      ["TWITTER_SEARCH", twitterSearchModule.twitterSearchAdapter],
+      ["TWITTER_LIST", twitterListModule.twitterListAdapter],
+      ["JSON_API", jsonApiModule.jsonApiAdapter],
+    ];
+
+    // Keep adapters registered at runtime (e.g. the browser-backed scraper in the worker)
+    for (const [type, adapter] of defaults) {
+      if (!adapterRegistry.has(type)) {
+        adapterRegistry.set(type, adapter);
+      }
+    }
 
     adaptersInitialized = true;
   } catch (error) {
@@ -82,6 +105,9 @@ export function hasAdapter(type: SourceType): boolean {
     "WEBSITE_SCRAPE",
     "ESPN_API",
     "SPORTSGRID_API",
+    "TWITTER_SEARCH",
+    "TWITTER_LIST",
+    "JSON_API",
   ];
   return supportedTypes.includes(type) || adapterRegistry.has(type);
 }
@@ -91,7 +117,15 @@ export function hasAdapter(type: SourceType): boolean {
  * @returns Array of registered source types
  */
 export function getRegisteredTypes(): SourceType[] {
-  return ["RSS_FEED", "WEBSITE_SCRAPE", "ESPN_API", "SPORTSGRID_API"];
+  return [
+    "RSS_FEED",
+    "WEBSITE_SCRAPE",
+    "ESPN_API",
+    "SPORTSGRID_API",
+    "TWITTER_SEARCH",
+    "TWITTER_LIST",
+    "JSON_API",
+  ];
 }
 
 /**
@@ -236,6 +270,23 @@ const sourceTypeInfoMap = new Map<SourceType, SourceTypeInfo>([
           placeholder: "a.read-more",
           description: "CSS selector for the article link",
         },
+        {
+          name: "pagination.nextSelector",
+          label: "Next Page Selector",
+          type: "text",
+          required: false,
+          placeholder: "a.next",
+          description: "CSS selector for the next page link",
+        },
+        {
+          name: "pagination.maxPages",
+          label: "Max Pages",
+          type: "number",
+          required: false,
+          placeholder: "3",
+          description: "Maximum number of pages to follow per run",
+          defaultValue: 3,
+        },
         {
           name: "maxItems",
           label: "Max Items",
@@ -391,4 +442,68 @@ const sourceTypeInfoMap = new Map<SourceType, SourceTypeInfo>([
       ],
     },
   ],
+  [
+    "JSON_API",
+    {
+      type: "JSON_API",
+      name: "JSON API",
+      description: "Fetch news from any JSON endpoint using field mappings",
+      icon: "braces",
+      recommendedRefreshInterval: 30,
+      supportsOdds: false,
+      supportsResults: false,
+      configFields: [
+        {
+          name: "url",
+          label: "Endpoint URL",
+          type: "url",
+          required: true,
+          placeholder: "https://api.example.com/news",
+          description: "The JSON endpoint to fetch",
+        },
+        {
+          name: "headers",
+          label: "Headers",
+          type: "json",
+          required: false,
+          placeholder: '{"X-Client": "clipscout"}',
+          description: "Extra request headers",
+        },
+        {
+          name: "itemsPath",
+          label: "Items Path",
+          type: "text",
+          required: true,
+          placeholder: "$.data.articles",
+          description: "JSONPath-style path to the array of items",
+        },
+        {
+          name: "fieldMap.headline",
+          label: "Headline Path",
+          type: "text",
+          required: true,
+          placeholder: "$.title",
+          description: "Path to the headline, relative to each item",
+        },
+        {
+          name: "fieldMap.publishedAt",
+          label: "Published At Path",
+          type: "text",
+          required: false,
+          placeholder: "$.published",
+          description: "Path to an ISO date or epoch timestamp",
+        },
+        {
+          name: "pagination.type",
+          label: "Pagination",
+          type: "select",
+          required: false,
+          options: [
+            { value: "cursor", label: "Cursor" },
+            { value: "page", label: "Page number" },
+          ],
+        },
+      ],
+    },
+  ],
 ]);
@@ -1,4 +1,6 @@
 import type { Source } from "@prisma/client";
+import { createHash } from "crypto";
+import type { RateLimiter } from "./rate-limiter";
 import type {
   SourceType,
   FetchOptions,
@@ -8,6 +10,9 @@ import type {
   SourceConfig,
   RawOddsData,
   RawGameResult,
+  RawRosterPlayer,
+  FetchCacheInfo,
+  FetchSkipReason,
 } from "./types";
 
 /**
@@ -38,9 +43,18 @@ export interface SourceAdapter {
 
   /**
    * Get current rate limit status for this adapter.
+   * Reads the shared limiter when the adapter has one, so it reflects
+   * requests made by every process.
+   * @param scope - Optional domain or token hash the limit is keyed by
    * @returns RateLimitStatus with remaining requests and reset time
    */
-  getRateLimitStatus(): RateLimitStatus;
+  getRateLimitStatus(scope?: string): Promise<RateLimitStatus>;
+
+  /**
+   * Get the quota reported by the upstream API on its last response.
+   * @returns RateLimitStatus from response headers
+   */
+  getQuotaStatus(): RateLimitStatus;
 
   /**
    * Test the connection to the source.
@@ -76,6 +90,18 @@ export interface ResultsAdapter extends SourceAdapter {
   fetchResults(source: Source, options?: FetchOptions): Promise<RawGameResult[]>;
 }
 
+/**
+ * Extended interface for adapters that fetch team rosters.
+ */
+export interface RosterAdapter extends SourceAdapter {
+  /**
+   * Fetch current rosters for the source's sport.
+   * @param source - The source configuration
+   * @returns Players with their current team and position
+   */
+  fetchRoster(source: Source): Promise<RawRosterPlayer[]>;
+}
+
 /**
  * Type guard to check if adapter supports odds fetching.
  */
@@ -90,6 +116,13 @@ export function isResultsAdapter(adapter: SourceAdapter): adapter is ResultsAdap
   return "fetchResults" in adapter && typeof adapter.fetchResults === "function";
 }
 
+/**
+ * Type guard to check if adapter supports roster fetching.
+ */
+export function isRosterAdapter(adapter: SourceAdapter): adapter is RosterAdapter {
+  return "fetchRoster" in adapter && typeof adapter.fetchRoster === "function";
+}
+
 /**
  * Abstract base class with common adapter functionality.
  */
@@ -97,14 +130,25 @@ export abstract class BaseAdapter implements SourceAdapter {
   abstract readonly type: SourceType;
   abstract readonly name: string;
 
+  // Quota reported by the upstream API
   protected rateLimitRemaining: number = Infinity;
   protected rateLimitReset?: Date;
   protected rateLimitTotal: number = Infinity;
 
+  /** Self-imposed limit shared across processes */
+  protected rateLimiter?: RateLimiter;
+
   abstract fetch(source: Source, options?: FetchOptions): Promise<FetchResult>;
   abstract validateConfig(config: unknown): ValidationResult;
 
-  getRateLimitStatus(): RateLimitStatus {
+  async getRateLimitStatus(scope?: string): Promise<RateLimitStatus> {
+    if (this.rateLimiter) {
+      return this.rateLimiter.status(scope);
+    }
+    return this.getQuotaStatus();
+  }
+
+  getQuotaStatus(): RateLimitStatus {
     const isLimited =
       this.rateLimitRemaining <= 0 &&
       this.rateLimitReset !== undefined &&
@@ -130,10 +174,29 @@ export abstract class BaseAdapter implements SourceAdapter {
   }
 
   /**
-   * Check if we should wait due to rate limiting.
+   * Check if the upstream quota is exhausted.
    */
   protected shouldWaitForRateLimit(): boolean {
-    return this.getRateLimitStatus().isLimited;
+    return this.getQuotaStatus().isLimited;
+  }
+
+  /**
+   * Wait until a request is allowed: takes a token from the shared limiter,
+   * or waits out an exhausted upstream quota.
+   * @param scope - Optional domain or token hash the limit is keyed by
+   */
+  protected async waitForRateLimit(scope?: string): Promise<void> {
+    if (this.rateLimiter) {
+      await this.rateLimiter.acquire(scope);
+      return;
+    }
+
+    if (this.shouldWaitForRateLimit()) {
+      const waitTime = this.getWaitTime();
+      if (waitTime > 0) {
+        await new Promise((resolve) => setTimeout(resolve, waitTime));
+      }
+    }
   }
 
   /**
@@ -145,6 +208,46 @@ export abstract class BaseAdapter implements SourceAdapter {
     return Math.max(0, waitMs);
   }
 
+  /**
+   * Build conditional request headers from a previous fetch's validators.
+   */
+  protected conditionalHeaders(cache?: FetchCacheInfo): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (cache?.etag) headers["If-None-Match"] = cache.etag;
+    if (cache?.lastModified) headers["If-Modified-Since"] = cache.lastModified;
+    return headers;
+  }
+
+  /**
+   * Collect validators from a response and hash its body.
+   */
+  protected buildCacheInfo(response: Response, body: string): FetchCacheInfo {
+    return {
+      etag: response.headers.get("etag") ?? undefined,
+      lastModified: response.headers.get("last-modified") ?? undefined,
+      contentHash: this.hashContent(body),
+    };
+  }
+
+  /**
+   * Hash a response body to detect unchanged payloads.
+   */
+  protected hashContent(body: string): string {
+    return createHash("sha256").update(body).digest("hex");
+  }
+
+  /**
+   * Build an empty result for a payload that hasn't changed since the last fetch.
+   */
+  protected skippedResult(reason: FetchSkipReason, cache?: FetchCacheInfo): FetchResult {
+    return {
+      items: [],
+      hasMore: false,
+      cache,
+      skipReason: reason,
+    };
+  }
+
   /**
    * Helper to parse configuration safely.
    */
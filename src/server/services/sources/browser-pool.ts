@@ -0,0 +1,201 @@
+import type { Browser } from "puppeteer";
+
+// Note: puppeteer is imported dynamically so it is only loaded in the worker
+// process, never bundled into Next.js server components.
+
+export interface BrowserPoolOptions {
+  /** Max pages rendering at once */
+  maxConcurrency: number;
+  /** Default per-page timeout (navigation + selector wait) */
+  pageTimeoutMs: number;
+  /** Recycle the browser after this long to keep memory in check */
+  maxLifetimeMs: number;
+  /** Close the browser after this long with no pages open */
+  idleTimeoutMs: number;
+}
+
+export interface RenderOptions {
+  waitForSelector?: string;
+  timeoutMs?: number;
+  userAgent?: string;
+}
+
+/**
+ * Renders a URL and returns the resulting HTML.
+ */
+export interface PageRenderer {
+  render(url: string, options?: RenderOptions): Promise<string>;
+}
+
+// Resource types that never affect the rendered markup
+const BLOCKED_RESOURCE_TYPES = new Set(["image", "media", "font"]);
+
+/**
+ * Read pool options from environment variables.
+ */
+export function getBrowserPoolOptionsFromEnv(): BrowserPoolOptions {
+  return {
+    maxConcurrency: parseInt(process.env.SCRAPER_BROWSER_MAX_CONCURRENCY || "2", 10),
+    pageTimeoutMs: parseInt(process.env.SCRAPER_BROWSER_PAGE_TIMEOUT_MS || "30000", 10),
+    maxLifetimeMs: parseInt(process.env.SCRAPER_BROWSER_MAX_LIFETIME_MS || "1800000", 10),
+    idleTimeoutMs: parseInt(process.env.SCRAPER_BROWSER_IDLE_TIMEOUT_MS || "300000", 10),
+  };
+}
+
+/**
+ * Browser Pool
+ * Shares one headless browser across scrape jobs, limiting open pages and
+ * recycling the browser once it exceeds its lifetime.
+ */
+export class BrowserPool implements PageRenderer {
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  private launchedAt = 0;
+  private activePages = 0;
+  private waiters: (() => void)[] = [];
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(private readonly options: BrowserPoolOptions) {}
+
+  async render(url: string, options?: RenderOptions): Promise<string> {
+    if (this.closed) {
+      throw new Error("Browser pool is closed");
+    }
+
+    await this.acquireSlot();
+    const timeout = options?.timeoutMs ?? this.options.pageTimeoutMs;
+
+    try {
+      const browser = await this.getBrowser();
+      const page = await browser.newPage();
+
+      try {
+        page.setDefaultTimeout(timeout);
+        if (options?.userAgent) {
+          await page.setUserAgent(options.userAgent);
+        }
+
+        // Skip heavy assets we never parse
+        await page.setRequestInterception(true);
+        page.on("request", (request) => {
+          if (BLOCKED_RESOURCE_TYPES.has(request.resourceType())) {
+            request.abort().catch(() => undefined);
+          } else {
+            request.continue().catch(() => undefined);
+          }
+        });
+
+        if (options?.waitForSelector) {
+          await page.goto(url, { waitUntil: "domcontentloaded", timeout });
+          await page.waitForSelector(options.waitForSelector, { timeout });
+        } else {
+          await page.goto(url, { waitUntil: "networkidle2", timeout });
+        }
+
+        return await page.content();
+      } finally {
+        await page.close().catch(() => undefined);
+      }
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  /**
+   * Close the browser and reject further renders.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    this.clearIdleTimer();
+    await this.closeBrowser();
+  }
+
+  /**
+   * Get the running browser, launching or recycling it as needed.
+   */
+  private async getBrowser(): Promise<Browser> {
+    // A crashed browser fails every render on it, so replace it right away
+    if (this.browser && !this.browser.connected) {
+      console.log("[BrowserPool] Replacing disconnected browser");
+      await this.closeBrowser();
+    }
+
+    // Recycle an old browser only when this is the sole page, so we don't kill other renders
+    const expired = Date.now() - this.launchedAt > this.options.maxLifetimeMs;
+    if (this.browser && expired && this.activePages <= 1) {
+      console.log("[BrowserPool] Recycling browser");
+      await this.closeBrowser();
+    }
+
+    if (this.browser) return this.browser;
+
+    if (!this.launching) {
+      this.launching = (async () => {
+        const puppeteer = (await import("puppeteer")).default;
+        const browser = await puppeteer.launch({
+          headless: true,
+          args: ["--no-sandbox", "--disable-setuid-sandbox", "--disable-dev-shm-usage"],
+        });
+        console.log("[BrowserPool] Browser launched");
+        this.browser = browser;
+        this.launchedAt = Date.now();
+        return browser;
+      })().finally(() => {
+        this.launching = null;
+      });
+    }
+
+    return this.launching;
+  }
+
+  private async closeBrowser(): Promise<void> {
+    const browser = this.browser;
+    this.browser = null;
+    if (browser) {
+      await browser.close().catch((error) => {
+        console.error("[BrowserPool] Failed to close browser:", error);
+      });
+    }
+  }
+
+  /**
+   * Wait until fewer than maxConcurrency pages are open.
+   */
+  private async acquireSlot(): Promise<void> {
+    this.clearIdleTimer();
+    while (this.activePages >= this.options.maxConcurrency) {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+    this.activePages++;
+  }
+
+  private releaseSlot(): void {
+    this.activePages--;
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    } else if (this.activePages === 0) {
+      this.scheduleIdleClose();
+    }
+  }
+
+  private scheduleIdleClose(): void {
+    this.clearIdleTimer();
+    this.idleTimer = setTimeout(() => {
+      if (this.activePages === 0) {
+        console.log("[BrowserPool] Closing idle browser");
+        this.closeBrowser();
+      }
+    }, this.options.idleTimeoutMs);
+    // Don't keep the process alive just for the idle timer
+    this.idleTimer.unref?.();
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
@@ -5,10 +5,12 @@ import type {
   ValidationResult,
   RawNewsItem,
   RawGameResult,
+  RawRosterPlayer,
   EspnConfig,
   NewsItemType,
 } from "./types";
-import { BaseAdapter, type ResultsAdapter } from "./base-adapter";
+import { BaseAdapter, type ResultsAdapter, type RosterAdapter } from "./base-adapter";
+import { RateLimiter } from "./rate-limiter";
 
 // ESPN API endpoints (unofficial - public API)
 const ESPN_API_BASE = "https://site.api.espn.com/apis/site/v2";
@@ -33,19 +35,18 @@ const RATE_LIMIT_WINDOW_MS = 60000;
 
 /**
  * ESPN Adapter
- * Fetches sports news and game results from ESPN's public API.
+ * Fetches sports news, game results and team rosters from ESPN's public API.
  */
-export class EspnAdapter extends BaseAdapter implements ResultsAdapter {
+export class EspnAdapter extends BaseAdapter implements ResultsAdapter, RosterAdapter {
   readonly type = "ESPN_API" as const;
   readonly name = "ESPN";
 
-  private requestCount: number = 0;
-  private windowStart: number = Date.now();
-
   constructor() {
     super();
-    this.rateLimitTotal = RATE_LIMIT_TOTAL;
-    this.rateLimitRemaining = RATE_LIMIT_TOTAL;
+    this.rateLimiter = new RateLimiter(this.type, {
+      limit: RATE_LIMIT_TOTAL,
+      windowMs: RATE_LIMIT_WINDOW_MS,
+    });
   }
 
   async fetch(source: Source, options?: FetchOptions): Promise<FetchResult> {
@@ -56,9 +57,6 @@ export class EspnAdapter extends BaseAdapter implements ResultsAdapter {
     const sport = config.sport || sportMapping.sport;
     const league = config.league || sportMapping.league;
 
-    // Check and update rate limit
-    this.checkRateLimit();
-
     switch (config.section) {
       case "news":
         return this.fetchNews(source, sport, league, options);
@@ -75,8 +73,6 @@ export class EspnAdapter extends BaseAdapter implements ResultsAdapter {
     const sport = config.sport || sportMapping.sport;
     const league = config.league || sportMapping.league;
 
-    this.checkRateLimit();
-
     const url = `${ESPN_API_BASE}/sports/${sport}/${league}/scoreboard`;
     const response = await this.fetchApi(url);
     const data = await response.json();
@@ -112,6 +108,51 @@ export class EspnAdapter extends BaseAdapter implements ResultsAdapter {
     return results;
   }
 
+  async fetchRoster(source: Source): Promise<RawRosterPlayer[]> {
+    const config = this.parseConfig<EspnConfig>(source);
+    const sportMapping = SPORT_MAP[source.sport] || SPORT_MAP.NFL;
+    const sport = config.sport || sportMapping.sport;
+    const league = config.league || sportMapping.league;
+
+    const teamsResponse = await this.fetchApi(`${ESPN_API_BASE}/sports/${sport}/${league}/teams`);
+    const teamsData = await teamsResponse.json();
+    const teams: Array<{ team: { id: string; displayName: string } }> =
+      teamsData.sports?.[0]?.leagues?.[0]?.teams || [];
+
+    const players: RawRosterPlayer[] = [];
+
+    for (const { team } of teams) {
+      const response = await this.fetchApi(
+        `${ESPN_API_BASE}/sports/${sport}/${league}/teams/${team.id}/roster`
+      );
+      const data = await response.json();
+
+      // Football, baseball and hockey group athletes by unit; basketball lists them flat
+      const athletes: Array<Record<string, unknown>> = (data.athletes || []).flatMap(
+        (entry: Record<string, unknown>) =>
+          Array.isArray(entry.items) ? entry.items : [entry]
+      );
+
+      for (const athlete of athletes) {
+        const name = (athlete.fullName || athlete.displayName) as string | undefined;
+        if (!name) continue;
+
+        const position = athlete.position as { abbreviation?: string } | undefined;
+        const shortName = athlete.shortName as string | undefined;
+
+        players.push({
+          externalId: athlete.id ? String(athlete.id) : undefined,
+          name,
+          team: team.displayName,
+          position: position?.abbreviation,
+          aliases: shortName && shortName !== name ? [shortName] : [],
+        });
+      }
+    }
+
+    return players;
+  }
+
   validateConfig(config: unknown): ValidationResult {
     if (!config || typeof config !== "object") {
       return this.validationError(["Configuration must be an object"]);
@@ -200,8 +241,6 @@ export class EspnAdapter extends BaseAdapter implements ResultsAdapter {
     return {
       items,
       hasMore: false,
-      rateLimitRemaining: this.rateLimitRemaining,
-      rateLimitReset: this.rateLimitReset,
       metadata: {
         sport,
         league,
@@ -240,8 +279,6 @@ export class EspnAdapter extends BaseAdapter implements ResultsAdapter {
     return {
       items,
       hasMore: false,
-      rateLimitRemaining: this.rateLimitRemaining,
-      rateLimitReset: this.rateLimitReset,
       metadata: {
         sport,
         league,
@@ -383,6 +420,8 @@ export class EspnAdapter extends BaseAdapter implements ResultsAdapter {
    * Fetch from ESPN API with rate limiting.
    */
   private async fetchApi(url: string): Promise<Response> {
+    await this.waitForRateLimit();
+
     const response = await fetch(url, {
       headers: {
         Accept: "application/json",
@@ -395,30 +434,9 @@ export class EspnAdapter extends BaseAdapter implements ResultsAdapter {
       throw new Error(`ESPN API error: ${response.status} ${response.statusText}`);
     }
 
-    this.requestCount++;
-    this.rateLimitRemaining = Math.max(0, RATE_LIMIT_TOTAL - this.requestCount);
-
     return response;
   }
 
-  /**
-   * Check and reset rate limit window if needed.
-   */
-  private checkRateLimit(): void {
-    const now = Date.now();
-    if (now - this.windowStart >= RATE_LIMIT_WINDOW_MS) {
-      this.windowStart = now;
-      this.requestCount = 0;
-      this.rateLimitRemaining = RATE_LIMIT_TOTAL;
-      this.rateLimitReset = undefined;
-    }
-
-    if (this.requestCount >= RATE_LIMIT_TOTAL) {
-      this.rateLimitReset = new Date(this.windowStart + RATE_LIMIT_WINDOW_MS);
-      throw new Error(`Rate limited. Reset at ${this.rateLimitReset.toISOString()}`);
-    }
-  }
-
   /**
    * Create a hash from a string.
    */
@@ -0,0 +1,35 @@
+import type { Source } from "@prisma/client";
+import type { FetchCacheInfo, FetchSkipReason } from "./types";
+
+/**
+ * Human-readable fetch run message for each skip reason.
+ */
+export const SKIP_REASON_MESSAGES: Record<FetchSkipReason, string> = {
+  NOT_MODIFIED: "Not modified (HTTP 304)",
+  UNCHANGED_CONTENT: "Content unchanged since last fetch",
+};
+
+/**
+ * Read the stored validators for a conditional fetch.
+ */
+export function getFetchCache(source: Source): FetchCacheInfo {
+  return {
+    etag: source.httpEtag ?? undefined,
+    lastModified: source.httpLastModified ?? undefined,
+    contentHash: source.contentHash ?? undefined,
+  };
+}
+
+/**
+ * Build the Source update that stores validators from a fetch result.
+ * Adapters without conditional fetch support leave the columns untouched.
+ */
+export function fetchCacheUpdate(cache?: FetchCacheInfo) {
+  if (!cache) return {};
+
+  return {
+    httpEtag: cache.etag ?? null,
+    httpLastModified: cache.lastModified ?? null,
+    contentHash: cache.contentHash ?? null,
+  };
+}
@@ -5,9 +5,31 @@
  */
 
 import { prisma } from "@/lib/prisma";
+import { isRedisConfigured } from "@/lib/redis";
+import { importanceScoreQueue } from "@/lib/queue";
 import { getAdapterOrThrow } from "@/server/services/sources";
 import { isOddsAdapter, isResultsAdapter } from "@/server/services/sources/base-adapter";
-import type { Prisma, Source } from "@prisma/client";
+import type { SourceAdapter } from "@/server/services/sources/base-adapter";
+import {
+  SKIP_REASON_MESSAGES,
+  getFetchCache,
+  fetchCacheUpdate,
+} from "@/server/services/sources/fetch-cache";
+import {
+  getFetchGate,
+  recordFetchSuccess,
+  recordFetchFailure,
+} from "@/server/services/sources/source-health";
+import { recordOddsSnapshot } from "@/server/services/odds-history.service";
+import { getTeamResolver } from "@/server/services/team-registry.service";
+import { clusterNewsItem } from "@/server/services/story.service";
+import { getPlayerResolver } from "@/server/services/player-registry.service";
+import { computeSignatures } from "@/server/services/deduplication.service";
+import { resolveGameId, saveGameResult } from "@/server/services/game.service";
+import { recordScoreChanges } from "@/server/services/live-score.service";
+import { gradeGameResult, needsGrading } from "@/server/services/bet-grading.service";
+import { detectLineMoves, getLineMoveThresholds } from "@/server/services/line-move.service";
+import type { Source } from "@prisma/client";
 import { subDays } from "date-fns";
 
 export interface FetchSourceResult {
@@ -49,8 +71,9 @@ export async function fetchSourceDirect(
     };
   }
 
-  // Skip if source is paused
-  if (source.status === "PAUSED") {
+  // Skip if source is paused, rate limited or its circuit is open
+  const gate = getFetchGate(source, triggeredBy);
+  if (!gate.allowed) {
     return {
       success: false,
       sourceId,
@@ -59,7 +82,7 @@ export async function fetchSourceDirect(
       newItems: 0,
       resultsCreated: 0,
       oddsCreated: 0,
-      error: "Source is paused",
+      error: gate.reason,
     };
   }
 
@@ -73,19 +96,60 @@ export async function fetchSourceDirect(
     },
   });
 
+  let adapter: SourceAdapter | undefined;
+
   try {
     // Get the adapter
-    const adapter = await getAdapterOrThrow(source.type);
+    adapter = await getAdapterOrThrow(source.type);
 
     // Fetch items
     const since = source.lastFetchAt || subDays(new Date(), 7);
-    const result = await adapter.fetch(source, { since, limit: 100 });
+    const result = await adapter.fetch(source, { since, limit: 100, cache: getFetchCache(source) });
+
+    // Payload unchanged since the last fetch, so record the skip and stop here
+    if (result.skipReason) {
+      await prisma.source.update({
+        where: { id: sourceId },
+        data: {
+          lastFetchAt: new Date(),
+          lastSuccessAt: new Date(),
+          fetchCount: { increment: 1 },
+          ...fetchCacheUpdate(result.cache),
+        },
+      });
+      await recordFetchSuccess(source, {});
+
+      await prisma.sourceFetchRun.update({
+        where: { id: fetchRun.id },
+        data: {
+          status: "SKIPPED",
+          finishedAt: new Date(),
+          errorMessage: SKIP_REASON_MESSAGES[result.skipReason],
+        },
+      });
+
+      console.log(`[FetchSource] Skipped: ${SKIP_REASON_MESSAGES[result.skipReason]}`);
+
+      return {
+        success: true,
+        sourceId,
+        sourceName: source.name,
+        itemsFetched: 0,
+        newItems: 0,
+        resultsCreated: 0,
+        oddsCreated: 0,
+      };
+    }
 
     let itemsFetched = 0;
     let newItems = 0;
     let resultsCreated = 0;
     let oddsCreated = 0;
 
+    // Canonical team names for news, results and odds
+    const teams = await getTeamResolver(source.orgId, source.sport);
+    const players = await getPlayerResolver(source.orgId, source.sport);
+
     // Process news items
     for (const item of result.items) {
       itemsFetched++;
@@ -106,7 +170,7 @@ export async function fetchSourceDirect(
       }
 
       // Create news item
-      await prisma.newsItem.create({
+      const newsItem = await prisma.newsItem.create({
         data: {
           orgId: source.orgId,
           sourceId: source.id,
@@ -123,10 +187,14 @@ export async function fetchSourceDirect(
           players: [] as string[],
           topics: [] as string[],
           scoreBreakdown: {},
+          ...computeSignatures(item.headline, item.content),
         },
       });
 
       newItems++;
+
+      // Group with other sources' reports of the same story
+      await clusterNewsItem(newsItem, teams, players);
     }
 
     // Fetch and store game results if adapter supports it
@@ -135,42 +203,25 @@ export async function fetchSourceDirect(
         const gameResults = await adapter.fetchResults(source, { since, limit: 100 });
         console.log(`[FetchSource] Fetched ${gameResults.length} game results`);
 
-        for (const gameResult of gameResults) {
-          await prisma.gameResult.upsert({
-            where: {
-              orgId_homeTeam_awayTeam_gameDate: {
-                orgId: source.orgId,
-                homeTeam: gameResult.homeTeam,
-                awayTeam: gameResult.awayTeam,
-                gameDate: gameResult.gameDate,
-              },
-            },
-            update: {
-              homeScore: gameResult.homeScore,
-              awayScore: gameResult.awayScore,
-              status: gameResult.status,
-              statsJson: (gameResult.statsJson ?? undefined) as Prisma.InputJsonValue | undefined,
-              externalGameId: gameResult.externalGameId,
-              spreadWinner: gameResult.spreadWinner,
-              totalResult: gameResult.totalResult,
-            },
-            create: {
-              orgId: source.orgId,
-              sourceId: source.id,
-              sport: source.sport,
-              homeTeam: gameResult.homeTeam,
-              awayTeam: gameResult.awayTeam,
-              gameDate: gameResult.gameDate,
-              homeScore: gameResult.homeScore,
-              awayScore: gameResult.awayScore,
-              status: gameResult.status,
-              statsJson: (gameResult.statsJson ?? undefined) as Prisma.InputJsonValue | undefined,
-              externalGameId: gameResult.externalGameId,
-              spreadWinner: gameResult.spreadWinner,
-              totalResult: gameResult.totalResult,
-            },
-          });
+        for (const gameResult of gameResults.map((raw) => teams.resolveGame(raw))) {
+          const { previous, saved } = await saveGameResult(source.orgId, source.id, source.sport, gameResult);
           resultsCreated++;
+
+          // No worker here, so grade inline once the game is final
+          if (needsGrading(previous, saved)) {
+            await gradeGameResult(saved.id);
+          }
+
+          // Lead changes and finals become GAME_RESULT news items
+          const changes = await recordScoreChanges(previous, saved);
+          if (isRedisConfigured()) {
+            for (const change of changes) {
+              await importanceScoreQueue.add("score-item", {
+                newsItemId: change.id,
+                orgId: source.orgId,
+              });
+            }
+          }
         }
       } catch (error) {
         console.error(`[FetchSource] Error fetching results:`, error);
@@ -182,42 +233,35 @@ export async function fetchSourceDirect(
       try {
         const oddsData = await adapter.fetchOdds(source, { since, limit: 100 });
         console.log(`[FetchSource] Fetched ${oddsData.length} odds snapshots`);
+        const lineMoveThresholds = await getLineMoveThresholds(source.orgId, source.sport);
 
-        for (const odds of oddsData) {
-          // Delete existing snapshot for this game to avoid duplicates
-          if (odds.externalGameId) {
-            await prisma.oddsSnapshot.deleteMany({
-              where: { externalGameId: odds.externalGameId, orgId: source.orgId },
-            });
-          }
-
-          // Create new odds snapshot
-          await prisma.oddsSnapshot.create({
-            data: {
-              orgId: source.orgId,
-              sourceId: source.id,
-              sport: source.sport,
-              homeTeam: odds.homeTeam,
-              awayTeam: odds.awayTeam,
-              gameDate: odds.gameDate,
-              externalGameId: odds.externalGameId,
-              homeMoneyline: odds.homeMoneyline,
-              awayMoneyline: odds.awayMoneyline,
-              spread: odds.spread,
-              spreadJuice: odds.spreadJuice,
-              overUnder: odds.overUnder,
-              overJuice: odds.overJuice,
-              underJuice: odds.underJuice,
-              sportsbook: odds.sportsbook,
-            },
-          });
+        for (const odds of oddsData.map((raw) => teams.resolveGame(raw))) {
+          // Append to the line history, skipping unchanged prices
+          const gameId = await resolveGameId(source.orgId, source.id, source.sport, odds);
+          const snapshot = await recordOddsSnapshot(source.orgId, source.id, source.sport, odds, gameId);
+          if (!snapshot) continue;
           oddsCreated++;
+
+          // Sharp moves become BETTING_LINE news items
+          const alerts = await detectLineMoves(snapshot, lineMoveThresholds);
+          for (const alert of alerts) {
+            console.log(`[FetchSource] Line move: ${alert.headline}`);
+            if (isRedisConfigured()) {
+              await importanceScoreQueue.add("score-item", {
+                newsItemId: alert.id,
+                orgId: source.orgId,
+              });
+            }
+          }
         }
       } catch (error) {
         console.error(`[FetchSource] Error fetching odds:`, error);
       }
     }
 
+    // Record team names the registry couldn't place
+    await teams.flush();
+
     // Update source status
     await prisma.source.update({
       where: { id: sourceId },
@@ -225,9 +269,16 @@ export async function fetchSourceDirect(
         lastFetchAt: new Date(),
         lastSuccessAt: new Date(),
         fetchCount: { increment: 1 },
+        ...fetchCacheUpdate(result.cache),
       },
     });
 
+    // Close the circuit, or mark the source rate limited if the quota ran out
+    await recordFetchSuccess(source, {
+      remaining: result.rateLimitRemaining,
+      resetAt: result.rateLimitReset,
+    });
+
     // Update fetch run status
     await prisma.sourceFetchRun.update({
       where: { id: fetchRun.id },
@@ -253,15 +304,12 @@ export async function fetchSourceDirect(
   } catch (error) {
     console.error(`[FetchSource] Failed:`, error);
 
-    // Update source status
-    await prisma.source.update({
-      where: { id: sourceId },
-      data: {
-        lastErrorAt: new Date(),
-        lastErrorMessage: error instanceof Error ? error.message : "Unknown error",
-        errorCount: { increment: 1 },
-      },
-    });
+    // Update source status and health
+    await recordFetchFailure(
+      source,
+      error instanceof Error ? error.message : "Unknown error",
+      adapter?.getQuotaStatus()
+    );
 
     // Update fetch run status
     await prisma.sourceFetchRun.update({
@@ -6,8 +6,10 @@ export {
   type SourceAdapter,
   type OddsAdapter,
   type ResultsAdapter,
+  type RosterAdapter,
   isOddsAdapter,
   isResultsAdapter,
+  isRosterAdapter,
   BaseAdapter,
 } from "./base-adapter";
 
@@ -0,0 +1,450 @@
+import type { Source } from "@prisma/client";
+import type {
+  FetchOptions,
+  FetchResult,
+  ValidationResult,
+  RawNewsItem,
+  JsonApiConfig,
+  NewsItemType,
+} from "./types";
+import { BaseAdapter } from "./base-adapter";
+
+// Safety cap on pages followed in a single fetch
+const DEFAULT_MAX_PAGES = 5;
+const MAX_PAGES_LIMIT = 20;
+
+const NEWS_ITEM_TYPES: NewsItemType[] = [
+  "BREAKING",
+  "TRADE",
+  "INJURY",
+  "GAME_RESULT",
+  "BETTING_LINE",
+  "RUMOR",
+  "ANALYSIS",
+  "SCHEDULE",
+];
+
+/**
+ * Resolve a JSONPath-style expression against a value.
+ * Supports `$` root, dot keys, `[0]` indexes, `['key']` and `[*]` wildcards.
+ */
+export function resolveJsonPath(value: unknown, path: string): unknown {
+  const tokens = tokenizePath(path);
+  let current: unknown[] = [value];
+  let wildcard = false;
+
+  for (const token of tokens) {
+    const next: unknown[] = [];
+    for (const node of current) {
+      if (node === null || node === undefined) continue;
+      if (token === "*") {
+        wildcard = true;
+        if (Array.isArray(node)) next.push(...node);
+        else if (typeof node === "object") next.push(...Object.values(node));
+      } else if (Array.isArray(node) && /^\d+$/.test(token)) {
+        next.push(node[parseInt(token, 10)]);
+      } else if (typeof node === "object") {
+        next.push((node as Record<string, unknown>)[token]);
+      }
+    }
+    current = next;
+  }
+
+  return wildcard ? current.filter((v) => v !== undefined) : current[0];
+}
+
+/**
+ * Split a path like `$.data.items[0]['full name']` into keys.
+ */
+function tokenizePath(path: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /\[\s*(?:'([^']*)'|"([^"]*)"|(\*|\d+))\s*\]|([^.[\]]+)/g;
+  const trimmed = path.trim().replace(/^\$/, "");
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(trimmed)) !== null) {
+    tokens.push(match[1] ?? match[2] ?? match[3] ?? match[4]);
+  }
+
+  return tokens;
+}
+
+/**
+ * JSON API Adapter
+ * Fetches news items from arbitrary JSON endpoints using configurable field mappings.
+ */
+export class JsonApiAdapter extends BaseAdapter {
+  readonly type = "JSON_API" as const;
+  readonly name = "JSON API";
+
+  async fetch(source: Source, options?: FetchOptions): Promise<FetchResult> {
+    const config = this.parseConfig<JsonApiConfig>(source);
+    const pagination = config.pagination;
+    const maxItems = Math.min(options?.limit ?? Infinity, config.maxItems ?? Infinity);
+    // A dry run only needs enough data to preview the mapping
+    const maxPages = options?.dryRun
+      ? 1
+      : Math.min(pagination?.maxPages ?? DEFAULT_MAX_PAGES, MAX_PAGES_LIMIT);
+
+    const items: RawNewsItem[] = [];
+    let cursor: string | undefined;
+    let page = pagination?.startPage ?? 1;
+    let pages = 0;
+    let hasMore = false;
+    let sample: unknown;
+
+    try {
+      while (pages < maxPages) {
+        const url = this.buildUrl(config, cursor, page);
+        const data = await this.fetchJson(url, config);
+        pages++;
+
+        const pageItems = this.extractItems(data, config.itemsPath);
+        sample = sample ?? pageItems[0];
+
+        let freshOnPage = 0;
+        for (const raw of pageItems) {
+          if (items.length >= maxItems) break;
+
+          const item = this.mapItem(raw, config);
+          if (!item) continue;
+
+          // Skip items older than 'since' date if specified
+          if (options?.since && item.publishedAt < options.since) {
+            continue;
+          }
+
+          freshOnPage++;
+          items.push(item);
+        }
+
+        // Work out whether there is another page to follow
+        if (!pagination || pageItems.length === 0) {
+          hasMore = false;
+          break;
+        }
+        if (pagination.type === "cursor") {
+          const next = pagination.cursorPath
+            ? resolveJsonPath(data, pagination.cursorPath)
+            : undefined;
+          cursor = next !== undefined && next !== null && next !== "" ? String(next) : undefined;
+          hasMore = cursor !== undefined;
+        } else {
+          page++;
+          hasMore = true;
+        }
+
+        // Stop once a whole page is older than 'since' or we hit the limit
+        if (freshOnPage === 0) hasMore = false;
+        if (!hasMore || items.length >= maxItems) break;
+      }
+
+      return {
+        items,
+        hasMore,
+        metadata: {
+          pages,
+          ...(options?.dryRun ? { sample } : {}),
+        },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      throw new Error(`Failed to fetch JSON API: ${errorMessage}`);
+    }
+  }
+
+  validateConfig(config: unknown): ValidationResult {
+    if (!config || typeof config !== "object") {
+      return this.validationError(["Configuration must be an object"]);
+    }
+
+    const cfg = config as Record<string, unknown>;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    // Required: url
+    if (!cfg.url || typeof cfg.url !== "string") {
+      errors.push("url is required and must be a string");
+    } else {
+      try {
+        new URL(cfg.url);
+      } catch {
+        errors.push("url must be a valid URL");
+      }
+    }
+
+    // Required: itemsPath
+    if (!cfg.itemsPath || typeof cfg.itemsPath !== "string") {
+      errors.push("itemsPath is required and must be a string");
+    }
+
+    // Required: fieldMap with at least a headline
+    const fieldMap = cfg.fieldMap as Record<string, unknown> | undefined;
+    if (!fieldMap || typeof fieldMap !== "object") {
+      errors.push("fieldMap is required and must be an object");
+    } else {
+      if (!fieldMap.headline || typeof fieldMap.headline !== "string") {
+        errors.push("fieldMap.headline is required");
+      }
+      for (const [key, value] of Object.entries(fieldMap)) {
+        if (value !== undefined && value !== "" && typeof value !== "string") {
+          errors.push(`fieldMap.${key} must be a path string`);
+        }
+      }
+      if (!fieldMap.externalId && !fieldMap.url) {
+        warnings.push("No externalId or url mapping; items will be deduplicated by headline");
+      }
+      if (!fieldMap.publishedAt) {
+        warnings.push("No publishedAt mapping; fetch time will be used");
+      }
+    }
+
+    // Optional: headers
+    if (cfg.headers !== undefined) {
+      if (
+        !cfg.headers ||
+        typeof cfg.headers !== "object" ||
+        Object.values(cfg.headers).some((v) => typeof v !== "string")
+      ) {
+        errors.push("headers must be an object of string values");
+      }
+    }
+
+    // Optional: auth
+    const auth = cfg.auth as Record<string, unknown> | undefined;
+    if (auth !== undefined) {
+      if (!auth || !["bearer", "basic", "header"].includes(auth.type as string)) {
+        errors.push("auth.type must be one of: bearer, basic, header");
+      } else if (auth.type === "basic" && !auth.username) {
+        errors.push("auth.username is required for basic auth");
+      } else if (auth.type === "header" && (!auth.headerName || !auth.token)) {
+        errors.push("auth.headerName and auth.token are required for header auth");
+      } else if (auth.type === "bearer" && !auth.token) {
+        errors.push("auth.token is required for bearer auth");
+      }
+    }
+
+    // Optional: pagination
+    const pagination = cfg.pagination as Record<string, unknown> | undefined;
+    if (pagination !== undefined) {
+      if (!pagination || !["cursor", "page"].includes(pagination.type as string)) {
+        errors.push("pagination.type must be cursor or page");
+      } else {
+        if (!pagination.param || typeof pagination.param !== "string") {
+          errors.push("pagination.param is required");
+        }
+        if (pagination.type === "cursor" && !pagination.cursorPath) {
+          errors.push("pagination.cursorPath is required for cursor pagination");
+        }
+        if (
+          pagination.maxPages !== undefined &&
+          (typeof pagination.maxPages !== "number" ||
+            pagination.maxPages < 1 ||
+            pagination.maxPages > MAX_PAGES_LIMIT)
+        ) {
+          errors.push(`pagination.maxPages must be between 1 and ${MAX_PAGES_LIMIT}`);
+        }
+      }
+    }
+
+    // Optional: maxItems
+    if (cfg.maxItems !== undefined) {
+      if (typeof cfg.maxItems !== "number" || cfg.maxItems < 1) {
+        errors.push("maxItems must be a positive number");
+      }
+    }
+
+    if (errors.length > 0) {
+      return this.validationError(errors);
+    }
+
+    return this.validationSuccess(warnings);
+  }
+
+  async testConnection(config: JsonApiConfig): Promise<boolean> {
+    try {
+      const data = await this.fetchJson(config.url, config);
+      return this.extractItems(data, config.itemsPath).length > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Build the request URL for the current page or cursor.
+   */
+  private buildUrl(config: JsonApiConfig, cursor: string | undefined, page: number): string {
+    const pagination = config.pagination;
+    if (!pagination) return config.url;
+
+    const url = new URL(config.url);
+    if (pagination.type === "cursor") {
+      if (cursor) url.searchParams.set(pagination.param, cursor);
+    } else {
+      url.searchParams.set(pagination.param, String(page));
+    }
+    return url.toString();
+  }
+
+  /**
+   * Fetch and parse a JSON response with configured headers and auth.
+   */
+  private async fetchJson(url: string, config: JsonApiConfig): Promise<unknown> {
+    const headers: Record<string, string> = {
+      Accept: "application/json",
+      "User-Agent": process.env.SCRAPER_USER_AGENT || "ClipScout/1.0",
+      ...config.headers,
+    };
+
+    const auth = config.auth;
+    if (auth?.type === "bearer" && auth.token) {
+      headers.Authorization = `Bearer ${auth.token}`;
+    } else if (auth?.type === "basic" && auth.username) {
+      const credentials = Buffer.from(`${auth.username}:${auth.password ?? ""}`).toString("base64");
+      headers.Authorization = `Basic ${credentials}`;
+    } else if (auth?.type === "header" && auth.headerName && auth.token) {
+      headers[auth.headerName] = auth.token;
+    }
+
+    const response = await fetch(url, {
+      headers,
+      signal: AbortSignal.timeout(30000),
+    });
+
+    this.updateRateLimitFromHeaders(response.headers);
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Locate the item array in a response.
+   */
+  private extractItems(data: unknown, itemsPath: string): unknown[] {
+    const items = resolveJsonPath(data, itemsPath);
+    if (!Array.isArray(items)) {
+      throw new Error(`itemsPath "${itemsPath}" did not resolve to an array`);
+    }
+    return items;
+  }
+
+  /**
+   * Map a raw item to a RawNewsItem using the configured field paths.
+   */
+  private mapItem(raw: unknown, config: JsonApiConfig): RawNewsItem | null {
+    const map = config.fieldMap;
+    const get = (path?: string): string | undefined => {
+      if (!path) return undefined;
+      const value = resolveJsonPath(raw, path);
+      if (value === undefined || value === null || typeof value === "object") return undefined;
+      const str = String(value).trim();
+      return str || undefined;
+    };
+
+    const headline = get(map.headline);
+    if (!headline) return null;
+
+    const content = get(map.content);
+    const url = get(map.url);
+    const publishedAt = this.parseDate(get(map.publishedAt));
+    const mappedType = get(map.type)?.toUpperCase() as NewsItemType | undefined;
+
+    return {
+      externalId: get(map.externalId) || this.hashId(url || headline),
+      type:
+        mappedType && NEWS_ITEM_TYPES.includes(mappedType)
+          ? mappedType
+          : this.inferNewsType(headline, content || ""),
+      headline,
+      content,
+      url,
+      imageUrl: get(map.imageUrl),
+      publishedAt,
+      author: get(map.author),
+      rawData: raw,
+    };
+  }
+
+  /**
+   * Parse ISO strings, epoch seconds or epoch milliseconds.
+   */
+  private parseDate(value?: string): Date {
+    if (!value) return new Date();
+
+    if (/^\d+$/.test(value)) {
+      const num = parseInt(value, 10);
+      // Treat 10-digit values as seconds
+      return new Date(value.length <= 10 ? num * 1000 : num);
+    }
+
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? new Date() : date;
+  }
+
+  /**
+   * Pick up common rate limit headers if the API sends them.
+   */
+  private updateRateLimitFromHeaders(headers: Headers): void {
+    const remaining = headers.get("x-ratelimit-remaining") ?? headers.get("x-rate-limit-remaining");
+    if (remaining === null) return;
+
+    const reset = headers.get("x-ratelimit-reset") ?? headers.get("x-rate-limit-reset");
+    const limit = headers.get("x-ratelimit-limit") ?? headers.get("x-rate-limit-limit");
+
+    this.updateRateLimit(
+      parseInt(remaining, 10),
+      reset ? new Date(parseInt(reset, 10) * 1000) : undefined,
+      limit ? parseInt(limit, 10) : undefined
+    );
+  }
+
+  /**
+   * Infer news type from headline and content.
+   */
+  private inferNewsType(headline: string, content: string): NewsItemType {
+    const text = `${headline} ${content}`.toLowerCase();
+
+    if (text.includes("breaking") || text.includes("just in")) {
+      return "BREAKING";
+    }
+    if (text.includes("trade") || text.includes("traded")) {
+      return "TRADE";
+    }
+    if (text.includes("injury") || text.includes("injured") || text.includes("ruled out")) {
+      return "INJURY";
+    }
+    if (text.includes("odds") || text.includes("betting") || text.includes("spread")) {
+      return "BETTING_LINE";
+    }
+    if (text.includes("final score") || text.includes("defeat")) {
+      return "GAME_RESULT";
+    }
+    if (text.includes("rumor") || text.includes("reportedly") || text.includes("sources")) {
+      return "RUMOR";
+    }
+    if (text.includes("schedule") || text.includes("upcoming")) {
+      return "SCHEDULE";
+    }
+
+    return "ANALYSIS";
+  }
+
+  /**
+   * Create a short hash from a string for external ID.
+   */
+  private hashId(str: string): string {
+    let hash = 0;
+    for (let i = 0; i < str.length; i++) {
+      const char = str.charCodeAt(i);
+      hash = (hash << 5) - hash + char;
+      hash = hash & hash; // Convert to 32bit integer
+    }
+    return `json-${Math.abs(hash).toString(36)}`;
+  }
+}
+
+// Export singleton instance
+export const jsonApiAdapter = new JsonApiAdapter();
@@ -0,0 +1,188 @@
+import { createHash } from "crypto";
+import { getRedis, isRedisConfigured } from "@/lib/redis";
+import type { RateLimitStatus } from "./types";
+
+/**
+ * Distributed token-bucket rate limiter.
+ * Buckets live in Redis so every worker replica and the cron route share one
+ * budget per adapter (optionally per domain or API token). Falls back to an
+ * in-process bucket when Redis isn't configured or reachable.
+ */
+
+export interface RateLimitRule {
+  /** Requests allowed per window (bucket capacity) */
+  limit: number;
+  /** Window the limit applies to */
+  windowMs: number;
+  /** Minimum spacing between consecutive requests */
+  minIntervalMs?: number;
+}
+
+interface BucketResult {
+  allowed: boolean;
+  tokens: number;
+  waitMs: number;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+  lastAt: number;
+}
+
+const KEY_PREFIX = "ratelimit";
+
+// Refill the bucket, then optionally take a token. Uses the Redis clock so
+// replicas with skewed clocks still agree.
+// Returns { allowed, tokens, waitMs }.
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refillMs = tonumber(ARGV[2])
+local minInterval = tonumber(ARGV[3])
+local consume = tonumber(ARGV[4])
+
+local time = redis.call("TIME")
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+local state = redis.call("HMGET", KEYS[1], "tokens", "ts", "last")
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+local last = tonumber(state[3]) or 0
+
+tokens = math.min(capacity, tokens + math.max(0, now - ts) / refillMs)
+
+local wait = 0
+if tokens < 1 then
+  wait = math.ceil((1 - tokens) * refillMs)
+end
+local gap = last + minInterval - now
+if gap > wait then
+  wait = gap
+end
+
+local allowed = 0
+if wait <= 0 then
+  wait = 0
+  if consume == 1 then
+    tokens = tokens - 1
+    last = now
+  end
+  allowed = 1
+end
+
+redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "ts", now, "last", last)
+redis.call("PEXPIRE", KEYS[1], math.ceil(capacity * refillMs + minInterval))
+
+return { allowed, tostring(tokens), wait }
+`;
+
+/**
+ * Hash a secret (e.g. API token) into a short, log-safe bucket scope.
+ */
+export function tokenScope(token: string): string {
+  return createHash("sha256").update(token).digest("hex").slice(0, 16);
+}
+
+/**
+ * Extract a hostname scope from a URL, or undefined if it can't be parsed.
+ */
+export function domainScope(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+export class RateLimiter {
+  private readonly refillMs: number;
+  private readonly localBuckets = new Map<string, BucketState>();
+
+  /**
+   * @param name - Bucket namespace, usually the adapter's source type
+   * @param rule - Limit applied to each bucket
+   */
+  constructor(
+    readonly name: string,
+    readonly rule: RateLimitRule
+  ) {
+    this.refillMs = rule.windowMs / rule.limit;
+  }
+
+  /**
+   * Wait until a request is allowed, then take a token.
+   */
+  async acquire(scope?: string): Promise<RateLimitStatus> {
+    for (;;) {
+      const result = await this.take(scope, true);
+      if (result.allowed) {
+        return this.toStatus(result);
+      }
+      await new Promise((resolve) => setTimeout(resolve, result.waitMs));
+    }
+  }
+
+  /**
+   * Current bucket state without taking a token.
+   */
+  async status(scope?: string): Promise<RateLimitStatus> {
+    return this.toStatus(await this.take(scope, false));
+  }
+
+  private async take(scope: string | undefined, consume: boolean): Promise<BucketResult> {
+    const key = scope ? `${KEY_PREFIX}:${this.name}:${scope}` : `${KEY_PREFIX}:${this.name}`;
+
+    if (isRedisConfigured()) {
+      try {
+        const [allowed, tokens, waitMs] = (await getRedis().eval(
+          TOKEN_BUCKET_SCRIPT,
+          1,
+          key,
+          this.rule.limit,
+          this.refillMs,
+          this.rule.minIntervalMs ?? 0,
+          consume ? 1 : 0
+        )) as [number, string, number];
+
+        return { allowed: allowed === 1, tokens: parseFloat(tokens), waitMs };
+      } catch (error) {
+        console.warn(`[RateLimiter] Redis unavailable for ${key}, using local bucket:`, error);
+      }
+    }
+
+    return this.takeLocal(key, consume);
+  }
+
+  /**
+   * Same algorithm as the Redis script, scoped to this process.
+   */
+  private takeLocal(key: string, consume: boolean): BucketResult {
+    const now = Date.now();
+    const capacity = this.rule.limit;
+    const state = this.localBuckets.get(key) ?? { tokens: capacity, updatedAt: now, lastAt: 0 };
+
+    let tokens = Math.min(capacity, state.tokens + Math.max(0, now - state.updatedAt) / this.refillMs);
+    let lastAt = state.lastAt;
+
+    let waitMs = tokens < 1 ? Math.ceil((1 - tokens) * this.refillMs) : 0;
+    waitMs = Math.max(waitMs, lastAt + (this.rule.minIntervalMs ?? 0) - now, 0);
+
+    if (waitMs === 0 && consume) {
+      tokens -= 1;
+      lastAt = now;
+    }
+
+    this.localBuckets.set(key, { tokens, updatedAt: now, lastAt });
+    return { allowed: waitMs === 0, tokens, waitMs };
+  }
+
+  private toStatus(result: BucketResult): RateLimitStatus {
+    const isLimited = result.tokens < 1;
+    return {
+      remaining: Math.max(0, Math.floor(result.tokens)),
+      limit: this.rule.limit,
+      resetAt: isLimited ? new Date(Date.now() + Math.ceil((1 - result.tokens) * this.refillMs)) : undefined,
+      isLimited,
+    };
+  }
+}
@@ -10,6 +10,14 @@ import type {
 } from "./types";
 import { BaseAdapter } from "./base-adapter";
 
+// Browser-like headers; some publishers reject unknown user agents
+const FEED_HEADERS: Record<string, string> = {
+  "User-Agent": process.env.SCRAPER_USER_AGENT ||
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+  Accept: "application/rss+xml, application/atom+xml, application/xml, text/xml, */*",
+  "Accept-Language": "en-US,en;q=0.9",
+};
+
 /**
  * RSS Feed Adapter
  * Fetches news items from RSS/Atom feeds using rss-parser.
@@ -23,13 +31,6 @@ export class RssAdapter extends BaseAdapter {
   constructor() {
     super();
     this.parser = new Parser({
-      timeout: 30000, // 30 second timeout
-      headers: {
-        "User-Agent": process.env.SCRAPER_USER_AGENT ||
-          "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        Accept: "application/rss+xml, application/atom+xml, application/xml, text/xml, */*",
-        "Accept-Language": "en-US,en;q=0.9",
-      },
       customFields: {
         item: [
           ["media:content", "media"],
@@ -46,7 +47,29 @@ export class RssAdapter extends BaseAdapter {
     const items: RawNewsItem[] = [];
 
     try {
-      const feed = await this.parser.parseURL(config.feedUrl);
+      // Conditional GET so unchanged feeds cost a 304 instead of a full download
+      const response = await fetch(config.feedUrl, {
+        headers: { ...FEED_HEADERS, ...this.conditionalHeaders(options?.cache) },
+        signal: AbortSignal.timeout(30000), // 30 second timeout
+      });
+
+      if (response.status === 304) {
+        return this.skippedResult("NOT_MODIFIED", options?.cache);
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const xml = await response.text();
+      const cache = this.buildCacheInfo(response, xml);
+
+      // Fall back to a content hash for servers without ETag/Last-Modified support
+      if (options?.cache?.contentHash && options.cache.contentHash === cache.contentHash) {
+        return this.skippedResult("UNCHANGED_CONTENT", cache);
+      }
+
+      const feed = await this.parser.parseString(xml);
 
       for (const item of feed.items) {
         // Skip items older than 'since' date if specified
@@ -74,6 +97,7 @@ export class RssAdapter extends BaseAdapter {
       return {
         items,
         hasMore: false, // RSS feeds don't typically paginate
+        cache,
         metadata: {
           feedTitle: feed.title,
           feedDescription: feed.description,
@@ -122,7 +146,12 @@ export class RssAdapter extends BaseAdapter {
 
   async testConnection(config: RssFeedConfig): Promise<boolean> {
     try {
-      const feed = await this.parser.parseURL(config.feedUrl);
+      const response = await fetch(config.feedUrl, {
+        headers: FEED_HEADERS,
+        signal: AbortSignal.timeout(30000),
+      });
+      if (!response.ok) return false;
+      const feed = await this.parser.parseString(await response.text());
       return feed.items.length > 0;
     } catch {
       return false;
@@ -7,11 +7,20 @@ import type {
   RawNewsItem,
   WebsiteScraperConfig,
   NewsItemType,
+  FetchCacheInfo,
 } from "./types";
 import { BaseAdapter } from "./base-adapter";
+import type { PageRenderer } from "./browser-pool";
+import { RateLimiter, domainScope } from "./rate-limiter";
 
-// Self-imposed rate limiting for scraping
+// Self-imposed rate limiting for scraping, per domain
 const MIN_REQUEST_INTERVAL_MS = 5000; // 5 seconds between requests
+const RATE_LIMIT_TOTAL = 12;
+const RATE_LIMIT_WINDOW_MS = 60000;
+
+// Pagination limits when following next-page links
+const DEFAULT_MAX_PAGES = 3;
+const MAX_PAGES_LIMIT = 20;
 
 /**
  * Website Scraper Adapter
@@ -21,69 +30,113 @@ export class ScraperAdapter extends BaseAdapter {
   readonly type = "WEBSITE_SCRAPE" as const;
   readonly name = "Website Scraper";
 
-  private lastRequestTime: number = 0;
+  private renderer?: PageRenderer;
 
-  constructor() {
+  /**
+   * @param options.renderer - Headless browser used for sources with `render` enabled
+   */
+  constructor(options?: { renderer?: PageRenderer }) {
     super();
-    // Self-imposed rate limit: 12 requests per minute
-    this.rateLimitTotal = 12;
-    this.rateLimitRemaining = 12;
+    this.renderer = options?.renderer;
+    this.rateLimiter = new RateLimiter(this.type, {
+      limit: RATE_LIMIT_TOTAL,
+      windowMs: RATE_LIMIT_WINDOW_MS,
+      minIntervalMs: MIN_REQUEST_INTERVAL_MS,
+    });
   }
 
   async fetch(source: Source, options?: FetchOptions): Promise<FetchResult> {
     const config = this.parseConfig<WebsiteScraperConfig>(source);
     const items: RawNewsItem[] = [];
+    const seenIds = new Set<string>();
+    const visitedUrls = new Set<string>();
 
-    try {
-      // Respect rate limiting
-      await this.waitForRateLimit();
-
-      // Fetch the page
-      const html = await this.fetchPage(config.url);
-      const $ = cheerio.load(html);
+    // Only follow next-page links when a selector is configured
+    const maxPages = config.pagination?.nextSelector
+      ? Math.min(config.pagination.maxPages ?? DEFAULT_MAX_PAGES, MAX_PAGES_LIMIT)
+      : 1;
 
-      // Find all news items using container selector or body
-      const container = config.selectors.container ? $(config.selectors.container) : $("body");
+    let pageUrl: string | undefined = config.url;
+    let cache: FetchCacheInfo | undefined;
+    let pages = 0;
+    let reachedSince = false;
+    let reachedLimit = false;
 
-      // Find items within container
-      const itemElements = container.find(config.selectors.headline).closest("article, div, li");
-
-      // If no container structure, just find headlines directly
-      const elementsToProcess =
-        itemElements.length > 0
-          ? itemElements
-          : container.find(config.selectors.headline).parent();
-
-      elementsToProcess.each((index, element) => {
-        // Respect limits
-        if (options?.limit && items.length >= options.limit) {
-          return false; // Break out of .each()
-        }
-        if (config.maxItems && items.length >= config.maxItems) {
-          return false;
+    try {
+      while (pageUrl && pages < maxPages && !reachedSince && !reachedLimit) {
+        visitedUrls.add(pageUrl);
+
+        // Respect rate limiting per domain (also spaces out page requests)
+        await this.waitForRateLimit(domainScope(pageUrl));
+
+        // Fetch the page (conditionally for the first page)
+        const isFirstPage = pages === 0;
+        const page = await this.loadPage(pageUrl, config, isFirstPage ? options?.cache : undefined);
+        pages++;
+
+        // An unchanged first page means nothing new further down the archive either
+        if (isFirstPage) {
+          cache = page.cache;
+          if (page.html === null) {
+            return this.skippedResult("NOT_MODIFIED", options?.cache);
+          }
+          if (options?.cache?.contentHash && options.cache.contentHash === cache.contentHash) {
+            return this.skippedResult("UNCHANGED_CONTENT", cache);
+          }
         }
 
-        const rawItem = this.parseElement($, element, config, source.sport);
-        if (rawItem) {
-          // Skip items older than 'since' date if specified
-          if (options?.since && rawItem.publishedAt < options.since) {
-            return; // Continue to next
+        const $ = cheerio.load(page.html ?? "");
+
+        // Find all news items using container selector or body
+        const container = config.selectors.container ? $(config.selectors.container) : $("body");
+
+        // Find items within container
+        const itemElements = container.find(config.selectors.headline).closest("article, div, li");
+
+        // If no container structure, just find headlines directly
+        const elementsToProcess =
+          itemElements.length > 0
+            ? itemElements
+            : container.find(config.selectors.headline).parent();
+
+        const currentUrl: string = pageUrl;
+        elementsToProcess.each((index, element) => {
+          // Respect limits
+          if (
+            (options?.limit && items.length >= options.limit) ||
+            (config.maxItems && items.length >= config.maxItems)
+          ) {
+            reachedLimit = true;
+            return false; // Break out of .each()
           }
-          items.push(rawItem);
-        }
-      });
 
-      // Update rate limit tracking
-      this.rateLimitRemaining--;
-      if (this.rateLimitRemaining <= 0) {
-        this.rateLimitReset = new Date(Date.now() + 60000); // Reset in 1 minute
+          const rawItem = this.parseElement($, element, config, currentUrl, source.sport);
+          if (rawItem) {
+            // Skip items older than 'since' date; later pages will only be older
+            if (options?.since && rawItem.publishedAt < options.since) {
+              reachedSince = true;
+              return; // Continue to next
+            }
+
+            // Archive pages often repeat featured items across pages
+            if (seenIds.has(rawItem.externalId)) {
+              return;
+            }
+            seenIds.add(rawItem.externalId);
+            items.push(rawItem);
+          }
+        });
+
+        pageUrl = this.findNextPageUrl($, config, currentUrl, visitedUrls);
       }
 
       return {
         items,
-        hasMore: config.pagination?.nextSelector ? $(config.pagination.nextSelector).length > 0 : false,
-        rateLimitRemaining: this.rateLimitRemaining,
-        rateLimitReset: this.rateLimitReset,
+        hasMore: !!pageUrl && !reachedSince,
+        cache,
+        metadata: {
+          pages,
+        },
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Unknown error";
@@ -131,6 +184,45 @@ export class ScraperAdapter extends BaseAdapter {
       }
     }
 
+    // Optional: pagination
+    if (cfg.pagination !== undefined) {
+      const pagination = cfg.pagination as Record<string, unknown>;
+      if (!pagination || typeof pagination !== "object") {
+        errors.push("pagination must be an object");
+      } else {
+        if (pagination.nextSelector !== undefined && typeof pagination.nextSelector !== "string") {
+          errors.push("pagination.nextSelector must be a CSS selector string");
+        }
+        if (
+          pagination.maxPages !== undefined &&
+          (typeof pagination.maxPages !== "number" ||
+            pagination.maxPages < 1 ||
+            pagination.maxPages > MAX_PAGES_LIMIT)
+        ) {
+          errors.push(`pagination.maxPages must be between 1 and ${MAX_PAGES_LIMIT}`);
+        }
+        if (pagination.maxPages && !pagination.nextSelector) {
+          warnings.push("pagination.maxPages has no effect without pagination.nextSelector");
+        }
+      }
+    }
+
+    // Optional: headless rendering
+    if (cfg.render !== undefined && typeof cfg.render !== "boolean") {
+      errors.push("render must be a boolean");
+    }
+    if (cfg.waitForSelector !== undefined && typeof cfg.waitForSelector !== "string") {
+      errors.push("waitForSelector must be a CSS selector string");
+    } else if (cfg.waitForSelector && !cfg.render) {
+      warnings.push("waitForSelector is only used when render is enabled");
+    }
+    if (
+      cfg.renderTimeoutMs !== undefined &&
+      (typeof cfg.renderTimeoutMs !== "number" || cfg.renderTimeoutMs < 1000)
+    ) {
+      errors.push("renderTimeoutMs must be at least 1000");
+    }
+
     // Optional: maxItems
     if (cfg.maxItems !== undefined) {
       if (typeof cfg.maxItems !== "number" || cfg.maxItems < 1) {
@@ -147,8 +239,8 @@ export class ScraperAdapter extends BaseAdapter {
 
   async testConnection(config: WebsiteScraperConfig): Promise<boolean> {
     try {
-      const html = await this.fetchPage(config.url);
-      const $ = cheerio.load(html);
+      const { html } = await this.loadPage(config.url, config);
+      const $ = cheerio.load(html ?? "");
       const headlines = $(config.selectors.headline);
       return headlines.length > 0;
     } catch {
@@ -156,10 +248,39 @@ export class ScraperAdapter extends BaseAdapter {
     }
   }
 
+  /**
+   * Load a page's HTML, rendering it in a headless browser when enabled.
+   * Returns null HTML when a conditional request was answered with 304.
+   */
+  private async loadPage(
+    url: string,
+    config: WebsiteScraperConfig,
+    cache?: FetchCacheInfo
+  ): Promise<{ html: string | null; cache: FetchCacheInfo }> {
+    if (config.render && this.renderer) {
+      const html = await this.renderer.render(url, {
+        waitForSelector: config.waitForSelector,
+        timeoutMs: config.renderTimeoutMs,
+        userAgent: process.env.SCRAPER_USER_AGENT || "ClipScout/1.0 (News Aggregator)",
+      });
+      return { html, cache: { contentHash: this.hashContent(html) } };
+    }
+
+    if (config.render) {
+      // Browser rendering is only available in the worker process
+      console.warn(`[Scraper] No browser available to render ${url}, falling back to HTTP fetch`);
+    }
+
+    return this.fetchPage(url, cache);
+  }
+
   /**
    * Fetch a page with proper headers and timeout.
    */
-  private async fetchPage(url: string): Promise<string> {
+  private async fetchPage(
+    url: string,
+    cache?: FetchCacheInfo
+  ): Promise<{ html: string | null; cache: FetchCacheInfo }> {
     const response = await fetch(url, {
       headers: {
         "User-Agent": process.env.SCRAPER_USER_AGENT || "ClipScout/1.0 (News Aggregator)",
@@ -168,47 +289,54 @@ export class ScraperAdapter extends BaseAdapter {
         "Accept-Encoding": "gzip, deflate",
         Connection: "keep-alive",
         "Upgrade-Insecure-Requests": "1",
+        ...this.conditionalHeaders(cache),
       },
       signal: AbortSignal.timeout(30000), // 30 second timeout
     });
 
+    if (response.status === 304) {
+      return { html: null, cache: cache ?? {} };
+    }
+
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
 
-    return response.text();
+    const html = await response.text();
+    return { html, cache: this.buildCacheInfo(response, html) };
   }
 
   /**
-   * Wait for rate limit if necessary.
+   * Resolve the next page link, ignoring pages we've already visited.
    */
-  private async waitForRateLimit(): Promise<void> {
-    // Ensure minimum time between requests
-    const timeSinceLastRequest = Date.now() - this.lastRequestTime;
-    if (timeSinceLastRequest < MIN_REQUEST_INTERVAL_MS) {
-      await new Promise((resolve) =>
-        setTimeout(resolve, MIN_REQUEST_INTERVAL_MS - timeSinceLastRequest)
-      );
-    }
-    this.lastRequestTime = Date.now();
-
-    // Also check if we're rate limited
-    if (this.shouldWaitForRateLimit()) {
-      const waitTime = this.getWaitTime();
-      if (waitTime > 0) {
-        await new Promise((resolve) => setTimeout(resolve, waitTime));
-        this.rateLimitRemaining = this.rateLimitTotal;
-      }
+  private findNextPageUrl(
+    $: cheerio.CheerioAPI,
+    config: WebsiteScraperConfig,
+    currentUrl: string,
+    visitedUrls: Set<string>
+  ): string | undefined {
+    if (!config.pagination?.nextSelector) return undefined;
+
+    const href = $(config.pagination.nextSelector).first().attr("href");
+    if (!href) return undefined;
+
+    try {
+      const nextUrl = new URL(href, currentUrl).href;
+      return visitedUrls.has(nextUrl) ? undefined : nextUrl;
+    } catch {
+      return undefined;
     }
   }
 
   /**
    * Parse a single HTML element into a RawNewsItem.
+   * Relative links are resolved against the page the element came from.
    */
   private parseElement(
     $: cheerio.CheerioAPI,
     element: Parameters<cheerio.CheerioAPI>[0],
     config: WebsiteScraperConfig,
+    pageUrl: string,
     sport: Source["sport"]
   ): RawNewsItem | null {
     const $el = $(element);
@@ -237,7 +365,7 @@ export class ScraperAdapter extends BaseAdapter {
     // Resolve relative URLs
     if (url && !url.startsWith("http")) {
       try {
-        url = new URL(url, config.url).href;
+        url = new URL(url, pageUrl).href;
       } catch {
         // Invalid URL, leave as-is
       }
@@ -274,7 +402,7 @@ export class ScraperAdapter extends BaseAdapter {
     // Resolve relative image URLs
     if (imageUrl && !imageUrl.startsWith("http")) {
       try {
-        imageUrl = new URL(imageUrl, config.url).href;
+        imageUrl = new URL(imageUrl, pageUrl).href;
       } catch {
         // Invalid URL, leave as undefined
         imageUrl = undefined;
@@ -298,7 +426,7 @@ export class ScraperAdapter extends BaseAdapter {
       author,
       rawData: {
         html: $el.html(),
-        url: config.url,
+        url: pageUrl,
       },
     };
   }
@@ -0,0 +1,189 @@
+/**
+ * Source health policy.
+ * Moves sources between ACTIVE, ERROR and RATE_LIMITED based on fetch
+ * outcomes. ERROR acts as an open circuit: the source is skipped until
+ * nextRetryAt, then a single half-open fetch decides whether it recovers
+ * or backs off again.
+ */
+
+import { prisma } from "@/lib/prisma";
+import type { Prisma, Source, SourceStatus } from "@prisma/client";
+import type { RateLimitStatus } from "./types";
+
+export const SOURCE_HEALTH_POLICY = {
+  /** Consecutive failures before the circuit opens */
+  failureThreshold: parseInt(process.env.SOURCE_FAILURE_THRESHOLD || "3", 10),
+  /** First backoff once the circuit opens, doubled on each failed retry */
+  baseBackoffMinutes: parseInt(process.env.SOURCE_BACKOFF_BASE_MINUTES || "5", 10),
+  /** Upper bound on the backoff */
+  maxBackoffMinutes: parseInt(process.env.SOURCE_BACKOFF_MAX_MINUTES || "1440", 10),
+};
+
+export interface FetchGate {
+  allowed: boolean;
+  reason?: string;
+}
+
+/**
+ * Backoff before the next half-open retry for a failure streak.
+ */
+export function getBackoffMinutes(consecutiveFailures: number): number {
+  const { failureThreshold, baseBackoffMinutes, maxBackoffMinutes } = SOURCE_HEALTH_POLICY;
+  const exponent = Math.max(0, consecutiveFailures - failureThreshold);
+  return Math.min(maxBackoffMinutes, baseBackoffMinutes * 2 ** exponent);
+}
+
+/**
+ * Decide whether a source may be fetched right now.
+ * Manual runs bypass an open circuit but still honour rate limits.
+ */
+export function getFetchGate(
+  source: Source,
+  triggeredBy: string,
+  now: Date = new Date()
+): FetchGate {
+  if (source.status === "PAUSED") {
+    return { allowed: false, reason: "Source is paused" };
+  }
+
+  if (source.status === "RATE_LIMITED" && source.rateLimitResetAt && source.rateLimitResetAt > now) {
+    return {
+      allowed: false,
+      reason: `Rate limited until ${source.rateLimitResetAt.toISOString()}`,
+    };
+  }
+
+  if (
+    source.status === "ERROR" &&
+    triggeredBy !== "MANUAL" &&
+    source.nextRetryAt &&
+    source.nextRetryAt > now
+  ) {
+    return {
+      allowed: false,
+      reason: `Circuit open until ${source.nextRetryAt.toISOString()}`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Filter for scheduled sources that are healthy or due a retry.
+ */
+export function fetchableSourceWhere(now: Date = new Date()): Prisma.SourceWhereInput {
+  return {
+    OR: [
+      { status: "ACTIVE" },
+      { status: "ERROR", OR: [{ nextRetryAt: null }, { nextRetryAt: { lte: now } }] },
+      {
+        status: "RATE_LIMITED",
+        OR: [{ rateLimitResetAt: null }, { rateLimitResetAt: { lte: now } }],
+      },
+    ],
+  };
+}
+
+/**
+ * Record a successful fetch: close the circuit and track an exhausted quota.
+ */
+export async function recordFetchSuccess(
+  source: Source,
+  rateLimit: { remaining?: number; resetAt?: Date }
+): Promise<void> {
+  const now = new Date();
+  const exhausted = rateLimit.remaining === 0 && !!rateLimit.resetAt && rateLimit.resetAt > now;
+
+  let toStatus: SourceStatus = source.status;
+  let reason = "";
+
+  if (exhausted && source.status !== "PAUSED") {
+    toStatus = "RATE_LIMITED";
+    reason = `API quota exhausted until ${rateLimit.resetAt!.toISOString()}`;
+  } else if (source.status === "ERROR") {
+    toStatus = "ACTIVE";
+    reason = `Recovered after ${source.consecutiveFailures} consecutive failures`;
+  } else if (source.status === "RATE_LIMITED") {
+    toStatus = "ACTIVE";
+    reason = "Rate limit reset";
+  }
+
+  await prisma.source.update({
+    where: { id: source.id },
+    data: {
+      status: toStatus,
+      consecutiveFailures: 0,
+      nextRetryAt: null,
+      // Remember when an exhausted API quota resets
+      rateLimitResetAt: exhausted ? rateLimit.resetAt : null,
+    },
+  });
+
+  if (toStatus !== source.status) {
+    await logStatusChange(source.id, source.status, toStatus, reason);
+  }
+}
+
+/**
+ * Record a failed fetch: count the streak and open the circuit or mark the
+ * source rate limited when the adapter reports an exhausted quota.
+ */
+export async function recordFetchFailure(
+  source: Source,
+  errorMessage: string,
+  rateLimit?: RateLimitStatus
+): Promise<void> {
+  const now = new Date();
+  const data: Prisma.SourceUpdateInput = {
+    lastErrorAt: now,
+    lastErrorMessage: errorMessage,
+    errorCount: { increment: 1 },
+  };
+
+  let toStatus: SourceStatus = source.status;
+  let reason = "";
+
+  if (rateLimit?.isLimited && rateLimit.resetAt) {
+    // Quota exhaustion isn't a fault of the source, so don't count it
+    data.rateLimitResetAt = rateLimit.resetAt;
+    if (source.status !== "PAUSED") {
+      toStatus = "RATE_LIMITED";
+      reason = `Rate limited until ${rateLimit.resetAt.toISOString()}`;
+    }
+  } else {
+    const failures = source.consecutiveFailures + 1;
+    data.consecutiveFailures = failures;
+
+    if (failures >= SOURCE_HEALTH_POLICY.failureThreshold && source.status !== "PAUSED") {
+      const backoff = getBackoffMinutes(failures);
+      data.nextRetryAt = new Date(now.getTime() + backoff * 60 * 1000);
+      toStatus = "ERROR";
+      reason =
+        source.status === "ERROR"
+          ? `Retry failed (${failures} consecutive failures), next retry in ${backoff} min`
+          : `${failures} consecutive failures, retrying in ${backoff} min`;
+    }
+  }
+
+  data.status = toStatus;
+  await prisma.source.update({ where: { id: source.id }, data });
+
+  // Failed half-open retries are logged too so the backoff is visible
+  if (reason) {
+    await logStatusChange(source.id, source.status, toStatus, `${reason}: ${errorMessage}`);
+  }
+}
+
+/**
+ * Append a status transition to the source's history.
+ */
+export async function logStatusChange(
+  sourceId: string,
+  fromStatus: SourceStatus,
+  toStatus: SourceStatus,
+  reason: string
+): Promise<void> {
+  await prisma.sourceStatusChange.create({
+    data: { sourceId, fromStatus, toStatus, reason },
+  });
+}
@@ -9,6 +9,7 @@ import type {
   NewsItemType,
 } from "./types";
 import { BaseAdapter, type OddsAdapter, type ResultsAdapter } from "./base-adapter";
+import { RateLimiter, tokenScope } from "./rate-limiter";
 
 // SportsGrid authenticated API endpoints
 const SPORTSGRID_GAMES_URL = "https://app.sportsgrid.com/api/v1/getSingleSportGamesData";
@@ -44,6 +45,9 @@ const MIN_REQUEST_INTERVAL_MS = 6000;
 const RATE_LIMIT_TOTAL = 10;
 const RATE_LIMIT_WINDOW_MS = 60000;
 
+// Live polls also fetch yesterday's games before this hour (UTC), for late US games
+const LIVE_PREVIOUS_DAY_UNTIL_UTC_HOUR = 10;
+
 /**
  * SportsGrid config stored in Source.config JSON field.
  */
@@ -68,14 +72,13 @@ export class SportsGridAdapter extends BaseAdapter implements OddsAdapter, Resul
   readonly type = "SPORTSGRID_API" as const;
   readonly name = "SportsGrid";
 
-  private lastRequestTime: number = 0;
-  private requestCount: number = 0;
-  private windowStart: number = Date.now();
-
   constructor() {
     super();
-    this.rateLimitTotal = RATE_LIMIT_TOTAL;
-    this.rateLimitRemaining = RATE_LIMIT_TOTAL;
+    this.rateLimiter = new RateLimiter(this.type, {
+      limit: RATE_LIMIT_TOTAL,
+      windowMs: RATE_LIMIT_WINDOW_MS,
+      minIntervalMs: MIN_REQUEST_INTERVAL_MS,
+    });
   }
 
   async fetch(source: Source, options?: FetchOptions): Promise<FetchResult> {
@@ -86,8 +89,6 @@ export class SportsGridAdapter extends BaseAdapter implements OddsAdapter, Resul
     return {
       items,
       hasMore: false,
-      rateLimitRemaining: this.rateLimitRemaining,
-      rateLimitReset: this.rateLimitReset,
       metadata: {
         oddsCount: odds.length,
         timestamp: new Date().toISOString(),
@@ -104,8 +105,8 @@ export class SportsGridAdapter extends BaseAdapter implements OddsAdapter, Resul
     // Use provided date or default to today
     const date = options?.date || new Date().toISOString().split('T')[0];
 
-    // Respect rate limiting
-    await this.waitForRateLimit();
+    // Respect rate limiting (shared per API token)
+    await this.waitForRateLimit(this.getRateLimitScope(config));
 
     try {
       // If sportsbook is specified, use the getOddsbySportBook endpoint
@@ -142,6 +143,9 @@ export class SportsGridAdapter extends BaseAdapter implements OddsAdapter, Resul
 
   /**
    * Fetch game results (completed games with final scores).
+   * In live mode, games in progress are included too, and without a date
+   * today's slate is fetched, plus yesterday's while last night's late games
+   * may still be running.
    * @param source - The source configuration
    * @param options - Fetch options, including optional date parameter
    * @returns Array of game results
@@ -153,24 +157,34 @@ export class SportsGridAdapter extends BaseAdapter implements OddsAdapter, Resul
     const sportName = config.sport || SPORT_MAP[source.sport] || "NFL";
 
     // Use provided date or default to yesterday (most likely to have final results)
-    const date = options?.date || this.getYesterdayDate();
-
-    // Respect rate limiting
-    await this.waitForRateLimit();
+    const dates = options?.date
+      ? [options.date]
+      : options?.live
+        ? this.getLiveDates()
+        : [this.getYesterdayDate()];
 
     try {
-      const games = await this.fetchGames(sportName, config, date);
-
       const results: RawGameResult[] = [];
+      const seen = new Set<string>();
 
-      for (const game of games) {
-        // Respect limit
-        if (options?.limit && results.length >= options.limit) {
-          break;
-        }
+      for (const date of dates) {
+        // Respect rate limiting (shared per API token)
+        await this.waitForRateLimit(this.getRateLimitScope(config));
+        const games = await this.fetchGames(sportName, config, date);
+
+        for (const game of games) {
+          // Respect limit
+          if (options?.limit && results.length >= options.limit) {
+            return results;
+          }
+
+          // Only include final games, and in-progress ones when live
+          if (!game.final && !(options?.live && game.live)) continue;
+
+          // Late games can appear under both dates
+          if (game.key && seen.has(game.key)) continue;
+          if (game.key) seen.add(game.key);
 
-        // Only include final games
-        if (game.final) {
           const result = this.parseGameToResult(game);
           if (result) {
             results.push(result);
@@ -282,9 +296,6 @@ export class SportsGridAdapter extends BaseAdapter implements OddsAdapter, Resul
       throw new Error(`SportsGrid API error: ${response.status} ${response.statusText}`);
     }
 
-    this.requestCount++;
-    this.rateLimitRemaining = Math.max(0, RATE_LIMIT_TOTAL - this.requestCount);
-
     const data = await response.json();
 
     // Games are in data.games array for the authenticated API
@@ -328,9 +339,6 @@ export class SportsGridAdapter extends BaseAdapter implements OddsAdapter, Resul
       throw new Error(`SportsGrid Odds API error: ${response.status} ${response.statusText}`);
     }
 
-    this.requestCount++;
-    this.rateLimitRemaining = Math.max(0, RATE_LIMIT_TOTAL - this.requestCount);
-
     const data = await response.json();
 
     if (!data?.success || !data?.data) {
@@ -489,8 +497,8 @@ export class SportsGridAdapter extends BaseAdapter implements OddsAdapter, Resul
       return null;
     }
 
-    // Only process final games
-    if (!game.final) {
+    // Only process final games and games in progress
+    if (!game.final && !game.live) {
       return null;
     }
 
@@ -504,26 +512,22 @@ export class SportsGridAdapter extends BaseAdapter implements OddsAdapter, Resul
     }
 
     // Determine game status
-    let status = "FINAL";
+    let status = game.final ? "FINAL" : "IN_PROGRESS";
     if (game.postponed) {
       status = "POSTPONED";
     } else if (game.delayed) {
       status = "DELAYED";
     }
 
-    // Calculate spread winner
-    const spreadWinner = this.calculateSpreadWinner(
-      game.home_score,
-      game.away_score,
-      game.home_spread_point
-    );
+    // Calculate spread winner (final games only)
+    const spreadWinner = game.final
+      ? this.calculateSpreadWinner(game.home_score, game.away_score, game.home_spread_point)
+      : undefined;
 
-    // Calculate total result
-    const totalResult = this.calculateTotalResult(
-      game.home_score,
-      game.away_score,
-      game.home_total_point
-    );
+    // Calculate total result (final games only)
+    const totalResult = game.final
+      ? this.calculateTotalResult(game.home_score, game.away_score, game.home_total_point)
+      : undefined;
 
     return {
       externalGameId: game.key || undefined,
@@ -640,6 +644,18 @@ export class SportsGridAdapter extends BaseAdapter implements OddsAdapter, Resul
   /**
    * Get yesterday's date in YYYY-MM-DD format.
    */
+  /**
+   * Dates a live poll covers: today (UTC), plus yesterday in the early UTC
+   * hours while the previous evening's late games may still be running.
+   */
+  private getLiveDates(): string[] {
+    const now = new Date();
+    const today = now.toISOString().split('T')[0];
+    return now.getUTCHours() < LIVE_PREVIOUS_DAY_UNTIL_UTC_HOUR
+      ? [today, this.getYesterdayDate()]
+      : [today];
+  }
+
   private getYesterdayDate(): string {
     const yesterday = new Date();
     yesterday.setDate(yesterday.getDate() - 1);
@@ -683,37 +699,11 @@ export class SportsGridAdapter extends BaseAdapter implements OddsAdapter, Resul
   }
 
   /**
-   * Wait for rate limit if necessary.
+   * Key the shared rate limit by API token, since the budget is per token.
    */
-  private async waitForRateLimit(): Promise<void> {
-    // Check window reset
-    const now = Date.now();
-    if (now - this.windowStart >= RATE_LIMIT_WINDOW_MS) {
-      this.windowStart = now;
-      this.requestCount = 0;
-      this.rateLimitRemaining = RATE_LIMIT_TOTAL;
-    }
-
-    // Check per-request interval
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    if (timeSinceLastRequest < MIN_REQUEST_INTERVAL_MS) {
-      await new Promise((resolve) =>
-        setTimeout(resolve, MIN_REQUEST_INTERVAL_MS - timeSinceLastRequest)
-      );
-    }
-    this.lastRequestTime = Date.now();
-
-    // Check if rate limited
-    if (this.requestCount >= RATE_LIMIT_TOTAL) {
-      this.rateLimitReset = new Date(this.windowStart + RATE_LIMIT_WINDOW_MS);
-      const waitTime = this.rateLimitReset.getTime() - Date.now();
-      if (waitTime > 0) {
-        await new Promise((resolve) => setTimeout(resolve, waitTime));
-        this.windowStart = Date.now();
-        this.requestCount = 0;
-        this.rateLimitRemaining = RATE_LIMIT_TOTAL;
-      }
-    }
+  private getRateLimitScope(config: SportsGridConfig): string | undefined {
+    const token = config.apiToken || process.env.SPORTSGRID_API_TOKEN;
+    return token ? tokenScope(token) : undefined;
   }
 
   /**
@@ -0,0 +1,238 @@
+import type {
+  RawNewsItem,
+  TwitterSearchConfig,
+  TwitterListConfig,
+  NewsItemType,
+} from "./types";
+import { BaseAdapter } from "./base-adapter";
+
+// X/Twitter API v2 base URL (override to point at a local mock server)
+export const TWITTER_API_BASE = process.env.TWITTER_API_BASE_URL || "https://api.twitter.com/2";
+
+// Tweet, user and media fields requested on every timeline call
+export const TWEET_QUERY_FIELDS: Record<string, string> = {
+  "tweet.fields":
+    "created_at,author_id,conversation_id,in_reply_to_user_id,lang,attachments,referenced_tweets,public_metrics,entities",
+  expansions:
+    "author_id,attachments.media_keys,referenced_tweets.id,referenced_tweets.id.author_id",
+  "user.fields": "name,username,verified",
+  "media.fields": "type,url,preview_image_url",
+};
+
+// Ordered text patterns used to guess the news type of a tweet
+const NEWS_TYPE_PATTERNS: [NewsItemType, RegExp][] = [
+  ["INJURY", /\b(ruled out|injur(y|ies|ed)|out for|day-to-day|questionable|doubtful|placed on (the )?(ir|il)|won't play|will not play|sidelined|torn|sprain)/],
+  ["TRADE", /\b(trade[sd]?|acquir(e|es|ed|ing)|dealt to|swap)\b/],
+  ["RUMOR", /\b(per sources|sources say|sources tell|source says|i'm told|told by|hearing|reportedly|expected to|rumou?r)/],
+  ["BREAKING", /\b(breaking|just in|developing)\b/],
+  ["BETTING_LINE", /\b(odds|spread|moneyline|line move[sd]?|over\/under|o\/u)\b/],
+  ["GAME_RESULT", /\b(final|defeat(s|ed)?)\b/],
+];
+
+export interface TwitterUser {
+  id: string;
+  name: string;
+  username: string;
+  verified?: boolean;
+}
+
+export interface TwitterMedia {
+  media_key: string;
+  type: string;
+  url?: string;
+  preview_image_url?: string;
+}
+
+export interface Tweet {
+  id: string;
+  text: string;
+  author_id?: string;
+  created_at?: string;
+  conversation_id?: string;
+  in_reply_to_user_id?: string;
+  lang?: string;
+  attachments?: { media_keys?: string[] };
+  referenced_tweets?: { type: "quoted" | "replied_to" | "retweeted"; id: string }[];
+  public_metrics?: Record<string, number>;
+  entities?: Record<string, unknown>;
+}
+
+export interface TimelineResponse {
+  data?: Tweet[];
+  includes?: {
+    users?: TwitterUser[];
+    media?: TwitterMedia[];
+    tweets?: Tweet[];
+  };
+  meta?: {
+    newest_id?: string;
+    oldest_id?: string;
+    result_count?: number;
+    next_token?: string;
+  };
+  errors?: { title?: string; detail?: string }[];
+}
+
+/**
+ * Lookup tables built from a response's `includes` block.
+ */
+interface TimelineIncludes {
+  users: Map<string, TwitterUser>;
+  media: Map<string, TwitterMedia>;
+  tweets: Map<string, Tweet>;
+}
+
+/**
+ * Shared base for X/Twitter API v2 adapters.
+ * Handles authentication, rate limit headers and mapping tweets to news items.
+ */
+export abstract class TwitterBaseAdapter extends BaseAdapter {
+  /**
+   * Resolve the bearer token from config, falling back to the env var.
+   */
+  protected resolveBearerToken(config: TwitterSearchConfig | TwitterListConfig): string | undefined {
+    return config.bearerToken || process.env.TWITTER_BEARER_TOKEN || undefined;
+  }
+
+  /**
+   * Make an authenticated request and record rate limit headers.
+   */
+  protected async fetchApi(url: string, bearerToken: string): Promise<TimelineResponse> {
+    const response = await fetch(url, {
+      headers: {
+        Accept: "application/json",
+        Authorization: `Bearer ${bearerToken}`,
+        "User-Agent": process.env.SCRAPER_USER_AGENT || "ClipScout/1.0",
+      },
+      signal: AbortSignal.timeout(30000),
+    });
+
+    this.updateRateLimitFromHeaders(response.headers);
+
+    if (response.status === 429) {
+      throw new Error(`Rate limited. Reset at ${this.rateLimitReset?.toISOString() ?? "unknown"}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Twitter API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as TimelineResponse;
+
+    // The API can return 200 with only an errors array (e.g. invalid query)
+    if (!data.data && data.errors?.length) {
+      throw new Error(data.errors[0].detail || data.errors[0].title || "Twitter API error");
+    }
+
+    return data;
+  }
+
+  /**
+   * Throw if a previous response exhausted the rate limit window.
+   */
+  protected assertNotRateLimited(): void {
+    if (this.shouldWaitForRateLimit()) {
+      throw new Error(`Rate limited. Reset at ${this.rateLimitReset?.toISOString()}`);
+    }
+  }
+
+  /**
+   * Index a response's expansions by ID.
+   */
+  protected buildIncludes(data: TimelineResponse): TimelineIncludes {
+    return {
+      users: new Map((data.includes?.users || []).map((u) => [u.id, u])),
+      media: new Map((data.includes?.media || []).map((m) => [m.media_key, m])),
+      tweets: new Map((data.includes?.tweets || []).map((t) => [t.id, t])),
+    };
+  }
+
+  /**
+   * Parse a single tweet into a RawNewsItem.
+   * Quoted, replied-to and retweeted tweets are kept in rawData for context.
+   */
+  protected parseTweet(tweet: Tweet, includes: TimelineIncludes): RawNewsItem {
+    const author = tweet.author_id ? includes.users.get(tweet.author_id) : undefined;
+    const firstMedia = tweet.attachments?.media_keys
+      ?.map((key) => includes.media.get(key))
+      .find((m) => m && (m.url || m.preview_image_url));
+
+    const url = author
+      ? `https://x.com/${author.username}/status/${tweet.id}`
+      : `https://x.com/i/web/status/${tweet.id}`;
+
+    return {
+      externalId: `tw-${tweet.id}`,
+      type: this.inferNewsType(tweet.text),
+      headline: this.buildHeadline(tweet.text),
+      content: tweet.text,
+      url,
+      imageUrl: firstMedia?.url || firstMedia?.preview_image_url,
+      publishedAt: tweet.created_at ? new Date(tweet.created_at) : new Date(),
+      author: author ? `@${author.username}` : undefined,
+      rawData: {
+        tweet,
+        author,
+        quotedTweet: this.resolveReference(tweet, "quoted", includes),
+        repliedTo: this.resolveReference(tweet, "replied_to", includes),
+        retweeted: this.resolveReference(tweet, "retweeted", includes),
+        // A reply to the author's own tweet is part of a thread
+        isThread: !!tweet.in_reply_to_user_id && tweet.in_reply_to_user_id === tweet.author_id,
+        conversationId: tweet.conversation_id,
+      },
+    };
+  }
+
+  /**
+   * Infer news type from tweet text.
+   */
+  protected inferNewsType(text: string): NewsItemType {
+    const lower = text.toLowerCase();
+    const match = NEWS_TYPE_PATTERNS.find(([, pattern]) => pattern.test(lower));
+    return match ? match[0] : "ANALYSIS";
+  }
+
+  /**
+   * Use the first line of the tweet as a headline, without trailing links.
+   */
+  private buildHeadline(text: string): string {
+    const firstLine = text.split("\n").find((line) => line.trim()) || text;
+    const headline = firstLine.replace(/https?:\/\/\S+/g, "").trim();
+    return headline || "Untitled";
+  }
+
+  /**
+   * Look up a referenced tweet (and its author) from the expansions.
+   */
+  private resolveReference(
+    tweet: Tweet,
+    type: "quoted" | "replied_to" | "retweeted",
+    includes: TimelineIncludes
+  ): { tweet: Tweet; author?: TwitterUser } | undefined {
+    const ref = tweet.referenced_tweets?.find((r) => r.type === type);
+    const referenced = ref ? includes.tweets.get(ref.id) : undefined;
+    if (!referenced) return undefined;
+
+    return {
+      tweet: referenced,
+      author: referenced.author_id ? includes.users.get(referenced.author_id) : undefined,
+    };
+  }
+
+  /**
+   * Read x-rate-limit-* headers into the adapter's rate limit state.
+   */
+  private updateRateLimitFromHeaders(headers: Headers): void {
+    const remaining = headers.get("x-rate-limit-remaining");
+    if (remaining === null) return;
+
+    const reset = headers.get("x-rate-limit-reset");
+    const limit = headers.get("x-rate-limit-limit");
+
+    this.updateRateLimit(
+      parseInt(remaining, 10),
+      reset ? new Date(parseInt(reset, 10) * 1000) : undefined,
+      limit ? parseInt(limit, 10) : undefined
+    );
+  }
+}
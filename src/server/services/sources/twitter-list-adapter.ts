@@ -0,0 +1,158 @@
+import type { Source } from "@prisma/client";
+import type {
+  FetchOptions,
+  FetchResult,
+  ValidationResult,
+  RawNewsItem,
+  TwitterListConfig,
+} from "./types";
+import { TwitterBaseAdapter, TWITTER_API_BASE, TWEET_QUERY_FIELDS } from "./twitter-base-adapter";
+
+// List timelines accept 1-100 results per page
+const MIN_RESULTS_PER_PAGE = 1;
+const MAX_RESULTS_PER_PAGE = 100;
+
+// Safety cap on pages followed in a single fetch
+const MAX_PAGES = 5;
+
+/**
+ * X/Twitter List Adapter
+ * Fetches the timeline of a curated list (e.g. beat reporters) from the v2 API.
+ */
+export class TwitterListAdapter extends TwitterBaseAdapter {
+  readonly type = "TWITTER_LIST" as const;
+  readonly name = "X/Twitter List";
+
+  async fetch(source: Source, options?: FetchOptions): Promise<FetchResult> {
+    const config = this.parseConfig<TwitterListConfig>(source);
+    const bearerToken = this.resolveBearerToken(config);
+
+    if (!bearerToken) {
+      throw new Error("Failed to fetch list tweets: no bearer token configured");
+    }
+
+    this.assertNotRateLimited();
+
+    const maxItems = options?.limit ?? config.maxResults ?? MAX_RESULTS_PER_PAGE;
+    const perPage = this.clampResults(config.maxResults ?? MAX_RESULTS_PER_PAGE);
+
+    const items: RawNewsItem[] = [];
+    let nextToken: string | undefined;
+    let reachedSince = false;
+    let pages = 0;
+
+    try {
+      do {
+        const params = new URLSearchParams({
+          max_results: String(perPage),
+          ...TWEET_QUERY_FIELDS,
+        });
+        if (nextToken) params.set("pagination_token", nextToken);
+
+        const url = `${TWITTER_API_BASE}/lists/${encodeURIComponent(config.listId)}/tweets?${params}`;
+        const data = await this.fetchApi(url, bearerToken);
+        pages++;
+
+        const includes = this.buildIncludes(data);
+        for (const tweet of data.data || []) {
+          if (items.length >= maxItems) break;
+
+          // List timelines are newest first and have no since_id, so stop at 'since'
+          const item = this.parseTweet(tweet, includes);
+          if (options?.since && item.publishedAt < options.since) {
+            reachedSince = true;
+            break;
+          }
+
+          items.push(item);
+        }
+
+        nextToken = data.meta?.next_token;
+      } while (
+        nextToken &&
+        !reachedSince &&
+        items.length < maxItems &&
+        pages < MAX_PAGES &&
+        !this.shouldWaitForRateLimit()
+      );
+
+      return {
+        items,
+        hasMore: !!nextToken && !reachedSince,
+        rateLimitRemaining: this.rateLimitRemaining,
+        rateLimitReset: this.rateLimitReset,
+        metadata: {
+          listId: config.listId,
+          pages,
+        },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      throw new Error(`Failed to fetch list tweets: ${errorMessage}`);
+    }
+  }
+
+  validateConfig(config: unknown): ValidationResult {
+    if (!config || typeof config !== "object") {
+      return this.validationError(["Configuration must be an object"]);
+    }
+
+    const cfg = config as Record<string, unknown>;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    // Required: listId (numeric string)
+    if (!cfg.listId || typeof cfg.listId !== "string") {
+      errors.push("listId is required and must be a string");
+    } else if (!/^\d+$/.test(cfg.listId)) {
+      errors.push("listId must be a numeric list ID");
+    }
+
+    // Optional: maxResults
+    if (cfg.maxResults !== undefined) {
+      if (
+        typeof cfg.maxResults !== "number" ||
+        cfg.maxResults < MIN_RESULTS_PER_PAGE ||
+        cfg.maxResults > MAX_RESULTS_PER_PAGE
+      ) {
+        errors.push(`maxResults must be a number between ${MIN_RESULTS_PER_PAGE} and ${MAX_RESULTS_PER_PAGE}`);
+      }
+    }
+
+    // Optional: bearerToken (falls back to env var)
+    if (cfg.bearerToken !== undefined && typeof cfg.bearerToken !== "string") {
+      errors.push("bearerToken must be a string if provided");
+    } else if (!cfg.bearerToken && !process.env.TWITTER_BEARER_TOKEN) {
+      warnings.push("No bearer token set and TWITTER_BEARER_TOKEN is not configured");
+    }
+
+    if (errors.length > 0) {
+      return this.validationError(errors);
+    }
+
+    return this.validationSuccess(warnings);
+  }
+
+  async testConnection(config: TwitterListConfig): Promise<boolean> {
+    const bearerToken = this.resolveBearerToken(config);
+    if (!bearerToken) return false;
+
+    try {
+      const url = `${TWITTER_API_BASE}/lists/${encodeURIComponent(config.listId)}/tweets?max_results=${MIN_RESULTS_PER_PAGE}`;
+      await this.fetchApi(url, bearerToken);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Clamp a requested page size to the API's accepted range.
+   */
+  private clampResults(value: number): number {
+    return Math.min(MAX_RESULTS_PER_PAGE, Math.max(MIN_RESULTS_PER_PAGE, Math.floor(value)));
+  }
+}
+
+// Export singleton instance
+export const twitterListAdapter = new TwitterListAdapter();
@@ -0,0 +1,178 @@
+import type { Source } from "@prisma/client";
+import type {
+  FetchOptions,
+  FetchResult,
+  ValidationResult,
+  RawNewsItem,
+  TwitterSearchConfig,
+} from "./types";
+import { TwitterBaseAdapter, TWITTER_API_BASE, TWEET_QUERY_FIELDS } from "./twitter-base-adapter";
+
+// Recent search accepts 10-100 results per page
+const MIN_RESULTS_PER_PAGE = 10;
+const MAX_RESULTS_PER_PAGE = 100;
+
+// Safety cap on pages followed in a single fetch
+const MAX_PAGES = 5;
+
+// Snowflake epoch used to derive a since_id from a timestamp
+const TWITTER_EPOCH_MS = 1288834974657;
+
+// Recent search only covers the last 7 days; older since_ids are rejected
+const RECENT_SEARCH_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * X/Twitter Search Adapter
+ * Fetches tweets matching a search query from the v2 recent search endpoint.
+ */
+export class TwitterSearchAdapter extends TwitterBaseAdapter {
+  readonly type = "TWITTER_SEARCH" as const;
+  readonly name = "X/Twitter Search";
+
+  async fetch(source: Source, options?: FetchOptions): Promise<FetchResult> {
+    const config = this.parseConfig<TwitterSearchConfig>(source);
+    const bearerToken = this.resolveBearerToken(config);
+
+    if (!bearerToken) {
+      throw new Error("Failed to fetch tweets: no bearer token configured");
+    }
+
+    this.assertNotRateLimited();
+
+    const query = config.includeRetweets
+      ? config.searchQuery
+      : `${config.searchQuery} -is:retweet`;
+    const maxItems = options?.limit ?? config.maxResults ?? MAX_RESULTS_PER_PAGE;
+    const perPage = this.clampResults(config.maxResults ?? MAX_RESULTS_PER_PAGE);
+    const sinceId = options?.since ? this.sinceIdFromDate(options.since) : undefined;
+
+    const items: RawNewsItem[] = [];
+    let nextToken: string | undefined;
+    let newestId: string | undefined;
+    let pages = 0;
+
+    try {
+      do {
+        const params = new URLSearchParams({
+          query,
+          max_results: String(perPage),
+          ...TWEET_QUERY_FIELDS,
+        });
+        if (sinceId) params.set("since_id", sinceId);
+        if (nextToken) params.set("next_token", nextToken);
+
+        const data = await this.fetchApi(`${TWITTER_API_BASE}/tweets/search/recent?${params}`, bearerToken);
+        pages++;
+
+        // The first page holds the newest tweets
+        newestId = newestId ?? data.meta?.newest_id;
+
+        const includes = this.buildIncludes(data);
+        for (const tweet of data.data || []) {
+          if (items.length >= maxItems) break;
+          items.push(this.parseTweet(tweet, includes));
+        }
+
+        nextToken = data.meta?.next_token;
+      } while (nextToken && items.length < maxItems && pages < MAX_PAGES && !this.shouldWaitForRateLimit());
+
+      return {
+        items,
+        hasMore: !!nextToken,
+        rateLimitRemaining: this.rateLimitRemaining,
+        rateLimitReset: this.rateLimitReset,
+        metadata: {
+          query,
+          sinceId,
+          newestId,
+          pages,
+        },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      throw new Error(`Failed to fetch tweets: ${errorMessage}`);
+    }
+  }
+
+  validateConfig(config: unknown): ValidationResult {
+    if (!config || typeof config !== "object") {
+      return this.validationError(["Configuration must be an object"]);
+    }
+
+    const cfg = config as Record<string, unknown>;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    // Required: searchQuery
+    if (!cfg.searchQuery || typeof cfg.searchQuery !== "string") {
+      errors.push("searchQuery is required and must be a string");
+    } else if (cfg.searchQuery.length > 512) {
+      errors.push("searchQuery must be 512 characters or fewer");
+    }
+
+    // Optional: maxResults
+    if (cfg.maxResults !== undefined) {
+      if (
+        typeof cfg.maxResults !== "number" ||
+        cfg.maxResults < MIN_RESULTS_PER_PAGE ||
+        cfg.maxResults > MAX_RESULTS_PER_PAGE
+      ) {
+        errors.push(`maxResults must be a number between ${MIN_RESULTS_PER_PAGE} and ${MAX_RESULTS_PER_PAGE}`);
+      }
+    }
+
+    // Optional: includeRetweets
+    if (cfg.includeRetweets !== undefined && typeof cfg.includeRetweets !== "boolean") {
+      errors.push("includeRetweets must be a boolean");
+    }
+
+    // Optional: bearerToken (falls back to env var)
+    if (cfg.bearerToken !== undefined && typeof cfg.bearerToken !== "string") {
+      errors.push("bearerToken must be a string if provided");
+    } else if (!cfg.bearerToken && !process.env.TWITTER_BEARER_TOKEN) {
+      warnings.push("No bearer token set and TWITTER_BEARER_TOKEN is not configured");
+    }
+
+    if (errors.length > 0) {
+      return this.validationError(errors);
+    }
+
+    return this.validationSuccess(warnings);
+  }
+
+  async testConnection(config: TwitterSearchConfig): Promise<boolean> {
+    const bearerToken = this.resolveBearerToken(config);
+    if (!bearerToken) return false;
+
+    try {
+      const params = new URLSearchParams({
+        query: config.searchQuery,
+        max_results: String(MIN_RESULTS_PER_PAGE),
+      });
+      await this.fetchApi(`${TWITTER_API_BASE}/tweets/search/recent?${params}`, bearerToken);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Clamp a requested page size to the API's accepted range.
+   */
+  private clampResults(value: number): number {
+    return Math.min(MAX_RESULTS_PER_PAGE, Math.max(MIN_RESULTS_PER_PAGE, Math.floor(value)));
+  }
+
+  /**
+   * Build the smallest tweet ID created at or after a timestamp.
+   * Tweet IDs are snowflakes with the creation time in the upper bits.
+   */
+  private sinceIdFromDate(date: Date): string | undefined {
+    if (Date.now() - date.getTime() >= RECENT_SEARCH_WINDOW_MS) return undefined;
+    const offset = date.getTime() - TWITTER_EPOCH_MS;
+    return (BigInt(offset) << BigInt(22)).toString();
+  }
+}
+
+// Export singleton instance
+export const twitterSearchAdapter = new TwitterSearchAdapter();
@@ -39,6 +39,8 @@ export interface WebsiteScraperConfig {
     maxPages?: number;
   };
   waitForSelector?: string; // For dynamic sites
+  render?: boolean; // Render with a headless browser (worker only)
+  renderTimeoutMs?: number; // Per-page render timeout override
   maxItems?: number;
 }
 
@@ -48,6 +50,38 @@ export interface SportsGridConfig {
   sportsbook?: string; // Sportsbook for odds (draftkings, fanduel, caesars, betmgm, bet365)
 }
 
+export interface JsonApiConfig {
+  url: string;
+  headers?: Record<string, string>;
+  auth?: {
+    type: "bearer" | "basic" | "header";
+    token?: string; // Bearer token or header value
+    username?: string; // Basic auth
+    password?: string;
+    headerName?: string; // Custom header name, e.g. X-API-Key
+  };
+  itemsPath: string; // JSONPath-style path to the item array, e.g. $.data.articles
+  fieldMap: {
+    // JSONPath-style paths relative to each item
+    headline: string;
+    externalId?: string;
+    content?: string;
+    url?: string;
+    imageUrl?: string;
+    publishedAt?: string;
+    author?: string;
+    type?: string; // Must resolve to a NewsItemType, otherwise inferred
+  };
+  pagination?: {
+    type: "cursor" | "page";
+    param: string; // Query param carrying the cursor or page number
+    cursorPath?: string; // Path to the next cursor in the response (cursor only)
+    startPage?: number; // First page number (page only, default 1)
+    maxPages?: number;
+  };
+  maxItems?: number;
+}
+
 export interface EspnConfig {
   sport: string;
   section: "news" | "scores" | "odds" | "standings";
@@ -61,7 +95,8 @@ export type SourceConfig =
   | RssFeedConfig
   | WebsiteScraperConfig
   | SportsGridConfig
-  | EspnConfig;
+  | EspnConfig
+  | JsonApiConfig;
 
 // ============================================================================
 // Fetch Types
@@ -71,6 +106,8 @@ export interface FetchOptions {
   since?: Date; // Only fetch items after this date
   limit?: number; // Max items to fetch
   dryRun?: boolean; // Don't persist, just return items
+  cache?: FetchCacheInfo; // Validators from the previous fetch for conditional GET
+  live?: boolean; // Results only: include games in progress, not just finals
 }
 
 export interface FetchResult {
@@ -78,9 +115,19 @@ export interface FetchResult {
   hasMore: boolean;
   rateLimitRemaining?: number;
   rateLimitReset?: Date;
+  cache?: FetchCacheInfo; // Validators to store for the next fetch
+  skipReason?: FetchSkipReason; // Set when the payload was unchanged and not parsed
   metadata?: Record<string, unknown>;
 }
 
+export interface FetchCacheInfo {
+  etag?: string;
+  lastModified?: string;
+  contentHash?: string; // Fallback when the server sends no validators
+}
+
+export type FetchSkipReason = "NOT_MODIFIED" | "UNCHANGED_CONTENT";
+
 export interface RawNewsItem {
   externalId: string;
   type: NewsItemType;
@@ -123,6 +170,14 @@ export interface RawGameResult {
   rawData: unknown;
 }
 
+export interface RawRosterPlayer {
+  externalId?: string;
+  name: string;
+  team?: string;
+  position?: string;
+  aliases?: string[]; // Nicknames and short forms
+}
+
 // ============================================================================
 // Validation Types
 // ============================================================================
@@ -0,0 +1,216 @@
+import { prisma } from "@/lib/prisma";
+import type { NewsItem, Story } from "@prisma/client";
+import { addHours, subHours } from "date-fns";
+import {
+  calculateHeadlineSimilarity,
+  findNearDuplicate,
+} from "@/server/services/deduplication.service";
+import { extractEntities } from "@/server/services/entity-extraction.service";
+import type { TeamResolver } from "@/server/services/team-registry.service";
+import type { PlayerResolver } from "@/server/services/player-registry.service";
+
+/**
+ * Story service.
+ * The same news breaks on ESPN, RSS feeds and scrapers as separate items.
+ * Items are clustered into stories by headline similarity and shared teams and
+ * players, so the feed shows each story once and scoring and clip pairing run
+ * once per story.
+ */
+
+// How long a story stays open to new reports
+const STORY_WINDOW_HOURS = 36;
+
+// Recent stories compared against each new item
+const MAX_CANDIDATE_STORIES = 200;
+
+// Weighting of headline vs entity overlap in the match score
+const TEXT_WEIGHT = 0.6;
+const ENTITY_WEIGHT = 0.4;
+
+// Minimum match score to join a story
+const MATCH_THRESHOLD = 0.3;
+
+// Headlines this similar match even without shared entities
+const TEXT_ONLY_THRESHOLD = 0.6;
+
+// Generated items describe one event each and never cluster
+const STANDALONE_TOPICS = ["line_move", "score_change"];
+
+type StoryItem = Pick<
+  NewsItem,
+  "id" | "orgId" | "sport" | "type" | "headline" | "publishedAt" | "topics"
+>;
+
+export interface StoryEntities {
+  teams: string[];
+  players: string[];
+}
+
+/**
+ * How strongly an item belongs to a story.
+ * @param headlines - Headlines of the story's items
+ * @returns Score from 0 to 1, or 0 if it shouldn't join
+ */
+export function scoreStoryMatch(
+  headline: string,
+  entities: string[],
+  story: { headlines: string[]; entities: string[] }
+): number {
+  const text = Math.max(
+    0,
+    ...story.headlines.map((other) => calculateHeadlineSimilarity(headline, other))
+  );
+
+  const itemEntities = new Set(entities);
+  const storyEntities = new Set(story.entities);
+  const shared = Array.from(itemEntities).filter((entity) => storyEntities.has(entity)).length;
+  const union = new Set([...entities, ...story.entities]).size;
+  const entity = union > 0 ? shared / union : 0;
+
+  if (shared === 0 && text < TEXT_ONLY_THRESHOLD) return 0;
+
+  const score = TEXT_WEIGHT * text + ENTITY_WEIGHT * entity;
+  return score >= MATCH_THRESHOLD ? score : 0;
+}
+
+/**
+ * Put a news item in the best matching open story, or start a new one.
+ * @param entities - Canonical teams and players in the item
+ * @param knownStoryId - Story of a near-duplicate of the item, joined without comparing
+ * @returns The story, with aggregates updated
+ */
+export async function assignStory(
+  item: StoryItem,
+  entities: StoryEntities,
+  knownStoryId?: string | null
+): Promise<Story> {
+  const itemEntities = [...entities.teams, ...entities.players];
+  let best: { storyId: string; score: number } | null = knownStoryId
+    ? { storyId: knownStoryId, score: 1 }
+    : null;
+
+  if (!best && !isStandalone(item.topics)) {
+    const candidates = await prisma.story.findMany({
+      where: {
+        orgId: item.orgId,
+        sport: item.sport,
+        lastReportedAt: { gte: subHours(item.publishedAt, STORY_WINDOW_HOURS) },
+        firstReportedAt: { lte: addHours(item.publishedAt, STORY_WINDOW_HOURS) },
+      },
+      include: { newsItems: { select: { headline: true, topics: true } } },
+      orderBy: { lastReportedAt: "desc" },
+      take: MAX_CANDIDATE_STORIES,
+    });
+
+    for (const story of candidates) {
+      if (story.newsItems.some((other) => isStandalone(other.topics))) continue;
+
+      const score = scoreStoryMatch(item.headline, itemEntities, {
+        headlines: story.newsItems.map((other) => other.headline),
+        entities: [...jsonStrings(story.teams), ...jsonStrings(story.players)],
+      });
+      if (score > 0 && (!best || score > best.score)) {
+        best = { storyId: story.id, score };
+      }
+    }
+  }
+
+  const storyId =
+    best?.storyId ??
+    (
+      await prisma.story.create({
+        data: {
+          orgId: item.orgId,
+          sport: item.sport,
+          type: item.type,
+          headline: item.headline,
+          leadItemId: item.id,
+          firstReportedAt: item.publishedAt,
+          lastReportedAt: item.publishedAt,
+        },
+      })
+    ).id;
+
+  await prisma.newsItem.update({ where: { id: item.id }, data: { storyId } });
+
+  return refreshStory(storyId);
+}
+
+/**
+ * Extract and resolve an ingested item's entities, flag it if it duplicates
+ * an earlier item, save both, and cluster it. Duplicates join the original's
+ * story.
+ */
+export async function clusterNewsItem(
+  item: NewsItem,
+  teamResolver: TeamResolver,
+  playerResolver: PlayerResolver
+): Promise<Story> {
+  const entities = extractEntities(item.headline, item.content, item.sport, playerResolver);
+  const teams = teamResolver.resolveAll(entities.teams);
+  const duplicate = await findNearDuplicate(item);
+
+  await prisma.newsItem.update({
+    where: { id: item.id },
+    data: {
+      teams,
+      players: entities.players,
+      topics: entities.topics,
+      playerMentions: entities.playerMentions as object[],
+      duplicateOfId: duplicate?.id ?? null,
+    },
+  });
+
+  return assignStory(
+    { ...item, topics: entities.topics },
+    { teams, players: entities.players },
+    duplicate?.sport === item.sport ? duplicate.storyId : null
+  );
+}
+
+/**
+ * Recompute a story's coverage from its items. The earliest report leads and
+ * gives the story its headline and type.
+ */
+export async function refreshStory(storyId: string): Promise<Story> {
+  const items = await prisma.newsItem.findMany({
+    where: { storyId },
+    select: {
+      id: true,
+      sourceId: true,
+      type: true,
+      headline: true,
+      publishedAt: true,
+      teams: true,
+      players: true,
+    },
+    orderBy: { publishedAt: "asc" },
+  });
+
+  const lead = items[0];
+  if (!lead) return prisma.story.findUniqueOrThrow({ where: { id: storyId } });
+
+  return prisma.story.update({
+    where: { id: storyId },
+    data: {
+      headline: lead.headline,
+      type: lead.type,
+      leadItemId: lead.id,
+      firstReportedAt: lead.publishedAt,
+      lastReportedAt: items[items.length - 1].publishedAt,
+      itemCount: items.length,
+      sourceCount: new Set(items.map((item) => item.sourceId)).size,
+      teams: Array.from(new Set(items.flatMap((item) => jsonStrings(item.teams)))),
+      players: Array.from(new Set(items.flatMap((item) => jsonStrings(item.players)))),
+    },
+  });
+}
+
+function isStandalone(topics: unknown): boolean {
+  const itemTopics = jsonStrings(topics);
+  return STANDALONE_TOPICS.some((topic) => itemTopics.includes(topic));
+}
+
+function jsonStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === "string") : [];
+}
@@ -0,0 +1,250 @@
+import { prisma } from "@/lib/prisma";
+import type { Sport } from "@prisma/client";
+import { SPORT_TEAMS, normalizeTeamKey } from "@/server/services/team-data";
+
+/**
+ * Team registry.
+ * Maps the many spellings feeds use for a team ("LAC", "LA Clippers",
+ * "Los Angeles Clippers") to one canonical name per org and sport, and keeps
+ * track of names it couldn't place so an admin can merge them.
+ */
+
+// A merge renames every stored game, snapshot and result that used the alias
+const MERGE_TIMEOUT_MS = 60_000;
+
+/**
+ * Resolves team names for one org and sport. Load once per ingest run with
+ * getTeamResolver, call resolve() per name, then flush() to record unknowns.
+ */
+export class TeamResolver {
+  private unknown = new Map<string, string>();
+
+  constructor(
+    readonly orgId: string,
+    readonly sport: Sport,
+    private lookup: Map<string, string>
+  ) {}
+
+  /**
+   * Canonical name for a team, or the trimmed input if it isn't known.
+   */
+  resolve(name: string): string {
+    const key = normalizeTeamKey(name);
+    const canonical = this.lookup.get(key);
+    if (canonical) return canonical;
+
+    if (key) this.unknown.set(key, name.trim());
+    return name.trim();
+  }
+
+  /**
+   * Canonical name for a known team, without recording unknown names.
+   */
+  find(name: string): string | null {
+    return this.lookup.get(normalizeTeamKey(name)) ?? null;
+  }
+
+  /**
+   * Copy of a game (odds or result) with both team names resolved.
+   */
+  resolveGame<T extends { homeTeam: string; awayTeam: string }>(game: T): T {
+    return { ...game, homeTeam: this.resolve(game.homeTeam), awayTeam: this.resolve(game.awayTeam) };
+  }
+
+  /**
+   * Resolve a list of names, dropping duplicates after normalization.
+   */
+  resolveAll(names: string[]): string[] {
+    return Array.from(new Set(names.map((name) => this.resolve(name))));
+  }
+
+  /**
+   * Record names that didn't resolve so they show up for merging.
+   */
+  async flush(): Promise<void> {
+    const now = new Date();
+
+    for (const [alias, rawName] of Array.from(this.unknown.entries())) {
+      await prisma.teamAlias.upsert({
+        where: { orgId_sport_alias: { orgId: this.orgId, sport: this.sport, alias } },
+        create: { orgId: this.orgId, sport: this.sport, alias, rawName },
+        update: { seenCount: { increment: 1 }, lastSeenAt: now },
+      });
+    }
+
+    this.unknown.clear();
+  }
+}
+
+/**
+ * Seed the org's teams for a sport from the built-in dictionary the first
+ * time the sport is seen.
+ */
+export async function ensureTeamsSeeded(orgId: string, sport: Sport): Promise<void> {
+  const dictionary = SPORT_TEAMS[sport];
+  if (!dictionary) return;
+
+  const count = await prisma.team.count({ where: { orgId, sport } });
+  if (count > 0) return;
+
+  await prisma.team.createMany({
+    data: dictionary.map((team) => ({
+      orgId,
+      sport,
+      name: team.fullName,
+      city: team.city,
+      nickname: team.name,
+      abbreviation: team.abbreviation,
+    })),
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Build a resolver from the org's teams and merged aliases.
+ */
+export async function getTeamResolver(orgId: string, sport: Sport): Promise<TeamResolver> {
+  await ensureTeamsSeeded(orgId, sport);
+
+  const teams = await prisma.team.findMany({
+    where: { orgId, sport },
+    include: { aliases: true },
+  });
+
+  const lookup = new Map<string, string>();
+
+  // Nickname or city alone only identifies a team when no other team shares it
+  const counts = new Map<string, number>();
+  for (const team of teams) {
+    for (const key of [normalizeTeamKey(team.nickname), normalizeTeamKey(team.city)]) {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+
+  for (const team of teams) {
+    const keys = [
+      team.name,
+      team.abbreviation,
+      `${team.city} ${team.nickname}`,
+      ...team.aliases.map((alias) => alias.alias),
+    ].map(normalizeTeamKey);
+
+    for (const partial of [team.nickname, team.city].map(normalizeTeamKey)) {
+      if (counts.get(partial) === 1) keys.push(partial);
+    }
+
+    for (const key of keys) {
+      if (key && !lookup.has(key)) lookup.set(key, team.name);
+    }
+  }
+
+  return new TeamResolver(orgId, sport, lookup);
+}
+
+/**
+ * Point an alias at a team and rewrite stored games, odds and results that used it.
+ * @returns Number of odds snapshots and results renamed
+ */
+export async function mergeAliasIntoTeam(
+  orgId: string,
+  aliasId: string,
+  teamId: string
+): Promise<{ odds: number; results: number }> {
+  const [alias, team] = await Promise.all([
+    prisma.teamAlias.findFirst({ where: { id: aliasId, orgId } }),
+    prisma.team.findFirst({ where: { id: teamId, orgId } }),
+  ]);
+
+  if (!alias) throw new Error("Alias not found");
+  if (!team) throw new Error("Team not found");
+  if (alias.sport !== team.sport) throw new Error("Alias and team are in different sports");
+
+  // All or nothing, so a failure doesn't leave team names half-renamed
+  return prisma.$transaction(
+    async (tx) => {
+      await tx.teamAlias.update({
+        where: { id: alias.id },
+        data: { teamId: team.id },
+      });
+
+      const scope = { orgId, sport: team.sport };
+      const matches = { equals: alias.rawName, mode: "insensitive" as const };
+
+      await tx.game.updateMany({
+        where: { ...scope, homeTeam: matches },
+        data: { homeTeam: team.name },
+      });
+      await tx.game.updateMany({
+        where: { ...scope, awayTeam: matches },
+        data: { awayTeam: team.name },
+      });
+
+      const home = await tx.oddsSnapshot.updateMany({
+        where: { ...scope, homeTeam: matches },
+        data: { homeTeam: team.name },
+      });
+      const away = await tx.oddsSnapshot.updateMany({
+        where: { ...scope, awayTeam: matches },
+        data: { awayTeam: team.name },
+      });
+
+      // Results are unique per matchup, so rename one at a time and leave
+      // duplicates of an already-canonical game alone
+      const results = await tx.gameResult.findMany({
+        where: { ...scope, OR: [{ homeTeam: matches }, { awayTeam: matches }] },
+      });
+
+      let renamed = 0;
+      for (const result of results) {
+        const homeTeam = result.homeTeam.toLowerCase() === alias.rawName.toLowerCase() ? team.name : result.homeTeam;
+        const awayTeam = result.awayTeam.toLowerCase() === alias.rawName.toLowerCase() ? team.name : result.awayTeam;
+
+        const duplicate = await tx.gameResult.findUnique({
+          where: {
+            orgId_homeTeam_awayTeam_gameDate: { orgId, homeTeam, awayTeam, gameDate: result.gameDate },
+          },
+        });
+        if (duplicate) continue;
+
+        await tx.gameResult.update({
+          where: { id: result.id },
+          data: { homeTeam, awayTeam },
+        });
+        renamed++;
+      }
+
+      return { odds: home.count + away.count, results: renamed };
+    },
+    { timeout: MERGE_TIMEOUT_MS }
+  );
+}
+
+/**
+ * Create a team from an unknown alias (for sports without a built-in list).
+ */
+export async function createTeamFromAlias(orgId: string, aliasId: string) {
+  const alias = await prisma.teamAlias.findFirst({ where: { id: aliasId, orgId } });
+  if (!alias) throw new Error("Alias not found");
+
+  const words = alias.rawName.split(/\s+/);
+  const nickname = words.length > 1 ? words[words.length - 1] : alias.rawName;
+  const city = words.length > 1 ? words.slice(0, -1).join(" ") : alias.rawName;
+
+  const team = await prisma.team.create({
+    data: {
+      orgId,
+      sport: alias.sport,
+      name: alias.rawName,
+      city,
+      nickname,
+      abbreviation: alias.rawName.replace(/[^A-Za-z]/g, "").slice(0, 3).toUpperCase(),
+    },
+  });
+
+  await prisma.teamAlias.update({
+    where: { id: alias.id },
+    data: { teamId: team.id },
+  });
+
+  return team;
+}
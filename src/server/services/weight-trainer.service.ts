@@ -0,0 +1,271 @@
+import { prisma } from "@/lib/prisma";
+import type { FeedbackTarget, Prisma, WeightProposal } from "@prisma/client";
+import { DEFAULT_FACTOR_WEIGHTS } from "@/server/services/importance-scorer";
+import { getScoringProfile } from "@/server/services/importance-profile.service";
+import {
+  DEFAULT_CLIP_MATCH_WEIGHTS,
+  getClipMatchWeights,
+} from "@/server/services/clip-pairer";
+
+/**
+ * Weight trainer.
+ * Fits a logistic regression over producer feedback (importance factors, or
+ * clip match features) and turns the coefficients into proposed weights. The
+ * newest feedback is held out to measure precision@k under the current and
+ * proposed weights, so a manager can see whether accepting would help.
+ * Runs in-process on the org's own data; nothing leaves the server.
+ */
+
+// Minimum examples to train on, and of each label
+const MIN_EXAMPLES = 30;
+const MIN_PER_LABEL = 5;
+
+// Share of examples, newest first, held out for evaluation
+const TEST_SHARE = 0.2;
+const MIN_TEST_EXAMPLES = 5;
+
+// Precision is measured over the top k held-out examples
+const PRECISION_K = 10;
+
+// Gradient descent settings
+const EPOCHS = 2000;
+const LEARNING_RATE = 0.5;
+const L2_PENALTY = 0.001;
+
+export interface TrainingExample {
+  features: number[];
+  label: boolean;
+  createdAt: Date;
+}
+
+export interface LogisticModel {
+  coefficients: number[];
+  intercept: number;
+}
+
+export interface WeightProposalMetrics {
+  k: number;
+  precisionBefore: number;
+  precisionAfter: number;
+  train: number;
+  test: number;
+  positives: number;
+  coefficients: Record<string, number>;
+}
+
+/**
+ * Feature names in training order for a target.
+ */
+export function featureKeys(target: FeedbackTarget): string[] {
+  return Object.keys(target === "IMPORTANCE" ? DEFAULT_FACTOR_WEIGHTS : DEFAULT_CLIP_MATCH_WEIGHTS);
+}
+
+/**
+ * Fit a logistic regression by batch gradient descent with L2 regularization.
+ * Examples are weighted so both labels count equally, since dismissals and
+ * confirmations are rarely balanced.
+ */
+export function trainLogisticRegression(examples: TrainingExample[]): LogisticModel {
+  const dimensions = examples[0]?.features.length ?? 0;
+  const coefficients = new Array<number>(dimensions).fill(0);
+  let intercept = 0;
+
+  const positives = examples.filter((example) => example.label).length;
+  const negatives = examples.length - positives;
+  const sampleWeight = (label: boolean) =>
+    examples.length / (2 * (label ? Math.max(positives, 1) : Math.max(negatives, 1)));
+
+  for (let epoch = 0; epoch < EPOCHS; epoch++) {
+    const gradient = new Array<number>(dimensions).fill(0);
+    let interceptGradient = 0;
+
+    for (const example of examples) {
+      const error =
+        (predict({ coefficients, intercept }, example.features) - (example.label ? 1 : 0)) *
+        sampleWeight(example.label);
+      for (let i = 0; i < dimensions; i++) gradient[i] += error * example.features[i];
+      interceptGradient += error;
+    }
+
+    for (let i = 0; i < dimensions; i++) {
+      coefficients[i] -= LEARNING_RATE * (gradient[i] / examples.length + L2_PENALTY * coefficients[i]);
+    }
+    intercept -= (LEARNING_RATE * interceptGradient) / examples.length;
+  }
+
+  return { coefficients, intercept };
+}
+
+/**
+ * Share of positives among the k highest-scoring examples.
+ */
+export function precisionAtK(scores: number[], labels: boolean[], k: number): number {
+  const top = scores
+    .map((score, index) => ({ score, label: labels[index] }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+
+  return top.length > 0 ? top.filter((entry) => entry.label).length / top.length : 0;
+}
+
+/**
+ * Labeled examples from the org's feedback. Only the latest feedback on each
+ * news item (or news item and clip) counts, so a clip paired and then
+ * unpaired is one negative.
+ */
+export async function getTrainingExamples(
+  orgId: string,
+  target: FeedbackTarget
+): Promise<TrainingExample[]> {
+  const events = await prisma.feedbackEvent.findMany({
+    where: { orgId, target },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const keys = featureKeys(target);
+  const seen = new Set<string>();
+  const examples: TrainingExample[] = [];
+
+  for (const event of events) {
+    const key = `${event.newsItemId}:${event.candidateId ?? ""}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const features = toVector(event.features, keys);
+    if (!features) continue;
+
+    examples.push({ features, label: event.label, createdAt: event.createdAt });
+  }
+
+  return examples.reverse();
+}
+
+/**
+ * Train on the org's feedback and store the resulting weights as a pending
+ * proposal, replacing any earlier pending one for the target.
+ * @throws If there isn't enough feedback, or none of it favors any feature
+ */
+export async function proposeWeights(
+  orgId: string,
+  target: FeedbackTarget,
+  userId: string | null = null
+): Promise<WeightProposal> {
+  const examples = await getTrainingExamples(orgId, target);
+  const positives = examples.filter((example) => example.label).length;
+
+  if (
+    examples.length < MIN_EXAMPLES ||
+    positives < MIN_PER_LABEL ||
+    examples.length - positives < MIN_PER_LABEL
+  ) {
+    throw new Error(
+      `Need at least ${MIN_EXAMPLES} feedback examples with ${MIN_PER_LABEL} of each kind ` +
+        `(have ${positives} positive, ${examples.length - positives} negative)`
+    );
+  }
+
+  // Oldest examples train, newest test, as the weights will be used going forward
+  const testSize = Math.max(MIN_TEST_EXAMPLES, Math.round(examples.length * TEST_SHARE));
+  const train = examples.slice(0, examples.length - testSize);
+  const test = examples.slice(examples.length - testSize);
+
+  const keys = featureKeys(target);
+  const model = trainLogisticRegression(train);
+  const baseline = await getBaselineWeights(orgId, target);
+  const weights = toWeights(model, keys, sum(Object.values(baseline)));
+
+  if (!weights) {
+    throw new Error("Feedback doesn't favor any factor; keeping the current weights");
+  }
+
+  const k = Math.min(PRECISION_K, test.length);
+  const labels = test.map((example) => example.label);
+  const metrics: WeightProposalMetrics = {
+    k,
+    precisionBefore: precisionAtK(
+      test.map((example) => dot(example.features, keys.map((key) => baseline[key]))),
+      labels,
+      k
+    ),
+    precisionAfter: precisionAtK(
+      test.map((example) => dot(example.features, keys.map((key) => weights[key]))),
+      labels,
+      k
+    ),
+    train: train.length,
+    test: test.length,
+    positives,
+    coefficients: Object.fromEntries(keys.map((key, i) => [key, round(model.coefficients[i])])),
+  };
+
+  return prisma.$transaction(async (tx) => {
+    await tx.weightProposal.updateMany({
+      where: { orgId, target, status: "PENDING" },
+      data: { status: "SUPERSEDED" },
+    });
+
+    return tx.weightProposal.create({
+      data: {
+        orgId,
+        target,
+        weights,
+        baselineWeights: baseline,
+        metrics: metrics as unknown as Prisma.InputJsonValue,
+        createdByUserId: userId,
+      },
+    });
+  });
+}
+
+async function getBaselineWeights(
+  orgId: string,
+  target: FeedbackTarget
+): Promise<Record<string, number>> {
+  return target === "IMPORTANCE"
+    ? (await getScoringProfile(orgId)).weights
+    : await getClipMatchWeights(orgId);
+}
+
+/**
+ * Weights from a model: negative coefficients drop to zero (feedback doesn't
+ * support penalizing a signal) and the rest are scaled to the baseline's
+ * total, keeping scores on the same scale.
+ */
+function toWeights(
+  model: LogisticModel,
+  keys: string[],
+  total: number
+): Record<string, number> | null {
+  const positive = model.coefficients.map((coefficient) => Math.max(0, coefficient));
+  const positiveTotal = sum(positive);
+  if (positiveTotal <= 0) return null;
+
+  return Object.fromEntries(
+    keys.map((key, i) => [key, round((positive[i] / positiveTotal) * total)])
+  );
+}
+
+function toVector(features: Prisma.JsonValue, keys: string[]): number[] | null {
+  if (!features || typeof features !== "object" || Array.isArray(features)) return null;
+
+  const value = features as Prisma.JsonObject;
+  return keys.every((key) => typeof value[key] === "number")
+    ? keys.map((key) => value[key] as number)
+    : null;
+}
+
+function predict(model: LogisticModel, features: number[]): number {
+  return 1 / (1 + Math.exp(-(dot(features, model.coefficients) + model.intercept)));
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((total, value, i) => total + value * b[i], 0);
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,95 @@
+import { Worker, Job } from "bullmq";
+import { getRedis } from "@/lib/redis";
+import { QUEUE_NAMES, AlertJobData, alertQueue } from "@/lib/queue";
+import {
+  DIGEST_CHECK_INTERVAL_MS,
+  deliverWebhook,
+  getUsersWithPendingEmails,
+  markWebhookFailed,
+  sendDueEmails,
+} from "@/server/services/alert-delivery.service";
+
+/**
+ * Process an alert delivery job.
+ * Emails a user's due alerts, posts a webhook, or checks every user with held
+ * emails for ones now due.
+ */
+export async function processAlert(job: Job<AlertJobData>) {
+  const { data } = job;
+
+  try {
+    switch (data.type) {
+      case "email": {
+        const sent = await sendDueEmails(data.userId);
+        return { sent };
+      }
+
+      case "webhook":
+        await deliverWebhook(data.notificationId);
+        return { delivered: true };
+
+      case "flush-digests": {
+        let sent = 0;
+        for (const userId of await getUsersWithPendingEmails()) {
+          try {
+            sent += await sendDueEmails(userId);
+          } catch (error) {
+            console.error(`[Alerts] Failed to email user ${userId}:`, error);
+          }
+        }
+        if (sent > 0) console.log(`[Alerts] Sent ${sent} held alert(s)`);
+        return { sent };
+      }
+    }
+  } catch (error) {
+    // Out of retries: record the webhook as failed
+    if (data.type === "webhook" && job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+      await markWebhookFailed(data.notificationId);
+    }
+    console.error(`[Alerts] Job ${job.id} failed:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Create and start the alert worker.
+ * One job at a time so a user's emails are never sent twice.
+ */
+export function createAlertWorker() {
+  const worker = new Worker<AlertJobData>(
+    QUEUE_NAMES.ALERT,
+    async (job) => processAlert(job),
+    {
+      connection: getRedis(),
+      concurrency: 1,
+    }
+  );
+
+  worker.on("failed", (job, err) => {
+    console.error(`[Alerts] Job ${job?.id} failed:`, err.message);
+  });
+
+  return worker;
+}
+
+/**
+ * Schedule the repeating check for held emails.
+ */
+export async function initializeAlertDigests() {
+  const repeatableJobs = await alertQueue.instance.getRepeatableJobs();
+  for (const job of repeatableJobs) {
+    await alertQueue.instance.removeRepeatableByKey(job.key);
+  }
+
+  await alertQueue.add(
+    "flush-digests",
+    { type: "flush-digests" as const },
+    {
+      repeat: { every: DIGEST_CHECK_INTERVAL_MS },
+      jobId: "alert-digest-heartbeat",
+      attempts: 1,
+    }
+  );
+
+  console.log(`[Alerts] Checking held emails every ${DIGEST_CHECK_INTERVAL_MS / 60000}m`);
+}
@@ -0,0 +1,53 @@
+import { Worker, Job } from "bullmq";
+import { getRedis } from "@/lib/redis";
+import { QUEUE_NAMES, BetGradeJobData } from "@/lib/queue";
+import { gradeGameResult } from "@/server/services/bet-grading.service";
+
+/**
+ * Process a bet grade job.
+ * Grades a final game against each sportsbook's closing line.
+ */
+export async function processBetGrade(job: Job<BetGradeJobData>) {
+  const { gameResultId } = job.data;
+
+  console.log(`[BetGrade] Starting job ${job.id} for game result ${gameResultId}`);
+
+  try {
+    const grading = await gradeGameResult(gameResultId);
+
+    if (!grading) {
+      console.log(`[BetGrade] Job ${job.id} skipped: game not final`);
+      return { graded: false };
+    }
+
+    console.log(`[BetGrade] Job ${job.id} completed: ${grading.books.length} books graded`);
+    return { graded: true, books: grading.books.length };
+  } catch (error) {
+    console.error(`[BetGrade] Job ${job.id} failed:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Create and start the bet grade worker.
+ */
+export function createBetGradeWorker() {
+  const worker = new Worker<BetGradeJobData>(
+    QUEUE_NAMES.BET_GRADE,
+    async (job) => processBetGrade(job),
+    {
+      connection: getRedis(),
+      concurrency: 3,
+    }
+  );
+
+  worker.on("completed", (job) => {
+    console.log(`[BetGrade] Job ${job.id} completed`);
+  });
+
+  worker.on("failed", (job, err) => {
+    console.error(`[BetGrade] Job ${job?.id} failed:`, err.message);
+  });
+
+  return worker;
+}
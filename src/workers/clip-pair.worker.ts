@@ -3,6 +3,7 @@ import { prisma } from "@/lib/prisma";
 import { getRedis } from "@/lib/redis";
 import { QUEUE_NAMES, ClipPairJobData } from "@/lib/queue";
 import { findClipsForNews } from "@/server/services/clip-pairer";
+import { linkCandidatesToGame } from "@/server/services/game.service";
 
 /**
  * Process a clip pair job.
@@ -50,6 +51,14 @@ export async function processClipPair(job: Job<ClipPairJobData>) {
       });
     }
 
+    // Clips about a game's news show up on the game too
+    if (newsItem.gameId) {
+      await linkCandidatesToGame(
+        newsItem.gameId,
+        matches.map((match) => match.candidateId)
+      );
+    }
+
     // Update news item paired status
     if (matches.length > 0) {
       await prisma.newsItem.update({
@@ -0,0 +1,99 @@
+import { Worker, Job } from "bullmq";
+import { getRedis } from "@/lib/redis";
+import {
+  QUEUE_NAMES,
+  ImportanceRescoreJobData,
+  importanceRescoreQueue,
+  clipPairQueue,
+} from "@/lib/queue";
+import {
+  getRescoreOrgIds,
+  rescoreRecentStories,
+  RESCORE_INTERVAL_MS,
+} from "@/server/services/importance-rescore.service";
+import { evaluateAlerts } from "@/server/services/alert.service";
+import { queueAlertDeliveries } from "@/server/services/alert-delivery.service";
+
+/**
+ * Process an importance re-score.
+ * Refreshes the time-dependent factors of every org's recent stories, queues
+ * clip pairing for stories that rose past the threshold and alerts watchlists
+ * whose minimum they now clear.
+ */
+export async function processImportanceRescore(job: Job<ImportanceRescoreJobData>) {
+  try {
+    const now = new Date();
+    let scanned = 0;
+    let updated = 0;
+    let queued = 0;
+
+    for (const orgId of await getRescoreOrgIds(now)) {
+      const result = await rescoreRecentStories(orgId, now);
+      scanned += result.scanned;
+      updated += result.updated;
+
+      for (const newsItemId of result.toPair) {
+        await clipPairQueue.add("pair-clips", { newsItemId, orgId });
+        queued++;
+      }
+
+      // Stories that rose may now clear a watchlist's minimum
+      for (const newsItemId of result.risen) {
+        await evaluateAlerts(orgId, newsItemId)
+          .then(queueAlertDeliveries)
+          .catch((error) => console.error(`[ImportanceRescore] Alerts failed for ${newsItemId}:`, error));
+      }
+    }
+
+    console.log(
+      `[ImportanceRescore] Job ${job.id}: ${updated}/${scanned} stories re-scored, ${queued} queued for pairing`
+    );
+    return { scanned, updated, queued };
+  } catch (error) {
+    console.error(`[ImportanceRescore] Job ${job.id} failed:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Create and start the importance re-score worker.
+ * Runs one re-score at a time so slow runs never overlap.
+ */
+export function createImportanceRescoreWorker() {
+  const worker = new Worker<ImportanceRescoreJobData>(
+    QUEUE_NAMES.IMPORTANCE_RESCORE,
+    async (job) => processImportanceRescore(job),
+    {
+      connection: getRedis(),
+      concurrency: 1,
+    }
+  );
+
+  worker.on("failed", (job, err) => {
+    console.error(`[ImportanceRescore] Job ${job?.id} failed:`, err.message);
+  });
+
+  return worker;
+}
+
+/**
+ * Schedule the repeating re-score.
+ */
+export async function initializeImportanceRescorer() {
+  const repeatableJobs = await importanceRescoreQueue.instance.getRepeatableJobs();
+  for (const job of repeatableJobs) {
+    await importanceRescoreQueue.instance.removeRepeatableByKey(job.key);
+  }
+
+  await importanceRescoreQueue.add(
+    "rescore-recent",
+    { type: "rescore-recent" as const },
+    {
+      repeat: { every: RESCORE_INTERVAL_MS },
+      jobId: "importance-rescore-heartbeat",
+      attempts: 1,
+    }
+  );
+
+  console.log(`[ImportanceRescore] Re-scoring every ${RESCORE_INTERVAL_MS / 60000}m`);
+}
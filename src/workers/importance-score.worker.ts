@@ -1,13 +1,38 @@
 import { Worker, Job } from "bullmq";
+import type { Story } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { getRedis } from "@/lib/redis";
 import { QUEUE_NAMES, ImportanceScoreJobData, clipPairQueue } from "@/lib/queue";
 import { extractEntities } from "@/server/services/entity-extraction.service";
 import { calculateImportanceScore } from "@/server/services/importance-scorer";
+import { getBettingMarketSignals } from "@/server/services/odds-comparison.service";
+import { getTeamResolver } from "@/server/services/team-registry.service";
+import { getPlayerResolver } from "@/server/services/player-registry.service";
+import { findGameForNews, getUpcomingGames } from "@/server/services/game.service";
+import { assignStory, refreshStory } from "@/server/services/story.service";
+import {
+  aiScoringSignal,
+  analyzeForImportance,
+  mergeAiEntities,
+  type StoredAiAnalysis,
+} from "@/server/services/news-ai.service";
+import { NEWS_ANALYSIS_MODEL } from "@/server/services/ai-analyzer";
+import { getScoringProfile } from "@/server/services/importance-profile.service";
+import { CLIP_PAIR_THRESHOLD } from "@/server/services/importance-rescore.service";
+import { evaluateAlerts } from "@/server/services/alert.service";
+import { queueAlertDeliveries } from "@/server/services/alert-delivery.service";
+import { detectBreakingStory } from "@/server/services/breaking.service";
 
 /**
  * Process an importance score job.
  * Extracts entities, calculates importance score, and queues for clip pairing if score is high enough.
+ * Items that score well on the rules alone are analyzed by Claude (within the
+ * org's daily budget) and re-scored with the AI's entities, type and time
+ * sensitivity merged in.
+ * Scoring, AI analysis and pairing run once per story: the first report
+ * claims the story with its rule-based score, and later reports take the
+ * story's score. Each report also checks whether the story's sources are
+ * arriving fast enough to make it breaking.
  */
 export async function processImportanceScore(job: Job<ImportanceScoreJobData>) {
   const { newsItemId, orgId } = job.data;
@@ -18,52 +43,217 @@ export async function processImportanceScore(job: Job<ImportanceScoreJobData>) {
     // Get news item
     const newsItem = await prisma.newsItem.findUnique({
       where: { id: newsItemId },
-      include: { source: true },
+      include: { source: true, story: true },
     });
 
     if (!newsItem) {
       throw new Error(`News item not found: ${newsItemId}`);
     }
 
-    // Extract entities
+    // Extract entities, resolving players against the sport's roster
+    const playerRegistry = await getPlayerResolver(orgId, newsItem.sport);
     const entities = extractEntities(
       newsItem.headline,
       newsItem.content || "",
-      newsItem.sport
+      newsItem.sport,
+      playerRegistry
     );
 
-    // Calculate importance score
-    const scoreResult = calculateImportanceScore(newsItem, newsItem.source.name);
+    // Canonical team names so scoring matches odds and results
+    const teamRegistry = await getTeamResolver(orgId, newsItem.sport);
+    const teams = teamRegistry.resolveAll(entities.teams);
+    await teamRegistry.flush();
+
+    // Keep topics set at creation, like line_move and score_change
+    const topics = Array.from(new Set([...(newsItem.topics as string[]), ...entities.topics]));
+
+    // Link items about a matchup to the game (line moves come pre-linked)
+    const gameId =
+      newsItem.gameId ??
+      (await findGameForNews(orgId, newsItem.sport, teams, newsItem.publishedAt));
+
+    // Items not clustered when created get their story here
+    const story =
+      newsItem.story ??
+      (await assignStory(newsItem, { teams, players: entities.players }));
+
+    // Another source's report of this story was already scored
+    const takeStoryScore = async (scoredStory: Story) => {
+      await prisma.newsItem.update({
+        where: { id: newsItemId },
+        data: {
+          teams,
+          players: entities.players,
+          topics,
+          playerMentions: entities.playerMentions as object[],
+          gameId,
+          importanceScore: scoredStory.importanceScore,
+          scoreBreakdown: scoredStory.scoreBreakdown as object,
+          scoreProfile: scoredStory.scoreProfile,
+          isProcessed: true,
+        },
+      });
+
+      await checkBreaking(orgId, scoredStory.id);
+
+      console.log(`[ImportanceScore] Job ${job.id} completed: story ${scoredStory.id} already scored`);
+      return { score: scoredStory.importanceScore, entities, storyId: scoredStory.id };
+    };
+
+    if (story.scoredAt) return takeStoryScore(story);
+
+    // Odds market state and kickoff times for the sport's upcoming games
+    const bettingMarkets = await getBettingMarketSignals(orgId, newsItem.sport);
+    const upcomingGames = await getUpcomingGames(orgId, newsItem.sport);
+
+    // The org's factor and topic weights
+    const profile = await getScoringProfile(orgId);
+
+    // Rule-based pre-score with the freshly extracted entities
+    const rules = { type: newsItem.type, teams, players: entities.players, topics };
+    let scored = rules;
+    let scoreResult = calculateImportanceScore(
+      { ...newsItem, ...rules },
+      newsItem.source,
+      upcomingGames,
+      { bettingMarkets, profile }
+    );
+
+    // Claim the story before analysis so concurrent jobs for its other
+    // reports neither pay for AI nor pair; they take the score set here
+    const claimed = await prisma.story.updateMany({
+      where: { id: story.id, scoredAt: null },
+      data: {
+        importanceScore: scoreResult.totalScore,
+        scoreBreakdown: scoreResult.breakdown as object,
+        scoreProfile: scoreResult.profileId,
+        scoredAt: new Date(),
+      },
+    });
+
+    if (claimed.count === 0) {
+      return takeStoryScore(await prisma.story.findUniqueOrThrow({ where: { id: story.id } }));
+    }
+
+    // AI analysis for items worth it, falling back to the rules without one
+    const preScore = scoreResult.totalScore;
+    const ai = await analyzeForImportance(orgId, newsItem, preScore);
+    let aiAnalysis: StoredAiAnalysis | null = null;
+
+    if (ai.analysis) {
+      scored = mergeAiEntities(rules, ai.analysis, teamRegistry, playerRegistry);
+      scoreResult = calculateImportanceScore(
+        { ...newsItem, ...scored },
+        newsItem.source,
+        upcomingGames,
+        { bettingMarkets, aiSignal: aiScoringSignal(ai.analysis), profile }
+      );
+      aiAnalysis = {
+        ...ai.analysis,
+        model: NEWS_ANALYSIS_MODEL,
+        preScore,
+        cached: ai.cached,
+        analyzedAt: new Date().toISOString(),
+      };
+    } else if (ai.skipped === "OVER_BUDGET") {
+      console.log(`[ImportanceScore] AI budget exhausted for org ${orgId}, using rule-based score`);
+    }
 
     // Update news item
     await prisma.newsItem.update({
       where: { id: newsItemId },
       data: {
-        teams: entities.teams,
-        players: entities.players,
-        topics: entities.topics,
+        type: scored.type,
+        teams: scored.teams,
+        players: scored.players,
+        topics: scored.topics,
+        playerMentions: entities.playerMentions as object[],
+        gameId,
         importanceScore: scoreResult.totalScore,
         scoreBreakdown: scoreResult.breakdown as object,
+        scoreProfile: scoreResult.profileId,
+        ...(aiAnalysis && { aiAnalysis: JSON.stringify(aiAnalysis) }),
         isProcessed: true,
       },
     });
 
+    if (aiAnalysis) {
+      // The story takes its lead item's type and everyone's teams and players
+      await refreshStory(story.id);
+
+      // Replace the claimed pre-score, unless the story turned breaking meanwhile
+      const rescored = await prisma.story.updateMany({
+        where: { id: story.id, isBreaking: false },
+        data: {
+          importanceScore: scoreResult.totalScore,
+          scoreBreakdown: scoreResult.breakdown as object,
+          scoreProfile: scoreResult.profileId,
+        },
+      });
+
+      // Reports that took the pre-score in the meantime
+      if (rescored.count > 0) {
+        await prisma.newsItem.updateMany({
+          where: { storyId: story.id, isProcessed: true, id: { not: newsItemId } },
+          data: {
+            importanceScore: scoreResult.totalScore,
+            scoreBreakdown: scoreResult.breakdown as object,
+            scoreProfile: scoreResult.profileId,
+          },
+        });
+      }
+    }
+
     // Queue for clip pairing if score is high enough
-    if (scoreResult.totalScore >= 40) {
+    if (scoreResult.totalScore >= CLIP_PAIR_THRESHOLD) {
       await clipPairQueue.add("pair-clips", {
         newsItemId,
         orgId,
       });
     }
 
+    // Alert watchlists once per story; delivery problems don't fail scoring
+    await evaluateAlerts(orgId, newsItemId)
+      .then(queueAlertDeliveries)
+      .catch((error) => console.error(`[ImportanceScore] Alerts failed for ${newsItemId}:`, error));
+
+    await checkBreaking(orgId, story.id);
+
     console.log(`[ImportanceScore] Job ${job.id} completed: score=${scoreResult.totalScore}`);
-    return { score: scoreResult.totalScore, entities };
+    return { score: scoreResult.totalScore, entities, storyId: story.id };
   } catch (error) {
     console.error(`[ImportanceScore] Job ${job.id} failed:`, error);
     throw error;
   }
 }
 
+/**
+ * Flag the story breaking if enough sources reported it in quick succession,
+ * pair clips if the boost lifted it past the threshold, and alert its
+ * watchlists at high priority.
+ */
+async function checkBreaking(orgId: string, storyId: string) {
+  const breaking = await detectBreakingStory(storyId);
+  if (!breaking?.leadItemId) return;
+
+  const leadItemId = breaking.leadItemId;
+  console.log(
+    `[ImportanceScore] Story ${storyId} is breaking: ${breaking.velocity} sources, score=${breaking.score}`
+  );
+
+  if (
+    !breaking.isPaired &&
+    breaking.previousScore < CLIP_PAIR_THRESHOLD &&
+    breaking.score >= CLIP_PAIR_THRESHOLD
+  ) {
+    await clipPairQueue.add("pair-clips", { newsItemId: leadItemId, orgId });
+  }
+
+  await evaluateAlerts(orgId, leadItemId, "HIGH")
+    .then(queueAlertDeliveries)
+    .catch((error) => console.error(`[ImportanceScore] Breaking alerts failed for ${leadItemId}:`, error));
+}
+
 /**
  * Create and start the importance score worker.
  */
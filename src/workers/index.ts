@@ -20,13 +20,30 @@ import { QUEUE_NAMES } from "@/lib/queue";
 import { processSourceFetch, createSourceFetchWorker } from "./source-fetch.worker";
 import { processImportanceScore, createImportanceScoreWorker } from "./importance-score.worker";
 import { processClipPair, createClipPairWorker } from "./clip-pair.worker";
+import { createBetGradeWorker } from "./bet-grade.worker";
+import { createLiveScoreWorker, initializeLiveScorePoller } from "./live-score.worker";
 import { createQueryRunWorker } from "./query-run.worker";
+import {
+  createImportanceRescoreWorker,
+  initializeImportanceRescorer,
+} from "./importance-rescore.worker";
+import { createAlertWorker, initializeAlertDigests } from "./alert.worker";
+import { registerAdapter } from "@/server/services/sources";
+import { ScraperAdapter } from "@/server/services/sources/scraper-adapter";
+import { BrowserPool, getBrowserPoolOptionsFromEnv } from "@/server/services/sources/browser-pool";
 
 const workers: Worker[] = [];
 
+// Shared headless browser for scrape sources with rendering enabled
+const browserPool = new BrowserPool(getBrowserPoolOptionsFromEnv());
+
 async function createWorkers() {
   console.log("Creating workers...");
 
+  // Browser-backed scraper replaces the HTTP-only default in this process
+  registerAdapter("WEBSITE_SCRAPE", new ScraperAdapter({ renderer: browserPool }));
+  console.log("  - WEBSITE_SCRAPE adapter registered with browser rendering");
+
   // Source Fetch Worker
   const sourceFetchWorker = createSourceFetchWorker();
   workers.push(sourceFetchWorker);
@@ -37,11 +54,34 @@ async function createWorkers() {
   workers.push(importanceScoreWorker);
   console.log(`  - ${QUEUE_NAMES.IMPORTANCE_SCORE} worker created`);
 
+  // Importance Re-score Worker
+  const importanceRescoreWorker = createImportanceRescoreWorker();
+  workers.push(importanceRescoreWorker);
+  await initializeImportanceRescorer();
+  console.log(`  - ${QUEUE_NAMES.IMPORTANCE_RESCORE} worker created`);
+
+  // Alert Worker
+  const alertWorker = createAlertWorker();
+  workers.push(alertWorker);
+  await initializeAlertDigests();
+  console.log(`  - ${QUEUE_NAMES.ALERT} worker created`);
+
   // Clip Pair Worker
   const clipPairWorker = createClipPairWorker();
   workers.push(clipPairWorker);
   console.log(`  - ${QUEUE_NAMES.CLIP_PAIR} worker created`);
 
+  // Bet Grade Worker
+  const betGradeWorker = createBetGradeWorker();
+  workers.push(betGradeWorker);
+  console.log(`  - ${QUEUE_NAMES.BET_GRADE} worker created`);
+
+  // Live Score Worker
+  const liveScoreWorker = createLiveScoreWorker();
+  workers.push(liveScoreWorker);
+  await initializeLiveScorePoller();
+  console.log(`  - ${QUEUE_NAMES.LIVE_SCORE} worker created`);
+
   // Query Run Worker
   const queryRunWorker = createQueryRunWorker();
   workers.push(queryRunWorker);
@@ -58,6 +98,9 @@ async function shutdown() {
     console.log(`  - ${worker.name} closed`);
   }
 
+  await browserPool.close();
+  console.log("Browser pool closed");
+
   await getRedis().quit();
   console.log("Redis connection closed");
 
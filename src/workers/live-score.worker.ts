@@ -0,0 +1,107 @@
+import { Worker, Job } from "bullmq";
+import { getRedis } from "@/lib/redis";
+import {
+  QUEUE_NAMES,
+  LiveScoreJobData,
+  liveScoreQueue,
+  importanceScoreQueue,
+  betGradeQueue,
+} from "@/lib/queue";
+import {
+  getLiveSports,
+  pollLiveScores,
+  LIVE_POLL_INTERVAL_MS,
+} from "@/server/services/live-score.service";
+
+// Org/sport pairs in live mode on the last check, for logging transitions
+let liveSports = new Set<string>();
+
+/**
+ * Process a live score check.
+ * Polls every sport with games in progress and queues score changes for
+ * importance scoring. With nothing live it's a single query, so polling
+ * scales back down by itself once the last game ends.
+ */
+export async function processLiveScore(job: Job<LiveScoreJobData>) {
+  try {
+    const live = await getLiveSports();
+    const current = new Set(live.map((entry) => `${entry.orgId}:${entry.sport}`));
+
+    for (const key of Array.from(current)) {
+      if (!liveSports.has(key)) console.log(`[LiveScore] Live mode on for ${key}`);
+    }
+    for (const key of Array.from(liveSports)) {
+      if (!current.has(key)) console.log(`[LiveScore] Live mode off for ${key}`);
+    }
+    liveSports = current;
+
+    let results = 0;
+    let changes = 0;
+
+    for (const { orgId, sport } of live) {
+      const poll = await pollLiveScores(orgId, sport);
+      results += poll.results;
+      changes += poll.changes.length;
+
+      for (const change of poll.changes) {
+        console.log(`[LiveScore] ${change.headline}`);
+        await importanceScoreQueue.add("score-item", {
+          newsItemId: change.id,
+          orgId,
+        });
+      }
+
+      for (const gameResultId of poll.toGrade) {
+        await betGradeQueue.add("grade-result", { gameResultId, orgId });
+      }
+    }
+
+    return { sports: live.length, results, changes };
+  } catch (error) {
+    console.error(`[LiveScore] Job ${job.id} failed:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Create and start the live score worker.
+ * Runs one check at a time so slow polls never overlap.
+ */
+export function createLiveScoreWorker() {
+  const worker = new Worker<LiveScoreJobData>(
+    QUEUE_NAMES.LIVE_SCORE,
+    async (job) => processLiveScore(job),
+    {
+      connection: getRedis(),
+      concurrency: 1,
+    }
+  );
+
+  worker.on("failed", (job, err) => {
+    console.error(`[LiveScore] Job ${job?.id} failed:`, err.message);
+  });
+
+  return worker;
+}
+
+/**
+ * Schedule the repeating live score check.
+ */
+export async function initializeLiveScorePoller() {
+  const repeatableJobs = await liveScoreQueue.instance.getRepeatableJobs();
+  for (const job of repeatableJobs) {
+    await liveScoreQueue.instance.removeRepeatableByKey(job.key);
+  }
+
+  await liveScoreQueue.add(
+    "check-live-games",
+    { type: "check-live-games" as const },
+    {
+      repeat: { every: LIVE_POLL_INTERVAL_MS },
+      jobId: "live-score-heartbeat",
+      attempts: 1,
+    }
+  );
+
+  console.log(`[LiveScore] Polling every ${LIVE_POLL_INTERVAL_MS / 1000}s while games are live`);
+}
@@ -9,6 +9,7 @@ import {
   SourceFetchJobData,
 } from "@/lib/queue";
 import { addMinutes, addDays, addHours } from "date-fns";
+import { fetchableSourceWhere } from "@/server/services/sources/source-health";
 
 // Scheduler runs every minute to check for due queries
 const SCHEDULER_INTERVAL = 60000; // 1 minute
@@ -203,8 +204,9 @@ async function processScheduledSources() {
   const dueSources = await prisma.source.findMany({
     where: {
       isScheduled: true,
-      status: { in: ["ACTIVE"] }, // Not PAUSED, ERROR, or RATE_LIMITED
       nextFetchAt: { lte: now },
+      // Healthy sources plus ERROR/RATE_LIMITED ones due a retry
+      ...fetchableSourceWhere(now),
     },
     include: {
       org: {
@@ -5,10 +5,31 @@ import {
   QUEUE_NAMES,
   SourceFetchJobData,
   importanceScoreQueue,
+  betGradeQueue,
 } from "@/lib/queue";
 import { getAdapterOrThrow } from "@/server/services/sources";
 import { isOddsAdapter, isResultsAdapter } from "@/server/services/sources/base-adapter";
-import type { Prisma } from "@prisma/client";
+import type { SourceAdapter } from "@/server/services/sources/base-adapter";
+import {
+  SKIP_REASON_MESSAGES,
+  getFetchCache,
+  fetchCacheUpdate,
+} from "@/server/services/sources/fetch-cache";
+import {
+  getFetchGate,
+  recordFetchSuccess,
+  recordFetchFailure,
+} from "@/server/services/sources/source-health";
+import { recordOddsSnapshot } from "@/server/services/odds-history.service";
+import { getTeamResolver } from "@/server/services/team-registry.service";
+import { clusterNewsItem } from "@/server/services/story.service";
+import { getPlayerResolver } from "@/server/services/player-registry.service";
+import { computeSignatures } from "@/server/services/deduplication.service";
+import { resolveGameId, saveGameResult } from "@/server/services/game.service";
+import { recordScoreChanges } from "@/server/services/live-score.service";
+import { needsGrading } from "@/server/services/bet-grading.service";
+import { detectLineMoves, getLineMoveThresholds } from "@/server/services/line-move.service";
+import type { Source } from "@prisma/client";
 import type { RawNewsItem, RawOddsData, RawGameResult } from "@/server/services/sources/types";
 import { subDays } from "date-fns";
 
@@ -21,9 +42,12 @@ export async function processSourceFetch(job: Job<SourceFetchJobData>) {
 
   console.log(`[SourceFetch] Starting job ${job.id} for source ${sourceId}`);
 
+  let source: Source | null = null;
+  let adapter: SourceAdapter | undefined;
+
   try {
     // Get source configuration
-    const source = await prisma.source.findUnique({
+    source = await prisma.source.findUnique({
       where: { id: sourceId },
     });
 
@@ -31,10 +55,11 @@ export async function processSourceFetch(job: Job<SourceFetchJobData>) {
       throw new Error(`Source not found: ${sourceId}`);
     }
 
-    // Skip if source is paused
-    if (source.status === "PAUSED") {
-      console.log(`[SourceFetch] Source ${sourceId} is paused, skipping`);
-      await updateFetchRunStatus(fetchRunId, "SKIPPED", "Source is paused");
+    // Skip if source is paused, rate limited or its circuit is open
+    const gate = getFetchGate(source, triggeredBy);
+    if (!gate.allowed) {
+      console.log(`[SourceFetch] Source ${sourceId} skipped: ${gate.reason}`);
+      await updateFetchRunStatus(fetchRunId, "SKIPPED", gate.reason);
       return;
     }
 
@@ -48,17 +73,40 @@ export async function processSourceFetch(job: Job<SourceFetchJobData>) {
     });
 
     // Get the adapter
-    const adapter = await getAdapterOrThrow(source.type);
+    adapter = await getAdapterOrThrow(source.type);
 
     // Fetch items
     const since = source.lastFetchAt || subDays(new Date(), 7);
-    const result = await adapter.fetch(source, { since, limit: 100 });
+    const result = await adapter.fetch(source, { since, limit: 100, cache: getFetchCache(source) });
+
+    // Payload unchanged since the last fetch, so record the skip and stop here
+    if (result.skipReason) {
+      await prisma.source.update({
+        where: { id: sourceId },
+        data: {
+          lastFetchAt: new Date(),
+          lastSuccessAt: new Date(),
+          fetchCount: { increment: 1 },
+          ...fetchCacheUpdate(result.cache),
+        },
+      });
+      await recordFetchSuccess(source, {});
+
+      await updateFetchRunStatus(fetchRunId, "SKIPPED", SKIP_REASON_MESSAGES[result.skipReason]);
+
+      console.log(`[SourceFetch] Job ${job.id} skipped: ${SKIP_REASON_MESSAGES[result.skipReason]}`);
+      return { itemsFetched: 0, newItems: 0, resultsCreated: 0, oddsCreated: 0 };
+    }
 
     let itemsFetched = 0;
     let newItems = 0;
     let resultsCreated = 0;
     let oddsCreated = 0;
 
+    // Canonical team names for news, results and odds
+    const teams = await getTeamResolver(orgId, source.sport);
+    const players = await getPlayerResolver(orgId, source.sport);
+
     // Process news items
     for (const item of result.items) {
       itemsFetched++;
@@ -96,11 +144,15 @@ export async function processSourceFetch(job: Job<SourceFetchJobData>) {
           players: [] as string[],
           topics: [] as string[],
           scoreBreakdown: {},
+          ...computeSignatures(item.headline, item.content),
         },
       });
 
       newItems++;
 
+      // Group with other sources' reports of the same story
+      await clusterNewsItem(newsItem, teams, players);
+
       // Queue for importance scoring
       await importanceScoreQueue.add("score-item", {
         newsItemId: newsItem.id,
@@ -114,39 +166,26 @@ export async function processSourceFetch(job: Job<SourceFetchJobData>) {
         const gameResults = await adapter.fetchResults(source, { since, limit: 100 });
         console.log(`[SourceFetch] Fetched ${gameResults.length} game results`);
 
-        for (const result of gameResults) {
-          // Upsert game result (update if exists, create if not)
-          await prisma.gameResult.upsert({
-            where: {
-              orgId_homeTeam_awayTeam_gameDate: {
-                orgId,
-                homeTeam: result.homeTeam,
-                awayTeam: result.awayTeam,
-                gameDate: result.gameDate,
-              },
-            },
-            update: {
-              homeScore: result.homeScore,
-              awayScore: result.awayScore,
-              status: result.status,
-              statsJson: (result.statsJson ?? undefined) as Prisma.InputJsonValue | undefined,
-              externalGameId: result.externalGameId,
-            },
-            create: {
-              orgId,
-              sourceId,
-              sport: source.sport,
-              homeTeam: result.homeTeam,
-              awayTeam: result.awayTeam,
-              gameDate: result.gameDate,
-              homeScore: result.homeScore,
-              awayScore: result.awayScore,
-              status: result.status,
-              statsJson: (result.statsJson ?? undefined) as Prisma.InputJsonValue | undefined,
-              externalGameId: result.externalGameId,
-            },
-          });
+        for (const result of gameResults.map((raw) => teams.resolveGame(raw))) {
+          const { previous, saved } = await saveGameResult(orgId, sourceId, source.sport, result);
           resultsCreated++;
+
+          // Grade against closing lines once the game is final
+          if (needsGrading(previous, saved)) {
+            await betGradeQueue.add("grade-result", {
+              gameResultId: saved.id,
+              orgId,
+            });
+          }
+
+          // Lead changes and finals become GAME_RESULT news items
+          const changes = await recordScoreChanges(previous, saved);
+          for (const change of changes) {
+            await importanceScoreQueue.add("score-item", {
+              newsItemId: change.id,
+              orgId,
+            });
+          }
         }
       } catch (error) {
         console.error(`[SourceFetch] Error fetching results:`, error);
@@ -158,35 +197,33 @@ export async function processSourceFetch(job: Job<SourceFetchJobData>) {
       try {
         const oddsData = await adapter.fetchOdds(source, { since, limit: 100 });
         console.log(`[SourceFetch] Fetched ${oddsData.length} odds snapshots`);
+        const lineMoveThresholds = await getLineMoveThresholds(orgId, source.sport);
 
-        for (const odds of oddsData) {
-          // Create new odds snapshot (always create to track line movement)
-          await prisma.oddsSnapshot.create({
-            data: {
-              orgId,
-              sourceId,
-              sport: source.sport,
-              homeTeam: odds.homeTeam,
-              awayTeam: odds.awayTeam,
-              gameDate: odds.gameDate,
-              externalGameId: odds.externalGameId,
-              homeMoneyline: odds.homeMoneyline,
-              awayMoneyline: odds.awayMoneyline,
-              spread: odds.spread,
-              spreadJuice: odds.spreadJuice,
-              overUnder: odds.overUnder,
-              overJuice: odds.overJuice,
-              underJuice: odds.underJuice,
-              sportsbook: odds.sportsbook,
-            },
-          });
+        for (const odds of oddsData.map((raw) => teams.resolveGame(raw))) {
+          // Append to the line history, skipping unchanged prices
+          const gameId = await resolveGameId(orgId, sourceId, source.sport, odds);
+          const snapshot = await recordOddsSnapshot(orgId, sourceId, source.sport, odds, gameId);
+          if (!snapshot) continue;
           oddsCreated++;
+
+          // Sharp moves become BETTING_LINE news items
+          const alerts = await detectLineMoves(snapshot, lineMoveThresholds);
+          for (const alert of alerts) {
+            console.log(`[SourceFetch] Line move: ${alert.headline}`);
+            await importanceScoreQueue.add("score-item", {
+              newsItemId: alert.id,
+              orgId,
+            });
+          }
         }
       } catch (error) {
         console.error(`[SourceFetch] Error fetching odds:`, error);
       }
     }
 
+    // Record team names the registry couldn't place
+    await teams.flush();
+
     // Update source status
     await prisma.source.update({
       where: { id: sourceId },
@@ -194,9 +231,16 @@ export async function processSourceFetch(job: Job<SourceFetchJobData>) {
         lastFetchAt: new Date(),
         lastSuccessAt: new Date(),
         fetchCount: { increment: 1 },
+        ...fetchCacheUpdate(result.cache),
       },
     });
 
+    // Close the circuit, or mark the source rate limited if the quota ran out
+    await recordFetchSuccess(source, {
+      remaining: result.rateLimitRemaining,
+      resetAt: result.rateLimitReset,
+    });
+
     // Update fetch run status
     await prisma.sourceFetchRun.update({
       where: { id: fetchRunId },
@@ -213,15 +257,14 @@ export async function processSourceFetch(job: Job<SourceFetchJobData>) {
   } catch (error) {
     console.error(`[SourceFetch] Job ${job.id} failed:`, error);
 
-    // Update source status
-    await prisma.source.update({
-      where: { id: sourceId },
-      data: {
-        lastErrorAt: new Date(),
-        lastErrorMessage: error instanceof Error ? error.message : "Unknown error",
-        errorCount: { increment: 1 },
-      },
-    });
+    // Update source status and health
+    if (source) {
+      await recordFetchFailure(
+        source,
+        error instanceof Error ? error.message : "Unknown error",
+        adapter?.getQuotaStatus()
+      );
+    }
 
     // Update fetch run status
     await updateFetchRunStatus(